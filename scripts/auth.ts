@@ -0,0 +1,133 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import winston from 'winston';
+
+/**
+ * Issues and checks HMAC-SHA256 signatures for image paths. A signed URL
+ * carries `expires` (Unix seconds) and `sig` query parameters. Any other query
+ * parameters, such as the rendition's `w`, `h`, `format` and `q`, are signed
+ * too, so a link to one rendition cannot be turned into another.
+ */
+export class UrlSigner {
+    private readonly secret: string;
+    private readonly ttlMs: number;
+
+    constructor(secret: string, ttlMs: number) {
+        this.secret = secret;
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Returns `pathname` with `params`, an expiry and a signature as its query.
+     */
+    sign(pathname: string, params: Record<string, string | number> = {}): string {
+        const expires = Math.floor((Date.now() + this.ttlMs) / 1000);
+        const values = Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)]));
+        const query = new URLSearchParams(values);
+        query.set('expires', String(expires));
+        query.set('sig', this.signature(pathname, expires, values));
+        return `${pathname}?${query}`;
+    }
+
+    /**
+     * Checks a request's path and parsed query. Parameters that are not plain strings, such as repeated ones, are invalid.
+     */
+    verify(pathname: string, query: Record<string, unknown>): 'ok' | 'missing' | 'invalid' | 'expired' {
+        const { expires, sig, ...params } = query;
+        if (typeof expires !== 'string' || typeof sig !== 'string') {
+            return 'missing';
+        }
+        const expiresAt = Number(expires);
+        if (!Number.isInteger(expiresAt) || Object.values(params).some(value => typeof value !== 'string')) {
+            return 'invalid';
+        }
+        if (!safeEqual(sig, this.signature(pathname, expiresAt, params as Record<string, string>))) {
+            return 'invalid';
+        }
+        return expiresAt * 1000 < Date.now() ? 'expired' : 'ok';
+    }
+
+    /**
+     * Signs the path, expiry and the other parameters sorted by name. Without parameters the input is the path and
+     * expiry alone.
+     */
+    private signature(pathname: string, expires: number, params: Record<string, string>): string {
+        const canonical = new URLSearchParams(Object.entries(params).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))).toString();
+        return createHmac('sha256', this.secret).update(`${pathname}\n${expires}${canonical ? `\n${canonical}` : ''}`).digest('hex');
+    }
+}
+
+/**
+ * Requires `Authorization: Bearer <token>` with one of `tokens`. Does nothing if no tokens are configured.
+ */
+export function requireBearerToken(tokens: string[]): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (tokens.length === 0) {
+            next();
+            return;
+        }
+        const token = bearerToken(req);
+        if (token === undefined) {
+            deny(req, res, 401, 'missing bearer token');
+        } else if (!tokens.some(candidate => safeEqual(token, candidate))) {
+            deny(req, res, 403, 'invalid bearer token');
+        } else {
+            next();
+        }
+    };
+}
+
+/**
+ * Requires a valid, unexpired signature on image requests. A valid bearer
+ * token is accepted instead, so API clients can fetch any image. Does nothing
+ * if no signer is configured.
+ */
+export function requireSignedUrl(signer: UrlSigner | undefined, tokens: string[]): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!signer) {
+            next();
+            return;
+        }
+        const token = bearerToken(req);
+        if (token !== undefined && tokens.some(candidate => safeEqual(token, candidate))) {
+            next();
+            return;
+        }
+        const result = signer.verify(req.baseUrl + req.path, req.query);
+        switch (result) {
+            case 'ok':
+                next();
+                break;
+            case 'missing':
+                deny(req, res, 401, 'missing URL signature');
+                break;
+            case 'expired':
+                deny(req, res, 403, 'expired URL signature');
+                break;
+            default:
+                deny(req, res, 403, 'invalid URL signature');
+        }
+    };
+}
+
+function bearerToken(req: Request): string | undefined {
+    const match = /^Bearer\s+(.+)$/i.exec(req.header('authorization') ?? '');
+    return match?.[1].trim();
+}
+
+function deny(req: Request, res: Response, status: 401 | 403, reason: string): void {
+    winston.warn('Denied HTTP request.', { status, reason, method: req.method, path: req.originalUrl.split('?')[0], ip: req.ip });
+    if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+    }
+    res.status(status).send(status === 401 ? 'Unauthorized' : 'Forbidden');
+}
+
+/**
+ * Constant-time string comparison, so tokens and signatures cannot be guessed byte by byte.
+ */
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,423 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+
+export const MANIFEST_FORMATS = ['csv', 'jsonl'] as const;
+export type ManifestFormat = typeof MANIFEST_FORMATS[number];
+export const MAX_BATCH_ROWS = 500;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+/**
+ * One manifest row: the generate_image arguments and the name of its output files.
+ */
+export interface ManifestRow {
+    /**
+     * The line of the row in the manifest, counting the CSV header.
+     */
+    line: number;
+    /**
+     * The file name of the row's images without extension. Rows with several images get -2, -3… suffixes.
+     */
+    outputName: string;
+    args: Record<string, unknown>;
+}
+
+export type BatchRowStatus = 'succeeded' | 'failed' | 'resumed' | 'pending';
+
+export interface BatchRowResult {
+    line: number;
+    outputName: string;
+    prompt: string;
+    /**
+     * `resumed` rows succeeded in an earlier run of the same batch and were not generated again;
+     * `pending` rows did not run because the batch was cancelled.
+     */
+    status: BatchRowStatus;
+    files: string[];
+    imageIds: string[];
+    error?: string;
+}
+
+export interface BatchReport {
+    name: string;
+    outputDir: string;
+    startedAt: string;
+    finishedAt: string;
+    total: number;
+    succeeded: number;
+    failed: number;
+    resumed: number;
+    pending: number;
+    rows: BatchRowResult[];
+}
+
+export interface BatchOptions {
+    name: string;
+    /**
+     * The batch's own folder; output files, the checkpoint and the report go here.
+     */
+    outputDir: string;
+    concurrency: number;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+    /**
+     * Generates the images of one row and returns their ids, file names and a way to read them.
+     */
+    generate: (row: ManifestRow) => Promise<{ id: string; filename: string; read: () => Promise<Buffer> }[]>;
+}
+
+/**
+ * Thrown for manifests that cannot be run, listing every problem found.
+ */
+export class ManifestError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid manifest:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'ManifestError';
+        this.problems = problems;
+    }
+}
+
+const CHECKPOINT_FILENAME = '.checkpoint.json';
+const REPORT_FILENAME = 'report.json';
+const OUTPUT_NAME_FIELD = 'output_name';
+
+interface CheckpointEntry {
+    fingerprint: string;
+    files: string[];
+    imageIds: string[];
+}
+
+/**
+ * The folder of the batch root that holds the batch roots of workspaces other than the default one.
+ */
+export const WORKSPACE_BATCHES_FOLDER = 'workspaces';
+
+/**
+ * Output names and batch names become file and folder names, so they must be a single plain path segment. The
+ * workspaces folder is reserved, so that no batch of the default workspace writes into another workspace's batches.
+ */
+export function isSafeOutputName(name: string): boolean {
+    return /^[\w][\w.-]*$/.test(name) && !name.includes('..') && name !== WORKSPACE_BATCHES_FOLDER;
+}
+
+/**
+ * Parses a CSV manifest with a header row, or JSON Lines with one object per
+ * line. `fields` are the allowed columns and their JSON Schema types; CSV
+ * cells are converted to those types and empty cells are left out.
+ */
+export function parseManifest(text: string, format: ManifestFormat | undefined, fields: Record<string, unknown>): ManifestRow[] {
+    const problems: string[] = [];
+    const resolved = format ?? (text.trimStart().startsWith('{') ? 'jsonl' : 'csv');
+    const raw = resolved === 'jsonl' ? parseJsonLines(text, problems) : parseCsvRows(text, problems);
+
+    const rows: ManifestRow[] = [];
+    const names = new Map<string, number>();
+    raw.forEach(({ line, values }, index) => {
+        const args: Record<string, unknown> = {};
+        let outputName = `row-${String(index + 1).padStart(3, '0')}`;
+        for (const [column, value] of Object.entries(values)) {
+            if (value === undefined || value === null || value === '') {
+                continue;
+            }
+            if (column === OUTPUT_NAME_FIELD) {
+                if (typeof value !== 'string' || !isSafeOutputName(value)) {
+                    problems.push(`line ${line}: ${OUTPUT_NAME_FIELD} must be a file name without slashes other than ${WORKSPACE_BATCHES_FOLDER}, got ${JSON.stringify(value)}`);
+                } else {
+                    outputName = value;
+                }
+                continue;
+            }
+            const property = fields[column] as { type?: string } | undefined;
+            if (!property) {
+                problems.push(`line ${line}: unknown field ${column}`);
+                continue;
+            }
+            const converted = typeof value === 'string' && resolved === 'csv' ? convertCell(value, property.type) : value;
+            if (converted === undefined) {
+                problems.push(`line ${line}: ${column} must be ${/^[aeiou]/.test(property.type ?? '') ? 'an' : 'a'} ${property.type}, got ${JSON.stringify(value)}`);
+                continue;
+            }
+            args[column] = converted;
+        }
+        if (typeof args.prompt !== 'string' || !args.prompt.trim()) {
+            problems.push(`line ${line}: prompt is required`);
+        }
+        const earlier = names.get(outputName);
+        if (earlier !== undefined) {
+            problems.push(`line ${line}: ${OUTPUT_NAME_FIELD} ${outputName} is already used on line ${earlier}`);
+        }
+        names.set(outputName, line);
+        rows.push({ line, outputName, args });
+    });
+
+    if (rows.length === 0 && problems.length === 0) {
+        problems.push('the manifest has no rows');
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+        problems.push(`the manifest has ${rows.length} rows, at most ${MAX_BATCH_ROWS} are allowed per batch`);
+    }
+    if (problems.length > 0) {
+        throw new ManifestError(problems);
+    }
+    return rows;
+}
+
+/**
+ * Runs the rows with at most `concurrency` at a time. Progress is
+ * checkpointed after every row, so running the same batch again only
+ * generates rows that failed, changed or never ran. Writes `report.json` to
+ * the output folder, also when cancelled.
+ */
+export async function runBatch(rows: ManifestRow[], options: BatchOptions): Promise<BatchReport> {
+    const startedAt = new Date().toISOString();
+    await fs.mkdir(options.outputDir, { recursive: true });
+    const checkpoint = new BatchCheckpoint(path.join(options.outputDir, CHECKPOINT_FILENAME));
+    await checkpoint.load();
+
+    const results: BatchRowResult[] = rows.map(row => ({
+        line: row.line,
+        outputName: row.outputName,
+        prompt: String(row.args.prompt),
+        status: 'pending',
+        files: [],
+        imageIds: [],
+    }));
+    let done = 0;
+    const finish = () => options.onProgress?.(++done, rows.length);
+
+    let next = 0;
+    const worker = async () => {
+        while (next < rows.length && !options.signal?.aborted) {
+            const index = next++;
+            const row = rows[index];
+            const result = results[index];
+            const fingerprint = fingerprintRow(row);
+
+            const previous = checkpoint.get(row.outputName);
+            if (previous?.fingerprint === fingerprint && await allExist(options.outputDir, previous.files)) {
+                Object.assign(result, { status: 'resumed', files: previous.files, imageIds: previous.imageIds });
+                finish();
+                continue;
+            }
+
+            try {
+                const images = await options.generate(row);
+                const files: string[] = [];
+                for (const [i, image] of images.entries()) {
+                    const file = `${row.outputName}${images.length > 1 ? `-${i + 1}` : ''}${path.extname(image.filename)}`;
+                    await fs.writeFile(path.join(options.outputDir, file), await image.read());
+                    files.push(file);
+                }
+                Object.assign(result, { status: 'succeeded', files, imageIds: images.map(image => image.id) });
+                await checkpoint.set(row.outputName, { fingerprint, files, imageIds: result.imageIds });
+            } catch (e: any) {
+                if (options.signal?.aborted) {
+                    break;
+                }
+                winston.warn(`Batch row failed: ${e.message}`, { batch: options.name, line: row.line, output_name: row.outputName });
+                Object.assign(result, { status: 'failed', error: e.message });
+            }
+            finish();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, rows.length) }, worker));
+
+    const count = (status: BatchRowStatus) => results.filter(result => result.status === status).length;
+    const report: BatchReport = {
+        name: options.name,
+        outputDir: options.outputDir,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        total: rows.length,
+        succeeded: count('succeeded'),
+        failed: count('failed'),
+        resumed: count('resumed'),
+        pending: count('pending'),
+        rows: results,
+    };
+    await fs.writeFile(path.join(options.outputDir, REPORT_FILENAME), JSON.stringify(report, null, 2));
+    winston.info('Batch finished.', {
+        batch: options.name, total: report.total, succeeded: report.succeeded, failed: report.failed, resumed: report.resumed, pending: report.pending,
+    });
+    options.signal?.throwIfAborted();
+    return report;
+}
+
+/**
+ * Rows finished in earlier runs, keyed by output name and stored in the batch folder.
+ */
+class BatchCheckpoint {
+    private readonly checkpointPath: string;
+    private readonly entries = new Map<string, CheckpointEntry>();
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(checkpointPath: string) {
+        this.checkpointPath = checkpointPath;
+    }
+
+    async load(): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.checkpointPath, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return;
+            }
+            throw new Error(`Could not read batch checkpoint at ${this.checkpointPath}: ${e.message}`);
+        }
+        for (const [name, entry] of Object.entries(JSON.parse(content) as Record<string, CheckpointEntry>)) {
+            this.entries.set(name, entry);
+        }
+        winston.info('Resuming batch from checkpoint.', { path: this.checkpointPath, finished_rows: this.entries.size });
+    }
+
+    get(outputName: string): CheckpointEntry | undefined {
+        return this.entries.get(outputName);
+    }
+
+    /**
+     * Records a finished row and rewrites the checkpoint. Writes are serialized.
+     */
+    set(outputName: string, entry: CheckpointEntry): Promise<void> {
+        this.entries.set(outputName, entry);
+        const next = this.writes.then(async () => {
+            const tempPath = `${this.checkpointPath}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.entries)));
+            await fs.rename(tempPath, this.checkpointPath);
+        });
+        this.writes = next.catch(e => {
+            winston.error(`Failed to write batch checkpoint: ${e.message}`, { path: this.checkpointPath });
+        });
+        return next;
+    }
+}
+
+/**
+ * Identifies what a row asks for, so an edited row is generated again on resume.
+ */
+function fingerprintRow(row: ManifestRow): string {
+    const sorted = Object.keys(row.args).sort().map(key => [key, row.args[key]]);
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('hex').slice(0, 16);
+}
+
+async function allExist(directory: string, files: string[]): Promise<boolean> {
+    try {
+        await Promise.all(files.map(file => fs.access(path.join(directory, file))));
+        return files.length > 0;
+    } catch {
+        return false;
+    }
+}
+
+function convertCell(value: string, type: string | undefined): unknown {
+    const trimmed = value.trim();
+    switch (type) {
+        case 'integer':
+        case 'number': {
+            const number = Number(trimmed);
+            return trimmed !== '' && Number.isFinite(number) && (type === 'number' || Number.isInteger(number)) ? number : undefined;
+        }
+        case 'boolean':
+            return ['true', 'yes', '1'].includes(trimmed.toLowerCase()) ? true
+                : ['false', 'no', '0'].includes(trimmed.toLowerCase()) ? false
+                    : undefined;
+        case 'array':
+            // Lists, such as references, are written as JSON in the cell.
+            try {
+                const parsed = JSON.parse(trimmed);
+                return Array.isArray(parsed) ? parsed : undefined;
+            } catch {
+                return undefined;
+            }
+        default:
+            return value;
+    }
+}
+
+function parseJsonLines(text: string, problems: string[]): { line: number; values: Record<string, unknown> }[] {
+    const rows: { line: number; values: Record<string, unknown> }[] = [];
+    text.split(/\r?\n/).forEach((content, index) => {
+        if (!content.trim()) {
+            return;
+        }
+        try {
+            const values = JSON.parse(content);
+            if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+                problems.push(`line ${index + 1}: expected a JSON object`);
+                return;
+            }
+            rows.push({ line: index + 1, values });
+        } catch (e: any) {
+            problems.push(`line ${index + 1}: ${e.message}`);
+        }
+    });
+    return rows;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks.
+ * Header names are matched case-insensitively, with spaces and dashes read as underscores.
+ */
+function parseCsvRows(text: string, problems: string[]): { line: number; values: Record<string, string> }[] {
+    const records: { line: number; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    const endRecord = () => {
+        cells.push(cell);
+        if (cells.some(value => value.trim() !== '')) {
+            records.push({ line: recordLine, cells });
+        }
+        cells = [];
+        cell = '';
+    };
+    const source = text.replace(/^﻿/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+                line += char === '\n' ? 1 : 0;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+            recordLine = ++line;
+        } else {
+            cell += char;
+        }
+    }
+    if (quoted) {
+        problems.push(`line ${recordLine}: unterminated quoted field`);
+    }
+    endRecord();
+
+    const [header, ...data] = records;
+    if (!header) {
+        return [];
+    }
+    const columns = header.cells.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    return data.map(record => {
+        if (record.cells.length > columns.length) {
+            problems.push(`line ${record.line}: ${record.cells.length} fields but the header has ${columns.length}`);
+        }
+        return { line: record.line, values: Object.fromEntries(columns.map((column, i) => [column, record.cells[i] ?? ''])) };
+    });
+}
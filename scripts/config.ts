@@ -0,0 +1,452 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { EVENT_TYPES, EventType } from './events';
+import { DEFAULT_MAX_PROMPT_TOKENS, PREFLIGHT_MODES, PreflightMode } from './preflight';
+import { REWRITE_STEPS, REWRITER_NAMES, RewriteStep } from './prompt-rewriter';
+import { DEFAULT_REQUEST_POLICY, PROVIDER_NAMES, RequestPolicyOptions, TRAFFIC_MODES, TrafficMode } from './providers';
+import { STORAGE_BACKENDS, StorageBackend } from './storage';
+import { parseWorkspaces, WorkspaceSettings } from './workspaces';
+
+/**
+ * Every setting of the server. Values are merged from, in increasing order of
+ * precedence: defaults, the config file, the selected profile in that file,
+ * environment variables and command-line flags.
+ */
+export interface Config {
+    provider: string;
+    /**
+     * The model of the default provider; other providers use their own default.
+     */
+    model?: string;
+    gemini: { apiKey?: string; baseUrl?: string };
+    vertex: { project?: string; location?: string; credentialsFile?: string; accessToken?: string; baseUrl?: string };
+    openai: { apiKey?: string; baseUrl?: string };
+    request: RequestPolicyOptions;
+    /**
+     * Whether provider requests go out live, are recorded to cassettes, or are replayed from them.
+     */
+    traffic: { mode: TrafficMode; cassetteDir: string };
+    server: {
+        port: number;
+        listenAddr: string;
+        /**
+         * The host put into image URLs.
+         */
+        imageResourceServerAddr: string;
+        transport: 'auto' | 'stdio' | 'http';
+    };
+    paths: {
+        logDir: string;
+        artifactsDir: string;
+        promptsDir: string;
+        batchesDir: string;
+        /**
+         * Directories tools may read local image files from. Empty disables file paths.
+         */
+        inputRoots: string[];
+        /**
+         * Hosts image URLs may point to even though they resolve to loopback, private or link-local addresses.
+         */
+        inputAllowedHosts: string[];
+    };
+    storage: {
+        backend: StorageBackend;
+        s3: {
+            bucket?: string;
+            prefix?: string;
+            endpoint?: string;
+            region: string;
+            forcePathStyle: boolean;
+            accessKeyId?: string;
+            secretAccessKey?: string;
+            sessionToken?: string;
+            publicUrl?: string;
+        };
+    };
+    logLevel: string;
+    jobConcurrency: number;
+    responseMode: string;
+    resultCacheTtlSeconds: number;
+    renditionCacheMb: number;
+    security: { apiTokens: string[]; adminTokens: string[]; corsOrigins: string[]; urlSigningSecret?: string; signedUrlTtlSeconds: number };
+    retention: { maxAgeDays?: number; maxMb?: number; maxFiles?: number; sweepMinutes: number };
+    usage: { pricePerImageUsd: number; dailyBudgetUsd?: number; monthlyBudgetUsd?: number };
+    preflight: { mode: PreflightMode; maxTokens: number; rewrite: RewriteStep[]; rewriter: string; rewriterModel: string };
+    webhooks: { urls: string[]; secret?: string; events: EventType[]; maxAttempts: number; timeoutMs: number };
+    /**
+     * Named workspaces from the config file, besides the implicit default one.
+     * Only the config file can declare them; a profile's list replaces the file's.
+     */
+    workspaces: Record<string, WorkspaceSettings>;
+}
+
+export type ConfigOrigin = 'default' | 'file' | 'profile' | 'env' | 'flag';
+
+export interface LoadedConfig {
+    config: Config;
+    /**
+     * The config file that was read, if any.
+     */
+    file?: string;
+    profile?: string;
+    /**
+     * Where each setting's value came from, by dotted key.
+     */
+    origins: Map<string, ConfigOrigin>;
+}
+
+export interface LoadConfigOptions {
+    /**
+     * The env-paths config and data directories, used to find the config file and for path defaults.
+     */
+    configDir: string;
+    dataDir: string;
+    env?: NodeJS.ProcessEnv;
+    /**
+     * Parsed command-line flags, by flag name.
+     */
+    flags?: Record<string, string | boolean | undefined>;
+}
+
+/**
+ * Thrown with every problem found, so they can all be fixed in one go.
+ */
+export class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+interface SettingDefinition {
+    key: string;
+    env?: string;
+    /**
+     * The command-line flag; derived from the key when not set.
+     */
+    flag?: string;
+    type: 'string' | 'integer' | 'number' | 'boolean' | 'list' | 'enum';
+    /**
+     * The allowed values of an enum, or of each item of a list.
+     */
+    values?: readonly string[];
+    min?: number;
+    max?: number;
+    default?: unknown | ((options: LoadConfigOptions) => unknown);
+    /**
+     * Masked when the configuration is printed.
+     */
+    secret?: boolean;
+    description: string;
+}
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
+
+export const SETTINGS: readonly SettingDefinition[] = [
+    { key: 'provider', env: 'IMAGE_PROVIDER', type: 'enum', values: PROVIDER_NAMES, default: 'gemini', description: 'The default image provider.' },
+    { key: 'model', env: 'IMAGE_MODEL', type: 'string', description: 'The default provider\'s model.' },
+    { key: 'gemini.apiKey', env: 'GEMINI_API_KEY', type: 'string', secret: true, description: 'Gemini API key.' },
+    { key: 'gemini.baseUrl', env: 'BASE_URL', type: 'string', description: 'Gemini API endpoint.' },
+    { key: 'vertex.project', env: 'VERTEX_PROJECT', type: 'string', description: 'Google Cloud project for Vertex AI.' },
+    { key: 'vertex.location', env: 'VERTEX_LOCATION', type: 'string', description: 'Vertex AI region, e.g. us-central1.' },
+    { key: 'vertex.credentialsFile', env: 'GOOGLE_APPLICATION_CREDENTIALS', type: 'string', description: 'Service-account key file.' },
+    { key: 'vertex.accessToken', env: 'VERTEX_ACCESS_TOKEN', type: 'string', secret: true, description: 'OAuth access token for Vertex AI.' },
+    { key: 'vertex.baseUrl', env: 'VERTEX_BASE_URL', type: 'string', description: 'Vertex AI endpoint.' },
+    { key: 'openai.apiKey', env: 'OPENAI_API_KEY', type: 'string', secret: true, description: 'OpenAI-compatible API key.' },
+    { key: 'openai.baseUrl', env: 'OPENAI_BASE_URL', type: 'string', description: 'OpenAI-compatible endpoint.' },
+    { key: 'request.timeoutMs', env: 'REQUEST_TIMEOUT_MS', type: 'integer', min: 0, default: DEFAULT_REQUEST_POLICY.timeoutMs, description: 'Timeout per provider request attempt.' },
+    { key: 'request.maxRetries', env: 'MAX_RETRIES', type: 'integer', min: 0, default: DEFAULT_REQUEST_POLICY.maxRetries, description: 'Retries for transient provider errors.' },
+    { key: 'request.baseDelayMs', env: 'RETRY_BASE_DELAY_MS', type: 'integer', min: 0, default: DEFAULT_REQUEST_POLICY.baseDelayMs, description: 'First retry delay.' },
+    { key: 'request.maxDelayMs', env: 'RETRY_MAX_DELAY_MS', type: 'integer', min: 0, default: DEFAULT_REQUEST_POLICY.maxDelayMs, description: 'Longest retry delay.' },
+    { key: 'request.requestsPerMinute', env: 'REQUESTS_PER_MINUTE', type: 'integer', min: 0, default: DEFAULT_REQUEST_POLICY.requestsPerMinute, description: 'Rate limit per provider; 0 disables it.' },
+    { key: 'traffic.mode', env: 'PROVIDER_TRAFFIC', flag: 'traffic', type: 'enum', values: TRAFFIC_MODES, default: 'live', description: 'Send provider requests live, record them to cassettes, or replay cassettes offline without credentials.' },
+    { key: 'traffic.cassetteDir', env: 'CASSETTE_DIR', flag: 'cassette-dir', type: 'string', default: (options: LoadConfigOptions) => path.join(options.dataDir, 'cassettes'), description: 'Directory of recorded provider cassettes.' },
+    { key: 'server.port', env: 'SERVER_PORT', flag: 'port', type: 'integer', min: 0, max: 65535, default: 9981, description: 'HTTP port.' },
+    { key: 'server.listenAddr', env: 'SERVER_LISTEN_ADDR', flag: 'listen-addr', type: 'string', default: '127.0.0.1', description: 'HTTP listen address.' },
+    { key: 'server.imageResourceServerAddr', env: 'IMAGE_RESOURCE_SERVER_ADDR', type: 'string', default: '127.0.0.1', description: 'Host used in image URLs.' },
+    { key: 'server.transport', env: 'MCP_TRANSPORT', flag: 'transport', type: 'enum', values: ['auto', 'stdio', 'http'], default: 'auto', description: 'MCP transport.' },
+    { key: 'paths.logDir', env: 'LOG_DIR', flag: 'log-dir', type: 'string', default: (options: LoadConfigOptions) => path.join(options.dataDir, 'logs'), description: 'Log directory.' },
+    { key: 'paths.artifactsDir', env: 'ARTIFACTS_DIR', flag: 'artifacts-dir', type: 'string', default: (options: LoadConfigOptions) => path.join(options.dataDir, 'artifacts'), description: 'Directory for images and their metadata.' },
+    { key: 'paths.promptsDir', env: 'PROMPT_TEMPLATES_DIR', flag: 'prompts-dir', type: 'string', default: (options: LoadConfigOptions) => path.join(options.configDir, 'prompts'), description: 'Directory of prompt templates.' },
+    { key: 'paths.batchesDir', env: 'BATCH_OUTPUT_DIR', flag: 'batches-dir', type: 'string', default: (options: LoadConfigOptions) => path.join(options.dataDir, 'batches'), description: 'Directory of batch output folders.' },
+    { key: 'paths.inputRoots', env: 'INPUT_IMAGE_ROOTS', flag: 'input-roots', type: 'list', default: [], description: 'Directories tools may read image files from; file paths are refused when empty.' },
+    { key: 'paths.inputAllowedHosts', env: 'INPUT_IMAGE_ALLOWED_HOSTS', flag: 'input-allowed-hosts', type: 'list', default: [], description: 'Hosts image URLs may point to although they resolve to loopback, private or link-local addresses.' },
+    { key: 'storage.backend', env: 'STORAGE_BACKEND', type: 'enum', values: STORAGE_BACKENDS, default: 'local', description: 'Where images are stored: the artifacts directory or an S3-compatible bucket.' },
+    { key: 'storage.s3.bucket', env: 'S3_BUCKET', type: 'string', description: 'Bucket of the s3 storage backend.' },
+    { key: 'storage.s3.prefix', env: 'S3_PREFIX', type: 'string', description: 'Key prefix of stored images, e.g. imagen/.' },
+    { key: 'storage.s3.endpoint', env: 'S3_ENDPOINT', type: 'string', description: 'S3 API endpoint, e.g. http://127.0.0.1:9000 for MinIO; defaults to AWS.' },
+    { key: 'storage.s3.region', env: 'S3_REGION', type: 'string', default: 'us-east-1', description: 'Region requests are signed for.' },
+    { key: 'storage.s3.forcePathStyle', env: 'S3_FORCE_PATH_STYLE', type: 'boolean', default: false, description: 'Use path-style bucket URLs, as MinIO needs.' },
+    { key: 'storage.s3.accessKeyId', env: 'AWS_ACCESS_KEY_ID', type: 'string', description: 'S3 access key id.' },
+    { key: 'storage.s3.secretAccessKey', env: 'AWS_SECRET_ACCESS_KEY', type: 'string', secret: true, description: 'S3 secret access key.' },
+    { key: 'storage.s3.sessionToken', env: 'AWS_SESSION_TOKEN', type: 'string', secret: true, description: 'Session token for temporary S3 credentials.' },
+    { key: 'storage.s3.publicUrl', env: 'S3_PUBLIC_URL', type: 'string', description: 'Base URL of a public bucket or CDN; image URLs are presigned when unset.' },
+    { key: 'logLevel', env: 'LOG_LEVEL', type: 'enum', values: LOG_LEVELS, default: 'info', description: 'Log level.' },
+    { key: 'jobConcurrency', env: 'JOB_CONCURRENCY', type: 'integer', min: 1, default: 2, description: 'Generations running at once.' },
+    { key: 'responseMode', env: 'IMAGE_RESPONSE_MODE', type: 'string', default: 'url', description: 'Default response_mode of image tools.' },
+    { key: 'resultCacheTtlSeconds', env: 'RESULT_CACHE_TTL_SECONDS', type: 'integer', min: 0, default: 0, description: 'Result cache TTL; 0 disables the cache.' },
+    { key: 'renditionCacheMb', env: 'RENDITION_CACHE_MB', type: 'number', min: 0, default: 256, description: 'Rendition cache size.' },
+    { key: 'security.apiTokens', env: 'API_TOKENS', type: 'list', default: [], secret: true, description: 'Bearer tokens for the HTTP routes.' },
+    { key: 'security.adminTokens', env: 'ADMIN_TOKENS', type: 'list', default: [], secret: true, description: 'Bearer tokens for /admin/events, the event feed of every workspace; the feed is off when empty.' },
+    { key: 'security.corsOrigins', env: 'CORS_ORIGINS', type: 'list', default: [], description: 'Origins browsers may call the HTTP routes and MCP endpoints from, e.g. http://localhost:6274; * allows any. None when empty.' },
+    { key: 'security.urlSigningSecret', env: 'URL_SIGNING_SECRET', type: 'string', secret: true, description: 'Secret for signed image URLs.' },
+    { key: 'security.signedUrlTtlSeconds', env: 'SIGNED_URL_TTL_SECONDS', type: 'integer', min: 1, default: 3600, description: 'Lifetime of signed image URLs, presigned S3 URLs included.' },
+    { key: 'retention.maxAgeDays', env: 'RETENTION_MAX_AGE_DAYS', type: 'number', min: 0, description: 'Delete images older than this.' },
+    { key: 'retention.maxMb', env: 'RETENTION_MAX_MB', type: 'number', min: 0, description: 'Keep the stored images of all workspaces, pinned ones included, under this size.' },
+    { key: 'retention.maxFiles', env: 'RETENTION_MAX_FILES', type: 'integer', min: 0, description: 'Keep at most this many images across all workspaces, pinned ones included.' },
+    { key: 'retention.sweepMinutes', env: 'RETENTION_SWEEP_MINUTES', type: 'number', min: 0, default: 10, description: 'Time between retention sweeps; 0 sweeps only at startup.' },
+    { key: 'usage.pricePerImageUsd', env: 'PRICE_PER_IMAGE_USD', type: 'number', min: 0, default: 0.03, description: 'Estimated price of one image, for the usage ledger.' },
+    { key: 'usage.dailyBudgetUsd', env: 'DAILY_BUDGET_USD', type: 'number', min: 0, description: 'Refuse generation once the estimated spend of the UTC day reaches this.' },
+    { key: 'usage.monthlyBudgetUsd', env: 'MONTHLY_BUDGET_USD', type: 'number', min: 0, description: 'Refuse generation once the estimated spend of the UTC month reaches this.' },
+    { key: 'preflight.mode', env: 'PROMPT_PREFLIGHT', type: 'enum', values: PREFLIGHT_MODES, default: 'reject', description: 'Reject prompts that fail preflight, only warn, or skip the checks.' },
+    { key: 'preflight.maxTokens', env: 'PROMPT_MAX_TOKENS', type: 'integer', min: 1, default: DEFAULT_MAX_PROMPT_TOKENS, description: 'Longest prompt accepted, in estimated tokens.' },
+    { key: 'preflight.rewrite', env: 'PROMPT_REWRITE', type: 'list', values: REWRITE_STEPS, default: [], description: 'Rewrite steps: translate non-English prompts, enhance every prompt.' },
+    { key: 'preflight.rewriter', env: 'PROMPT_REWRITER', type: 'enum', values: REWRITER_NAMES, default: 'gemini', description: 'Backend of the rewrite steps; stub works offline.' },
+    { key: 'preflight.rewriterModel', env: 'PROMPT_REWRITER_MODEL', type: 'string', default: 'gemini-2.0-flash', description: 'Text model of the gemini rewriter.' },
+    { key: 'webhooks.urls', env: 'WEBHOOK_URLS', type: 'list', default: [], description: 'URLs that receive lifecycle events as signed POSTs.' },
+    { key: 'webhooks.secret', env: 'WEBHOOK_SECRET', type: 'string', secret: true, description: 'HMAC key of the webhook signatures.' },
+    { key: 'webhooks.events', env: 'WEBHOOK_EVENTS', type: 'list', values: EVENT_TYPES, default: [], description: 'Event types sent to webhooks; all when empty.' },
+    { key: 'webhooks.maxAttempts', env: 'WEBHOOK_MAX_ATTEMPTS', type: 'integer', min: 1, default: 6, description: 'Delivery attempts before an event goes to the dead-letter log.' },
+    { key: 'webhooks.timeoutMs', env: 'WEBHOOK_TIMEOUT_MS', type: 'integer', min: 1, default: 10_000, description: 'Timeout per webhook delivery attempt.' },
+];
+
+const CONFIG_FILENAMES = ['config.json', 'config.yaml', 'config.yml'];
+const CONFIG_FILE_ENV = 'IMAGEN3_MCP_CONFIG';
+const PROFILE_ENV = 'IMAGEN3_MCP_PROFILE';
+
+/**
+ * The command-line flag of a setting, e.g. `--gemini-api-key` for `gemini.apiKey`.
+ */
+export function settingFlag(setting: SettingDefinition): string {
+    return setting.flag ?? setting.key.replace(/\./g, '-').replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Options for `util.parseArgs` covering every setting plus `--config` and `--profile`.
+ */
+export function configFlagOptions(): Record<string, { type: 'string' }> {
+    const options: Record<string, { type: 'string' }> = { config: { type: 'string' }, profile: { type: 'string' } };
+    for (const setting of SETTINGS) {
+        options[settingFlag(setting)] = { type: 'string' };
+    }
+    return options;
+}
+
+/**
+ * Loads and validates the configuration. The config file is `--config`,
+ * `IMAGEN3_MCP_CONFIG`, or the first of config.json, config.yaml and
+ * config.yml in the config directory. The profile is `--profile`,
+ * `IMAGEN3_MCP_PROFILE`, or the file's own `profile` key.
+ */
+export async function loadConfig(options: LoadConfigOptions): Promise<LoadedConfig> {
+    const env = options.env ?? process.env;
+    const flags = options.flags ?? {};
+    const problems: string[] = [];
+    const values = new Map<string, unknown>();
+    const origins = new Map<string, ConfigOrigin>();
+
+    for (const setting of SETTINGS) {
+        const fallback = typeof setting.default === 'function' ? setting.default(options) : setting.default;
+        if (fallback !== undefined) {
+            values.set(setting.key, fallback);
+            origins.set(setting.key, 'default');
+        }
+    }
+
+    const explicitFile = stringFlag(flags.config) ?? env[CONFIG_FILE_ENV];
+    const file = explicitFile ? path.resolve(explicitFile) : await findConfigFile(options.configDir);
+    let profile = stringFlag(flags.profile) ?? (env[PROFILE_ENV] || undefined);
+    let workspaces: Record<string, WorkspaceSettings> = {};
+    if (file) {
+        let document: Record<string, unknown> | undefined;
+        try {
+            document = await readConfigFile(file);
+        } catch (e: any) {
+            problems.push(e.code === 'ENOENT' ? `Config file not found: ${file}` : `Could not read config file ${file}: ${e.message}`);
+        }
+        if (document) {
+            const { profiles, profile: fileProfile, workspaces: fileWorkspaces, ...settings } = document;
+            apply(flatten(settings, file, problems), 'file', `in ${file}`);
+            if (fileWorkspaces !== undefined) {
+                workspaces = parseWorkspaces(fileWorkspaces, file, problems);
+            }
+            profile ??= typeof fileProfile === 'string' ? fileProfile : undefined;
+            if (profile) {
+                const available = isPlainObject(profiles) ? profiles : {};
+                const selected = available[profile];
+                if (isPlainObject(selected)) {
+                    const { workspaces: profileWorkspaces, ...profileSettings } = selected;
+                    apply(flatten(profileSettings, `${file} profile ${profile}`, problems), 'profile', `in profile ${profile}`);
+                    if (profileWorkspaces !== undefined) {
+                        workspaces = parseWorkspaces(profileWorkspaces, `${file} profile ${profile}`, problems);
+                    }
+                } else {
+                    problems.push(`Unknown profile: ${profile}, available profiles are: ${Object.keys(available).join(", ") || "none"}`);
+                }
+            }
+        }
+    } else if (profile) {
+        problems.push(`Profile ${profile} was requested but no config file was found in ${options.configDir}`);
+    }
+
+    for (const setting of SETTINGS) {
+        const value = setting.env ? env[setting.env] : undefined;
+        if (value !== undefined && value !== '') {
+            set(setting, value, 'env', `from ${setting.env}`);
+        }
+    }
+    for (const setting of SETTINGS) {
+        const value = flags[settingFlag(setting)];
+        if (typeof value === 'string') {
+            set(setting, value, 'flag', `from --${settingFlag(setting)}`);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+
+    const config: Record<string, any> = {};
+    for (const setting of SETTINGS) {
+        const parts = setting.key.split('.');
+        let target = config;
+        for (const part of parts.slice(0, -1)) {
+            target = target[part] ??= {};
+        }
+        target[parts[parts.length - 1]] = values.get(setting.key);
+    }
+    config.workspaces = workspaces;
+    return { config: config as Config, file, profile, origins };
+
+    function apply(entries: Map<string, unknown>, origin: ConfigOrigin, where: string): void {
+        for (const [key, raw] of entries) {
+            set(SETTINGS.find(setting => setting.key === key)!, raw, origin, where);
+        }
+    }
+
+    function set(setting: SettingDefinition, raw: unknown, origin: ConfigOrigin, where: string): void {
+        const result = coerce(setting, raw);
+        if (typeof result === 'object' && result !== null && 'problem' in result) {
+            problems.push(`Invalid ${setting.key} ${where}: ${result.problem}`);
+            return;
+        }
+        values.set(setting.key, result);
+        origins.set(setting.key, origin);
+    }
+}
+
+/**
+ * The effective configuration with secrets masked, for display.
+ */
+export function describeConfig(loaded: LoadedConfig): { key: string; value: string; origin: ConfigOrigin | 'unset' }[] {
+    return SETTINGS.map(setting => {
+        let value: unknown = setting.key.split('.').reduce<any>((target, part) => target?.[part], loaded.config);
+        if (setting.secret && value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+            value = '********';
+        }
+        return {
+            key: setting.key,
+            value: value === undefined ? '' : Array.isArray(value) ? value.join(',') : String(value),
+            origin: loaded.origins.get(setting.key) ?? 'unset',
+        };
+    });
+}
+
+async function findConfigFile(configDir: string): Promise<string | undefined> {
+    for (const name of CONFIG_FILENAMES) {
+        const candidate = path.join(configDir, name);
+        try {
+            await fs.access(candidate);
+            return candidate;
+        } catch {
+            // Try the next name.
+        }
+    }
+    return undefined;
+}
+
+async function readConfigFile(file: string): Promise<Record<string, unknown>> {
+    const text = await fs.readFile(file, 'utf8');
+    const document = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+    if (document === null || document === undefined) {
+        return {};
+    }
+    if (!isPlainObject(document)) {
+        throw new Error('the top level must be an object');
+    }
+    return document;
+}
+
+/**
+ * Turns nested sections into dotted keys and reports keys that are not settings.
+ */
+function flatten(document: Record<string, unknown>, where: string, problems: string[], prefix = ''): Map<string, unknown> {
+    const entries = new Map<string, unknown>();
+    for (const [name, value] of Object.entries(document)) {
+        const key = prefix + name;
+        if (SETTINGS.some(setting => setting.key === key)) {
+            entries.set(key, value);
+        } else if (isPlainObject(value) && SETTINGS.some(setting => setting.key.startsWith(`${key}.`))) {
+            for (const [nestedKey, nestedValue] of flatten(value, where, problems, `${key}.`)) {
+                entries.set(nestedKey, nestedValue);
+            }
+        } else {
+            problems.push(`Unknown setting ${key} in ${where}`);
+        }
+    }
+    return entries;
+}
+
+function coerce(setting: SettingDefinition, raw: unknown): unknown | { problem: string } {
+    switch (setting.type) {
+        case 'string':
+            return typeof raw === 'string' || typeof raw === 'number' ? String(raw) : { problem: `expected a string, got ${JSON.stringify(raw)}` };
+        case 'enum':
+            return typeof raw === 'string' && setting.values!.includes(raw)
+                ? raw
+                : { problem: `${JSON.stringify(raw)}, supported values are: ${setting.values!.join(", ")}` };
+        case 'boolean':
+            if (typeof raw === 'boolean') {
+                return raw;
+            }
+            if (typeof raw === 'string' && ['true', 'yes', '1', 'false', 'no', '0'].includes(raw.trim().toLowerCase())) {
+                return ['true', 'yes', '1'].includes(raw.trim().toLowerCase());
+            }
+            return { problem: `${JSON.stringify(raw)}, must be true or false` };
+        case 'list': {
+            const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : undefined;
+            if (!items || items.some(item => typeof item !== 'string')) {
+                return { problem: 'expected a list of strings or a comma-separated string' };
+            }
+            const values = items.map(item => item.trim()).filter(item => item);
+            const unsupported = setting.values ? values.filter(item => !setting.values!.includes(item)) : [];
+            if (unsupported.length > 0) {
+                return { problem: `${unsupported.join(", ")}, supported values are: ${setting.values!.join(", ")}` };
+            }
+            return values;
+        }
+        default: {
+            const parsed = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+            if (isNaN(parsed) || (setting.type === 'integer' && !Number.isInteger(parsed))) {
+                return { problem: `${JSON.stringify(raw)}, must be ${setting.type === 'integer' ? 'an integer' : 'a number'}` };
+            }
+            if ((setting.min !== undefined && parsed < setting.min) || (setting.max !== undefined && parsed > setting.max)) {
+                const range = setting.max !== undefined ? `between ${setting.min} and ${setting.max}` : `at least ${setting.min}`;
+                return { problem: `${parsed}, must be ${range}` };
+            }
+            return parsed;
+        }
+    }
+}
+
+function stringFlag(value: string | boolean | undefined): string | undefined {
+    return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+
+/**
+ * Image bytes are stored once under `blobs/<sha256>`; every saved image file is
+ * a hard link to its blob, so identical results share disk space while keeping
+ * their own names in the images directory.
+ */
+export class ContentStore {
+    private readonly blobsDir: string;
+
+    constructor(resourcesPath: string) {
+        this.blobsDir = path.join(resourcesPath, 'blobs');
+    }
+
+    async init(): Promise<void> {
+        await fs.mkdir(this.blobsDir, { recursive: true });
+    }
+
+    /**
+     * Writes `data` to `filePath` through the blob store and returns its SHA-256.
+     */
+    async write(filePath: string, data: Buffer): Promise<string> {
+        const sha256 = createHash('sha256').update(data).digest('hex');
+        const blobPath = path.join(this.blobsDir, sha256);
+
+        try {
+            await fs.access(blobPath);
+        } catch {
+            const tempPath = `${blobPath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, data);
+            await fs.rename(tempPath, blobPath);
+        }
+
+        try {
+            await fs.link(blobPath, filePath);
+        } catch (e: any) {
+            // Some file systems do not support hard links; fall back to a plain copy.
+            winston.warn(`Could not hard-link image to its blob, copying instead: ${e.message}`, { file_path: filePath });
+            await fs.copyFile(blobPath, filePath);
+        }
+        return sha256;
+    }
+
+    /**
+     * Deletes the blob behind a removed image file, unless other files still link to it.
+     */
+    async release(sha256: string): Promise<void> {
+        const blobPath = path.join(this.blobsDir, sha256);
+        try {
+            if ((await fs.stat(blobPath)).nlink <= 1) {
+                await fs.unlink(blobPath);
+            }
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Removes blobs that no image file links to any more.
+     */
+    async prune(): Promise<number> {
+        let removed = 0;
+        for (const name of await fs.readdir(this.blobsDir)) {
+            if (name.endsWith('.tmp')) {
+                // Possibly a blob another process is writing right now.
+                continue;
+            }
+            const blobPath = path.join(this.blobsDir, name);
+            const stat = await fs.stat(blobPath);
+            if (stat.isFile() && stat.nlink <= 1) {
+                await fs.unlink(blobPath);
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            winston.info('Removed unreferenced image blobs.', { removed });
+        }
+        return removed;
+    }
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import { describeConfig, LoadedConfig } from './config';
+import { ProviderRegistry } from './providers';
+import { createArtifactStorage } from './storage';
+
+export interface DoctorCheck {
+    name: string;
+    status: 'ok' | 'warn' | 'fail' | 'skip';
+    detail: string;
+}
+
+const PROBE_TIMEOUT_MS = 15_000;
+
+/**
+ * Checks that the server could start and generate images with this
+ * configuration: the provider credentials, the provider endpoint, write access
+ * to the data directories and the image storage, and the HTTP port. Nothing is generated and no MCP
+ * session is started.
+ */
+export async function runDoctor(loaded: LoadedConfig, providers: ProviderRegistry): Promise<DoctorCheck[]> {
+    const { config } = loaded;
+    const checks: DoctorCheck[] = [];
+
+    const overridden = describeConfig(loaded).filter(entry => entry.origin !== 'default' && entry.origin !== 'unset');
+    checks.push({
+        name: 'configuration',
+        status: 'ok',
+        detail: [
+            loaded.file ? `file ${loaded.file}` : 'no config file',
+            loaded.profile ? `profile ${loaded.profile}` : undefined,
+            ...overridden.map(entry => `${entry.key}=${entry.value} (${entry.origin})`),
+        ].filter(Boolean).join('; '),
+    });
+
+    const { provider, model } = providers.resolve();
+    const configError = provider.checkConfiguration();
+    checks.push(configError
+        ? { name: 'credentials', status: 'fail', detail: `${provider.name}: ${configError}` }
+        : { name: 'credentials', status: 'ok', detail: `${provider.name} is configured, default model ${model}` });
+
+    if (configError) {
+        checks.push({ name: 'endpoint', status: 'skip', detail: 'credentials are missing' });
+    } else if (config.traffic.mode === 'replay') {
+        checks.push({ name: 'endpoint', status: 'skip', detail: `replaying cassettes from ${config.traffic.cassetteDir}` });
+    } else if (!provider.probe) {
+        checks.push({ name: 'endpoint', status: 'skip', detail: `${provider.name} does not use the network` });
+    } else {
+        const started = Date.now();
+        try {
+            await provider.probe(AbortSignal.timeout(Math.max(config.request.timeoutMs, PROBE_TIMEOUT_MS)));
+            checks.push({ name: 'endpoint', status: 'ok', detail: `${provider.name} accepted the credentials in ${Date.now() - started} ms` });
+        } catch (e: any) {
+            checks.push({ name: 'endpoint', status: 'fail', detail: `${e.kind ? `${e.kind}: ` : ''}${e.message}` });
+        }
+    }
+
+    for (const [name, dir] of [['log directory', config.paths.logDir], ['artifacts directory', config.paths.artifactsDir]]) {
+        checks.push(await checkWritable(name, dir));
+    }
+    checks.push(await checkStorage(loaded));
+    checks.push(await checkPort(config.server.listenAddr, config.server.port));
+    return checks;
+}
+
+async function checkWritable(name: string, dir: string): Promise<DoctorCheck> {
+    const probePath = path.join(dir, `.doctor-${process.pid}.tmp`);
+    try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(probePath, 'ok');
+        await fs.unlink(probePath);
+        return { name, status: 'ok', detail: `${dir} is writable` };
+    } catch (e: any) {
+        return { name, status: 'fail', detail: `${dir} is not writable: ${e.message}` };
+    }
+}
+
+/**
+ * Writes and deletes a probe image in remote storage. Local storage lives in the artifacts directory checked above.
+ */
+async function checkStorage({ config }: LoadedConfig): Promise<DoctorCheck> {
+    const name = 'image storage';
+    try {
+        const storage = createArtifactStorage({
+            backend: config.storage.backend,
+            s3: { ...config.storage.s3, presignTtlSeconds: config.security.signedUrlTtlSeconds },
+        }, config.paths.artifactsDir);
+        if (!storage.probe) {
+            return { name, status: 'skip', detail: `${storage.name} storage is the artifacts directory` };
+        }
+        return { name, status: 'ok', detail: await storage.probe() };
+    } catch (e: any) {
+        return { name, status: 'fail', detail: e.message };
+    }
+}
+
+/**
+ * Binds the HTTP port briefly to see whether the server could listen on it.
+ */
+function checkPort(host: string, port: number): Promise<DoctorCheck> {
+    const name = 'http port';
+    if (port === 0) {
+        return Promise.resolve({ name, status: 'skip', detail: 'port 0 picks a free port at startup' });
+    }
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.once('error', (e: any) => {
+            const detail = e.code === 'EADDRINUSE'
+                ? `${host}:${port} is already in use; is the server already running?`
+                : `cannot listen on ${host}:${port}: ${e.message}`;
+            resolve({ name, status: 'fail', detail });
+        });
+        server.listen(port, host, () => {
+            server.close(() => resolve({ name, status: 'ok', detail: `${host}:${port} is free` }));
+        });
+    });
+}
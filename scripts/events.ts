@@ -0,0 +1,117 @@
+import { RequestHandler } from 'express';
+import { nanoid } from 'nanoid';
+import winston from 'winston';
+
+export const EVENT_TYPES = [
+    'generation.started',
+    'generation.succeeded',
+    'generation.failed',
+    'generation.cancelled',
+    'batch.finished',
+    'image.deleted',
+] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+/**
+ * How many recent events the bus keeps for SSE clients that reconnect with `Last-Event-ID`.
+ */
+const HISTORY_SIZE = 200;
+const SSE_KEEPALIVE_MS = 25_000;
+
+/**
+ * One lifecycle event, as sent to webhooks and the `/events` feed.
+ */
+export interface LifecycleEvent {
+    id: string;
+    type: EventType;
+    createdAt: string;
+    workspace: string;
+    /**
+     * Depends on the type; image events carry the image ids, URLs, prompt and parameters.
+     */
+    data: Record<string, unknown>;
+}
+
+/**
+ * Fans lifecycle events out to listeners in-process. Listeners must not throw
+ * or block; a listener that fails is logged and skipped.
+ */
+export class EventBus {
+    private readonly listeners = new Set<(event: LifecycleEvent) => void>();
+    private readonly history: LifecycleEvent[] = [];
+
+    publish(type: EventType, workspace: string, data: Record<string, unknown>): LifecycleEvent {
+        const event: LifecycleEvent = { id: nanoid(16), type, createdAt: new Date().toISOString(), workspace, data };
+        this.history.push(event);
+        if (this.history.length > HISTORY_SIZE) {
+            this.history.shift();
+        }
+        winston.debug('Published lifecycle event.', { event_id: event.id, type, workspace });
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (e: any) {
+                winston.error(`Lifecycle event listener failed: ${e.message}`, { event_id: event.id, type });
+            }
+        }
+        return event;
+    }
+
+    /**
+     * Registers a listener and returns a function that removes it.
+     */
+    subscribe(listener: (event: LifecycleEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * The kept events published after the one with `id`, or undefined when that event is no longer kept.
+     */
+    since(id: string): LifecycleEvent[] | undefined {
+        const index = this.history.findIndex(event => event.id === id);
+        return index === -1 ? undefined : this.history.slice(index + 1);
+    }
+}
+
+/**
+ * A server-sent-events feed of lifecycle events. `workspace` limits the feed to
+ * one workspace; without it, `?workspace=` may. `?types=` takes a comma-separated
+ * list of event types. Clients that reconnect with `Last-Event-ID` get the events they missed, if still kept.
+ */
+export function eventStream(bus: EventBus, workspace?: string): RequestHandler {
+    return (req, res) => {
+        const types = typeof req.query.types === 'string' ? req.query.types.split(',').map(type => type.trim()).filter(Boolean) : undefined;
+        const unknown = types?.filter(type => !(EVENT_TYPES as readonly string[]).includes(type));
+        if (unknown?.length) {
+            res.status(400).send(`Unknown event type: ${unknown.join(", ")}, supported values are: ${EVENT_TYPES.join(", ")}`);
+            return;
+        }
+        const scope = workspace ?? (typeof req.query.workspace === 'string' ? req.query.workspace : undefined);
+        const wanted = (event: LifecycleEvent) => (!scope || event.workspace === scope) && (!types || types.includes(event.type));
+
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        const send = (event: LifecycleEvent) => {
+            if (wanted(event)) {
+                res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            }
+        };
+        const lastEventId = req.header('Last-Event-ID');
+        if (lastEventId) {
+            bus.since(lastEventId)?.forEach(send);
+        }
+        const unsubscribe = bus.subscribe(send);
+        const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+        winston.info('Event stream client connected.', { workspace: scope, types });
+        res.on('close', () => {
+            clearInterval(keepalive);
+            unsubscribe();
+            winston.info('Event stream client disconnected.', { workspace: scope });
+        });
+    };
+}
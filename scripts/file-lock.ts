@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import winston from 'winston';
+
+/**
+ * A lock older than this is left over from a process that died while holding it.
+ */
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+const RETRY_DELAY_MS = 20;
+
+/**
+ * Runs `work` while holding `<file>.lock`, so processes that share the file
+ * (the server and the CLI) take turns reading and rewriting it. The lock is an
+ * exclusively created file holding the owner's pid; it is released when `work`
+ * settles and broken when it is older than {@link STALE_LOCK_MS}.
+ */
+export async function withFileLock<T>(file: string, work: () => Promise<T>): Promise<T> {
+    const lockPath = `${file}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+        try {
+            await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+            break;
+        } catch (e: any) {
+            if (e.code !== 'EEXIST') {
+                throw e;
+            }
+        }
+
+        const age = await fs.stat(lockPath).then(stats => Date.now() - stats.mtimeMs, () => 0);
+        if (age > STALE_LOCK_MS) {
+            winston.warn('Breaking stale file lock.', { path: lockPath, age_ms: Math.round(age) });
+            await fs.rm(lockPath, { force: true });
+            continue;
+        }
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for the lock on ${file}; delete ${lockPath} if no other process is using it`);
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+
+    try {
+        return await work();
+    } finally {
+        await fs.rm(lockPath, { force: true });
+    }
+}
@@ -0,0 +1,347 @@
+import express, { RequestHandler, Router } from 'express';
+import winston from 'winston';
+import { RequestContext } from './mcp';
+import { ImageMetadataStore, ImageRecord, MAX_PAGE_SIZE, SORT_FIELDS, SortField } from './metadata-store';
+
+/**
+ * What the gallery needs from the image server.
+ */
+export interface GalleryService {
+    imagePath(name: string, query?: Record<string, string | number>): string;
+    regenerate(id: string, prompt: string | undefined, context: RequestContext): Promise<ImageRecord[]>;
+}
+
+export interface GalleryOptions {
+    metadata: ImageMetadataStore;
+    service: GalleryService;
+    /**
+     * Guards the JSON API; the page itself holds no data.
+     */
+    requireToken: RequestHandler;
+}
+
+const GALLERY_PAGE_SIZE = 48;
+const THUMBNAIL_SIZE = 384;
+const GALLERY_CLIENT = { name: 'imagen3-mcp-gallery', version: '0.1.0' };
+
+/**
+ * A self-contained gallery at `/gallery/` for browsing, deleting and
+ * regenerating stored images. The page has no external assets, so it works
+ * offline. Deletes go through `DELETE /images/:id` next to the gallery, so the
+ * router also works under a workspace prefix.
+ */
+export function galleryRouter(options: GalleryOptions): Router {
+    const { metadata, service, requireToken } = options;
+    const router = Router();
+
+    router.get('/gallery', (req, res, next) => {
+        // The page loads its API with relative URLs, which need the trailing slash.
+        if (!req.originalUrl.split('?')[0].endsWith('/')) {
+            res.redirect(301, `${req.baseUrl}/gallery/`);
+            return;
+        }
+        next();
+    });
+    router.get('/gallery/', (req, res) => {
+        res.setHeader('Content-Security-Policy', "default-src 'self'; img-src 'self' data:; style-src 'unsafe-inline'; script-src 'unsafe-inline'");
+        res.type('html').send(GALLERY_HTML);
+    });
+
+    router.get('/gallery/api/images', requireToken, (req, res) => {
+        const text = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+        const sort = text(req.query.sort) ?? 'createdAt';
+        const order = text(req.query.order) ?? 'desc';
+        const page = Number(text(req.query.page) ?? 1);
+        const pageSize = Number(text(req.query.page_size) ?? GALLERY_PAGE_SIZE);
+        if (!(SORT_FIELDS as readonly string[]).includes(sort) || (order !== 'asc' && order !== 'desc')) {
+            res.status(400).send(`Invalid sort: ${sort} ${order}`);
+            return;
+        }
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            res.status(400).send(`Invalid page: ${req.query.page}, page_size: ${req.query.page_size}`);
+            return;
+        }
+
+        const result = metadata.query({
+            search: text(req.query.q),
+            provider: text(req.query.provider),
+            style: text(req.query.style),
+            sort: sort as SortField,
+            order,
+            page,
+            pageSize,
+        });
+        const all = metadata.all();
+        res.json({
+            ...result,
+            items: result.items.map(record => ({
+                ...record,
+                url: service.imagePath(record.filename),
+                thumbnail_url: service.imagePath(record.id, { w: THUMBNAIL_SIZE, h: THUMBNAIL_SIZE, format: 'webp' }),
+            })),
+            providers: distinct(all.map(record => record.provider)),
+            styles: distinct(all.map(record => record.style)),
+        });
+    });
+
+    router.post('/gallery/api/images/:id/regenerate', requireToken, express.json(), async (req, res) => {
+        const prompt = typeof req.body?.prompt === 'string' && req.body.prompt.trim() ? req.body.prompt.trim() : undefined;
+        winston.info('Gallery regenerate request.', { id: req.params.id, tweaked_prompt: prompt !== undefined });
+        try {
+            const records = await service.regenerate(req.params.id, prompt, { clientInfo: GALLERY_CLIENT, sessionId: 'gallery' });
+            res.json({
+                items: records.map(record => ({
+                    ...record,
+                    url: service.imagePath(record.filename),
+                    thumbnail_url: service.imagePath(record.id, { w: THUMBNAIL_SIZE, h: THUMBNAIL_SIZE, format: 'webp' }),
+                })),
+            });
+        } catch (e: any) {
+            const status = e.message.startsWith('Image not found') ? 404 : 422;
+            res.status(status).send(e.message);
+        }
+    });
+
+    return router;
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+    return [...new Set(values.filter((value): value is string => !!value))].sort();
+}
+
+const GALLERY_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Imagen gallery</title>
+<style>
+    :root { color-scheme: light dark; --bg: #f6f6f7; --card: #fff; --text: #1d1d1f; --muted: #6e6e73; --line: #dcdce0; --accent: #2f6fed; --danger: #c9302c; }
+    @media (prefers-color-scheme: dark) { :root { --bg: #161618; --card: #222226; --text: #f2f2f4; --muted: #a1a1a8; --line: #3a3a40; --accent: #5b8dff; --danger: #ff6b63; } }
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; background: var(--bg); color: var(--text); }
+    header { position: sticky; top: 0; z-index: 1; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 12px 16px; background: var(--bg); border-bottom: 1px solid var(--line); }
+    header h1 { font-size: 16px; margin: 0 12px 0 0; }
+    input, select, textarea, button { font: inherit; color: inherit; background: var(--card); border: 1px solid var(--line); border-radius: 6px; padding: 6px 10px; }
+    input[type=search] { flex: 1 1 240px; }
+    button { cursor: pointer; }
+    button.primary { background: var(--accent); border-color: var(--accent); color: #fff; }
+    button.danger { color: var(--danger); }
+    button:disabled { opacity: .5; cursor: default; }
+    #status { color: var(--muted); margin-left: auto; }
+    main { padding: 16px; }
+    #grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 14px; }
+    .card { background: var(--card); border: 1px solid var(--line); border-radius: 8px; overflow: hidden; cursor: pointer; display: flex; flex-direction: column; }
+    .card:focus-visible { outline: 2px solid var(--accent); }
+    .card img { width: 100%; aspect-ratio: 1; object-fit: contain; background: repeating-conic-gradient(#8882 0 25%, transparent 0 50%) 0 0 / 16px 16px; }
+    .card .prompt { padding: 8px 10px 0; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; overflow: hidden; }
+    .card .meta { padding: 4px 10px 8px; color: var(--muted); font-size: 12px; }
+    #more { display: block; margin: 20px auto; }
+    .empty { color: var(--muted); text-align: center; padding: 48px 0; }
+    dialog { width: min(1100px, 96vw); max-height: 94vh; padding: 0; border: 1px solid var(--line); border-radius: 10px; background: var(--card); color: var(--text); }
+    dialog::backdrop { background: #0009; }
+    .detail { display: grid; grid-template-columns: minmax(0, 3fr) minmax(260px, 2fr); }
+    @media (max-width: 760px) { .detail { grid-template-columns: 1fr; } }
+    .detail img { width: 100%; max-height: 86vh; object-fit: contain; background: #0002; }
+    .side { padding: 16px; display: flex; flex-direction: column; gap: 10px; overflow: auto; max-height: 86vh; }
+    .side textarea { width: 100%; min-height: 120px; resize: vertical; }
+    .side table { border-collapse: collapse; font-size: 13px; }
+    .side td { padding: 2px 8px 2px 0; vertical-align: top; word-break: break-all; }
+    .side td:first-child { color: var(--muted); white-space: nowrap; }
+    .actions { display: flex; flex-wrap: wrap; gap: 8px; }
+    .actions a { color: var(--accent); align-self: center; }
+    #close { position: absolute; top: 8px; right: 8px; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Imagen gallery</h1>
+    <input id="q" type="search" placeholder="Search prompts">
+    <select id="provider"><option value="">All providers</option></select>
+    <select id="style"><option value="">All styles</option></select>
+    <select id="sort">
+        <option value="createdAt:desc">Newest first</option>
+        <option value="createdAt:asc">Oldest first</option>
+        <option value="fileSize:desc">Largest first</option>
+        <option value="prompt:asc">Prompt A-Z</option>
+    </select>
+    <span id="status"></span>
+</header>
+<main>
+    <div id="grid"></div>
+    <p class="empty" id="empty" hidden>No images match.</p>
+    <button id="more" hidden>Load more</button>
+</main>
+<dialog id="detail">
+    <button id="close" aria-label="Close">&#x2715;</button>
+    <div class="detail">
+        <img id="d-image" alt="">
+        <div class="side">
+            <label for="d-prompt"><strong>Prompt</strong></label>
+            <textarea id="d-prompt"></textarea>
+            <div class="actions">
+                <button class="primary" id="d-regenerate">Regenerate</button>
+                <a id="d-download" download>Download</a>
+                <button class="danger" id="d-delete">Delete</button>
+            </div>
+            <span id="d-status"></span>
+            <table id="d-meta"></table>
+        </div>
+    </div>
+</dialog>
+<script>
+(() => {
+    const $ = id => document.getElementById(id);
+    const state = { page: 1, items: [], total: 0, current: null, token: localStorage.getItem('imagen3-mcp-token') || '' };
+
+    async function api(url, init = {}) {
+        const headers = Object.assign({}, init.headers);
+        if (state.token) headers.Authorization = 'Bearer ' + state.token;
+        const res = await fetch(url, Object.assign({}, init, { headers }));
+        if (res.status === 401 || res.status === 403) {
+            const token = prompt('This server requires an API token:');
+            if (token) {
+                state.token = token.trim();
+                localStorage.setItem('imagen3-mcp-token', state.token);
+                return api(url, init);
+            }
+        }
+        if (!res.ok) throw new Error(await res.text() || res.statusText);
+        return res.status === 204 ? null : res.json();
+    }
+
+    function setStatus(text) { $('status').textContent = text; }
+
+    function fillSelect(select, values) {
+        const selected = select.value;
+        while (select.options.length > 1) select.remove(1);
+        for (const value of values) select.add(new Option(value, value));
+        select.value = values.includes(selected) ? selected : '';
+    }
+
+    function card(item) {
+        const el = document.createElement('div');
+        el.className = 'card';
+        el.tabIndex = 0;
+        const img = document.createElement('img');
+        img.loading = 'lazy';
+        img.src = item.thumbnail_url;
+        img.alt = item.prompt;
+        const prompt = document.createElement('div');
+        prompt.className = 'prompt';
+        prompt.textContent = item.prompt || item.filename;
+        const meta = document.createElement('div');
+        meta.className = 'meta';
+        meta.textContent = [item.width && item.height ? item.width + '\\u00d7' + item.height : '', item.provider, new Date(item.createdAt).toLocaleString()].filter(Boolean).join(' \\u00b7 ');
+        el.append(img, prompt, meta);
+        el.addEventListener('click', () => openDetail(item));
+        el.addEventListener('keydown', e => { if (e.key === 'Enter') openDetail(item); });
+        return el;
+    }
+
+    function render() {
+        const grid = $('grid');
+        grid.replaceChildren(...state.items.map(card));
+        $('empty').hidden = state.items.length > 0;
+        $('more').hidden = state.items.length >= state.total;
+        setStatus(state.items.length + ' of ' + state.total + ' image(s)');
+    }
+
+    async function load(reset) {
+        if (reset) { state.page = 1; state.items = []; }
+        const [sort, order] = $('sort').value.split(':');
+        const params = new URLSearchParams({ page: state.page, sort, order });
+        for (const name of ['q', 'provider', 'style']) if ($(name).value) params.set(name, $(name).value);
+        setStatus('Loading\\u2026');
+        try {
+            const result = await api('api/images?' + params);
+            state.items = state.items.concat(result.items);
+            state.total = result.total;
+            fillSelect($('provider'), result.providers);
+            fillSelect($('style'), result.styles);
+            render();
+        } catch (e) {
+            setStatus('Failed to load images: ' + e.message);
+        }
+    }
+
+    function openDetail(item) {
+        state.current = item;
+        $('d-image').src = item.url;
+        $('d-image').alt = item.prompt;
+        $('d-prompt').value = item.prompt;
+        $('d-download').href = item.url;
+        $('d-download').setAttribute('download', item.filename);
+        $('d-status').textContent = '';
+        const rows = [
+            ['Id', item.id], ['Created', new Date(item.createdAt).toLocaleString()], ['Provider', item.provider], ['Model', item.model],
+            ['Style', item.style], ['Size', item.width && item.height ? item.width + ' \\u00d7 ' + item.height : ''],
+            ['File', item.filename + ' (' + Math.round(item.fileSize / 1024) + ' KB, ' + item.mimeType + ')'],
+            ['Derived from', item.derivedFrom], ['Edit mode', item.editMode], ['Pinned', item.pinned ? 'yes' : ''],
+        ];
+        for (const [name, value] of Object.entries(item.parameters || {})) {
+            rows.push([name, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+        }
+        $('d-meta').replaceChildren(...rows.filter(row => row[1]).map(([name, value]) => {
+            const tr = document.createElement('tr');
+            const key = document.createElement('td');
+            const val = document.createElement('td');
+            key.textContent = name;
+            val.textContent = value;
+            tr.append(key, val);
+            return tr;
+        }));
+        if (!$('detail').open) $('detail').showModal();
+    }
+
+    async function regenerate() {
+        const item = state.current;
+        const promptText = $('d-prompt').value.trim();
+        const button = $('d-regenerate');
+        button.disabled = true;
+        $('d-status').textContent = 'Generating\\u2026';
+        try {
+            const result = await api('api/images/' + encodeURIComponent(item.id) + '/regenerate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ prompt: promptText !== item.prompt ? promptText : undefined }),
+            });
+            state.items = result.items.concat(state.items);
+            state.total += result.items.length;
+            render();
+            if (result.items.length > 0) openDetail(result.items[0]);
+            $('d-status').textContent = 'Created ' + result.items.length + ' image(s).';
+        } catch (e) {
+            $('d-status').textContent = e.message;
+        } finally {
+            button.disabled = false;
+        }
+    }
+
+    async function remove() {
+        const item = state.current;
+        if (!confirm('Delete ' + item.filename + '?')) return;
+        try {
+            await api('../images/' + encodeURIComponent(item.id), { method: 'DELETE' });
+            state.items = state.items.filter(other => other.id !== item.id);
+            state.total--;
+            render();
+            $('detail').close();
+        } catch (e) {
+            $('d-status').textContent = 'Delete failed: ' + e.message;
+        }
+    }
+
+    let searchTimer;
+    $('q').addEventListener('input', () => { clearTimeout(searchTimer); searchTimer = setTimeout(() => load(true), 250); });
+    for (const id of ['provider', 'style', 'sort']) $(id).addEventListener('change', () => load(true));
+    $('more').addEventListener('click', () => { state.page++; load(false); });
+    $('close').addEventListener('click', () => $('detail').close());
+    $('d-regenerate').addEventListener('click', regenerate);
+    $('d-delete').addEventListener('click', remove);
+    load(true);
+})();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,331 @@
+import { randomUUID } from 'crypto';
+import express, { Request, Response } from 'express';
+import winston from 'winston';
+import {
+    ErrorCode,
+    JSONRPC_VERSION,
+    JsonRpcMessage,
+    JsonRpcResponse,
+    McpHandler,
+    McpSession,
+    SUPPORTED_PROTOCOL_VERSIONS,
+} from './mcp';
+
+const SESSION_HEADER = 'mcp-session-id';
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+const SSE_KEEPALIVE_MS = 25_000;
+
+export interface HttpTransportOptions {
+    /**
+     * Sessions without any traffic for this long are dropped. Defaults to 30 minutes.
+     */
+    sessionIdleTimeoutMs?: number;
+    /**
+     * Origins browsers may send MCP requests from; `*` allows any. Requests without an `Origin` header, which is how
+     * clients other than browsers send them, are always allowed. Defaults to none.
+     */
+    allowedOrigins?: string[];
+}
+
+/**
+ * One HTTP client. `stream` is the open server-to-client SSE response, if any.
+ */
+interface HttpSession {
+    id: string;
+    session: McpSession;
+    kind: 'streamable' | 'sse';
+    stream?: Response;
+    lastSeen: number;
+}
+
+/**
+ * Serves MCP over HTTP on an Express app, using the Streamable HTTP transport
+ * at `/mcp` and the older HTTP+SSE transport at `/sse` + `/messages` for
+ * clients that do not speak it yet. Every session is backed by the same handler.
+ */
+export class McpHttpTransport {
+    private readonly handler: McpHandler;
+    private readonly sessions = new Map<string, HttpSession>();
+    private readonly sessionIdleTimeoutMs: number;
+    private readonly allowedOrigins: string[];
+    private readonly sweeper: NodeJS.Timeout;
+
+    constructor(handler: McpHandler, options: HttpTransportOptions = {}) {
+        this.handler = handler;
+        this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+        this.allowedOrigins = options.allowedOrigins ?? [];
+        this.sweeper = setInterval(() => this.sweepIdleSessions(), 60 * 1000);
+        this.sweeper.unref();
+    }
+
+    get sessionCount(): number {
+        return this.sessions.size;
+    }
+
+    router(): express.Router {
+        const router = express.Router();
+        const json = express.json({ limit: '20mb' });
+
+        // A web page the user visits can reach a server on localhost, directly or through DNS rebinding; refuse
+        // browser requests from origins that were not allowed before they touch a session.
+        router.use(['/mcp', '/sse', '/messages'], (req, res, next) => {
+            const origin = req.header('Origin');
+            if (origin && !this.allowedOrigins.includes('*') && !this.allowedOrigins.includes(origin)) {
+                winston.warn('Rejected MCP request from a disallowed origin.', { origin, path: req.path });
+                sendHttpError(res, 403, ErrorCode.InvalidRequest, `Origin not allowed: ${origin}`);
+                return;
+            }
+            next();
+        });
+        router.post('/mcp', json, (req, res) => void this.handleStreamablePost(req, res));
+        router.get('/mcp', (req, res) => this.handleStreamableGet(req, res));
+        router.delete('/mcp', (req, res) => this.handleStreamableDelete(req, res));
+
+        router.get('/sse', (req, res) => this.handleSseConnect(req, res));
+        router.post('/messages', json, (req, res) => void this.handleSseMessage(req, res));
+
+        router.use((err: any, req: Request, res: Response, next: express.NextFunction) => {
+            if (err?.type !== 'entity.parse.failed') {
+                next(err);
+                return;
+            }
+            winston.error(`Failed to parse MCP message: ${err.message}`, { path: req.path });
+            sendHttpError(res, 400, ErrorCode.ParseError, `Parse error: ${err.message}`);
+        });
+
+        return router;
+    }
+
+    /**
+     * Ends every open stream and forgets all sessions.
+     */
+    close(): void {
+        clearInterval(this.sweeper);
+        for (const entry of this.sessions.values()) {
+            entry.stream?.end();
+            entry.session.close();
+        }
+        this.sessions.clear();
+    }
+
+    //region Streamable HTTP
+
+    private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+        const protocolVersion = req.header(PROTOCOL_VERSION_HEADER);
+        if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+            sendHttpError(res, 400, ErrorCode.InvalidRequest, `Unsupported MCP protocol version: ${protocolVersion}`);
+            return;
+        }
+
+        const body: unknown = req.body;
+        const messages = Array.isArray(body) ? body : [body];
+        if (messages.length === 0) {
+            sendHttpError(res, 400, ErrorCode.InvalidRequest, 'Invalid Request: empty batch');
+            return;
+        }
+
+        const isInitialize = messages.some(m => isRecord(m) && m.method === 'initialize');
+        let entry: HttpSession | undefined;
+
+        if (isInitialize) {
+            if (messages.length > 1) {
+                sendHttpError(res, 400, ErrorCode.InvalidRequest, 'Invalid Request: initialize must not be batched');
+                return;
+            }
+            entry = this.createSession('streamable');
+        } else {
+            entry = this.lookupSession(req, res, 'streamable');
+            if (!entry) {
+                return;
+            }
+        }
+
+        res.setHeader('Mcp-Session-Id', entry.id);
+
+        // Requests that ask for progress get an SSE response, so their
+        // notifications reach the client before the final result.
+        const wantsProgress = messages.some(m => isRecord(m) && isRecord(m.params) && isRecord(m.params._meta)
+            && m.params._meta.progressToken !== undefined);
+        if (wantsProgress && req.accepts('text/event-stream')) {
+            res.status(200);
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.flushHeaders();
+            const sendRelated = (message: JsonRpcMessage) => writeSseEvent(res, 'message', JSON.stringify(message));
+            await Promise.all(messages.map(async message => {
+                const response = await entry!.session.handleMessage(message, sendRelated);
+                if (response) {
+                    sendRelated(response);
+                }
+            }));
+            res.end();
+            return;
+        }
+
+        const responses: JsonRpcResponse[] = [];
+        for (const message of messages) {
+            const response = await entry.session.handleMessage(message);
+            if (response) {
+                responses.push(response);
+            }
+        }
+
+        if (isInitialize && responses.some(r => r.error)) {
+            // A failed handshake does not open a session.
+            this.sessions.delete(entry.id);
+            entry.session.close();
+            res.removeHeader('Mcp-Session-Id');
+        }
+
+        if (responses.length === 0) {
+            res.status(202).end();
+        } else {
+            res.json(Array.isArray(body) ? responses : responses[0]);
+        }
+    }
+
+    private handleStreamableGet(req: Request, res: Response): void {
+        if (!req.accepts('text/event-stream')) {
+            res.status(406).send('Client must accept text/event-stream');
+            return;
+        }
+        const entry = this.lookupSession(req, res, 'streamable');
+        if (!entry) {
+            return;
+        }
+        if (entry.stream) {
+            sendHttpError(res, 409, ErrorCode.InvalidRequest, 'An SSE stream is already open for this session');
+            return;
+        }
+        this.openStream(entry, res);
+    }
+
+    private handleStreamableDelete(req: Request, res: Response): void {
+        const entry = this.lookupSession(req, res, 'streamable');
+        if (!entry) {
+            return;
+        }
+        this.closeSession(entry, 'terminated by client');
+        res.status(204).end();
+    }
+
+    //endregion
+
+    //region HTTP+SSE (protocol version 2024-11-05)
+
+    private handleSseConnect(req: Request, res: Response): void {
+        const entry = this.createSession('sse');
+        this.openStream(entry, res);
+        writeSseEvent(res, 'endpoint', `${req.baseUrl}/messages?sessionId=${encodeURIComponent(entry.id)}`);
+        res.on('close', () => this.closeSession(entry, 'SSE stream closed'));
+    }
+
+    private async handleSseMessage(req: Request, res: Response): Promise<void> {
+        const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+        const entry = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (!entry || entry.kind !== 'sse') {
+            sendHttpError(res, 404, ErrorCode.InvalidRequest, 'Unknown or expired session');
+            return;
+        }
+        entry.lastSeen = Date.now();
+
+        // The reply travels over the SSE stream, so acknowledge the POST right away.
+        res.status(202).end();
+        const response = await entry.session.handleMessage(req.body);
+        if (response) {
+            this.deliver(entry, response);
+        }
+    }
+
+    //endregion
+
+    private createSession(kind: HttpSession['kind']): HttpSession {
+        const id = randomUUID();
+        const entry: HttpSession = {
+            id,
+            kind,
+            lastSeen: Date.now(),
+            session: new McpSession(this.handler, message => this.deliver(entry, message), id),
+        };
+        this.sessions.set(id, entry);
+        winston.info('Opened MCP HTTP session.', { session_id: id, transport: kind, sessions: this.sessions.size });
+        return entry;
+    }
+
+    private lookupSession(req: Request, res: Response, kind: HttpSession['kind']): HttpSession | undefined {
+        const sessionId = req.header(SESSION_HEADER);
+        if (!sessionId) {
+            sendHttpError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+            return undefined;
+        }
+        const entry = this.sessions.get(sessionId);
+        if (!entry || entry.kind !== kind) {
+            sendHttpError(res, 404, ErrorCode.InvalidRequest, 'Unknown or expired session');
+            return undefined;
+        }
+        entry.lastSeen = Date.now();
+        return entry;
+    }
+
+    private openStream(entry: HttpSession, res: Response): void {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        entry.stream = res;
+        const keepalive = setInterval(() => {
+            entry.lastSeen = Date.now();
+            res.write(': keepalive\n\n');
+        }, SSE_KEEPALIVE_MS);
+        res.on('close', () => {
+            clearInterval(keepalive);
+            if (entry.stream === res) {
+                entry.stream = undefined;
+            }
+        });
+    }
+
+    private deliver(entry: HttpSession, message: JsonRpcMessage): void {
+        if (!entry.stream) {
+            winston.debug('Dropping MCP message, no open stream for session.', { session_id: entry.id });
+            return;
+        }
+        writeSseEvent(entry.stream, 'message', JSON.stringify(message));
+    }
+
+    private closeSession(entry: HttpSession, reason: string): void {
+        if (!this.sessions.delete(entry.id)) {
+            return;
+        }
+        entry.stream?.end();
+        entry.session.close();
+        winston.info('Closed MCP HTTP session.', { session_id: entry.id, reason, sessions: this.sessions.size });
+    }
+
+    private sweepIdleSessions(): void {
+        const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+        for (const entry of this.sessions.values()) {
+            if (entry.lastSeen < cutoff) {
+                this.closeSession(entry, 'idle timeout');
+            }
+        }
+    }
+}
+
+//region Helpers
+
+function writeSseEvent(res: Response, event: string, data: string): void {
+    res.write(`event: ${event}\ndata: ${data}\n\n`);
+}
+
+function sendHttpError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({ jsonrpc: JSONRPC_VERSION, id: null, error: { code, message } });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+//endregion
@@ -0,0 +1,72 @@
+import { Buffer } from 'buffer';
+
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+/**
+ * Reads the pixel size from a PNG, JPEG or WebP header. Returns undefined for anything else.
+ */
+export function readImageDimensions(data: Buffer): ImageDimensions | undefined {
+    if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+        return readJpegDimensions(data);
+    }
+    if (data.length >= 30 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+        return readWebpDimensions(data);
+    }
+    return undefined;
+}
+
+/**
+ * Detects the MIME type from the file signature.
+ */
+export function sniffMimeType(data: Buffer): string | undefined {
+    if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) {
+        return 'image/png';
+    }
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (data.length >= 12 && data.toString('latin1', 4, 8) === 'ftyp' && ['avif', 'avis'].includes(data.toString('latin1', 8, 12))) {
+        return 'image/avif';
+    }
+    return undefined;
+}
+
+function readJpegDimensions(data: Buffer): ImageDimensions | undefined {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) {
+            return undefined;
+        }
+        const marker = data[offset + 1];
+        // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC).
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return undefined;
+}
+
+function readWebpDimensions(data: Buffer): ImageDimensions | undefined {
+    const chunk = data.toString('latin1', 12, 16);
+    if (chunk === 'VP8X') {
+        return { width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+    }
+    if (chunk === 'VP8 ') {
+        return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+        const bits = data.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    return undefined;
+}
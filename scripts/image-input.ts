@@ -0,0 +1,301 @@
+import { Buffer } from 'buffer';
+import { lookup } from 'dns/promises';
+import * as fs from 'fs/promises';
+import { BlockList, isIP } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import winston from 'winston';
+import { readImageDimensions, sniffMimeType } from './image-format';
+import { ImageMetadataStore, ImageRecord } from './metadata-store';
+import { GeneratedImage } from './providers';
+import { ArtifactStorage } from './storage';
+
+/**
+ * Largest image accepted as tool input, whatever its encoding.
+ */
+export const MAX_INPUT_IMAGE_BYTES = 20 * 1024 * 1024;
+const URL_FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Loopback, private, link-local (including cloud metadata endpoints) and other
+ * non-public ranges, which image URLs may not point to unless their host is allowed.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Reference images are sent inline to the provider, so they get tighter limits than other inputs.
+ */
+export const MAX_REFERENCE_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MIN_REFERENCE_DIMENSION = 64;
+export const MAX_REFERENCE_DIMENSION = 4096;
+
+export interface LoadedImage extends GeneratedImage {
+    /**
+     * The stored image this input refers to, when it was given by id or filename.
+     */
+    record?: ImageRecord;
+    /**
+     * The resolved path, when the input was given as a local file.
+     */
+    file?: string;
+}
+
+/**
+ * Resolves an image argument. Accepts, in this order: an http(s) URL (see
+ * {@link fetchImageUrl}), a `data:` URI, the id or filename of a stored image,
+ * a local file path inside one of `fileRoots`, or raw base64.
+ */
+export async function loadImageInput(
+    spec: string,
+    metadata: ImageMetadataStore,
+    artifacts: ArtifactStorage,
+    label = 'image',
+    fileRoots: string[] = [],
+    allowedHosts: string[] = []
+): Promise<LoadedImage> {
+    const value = spec.trim();
+    let data: Buffer;
+    let record: ImageRecord | undefined;
+    let file: string | undefined;
+    // Raw JPEG base64 starts with "/9j/", so base64 is recognised before paths.
+    const base64 = value.length > 64 && /^[A-Za-z0-9+/=\s]+$/.test(value);
+
+    if (/^https?:\/\//i.test(value)) {
+        data = await fetchImageUrl(value, label, allowedHosts);
+    } else if (value.startsWith('data:')) {
+        const match = /^data:[^;,]*;base64,(.*)$/s.exec(value);
+        if (!match) {
+            throw new Error(`Invalid ${label}: only base64 data URIs are supported`);
+        }
+        data = Buffer.from(match[1], 'base64');
+    } else if ((record = metadata.get(value))) {
+        data = await artifacts.read(record.filename);
+    } else if (!base64 && looksLikePath(value)) {
+        file = await resolveInputFile(value, fileRoots, label);
+        const { size } = await fs.stat(file);
+        if (size > MAX_INPUT_IMAGE_BYTES) {
+            throw new Error(`Invalid ${label}: ${size} bytes exceeds the limit of ${MAX_INPUT_IMAGE_BYTES} bytes`);
+        }
+        data = await fs.readFile(file);
+    } else if (base64) {
+        data = Buffer.from(value, 'base64');
+    } else {
+        throw new Error(`Invalid ${label}: no stored image with id or filename ${value}`);
+    }
+
+    if (data.length > MAX_INPUT_IMAGE_BYTES) {
+        throw new Error(`Invalid ${label}: ${data.length} bytes exceeds the limit of ${MAX_INPUT_IMAGE_BYTES} bytes`);
+    }
+    const mimeType = sniffMimeType(data);
+    if (!mimeType) {
+        throw new Error(`Invalid ${label}: not a PNG, JPEG or WebP image`);
+    }
+    return { mimeType, data, record, file };
+}
+
+/**
+ * Downloads an image argument given as a URL. Tool callers may be remote, so
+ * the server only fetches public addresses: hosts that resolve to a loopback,
+ * private or link-local address are refused unless listed in `allowedHosts`
+ * (INPUT_IMAGE_ALLOWED_HOSTS), and redirects are checked the same way. The
+ * download times out after {@link URL_FETCH_TIMEOUT_MS} and stops at
+ * {@link MAX_INPUT_IMAGE_BYTES}.
+ */
+export async function fetchImageUrl(url: string, label = 'image', allowedHosts: string[] = []): Promise<Buffer> {
+    const signal = AbortSignal.timeout(URL_FETCH_TIMEOUT_MS);
+    let current = url;
+    try {
+        for (let redirects = 0; ; redirects++) {
+            await checkUrlTarget(current, label, allowedHosts);
+            winston.info(`Fetching ${label} from URL`, { url: current });
+            const response = await fetch(current, { redirect: 'manual', signal });
+            const location = response.headers.get('location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                await response.body?.cancel();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new Error(`Failed to fetch ${label} from ${url}: more than ${MAX_REDIRECTS} redirects`);
+                }
+                current = new URL(location, current).toString();
+                continue;
+            }
+            if (!response.ok) {
+                await response.body?.cancel();
+                throw new Error(`Failed to fetch ${label} from ${current}: HTTP ${response.status}`);
+            }
+            return await readLimited(response, label);
+        }
+    } catch (e: any) {
+        if (e.name === 'TimeoutError') {
+            throw new Error(`Failed to fetch ${label} from ${url}: timed out after ${URL_FETCH_TIMEOUT_MS} ms`);
+        }
+        throw e;
+    }
+}
+
+/**
+ * Refuses URLs that are not http(s) or whose host resolves to a non-public address and is not allowed.
+ */
+async function checkUrlTarget(url: string, label: string, allowedHosts: string[]): Promise<void> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Invalid ${label}: only http and https URLs are supported, got ${parsed.protocol}`);
+    }
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (allowedHosts.some(allowed => allowed.toLowerCase() === host)) {
+        return;
+    }
+    let addresses: string[];
+    try {
+        addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+    } catch (e: any) {
+        throw new Error(`Failed to fetch ${label} from ${url}: cannot resolve ${host}: ${e.code ?? e.message}`);
+    }
+    const blocked = addresses.find(address => PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'));
+    if (blocked) {
+        winston.warn(`Refused to fetch ${label} from a non-public address.`, { url, address: blocked });
+        throw new Error(`Invalid ${label}: ${host} resolves to the non-public address ${blocked}; add the host to INPUT_IMAGE_ALLOWED_HOSTS to allow it`);
+    }
+}
+
+/**
+ * Reads a response body, failing as soon as it is larger than {@link MAX_INPUT_IMAGE_BYTES}.
+ */
+async function readLimited(response: Response, label: string): Promise<Buffer> {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > MAX_INPUT_IMAGE_BYTES) {
+        await response.body?.cancel();
+        throw new Error(`Invalid ${label}: ${declared} bytes exceeds the limit of ${MAX_INPUT_IMAGE_BYTES} bytes`);
+    }
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body!.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            return Buffer.concat(chunks);
+        }
+        size += value.length;
+        if (size > MAX_INPUT_IMAGE_BYTES) {
+            await reader.cancel();
+            throw new Error(`Invalid ${label}: the download exceeds the limit of ${MAX_INPUT_IMAGE_BYTES} bytes`);
+        }
+        chunks.push(value);
+    }
+}
+
+/**
+ * Checks a reference image's size and format. WebP is converted to PNG, which every reference-capable model accepts.
+ */
+export async function prepareReferenceImage(image: LoadedImage, label: string): Promise<LoadedImage> {
+    if (image.data.length > MAX_REFERENCE_IMAGE_BYTES) {
+        throw new Error(`Invalid ${label}: ${image.data.length} bytes exceeds the limit of ${MAX_REFERENCE_IMAGE_BYTES} bytes for reference images`);
+    }
+    const dimensions = readImageDimensions(image.data);
+    if (!dimensions) {
+        throw new Error(`Invalid ${label}: could not read the image size`);
+    }
+    const { width, height } = dimensions;
+    if (Math.min(width, height) < MIN_REFERENCE_DIMENSION || Math.max(width, height) > MAX_REFERENCE_DIMENSION) {
+        throw new Error(`Invalid ${label}: ${width}x${height} is outside the supported range of ${MIN_REFERENCE_DIMENSION} to ${MAX_REFERENCE_DIMENSION} pixels per side`);
+    }
+    if (image.mimeType === 'image/webp') {
+        return { ...image, mimeType: 'image/png', data: await sharp(image.data).png().toBuffer() };
+    }
+    return image;
+}
+
+/**
+ * Absolute, home-relative and dot-relative paths, and bare names with an image extension.
+ */
+function looksLikePath(value: string): boolean {
+    return path.isAbsolute(value) || /^~[\\/]|^\.\.?[\\/]/.test(value) || /\.(png|jpe?g|webp)$/i.test(value);
+}
+
+/**
+ * Resolves a local path, following symlinks, and makes sure it lies inside one of the allowed roots.
+ */
+async function resolveInputFile(value: string, fileRoots: string[], label: string): Promise<string> {
+    if (fileRoots.length === 0) {
+        throw new Error(`Invalid ${label}: file paths are not allowed; set INPUT_IMAGE_ROOTS to the directories images may be read from`);
+    }
+    const expanded = value.startsWith('~') ? path.join(os.homedir(), value.slice(1)) : value;
+    let resolved: string;
+    try {
+        resolved = await fs.realpath(path.resolve(expanded));
+    } catch (e: any) {
+        throw new Error(`Invalid ${label}: cannot read ${value}: ${e.code === 'ENOENT' ? 'no such file' : e.message}`);
+    }
+    for (const root of fileRoots) {
+        const realRoot = await fs.realpath(path.resolve(root)).catch(() => undefined);
+        if (realRoot && (resolved === realRoot || resolved.startsWith(realRoot + path.sep))) {
+            return resolved;
+        }
+    }
+    throw new Error(`Invalid ${label}: ${value} is outside the directories images may be read from (INPUT_IMAGE_ROOTS)`);
+}
+
+/**
+ * Scales a mask to the source size and flattens it to a grayscale PNG, as the edit models expect.
+ */
+export async function normalizeMask(mask: GeneratedImage, width: number, height: number): Promise<GeneratedImage> {
+    const data = await sharp(mask.data)
+        .resize(width, height, { fit: 'fill' })
+        .flatten({ background: '#000000' })
+        .grayscale()
+        .png()
+        .toBuffer();
+    return { mimeType: 'image/png', data };
+}
+
+/**
+ * Pads the image to the target aspect ratio, keeping it centred, and builds a
+ * mask that is white over the new area and black over the original pixels.
+ */
+export async function prepareOutpaint(
+    image: GeneratedImage,
+    aspectRatio: string
+): Promise<{ image: GeneratedImage; mask: GeneratedImage }> {
+    const { width, height } = await sharp(image.data).metadata();
+    if (!width || !height) {
+        throw new Error("Could not read the size of the source image");
+    }
+
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const target = w / h;
+    const canvasWidth = width / height < target ? Math.round(height * target) : width;
+    const canvasHeight = width / height < target ? height : Math.round(width / target);
+    if (canvasWidth === width && canvasHeight === height) {
+        throw new Error(`The source image already has an aspect ratio of ${aspectRatio}; outpaint needs a different one`);
+    }
+
+    const left = Math.floor((canvasWidth - width) / 2);
+    const top = Math.floor((canvasHeight - height) / 2);
+    const padding = { left, top, right: canvasWidth - width - left, bottom: canvasHeight - height - top };
+
+    const padded = await sharp(image.data)
+        .removeAlpha()
+        .extend({ ...padding, background: '#000000' })
+        .png()
+        .toBuffer();
+    const mask = await sharp({ create: { width: canvasWidth, height: canvasHeight, channels: 3, background: '#ffffff' } })
+        .composite([{ input: { create: { width, height, channels: 3, background: '#000000' } }, left, top }])
+        .grayscale()
+        .png()
+        .toBuffer();
+
+    return {
+        image: { mimeType: 'image/png', data: padded },
+        mask: { mimeType: 'image/png', data: mask },
+    };
+}
@@ -0,0 +1,236 @@
+import { nanoid } from 'nanoid';
+import winston from 'winston';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Handed to a running job so it can observe cancellation and report progress.
+ */
+export interface JobContext {
+    /**
+     * The job's id; undefined for work run outside the queue, such as the batch command.
+     */
+    id?: string;
+    signal: AbortSignal;
+    /**
+     * Reports progress as a percentage. Values that do not increase only update the job's status message,
+     * since MCP progress notifications must increase.
+     */
+    reportProgress(progress: number, message?: string): void;
+}
+
+export interface Job<T = unknown> {
+    id: string;
+    tool: string;
+    /**
+     * The workspace the job was queued in; the queue is shared, so callers check it before handing the job out.
+     */
+    workspace?: string;
+    status: JobStatus;
+    priority: number;
+    progress: number;
+    message?: string;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    result?: T;
+    error?: string;
+    /**
+     * The `kind` of the thrown error, if it had one, e.g. "quota" for a provider error.
+     */
+    errorKind?: string;
+}
+
+export interface JobOptions {
+    /**
+     * Higher runs first; jobs with the same priority run in submission order. Defaults to 0.
+     */
+    priority?: number;
+    workspace?: string;
+    onProgress?: (progress: number, message?: string) => void;
+}
+
+export interface JobQueueOptions {
+    concurrency: number;
+    /**
+     * How long finished jobs stay available for status queries. Defaults to one hour.
+     */
+    retentionMs?: number;
+}
+
+interface Entry<T> {
+    job: Job<T>;
+    sequence: number;
+    controller: AbortController;
+    run: (context: JobContext) => Promise<T>;
+    onProgress?: (progress: number, message?: string) => void;
+    done: Promise<Job<T>>;
+    resolve: (job: Job<T>) => void;
+}
+
+/**
+ * An in-process priority queue that runs at most `concurrency` jobs at once.
+ * Every job can be cancelled, whether it is waiting or already running.
+ */
+export class JobQueue {
+    private readonly concurrency: number;
+    private readonly retentionMs: number;
+    private readonly entries = new Map<string, Entry<any>>();
+    private readonly waiting: Entry<any>[] = [];
+    private running = 0;
+    private sequence = 0;
+
+    constructor(options: JobQueueOptions) {
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+            throw new Error(`Invalid job concurrency: ${options.concurrency}, must be a positive integer`);
+        }
+        this.concurrency = options.concurrency;
+        this.retentionMs = options.retentionMs ?? 60 * 60 * 1000;
+    }
+
+    enqueue<T>(tool: string, run: (context: JobContext) => Promise<T>, options: JobOptions = {}): Job<T> {
+        this.prune();
+        let resolve!: (job: Job<T>) => void;
+        const done = new Promise<Job<T>>(r => (resolve = r));
+        const entry: Entry<T> = {
+            job: {
+                id: nanoid(12),
+                tool,
+                workspace: options.workspace,
+                status: 'queued',
+                priority: options.priority ?? 0,
+                progress: 0,
+                createdAt: new Date().toISOString(),
+            },
+            sequence: this.sequence++,
+            controller: new AbortController(),
+            run,
+            onProgress: options.onProgress,
+            done,
+            resolve,
+        };
+
+        this.entries.set(entry.job.id, entry);
+        this.waiting.push(entry);
+        this.waiting.sort((a, b) => b.job.priority - a.job.priority || a.sequence - b.sequence);
+        winston.info('Queued job.', { job_id: entry.job.id, tool, workspace: options.workspace, priority: entry.job.priority, queued: this.waiting.length, running: this.running });
+        this.drain();
+        return entry.job;
+    }
+
+    /**
+     * Resolves with the job once it has succeeded, failed or been cancelled.
+     */
+    wait<T>(id: string): Promise<Job<T>> {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return Promise.reject(new Error(`Unknown job: ${id}`));
+        }
+        return entry.done;
+    }
+
+    get(id: string): Job | undefined {
+        this.prune();
+        return this.entries.get(id)?.job;
+    }
+
+    /**
+     * Cancels a queued or running job. Returns false if the job is unknown or already finished.
+     */
+    cancel(id: string, reason = 'Cancelled'): boolean {
+        const entry = this.entries.get(id);
+        if (!entry || !['queued', 'running'].includes(entry.job.status)) {
+            return false;
+        }
+        winston.info('Cancelling job.', { job_id: id, status: entry.job.status, reason });
+        entry.controller.abort(new Error(reason));
+
+        const index = this.waiting.indexOf(entry);
+        if (index >= 0) {
+            // Never started, so nothing else will settle it.
+            this.waiting.splice(index, 1);
+            this.finish(entry, 'cancelled', undefined, reason);
+        }
+        return true;
+    }
+
+    get stats(): { queued: number; running: number } {
+        return { queued: this.waiting.length, running: this.running };
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.waiting.length > 0) {
+            const entry = this.waiting.shift()!;
+            void this.start(entry);
+        }
+    }
+
+    private async start<T>(entry: Entry<T>): Promise<void> {
+        this.running++;
+        entry.job.status = 'running';
+        entry.job.startedAt = new Date().toISOString();
+        winston.info('Started job.', { job_id: entry.job.id, tool: entry.job.tool });
+
+        const context: JobContext = {
+            id: entry.job.id,
+            signal: entry.controller.signal,
+            reportProgress: (progress, message) => {
+                if (entry.job.status !== 'running') {
+                    return;
+                }
+                if (progress <= entry.job.progress) {
+                    entry.job.message = message ?? entry.job.message;
+                    return;
+                }
+                entry.job.progress = Math.min(progress, 100);
+                entry.job.message = message;
+                entry.onProgress?.(entry.job.progress, message);
+            },
+        };
+
+        try {
+            const result = await entry.run(context);
+            if (entry.controller.signal.aborted) {
+                this.finish(entry, 'cancelled', undefined, abortReason(entry.controller.signal));
+            } else {
+                context.reportProgress(100, 'Done');
+                this.finish(entry, 'succeeded', result);
+            }
+        } catch (e: any) {
+            if (entry.controller.signal.aborted) {
+                this.finish(entry, 'cancelled', undefined, abortReason(entry.controller.signal));
+            } else {
+                entry.job.errorKind = typeof e.kind === 'string' ? e.kind : undefined;
+                this.finish(entry, 'failed', undefined, e.message);
+            }
+        } finally {
+            this.running--;
+            this.drain();
+        }
+    }
+
+    private finish<T>(entry: Entry<T>, status: JobStatus, result?: T, error?: string): void {
+        entry.job.status = status;
+        entry.job.finishedAt = new Date().toISOString();
+        entry.job.result = result;
+        entry.job.error = error;
+        winston.info('Finished job.', { job_id: entry.job.id, tool: entry.job.tool, status, error, error_kind: entry.job.errorKind });
+        entry.resolve(entry.job);
+    }
+
+    /**
+     * Forgets finished jobs older than the retention period.
+     */
+    private prune(): void {
+        const cutoff = Date.now() - this.retentionMs;
+        for (const [id, entry] of this.entries) {
+            if (entry.job.finishedAt && Date.parse(entry.job.finishedAt) < cutoff) {
+                this.entries.delete(id);
+            }
+        }
+    }
+}
+
+function abortReason(signal: AbortSignal): string {
+    return signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'Cancelled');
+}
@@ -1,7 +1,7 @@
-import { Buffer } from 'buffer';
 import { format as formatDate } from 'date-fns';
 import envPaths from 'env-paths';
 import { nanoid } from 'nanoid';
+import { createHash } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -10,6 +10,69 @@ import 'winston-daily-rotate-file';
 import express from 'express';
 import cors from 'cors';
 import * as readline from 'readline';
+import { fstatSync } from 'fs';
+import { parseArgs } from 'util';
+import { requireBearerToken, requireSignedUrl, UrlSigner } from './auth';
+import { BatchReport, isSafeOutputName, MANIFEST_FORMATS, ManifestError, ManifestFormat, ManifestRow, MAX_BATCH_CONCURRENCY, parseManifest, runBatch, WORKSPACE_BATCHES_FOLDER } from './batch';
+import { Config, configFlagOptions, loadConfig, LoadedConfig } from './config';
+import { runDoctor } from './doctor';
+import { EventBus, eventStream, EventType } from './events';
+import { McpHttpTransport } from './http-transport';
+import { readImageDimensions } from './image-format';
+import { Job, JobContext, JobQueue } from './jobs';
+import { DEFAULT_PAGE_SIZE, ImageMetadataStore, ImageQuery, ImageRecord, MAX_PAGE_SIZE, ReferenceRecord, SORT_FIELDS, SortField } from './metadata-store';
+import { galleryRouter } from './gallery';
+import { loadImageInput, normalizeMask, prepareOutpaint, prepareReferenceImage } from './image-input';
+import { ServerMetrics } from './metrics';
+import { PreflightReport, PromptPreflight } from './preflight';
+import { expand, PromptLibrary } from './prompt-library';
+import { createPromptRewriter } from './prompt-rewriter';
+import { deriveGenerationId, embedProvenance, ImageInspection, inspectImage, Provenance } from './provenance';
+import { ConversionOptions, convertImage, MAX_RENDITION_DIMENSION, parseRenditionQuery, RENDITION_FORMATS, RenditionCache, RenditionFormat } from './renditions';
+import { ResultCache } from './result-cache';
+import { RetentionPolicy, RetentionSweeper } from './retention';
+import { ArtifactStorage, createArtifactStorage, isSafeImageName } from './storage';
+import { UsageLedger } from './usage-ledger';
+import { createWebhookDispatcher, WebhookDispatcher } from './webhooks';
+import { DEFAULT_WORKSPACE, WORKSPACE_HEADER, workspacePrefix, Workspaces, WorkspaceSettings } from './workspaces';
+import {
+    createCassettePlayer,
+    createProviderRegistry,
+    CONTROL_TYPES,
+    ControlType,
+    EDIT_MODES,
+    EditMode,
+    GeneratedImage,
+    ImageParameters,
+    ImageProvider,
+    PROVIDER_NAMES,
+    ProviderRegistry,
+    REFERENCE_TYPES,
+    ReferenceImage,
+    ReferenceType,
+    SUBJECT_TYPES,
+    SubjectType,
+} from './providers';
+import {
+    CallToolResult,
+    ClientInfo,
+    ContentBlock,
+    ErrorCode,
+    GetPromptResult,
+    LATEST_PROTOCOL_VERSION,
+    ListResourcesResult,
+    McpError,
+    McpHandler,
+    McpSession,
+    Prompt,
+    RequestContext,
+    Resource,
+    ResourceContents,
+    ResourceEvent,
+    ResourceTemplate,
+    ServerInfo,
+    ToolDefinition,
+} from './mcp';
 
 //region Type Definitions (from Rust structs)
 
@@ -19,92 +82,1529 @@ interface ImagePrompt {
      */
     prompt: string;
 
+    /**
+     * A named style preset that wraps the prompt in subject, context and style modifiers and supplies a default aspect ratio and negative prompt.
+     */
+    style?: string;
+
     /**
      * The aspect ratio of the image to generate. Supported values are "1:1", "3:4", "4:3", "9:16", and "16:9". The default is "1:1".
      */
-    aspect_ratio?: string;
-}
+    aspect_ratio?: string;
+
+    /**
+     * The number of candidate images to generate, from 1 to 4. The default is 1.
+     */
+    sample_count?: number;
+
+    /**
+     * A description of what to discourage in the generated images.
+     */
+    negative_prompt?: string;
+
+    /**
+     * A seed for deterministic generation, from 0 to 4294967295. Requires the watermark to be disabled.
+     */
+    seed?: number;
+
+    /**
+     * Whether to add an invisible SynthID watermark. The default is true.
+     */
+    add_watermark?: boolean;
+
+    /**
+     * Whether to let the model rewrite the prompt for better results.
+     */
+    enhance_prompt?: boolean;
+
+    /**
+     * Whether people may be generated. Supported values are "dont_allow", "allow_adult" and "allow_all".
+     */
+    person_generation?: string;
+
+    /**
+     * How strictly to filter unsafe content. Supported values are "block_low_and_above", "block_medium_and_above", "block_only_high" and "block_none".
+     */
+    safety_filter_level?: string;
+
+    /**
+     * The MIME type of the saved images, "image/png" (default) or "image/jpeg".
+     */
+    output_mime_type?: string;
+
+    /**
+     * Compression quality from 0 to 100. Only valid for JPEG output, or with a lossy output_format.
+     */
+    compression_quality?: number;
+
+    /**
+     * Convert the images locally before saving: "png", "jpeg", "webp" or "avif".
+     */
+    output_format?: string;
+
+    /**
+     * Scale the images down locally so neither side exceeds this many pixels.
+     */
+    max_dimension?: number;
+
+    /**
+     * The image provider to use: "gemini", "vertex", "openai" or "mock". Defaults to the server configuration.
+     */
+    provider?: string;
+
+    /**
+     * The model to use, e.g. "imagen-3.0-fast-generate-001". Defaults to the provider's configured model.
+     */
+    model?: string;
+
+    /**
+     * Images to keep a subject or style consistent with, or whose edges or scribbles to follow.
+     */
+    references?: ReferenceImageArgs[];
+
+    /**
+     * Return a job id right away instead of waiting for the images. Poll it with get_job_status.
+     */
+    async?: boolean;
+
+    /**
+     * Queue priority; higher runs first. The default is 0.
+     */
+    priority?: number;
+
+    /**
+     * How to return the images: a comma-separated list of "url", "image" and "resource_link". Defaults to the server configuration.
+     */
+    response_mode?: string;
+
+    /**
+     * Call the provider even if the result cache holds images for an identical request.
+     */
+    bypass_cache?: boolean;
+}
+
+interface ReferenceImageArgs {
+    image: string;
+    type: string;
+    description?: string;
+    subject_type?: string;
+    control_type?: string;
+    compute_control?: boolean;
+    reference_id?: number;
+}
+
+//endregion
+
+const SUPPORTED_ASPECT_RATIOS = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+const SUPPORTED_PERSON_GENERATION = ["dont_allow", "allow_adult", "allow_all"];
+const SUPPORTED_SAFETY_FILTER_LEVELS = ["block_low_and_above", "block_medium_and_above", "block_only_high", "block_none"];
+const SUPPORTED_OUTPUT_MIME_TYPES = ["image/png", "image/jpeg"];
+const RESPONSE_CONTENT_TYPES = ["url", "image", "resource_link"] as const;
+type ResponseContentType = typeof RESPONSE_CONTENT_TYPES[number];
+const IMAGE_URI_PREFIX = 'imagen://images/';
+const RESOURCE_PAGE_SIZE = 100;
+const MAX_SAMPLE_COUNT = 4;
+const MAX_SEED = 4294967295;
+const MAX_REFERENCE_IMAGES = 4;
+const SERVER_NAME = 'imagen3-mcp';
+const SERVER_VERSION = '0.1.0';
+
+/**
+ * The properties of one item of generate_image's `references`.
+ */
+const REFERENCE_ITEM_PROPERTIES: Record<string, object> = {
+    image: {
+        type: 'string',
+        description: 'The id or filename of a generated image, a local file path (if the server allows it), an http(s) URL, a data URI or raw base64. PNG, JPEG or WebP, 64 to 4096 pixels per side.',
+    },
+    type: {
+        type: 'string',
+        enum: [...REFERENCE_TYPES],
+    },
+    description: {
+        type: 'string',
+        description: 'A short description of the subject or style, e.g. "a red ceramic mug".',
+    },
+    subject_type: {
+        type: 'string',
+        enum: [...SUBJECT_TYPES],
+        description: 'For subject references. Defaults to "default".',
+    },
+    control_type: {
+        type: 'string',
+        enum: [...CONTROL_TYPES],
+        description: 'Required for control references.',
+    },
+    compute_control: {
+        type: 'boolean',
+        default: true,
+        description: 'For control references: true to derive the edge, scribble or face mesh map from a plain image, false if the image already is one.',
+    },
+    reference_id: {
+        type: 'integer',
+        description: 'The number the prompt uses for this reference. Defaults to the position in the list, starting at 1; give several images of one subject the same id.',
+    },
+};
+
+/**
+ * JSON Schema for {@link ImagePrompt}, advertised through `tools/list`.
+ */
+const IMAGE_PROMPT_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        prompt: {
+            type: 'string',
+            description: 'The prompt text for image generation. The prompt MUST be in English and at most 480 tokens; other prompts are rejected unless the server is configured to translate them. Text in quotes is drawn into the image and may be in any language.',
+        },
+        style: {
+            type: 'string',
+            description: 'A style preset that wraps the prompt in subject, context and style modifiers, e.g. "product-shot", "isometric-icon", "poster-with-text" or "ui-asset". Presets also set a default aspect ratio and negative prompt. See prompts/list for all presets.',
+        },
+        aspect_ratio: {
+            type: 'string',
+            enum: SUPPORTED_ASPECT_RATIOS,
+            default: '1:1',
+            description: 'The aspect ratio of the image to generate. The default is "1:1".',
+        },
+        sample_count: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_SAMPLE_COUNT,
+            default: 1,
+            description: 'The number of candidate images to generate.',
+        },
+        negative_prompt: {
+            type: 'string',
+            description: 'A description of what to discourage in the generated images.',
+        },
+        seed: {
+            type: 'integer',
+            minimum: 0,
+            maximum: MAX_SEED,
+            description: 'A seed for reproducible results. Requires add_watermark to be false, which is implied when it is omitted.',
+        },
+        add_watermark: {
+            type: 'boolean',
+            description: 'Whether to add an invisible SynthID watermark. The default is true unless a seed is given.',
+        },
+        enhance_prompt: {
+            type: 'boolean',
+            description: 'Whether to let the model rewrite the prompt for better results.',
+        },
+        person_generation: {
+            type: 'string',
+            enum: SUPPORTED_PERSON_GENERATION,
+            description: 'Whether people may be generated.',
+        },
+        safety_filter_level: {
+            type: 'string',
+            enum: SUPPORTED_SAFETY_FILTER_LEVELS,
+            description: 'How strictly to filter unsafe content.',
+        },
+        output_mime_type: {
+            type: 'string',
+            enum: SUPPORTED_OUTPUT_MIME_TYPES,
+            default: 'image/png',
+            description: 'The file format of the saved images.',
+        },
+        compression_quality: {
+            type: 'integer',
+            minimum: 0,
+            maximum: 100,
+            description: 'Compression quality. Only valid when output_mime_type is "image/jpeg" or output_format is "jpeg", "webp" or "avif".',
+        },
+        output_format: {
+            type: 'string',
+            enum: RENDITION_FORMATS,
+            description: 'Convert the images on this server before saving them, e.g. "webp" for smaller files. Runs offline after generation.',
+        },
+        max_dimension: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_RENDITION_DIMENSION,
+            description: 'Scale the images down on this server so neither side exceeds this many pixels.',
+        },
+        provider: {
+            type: 'string',
+            enum: PROVIDER_NAMES,
+            description: 'The image provider to use. Defaults to the server configuration.',
+        },
+        model: {
+            type: 'string',
+            description: 'The model to use, e.g. "imagen-3.0-fast-generate-001". Defaults to the provider\'s configured model.',
+        },
+        async: {
+            type: 'boolean',
+            default: false,
+            description: 'Return a job id right away instead of waiting for the images. Poll it with get_job_status.',
+        },
+        priority: {
+            type: 'integer',
+            default: 0,
+            description: 'Queue priority; higher runs first.',
+        },
+        response_mode: {
+            type: 'string',
+            description: 'How to return the images: a comma-separated list of "url" (links to the HTTP server), "image" (inline base64 image content) and "resource_link" (imagen://images/<id> resources readable over MCP). Defaults to the server configuration.',
+        },
+        bypass_cache: {
+            type: 'boolean',
+            default: false,
+            description: 'Generate new images even if an identical earlier request is cached. Only relevant when the server has the result cache enabled.',
+        },
+        references: {
+            type: 'array',
+            maxItems: MAX_REFERENCE_IMAGES,
+            description: 'Reference images that condition the generation: a subject (product, mascot, person) to keep, a style to follow, or a control image whose edges or scribbles to follow. Refer to them in the prompt by reference id, e.g. "a photo of [1] on a beach, in the style of [2]". Needs a provider with a customization model, such as vertex; the model defaults to that model.',
+            items: {
+                type: 'object',
+                properties: REFERENCE_ITEM_PROPERTIES,
+                required: ['image', 'type'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['prompt'],
+    additionalProperties: false,
+};
+
+interface ListImagesArgs {
+    query?: string;
+    sort?: string;
+    order?: string;
+    page?: number;
+    page_size?: number;
+}
+
+const LIST_IMAGES_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        query: {
+            type: 'string',
+            description: 'Only return images whose prompt contains this text (case-insensitive).',
+        },
+        sort: {
+            type: 'string',
+            enum: [...SORT_FIELDS],
+            default: 'createdAt',
+            description: 'The field to sort by.',
+        },
+        order: {
+            type: 'string',
+            enum: ['asc', 'desc'],
+            default: 'desc',
+            description: 'The sort direction.',
+        },
+        page: {
+            type: 'integer',
+            minimum: 1,
+            default: 1,
+            description: 'The 1-based page number.',
+        },
+        page_size: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_PAGE_SIZE,
+            default: DEFAULT_PAGE_SIZE,
+            description: 'The number of images per page.',
+        },
+    },
+    additionalProperties: false,
+};
+
+interface ImageInfoArgs {
+    id: string;
+}
+
+const IMAGE_INFO_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        id: {
+            type: 'string',
+            description: 'The image id or filename, as returned by list_images or in a generated image URL.',
+        },
+    },
+    required: ['id'],
+    additionalProperties: false,
+};
+
+interface InspectImageArgs {
+    image: string;
+}
+
+const INSPECT_IMAGE_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        image: {
+            type: 'string',
+            description: 'The image to inspect: the id or filename of a generated image, an http(s) URL, a data URI or raw base64.',
+        },
+    },
+    required: ['image'],
+    additionalProperties: false,
+};
+
+interface PinImageArgs {
+    id: string;
+    pinned?: boolean;
+}
+
+const PIN_IMAGE_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        id: IMAGE_INFO_SCHEMA.properties.id,
+        pinned: {
+            type: 'boolean',
+            default: true,
+            description: 'true to keep the image from being deleted by the retention policy, false to unpin it.',
+        },
+    },
+    required: ['id'],
+    additionalProperties: false,
+};
+
+interface EditImageArgs {
+    image: string;
+    edit_mode: string;
+    prompt?: string;
+    mask?: string;
+    aspect_ratio?: string;
+    sample_count?: number;
+    negative_prompt?: string;
+    seed?: number;
+    provider?: string;
+    model?: string;
+    async?: boolean;
+    priority?: number;
+    response_mode?: string;
+}
+
+const EDIT_IMAGE_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        image: {
+            type: 'string',
+            description: 'The source image: the id or filename of a generated image, an http(s) URL, a data URI or raw base64.',
+        },
+        edit_mode: {
+            type: 'string',
+            enum: [...EDIT_MODES],
+            description: 'inpaint-insert adds or replaces content inside the mask, inpaint-remove erases it, outpaint extends the canvas to aspect_ratio, background-swap replaces everything but the main subject.',
+        },
+        prompt: {
+            type: 'string',
+            description: 'What to put in the edited area, in English. Required for every mode except inpaint-remove.',
+        },
+        mask: {
+            type: 'string',
+            description: 'A mask image in the same forms as image; white marks the area to edit. Required for inpaint modes; outpaint builds its own and background-swap detects the background when omitted.',
+        },
+        aspect_ratio: {
+            type: 'string',
+            enum: SUPPORTED_ASPECT_RATIOS,
+            description: 'The target aspect ratio for outpaint.',
+        },
+        sample_count: IMAGE_PROMPT_SCHEMA.properties.sample_count,
+        negative_prompt: IMAGE_PROMPT_SCHEMA.properties.negative_prompt,
+        seed: IMAGE_PROMPT_SCHEMA.properties.seed,
+        provider: IMAGE_PROMPT_SCHEMA.properties.provider,
+        model: {
+            type: 'string',
+            description: 'The edit model to use, e.g. "imagen-3.0-capability-001". Defaults to the provider\'s edit model.',
+        },
+        async: IMAGE_PROMPT_SCHEMA.properties.async,
+        priority: IMAGE_PROMPT_SCHEMA.properties.priority,
+        response_mode: IMAGE_PROMPT_SCHEMA.properties.response_mode,
+    },
+    required: ['image', 'edit_mode'],
+    additionalProperties: false,
+};
+
+interface GenerateBatchArgs {
+    manifest: string;
+    name: string;
+    format?: string;
+    concurrency?: number;
+    async?: boolean;
+    priority?: number;
+}
+
+/**
+ * The generate_image fields a manifest row can set. Queueing and the response shape are the batch's own.
+ */
+const MANIFEST_FIELDS = Object.fromEntries(
+    Object.entries(IMAGE_PROMPT_SCHEMA.properties).filter(([field]) => !['async', 'priority', 'response_mode'].includes(field))
+);
+
+const GENERATE_BATCH_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        manifest: {
+            type: 'string',
+            description: 'The rows to generate: CSV with a header row, or JSON Lines with one object per line. Columns are generate_image arguments (prompt is required; aspect_ratio, style, negative_prompt, sample_count, seed, output_format…) plus output_name, the file name of the row\'s images without extension.',
+        },
+        name: {
+            type: 'string',
+            description: 'The output folder. Running a batch with the same name again resumes it: rows that already succeeded are not generated again.',
+        },
+        format: {
+            type: 'string',
+            enum: [...MANIFEST_FORMATS],
+            description: 'The manifest format. Detected from the content when omitted.',
+        },
+        concurrency: {
+            type: 'integer',
+            default: 2,
+            description: `Rows generated at once, from 1 to ${MAX_BATCH_CONCURRENCY}.`,
+        },
+        async: {
+            type: 'boolean',
+            default: false,
+            description: 'Return a job id right away instead of waiting for the report. Poll it with get_job_status.',
+        },
+        priority: IMAGE_PROMPT_SCHEMA.properties.priority,
+    },
+    required: ['manifest', 'name'],
+    additionalProperties: false,
+};
+
+interface JobArgs {
+    job_id: string;
+}
+
+const JOB_ARGS_SCHEMA: ToolDefinition['inputSchema'] = {
+    type: 'object',
+    properties: {
+        job_id: {
+            type: 'string',
+            description: 'The job id returned by a call made with async: true.',
+        },
+    },
+    required: ['job_id'],
+    additionalProperties: false,
+};
+
+interface ImageGenerationServerOptions {
+    providers: ProviderRegistry;
+    metadata: ImageMetadataStore;
+    /**
+     * Where the image files are stored.
+     */
+    artifacts: ArtifactStorage;
+    /**
+     * Set when the result cache is enabled.
+     */
+    cache?: ResultCache;
+    jobs: JobQueue;
+    /**
+     * Style presets and prompt templates, served through MCP prompts.
+     */
+    prompts: PromptLibrary;
+    /**
+     * Checks, and optionally rewrites, prompts before they reach a provider.
+     */
+    preflight: PromptPreflight;
+    metrics: ServerMetrics;
+    /**
+     * Records usage per client and enforces the budget caps.
+     */
+    usage: UsageLedger;
+    /**
+     * Receives the lifecycle events of generations and deletions, for webhooks and the `/events` feed.
+     */
+    events: EventBus;
+    imageResourceServerAddr: string;
+    serverPort: number;
+    /**
+     * Where generate_batch creates its output folders.
+     */
+    batchesDir: string;
+    /**
+     * Directories image arguments may be read from as local file paths. Empty to refuse file paths.
+     */
+    inputRoots: string[];
+    /**
+     * Non-public hosts that image arguments given as URLs may still be fetched from.
+     */
+    inputAllowedHosts: string[];
+    /**
+     * Set when image URLs must be signed.
+     */
+    urlSigner?: UrlSigner;
+    /**
+     * The content returned for generated images when a call does not set response_mode.
+     */
+    responseMode: ResponseContentType[];
+    /**
+     * The workspace this instance serves and its defaults. `providers` is already limited to the workspace's providers.
+     */
+    workspace: string;
+    workspaceSettings: WorkspaceSettings;
+    /**
+     * The instances of every workspace, for sessions and tool calls that pick another one.
+     */
+    workspaces: Workspaces<ImageGenerationServer>;
+}
+
+class ImageGenerationServer implements McpHandler {
+    private readonly providers: ProviderRegistry;
+    private readonly metadata: ImageMetadataStore;
+    private readonly artifacts: ArtifactStorage;
+    private readonly cache?: ResultCache;
+    private readonly jobs: JobQueue;
+    private readonly prompts: PromptLibrary;
+    private readonly preflight: PromptPreflight;
+    private readonly metrics: ServerMetrics;
+    private readonly usage: UsageLedger;
+    private readonly events: EventBus;
+    private readonly imageResourceServerAddr: string;
+    private readonly serverPort: number;
+    private readonly batchesDir: string;
+    private readonly inputRoots: string[];
+    private readonly inputAllowedHosts: string[];
+    private readonly urlSigner?: UrlSigner;
+    private readonly responseMode: ResponseContentType[];
+    private readonly workspace: string;
+    private readonly workspaceSettings: WorkspaceSettings;
+    private readonly workspaces: Workspaces<ImageGenerationServer>;
+    private readonly resourceListeners = new Set<(event: ResourceEvent) => void>();
+
+    constructor(options: ImageGenerationServerOptions) {
+        this.providers = options.providers;
+        this.metadata = options.metadata;
+        this.artifacts = options.artifacts;
+        this.cache = options.cache;
+        this.jobs = options.jobs;
+        this.prompts = options.prompts;
+        this.preflight = options.preflight;
+        this.metrics = options.metrics;
+        this.usage = options.usage;
+        this.events = options.events;
+        this.imageResourceServerAddr = options.imageResourceServerAddr;
+        this.serverPort = options.serverPort;
+        this.batchesDir = options.batchesDir;
+        this.inputRoots = options.inputRoots;
+        this.inputAllowedHosts = options.inputAllowedHosts;
+        this.urlSigner = options.urlSigner;
+        this.responseMode = options.responseMode;
+        this.workspace = options.workspace;
+        this.workspaceSettings = options.workspaceSettings;
+        this.workspaces = options.workspaces;
+    }
+
+    /**
+     * Generate an image based on a prompt. Returns an image URL that can be used in markdown format like ![description](URL) to display the image
+     */
+    async generate_image(args: ImagePrompt, context: RequestContext = {}): Promise<CallToolResult> {
+        winston.info('Received image generation request', { args });
+
+        const prepared = await this.preflightImagePrompt(args, context.signal);
+        if (typeof prepared === 'string') {
+            winston.error(prepared);
+            return textResult(prepared, true);
+        }
+        const responseMode = this.resolveResponseMode(prepared.args.response_mode);
+
+        return this.runAsJob('generate_image', prepared.args, context, "Error generating image", async job => {
+            const saved = await this.trackGeneration('generate_image', job, context, prepared.args.prompt, buildImageParameters(prepared.args),
+                { style: prepared.args.style }, () => this.produceImages(prepared.args, context, job));
+            return withPreflightNote(await this.imagesResult(saved, responseMode), prepared.report);
+        });
+    }
+
+    /**
+     * Publishes `generation.started`, runs the generation, then publishes `generation.succeeded` with the saved
+     * images or `generation.failed` (`generation.cancelled` when the job was cancelled).
+     */
+    private async trackGeneration(
+        tool: string,
+        job: JobContext,
+        context: RequestContext,
+        prompt: string,
+        parameters: ImageParameters,
+        details: Record<string, unknown>,
+        work: () => Promise<SavedImage[]>
+    ): Promise<SavedImage[]> {
+        const data = { job_id: job.id, tool, prompt, parameters, ...details, client: context.clientInfo?.name };
+        this.publishEvent('generation.started', data);
+        let saved: SavedImage[];
+        try {
+            saved = await work();
+        } catch (e: any) {
+            this.publishEvent(job.signal.aborted ? 'generation.cancelled' : 'generation.failed', { ...data, error: e.message, error_kind: e.kind });
+            throw e;
+        }
+        const records = saved.map(image => this.metadata.get(image.id)).filter((record): record is ImageRecord => record !== undefined);
+        this.publishEvent('generation.succeeded', {
+            ...data,
+            provider: records[0]?.provider,
+            model: records[0]?.model,
+            images: records.map(record => this.describeEventImage(record)),
+        });
+        return saved;
+    }
+
+    /**
+     * Runs the prompt preflight on the caller's prompt and returns the arguments to generate with, or an error message.
+     * The style preset is applied after any rewrite.
+     */
+    private async preflightImagePrompt(args: ImagePrompt, signal?: AbortSignal): Promise<{ args: ImagePrompt; report: PreflightReport } | string> {
+        const prepare = (prompt: string) => this.prepareImagePrompt({ ...args, prompt });
+        const prepared = prepare(args.prompt);
+        if (typeof prepared === 'string') {
+            return prepared;
+        }
+        const report = await this.preflight.run(args.prompt, signal, prompt => {
+            const expanded = prepare(prompt);
+            return typeof expanded === 'string' ? prompt : expanded.prompt;
+        });
+        if (!report.ok) {
+            winston.warn('Prompt failed preflight.', { issues: report.issues });
+            return `Prompt failed preflight:\n${JSON.stringify(report, null, 2)}`;
+        }
+        const rewritten = report.prompt === args.prompt ? prepared : prepare(report.prompt);
+        return typeof rewritten === 'string' ? rewritten : { args: rewritten, report };
+    }
+
+    /**
+     * Applies the workspace defaults and the style preset and validates the arguments. Returns an error message for
+     * invalid arguments. The workspace's aspect ratio wins over the preset's.
+     */
+    private prepareImagePrompt(args: ImagePrompt): ImagePrompt | string {
+        const { aspectRatio, style } = this.workspaceSettings;
+        args = { ...args, aspect_ratio: args.aspect_ratio ?? aspectRatio, style: args.style ?? style };
+        if (args.style) {
+            const preset = this.prompts.preset(args.style);
+            if (!preset) {
+                return `Unknown style: ${args.style}, available styles are: ${this.prompts.presetNames().join(", ")}`;
+            }
+            args = { ...args, ...expand(preset, args) };
+            winston.info('Applied style preset', { style: args.style, prompt: args.prompt });
+        }
+        return validateImagePrompt(args) ?? args;
+    }
+
+    /**
+     * Generates and saves the images for prepared arguments, or returns the cached images of an identical earlier request.
+     */
+    private async produceImages(args: ImagePrompt, context: RequestContext, job: JobContext): Promise<SavedImage[]> {
+        const { provider, model } = args.references?.length
+            ? this.providers.resolveReferences(args.provider, args.model)
+            : this.providers.resolve(args.provider, args.model);
+        const parameters = buildImageParameters(args);
+        if (args.references?.length) {
+            job.reportProgress(5, 'Loading reference images');
+        }
+        const { references, referenceRecords } = await this.loadReferences(args.references ?? []);
+
+        const conversion = conversionOptions(args);
+        const cacheKey = this.cache ? ResultCache.key(provider.name, model, args.prompt, parameters, conversion, referenceRecords) : undefined;
+        if (this.cache && cacheKey && !args.bypass_cache) {
+            const cachedIds = this.cache.lookup(cacheKey, ids => ids.every(id => this.metadata.get(id)));
+            this.metrics.cacheLookups.inc({ result: cachedIds ? 'hit' : 'miss' });
+            if (cachedIds) {
+                return cachedIds.map(id => this.metadata.get(id)!);
+            }
+        }
+
+        winston.info('Generating image', {
+            provider: provider.name,
+            model,
+            prompt: args.prompt,
+            parameters,
+            prompt_length: args.prompt.length,
+            references: referenceRecords?.map(({ type, referenceId, sha256 }) => ({ type, referenceId, sha256 })),
+        });
+        let images = await withHeartbeat(job, 10, 85, `Waiting for ${provider.name}`,
+            this.callProvider(provider, model, parameters.sampleCount, context, job.signal,
+                () => provider.generate({ prompt: args.prompt, model, parameters, references, signal: job.signal })));
+        if (conversion) {
+            job.reportProgress(86, 'Converting images');
+            images = await Promise.all(images.map(image => convertImage(image, conversion)));
+        }
+
+        job.reportProgress(90, 'Saving images');
+        const provenance = this.provenance(provider.name, model, args.prompt, parameters, { style: args.style }, images);
+        images = images.map(image => embedProvenance(image, provenance));
+        const saved = await saveImages(images, this.artifacts);
+        for (const image of saved) {
+            await this.metadata.add({
+                ...image,
+                prompt: args.prompt,
+                parameters,
+                provider: provider.name,
+                model,
+                style: args.style,
+                references: referenceRecords,
+                client: context.clientInfo,
+                generationId: provenance.generationId,
+            });
+        }
+
+        if (this.cache && cacheKey) {
+            await this.cache.store(cacheKey, saved.map(image => image.id));
+        }
+        this.emitResourceEvent({ type: 'list_changed' });
+
+        winston.info(`Image generation successful. ${saved.length} image(s) created.`);
+        return saved;
+    }
+
+    /**
+     * Loads and checks reference images. References without a reference id are numbered by position, from 1.
+     * Returns undefineds when there are none, so requests without references are unchanged.
+     */
+    private async loadReferences(args: ReferenceImageArgs[]): Promise<{ references?: ReferenceImage[]; referenceRecords?: ReferenceRecord[] }> {
+        if (args.length === 0) {
+            return {};
+        }
+        const references: ReferenceImage[] = [];
+        const referenceRecords: ReferenceRecord[] = [];
+        for (const [index, arg] of args.entries()) {
+            const label = `reference ${index + 1}`;
+            const loaded = await prepareReferenceImage(await loadImageInput(arg.image, this.metadata, this.artifacts, label, this.inputRoots, this.inputAllowedHosts), label);
+            const reference: ReferenceImage = {
+                type: arg.type as ReferenceType,
+                referenceId: arg.reference_id ?? index + 1,
+                image: { mimeType: loaded.mimeType, data: loaded.data },
+                description: arg.description,
+                subjectType: arg.subject_type as SubjectType | undefined,
+                controlType: arg.control_type as ControlType | undefined,
+                computeControl: arg.compute_control,
+            };
+            const { image, ...fields } = reference;
+            references.push(reference);
+            referenceRecords.push({
+                ...fields,
+                sha256: createHash('sha256').update(image.data).digest('hex'),
+                imageId: loaded.record?.id,
+                file: loaded.file,
+            });
+        }
+        return { references, referenceRecords };
+    }
+
+    /**
+     * Edits an existing image with the provider's edit model and saves the results as derivatives of the source.
+     */
+    async edit_image(args: EditImageArgs, context: RequestContext = {}): Promise<CallToolResult> {
+        winston.info('Received image edit request', { edit_mode: args.edit_mode, prompt: args.prompt, mask: args.mask !== undefined });
+
+        const errorMsg = validateEditImageArgs(args);
+        if (errorMsg) {
+            winston.error(errorMsg);
+            return textResult(errorMsg, true);
+        }
+        const responseMode = this.resolveResponseMode(args.response_mode);
+        const mode = args.edit_mode as EditMode;
+        const prompt = args.prompt ?? '';
+        const parameters = buildImageParameters({ prompt, sample_count: args.sample_count, negative_prompt: args.negative_prompt, seed: args.seed });
+        return this.runAsJob('edit_image', args, context, "Error editing image", async job => this.imagesResult(
+            await this.trackGeneration('edit_image', job, context, prompt, parameters, { edit_mode: mode }, () => this.produceEdit(args, parameters, context, job)),
+            responseMode
+        ));
+    }
+
+    /**
+     * Runs an edit and saves the results.
+     */
+    private async produceEdit(args: EditImageArgs, parameters: ImageParameters, context: RequestContext, job: JobContext): Promise<SavedImage[]> {
+        const mode = args.edit_mode as EditMode;
+        const prompt = args.prompt ?? '';
+        const { provider, model } = this.providers.resolveEdit(args.provider, args.model);
+        job.reportProgress(5, 'Loading source image');
+        const source = await loadImageInput(args.image, this.metadata, this.artifacts, 'image', this.inputRoots, this.inputAllowedHosts);
+
+        let image: GeneratedImage = source;
+        let mask: GeneratedImage | undefined;
+        if (mode === 'outpaint') {
+            ({ image, mask } = await prepareOutpaint(source, args.aspect_ratio!));
+        } else if (args.mask) {
+            const dimensions = readImageDimensions(source.data);
+            if (!dimensions) {
+                throw new Error("Could not read the size of the source image");
+            }
+            const rawMask = await loadImageInput(args.mask, this.metadata, this.artifacts, 'mask', this.inputRoots, this.inputAllowedHosts);
+            mask = await normalizeMask(rawMask, dimensions.width, dimensions.height);
+        }
+
+        winston.info('Editing image', { provider: provider.name, model, mode, source: source.record?.id, parameters });
+        const images = await withHeartbeat(job, 10, 85, `Waiting for ${provider.name}`,
+            this.callProvider(provider, model, parameters.sampleCount, context, job.signal,
+                () => provider.edit!({ prompt, model, mode, image, mask, parameters, signal: job.signal })));
+
+        job.reportProgress(90, 'Saving images');
+        const provenance = this.provenance(provider.name, model, prompt, parameters, { editMode: mode, derivedFrom: source.record?.id }, images);
+        const saved = await saveImages(images.map(edited => embedProvenance(edited, provenance)), this.artifacts);
+        for (const edited of saved) {
+            await this.metadata.add({
+                ...edited,
+                prompt,
+                parameters,
+                provider: provider.name,
+                model,
+                client: context.clientInfo,
+                derivedFrom: source.record?.id,
+                editMode: mode,
+                generationId: provenance.generationId,
+            });
+        }
+
+        this.emitResourceEvent({ type: 'list_changed' });
+
+        winston.info(`Image edit successful. ${saved.length} image(s) created.`, { source: source.record?.id });
+        return saved;
+    }
+
+    /**
+     * Generates every row of a manifest into a named output folder and returns the report.
+     */
+    async generate_batch(args: GenerateBatchArgs, context: RequestContext = {}): Promise<CallToolResult> {
+        const prepared = this.prepareBatch(args);
+        if (typeof prepared === 'string') {
+            winston.error(prepared);
+            return textResult(prepared, true);
+        }
+        winston.info('Received batch request', { name: args.name, rows: prepared.length, concurrency: args.concurrency });
+
+        return this.runAsJob('generate_batch', args, context, "Error running batch", async job => {
+            const report = await this.runBatch(args.name, prepared, args.concurrency ?? 2, context, job);
+            return textResult(JSON.stringify(report, null, 2), report.failed > 0 && report.succeeded + report.resumed === 0);
+        });
+    }
+
+    /**
+     * Parses the manifest and checks every row up front, so a bad row is reported before anything is spent.
+     * Returns an error message for invalid arguments.
+     */
+    prepareBatch(args: Pick<GenerateBatchArgs, 'manifest' | 'name' | 'format' | 'concurrency'>): ManifestRow[] | string {
+        if (!isSafeOutputName(args.name)) {
+            return `Invalid batch name: ${args.name}, must be a folder name without slashes other than ${WORKSPACE_BATCHES_FOLDER}`;
+        }
+        if (args.format !== undefined && !(MANIFEST_FORMATS as readonly string[]).includes(args.format)) {
+            return `Invalid manifest format: ${args.format}, supported values are: ${MANIFEST_FORMATS.join(", ")}`;
+        }
+        if (args.concurrency !== undefined && (args.concurrency < 1 || args.concurrency > MAX_BATCH_CONCURRENCY)) {
+            return `Invalid concurrency: ${args.concurrency}, must be between 1 and ${MAX_BATCH_CONCURRENCY}`;
+        }
+        let rows: ManifestRow[];
+        try {
+            rows = parseManifest(args.manifest, args.format as ManifestFormat | undefined, MANIFEST_FIELDS);
+        } catch (e: any) {
+            if (e instanceof ManifestError) {
+                return e.message;
+            }
+            throw e;
+        }
+        const problems: string[] = [];
+        for (const row of rows) {
+            const prepared = this.prepareImagePrompt(row.args as unknown as ImagePrompt);
+            if (typeof prepared === 'string') {
+                problems.push(`line ${row.line}: ${prepared}`);
+                continue;
+            }
+            // Rewrites cost a request, so they wait for the row to run; only what they cannot fix is reported here.
+            const report = this.preflight.check(row.args.prompt as string, prepared.prompt);
+            if (!report.ok) {
+                const fatal = report.issues.filter(issue => issue.severity === 'error' && !this.preflight.canFix(issue));
+                problems.push(...fatal.map(issue => `line ${row.line}: ${issue.message}`));
+            }
+        }
+        return problems.length > 0 ? new ManifestError(problems).message : rows;
+    }
+
+    /**
+     * Runs prepared batch rows inside one job. Rows call the providers directly instead of queueing jobs of their own,
+     * which could wait forever behind the batch's job.
+     */
+    async runBatch(name: string, rows: ManifestRow[], concurrency: number, context: RequestContext, job: JobContext): Promise<BatchReport> {
+        const report = await runBatch(rows, {
+            name,
+            outputDir: path.join(this.batchesDir, name),
+            concurrency,
+            signal: job.signal,
+            onProgress: (done, total) => job.reportProgress(Math.floor((done / total) * 100), `${done} of ${total} rows done`),
+            generate: async row => {
+                const prepared = await this.preflightImagePrompt(row.args as unknown as ImagePrompt, job.signal);
+                if (typeof prepared === 'string') {
+                    throw new Error(prepared);
+                }
+                const rowJob: JobContext = { id: job.id, signal: job.signal, reportProgress: () => {} };
+                const saved = await this.trackGeneration('generate_batch', rowJob, context, prepared.args.prompt, buildImageParameters(prepared.args),
+                    { style: prepared.args.style, batch: name, row: row.outputName }, () => this.produceImages(prepared.args, context, rowJob));
+                return saved.map(image => ({ id: image.id, filename: image.filename, read: () => this.artifacts.read(image.filename) }));
+            },
+        });
+        const { outputDir, total, succeeded, failed, resumed, pending } = report;
+        this.publishEvent('batch.finished', { job_id: job.id, name, outputDir, total, succeeded, failed, resumed, pending, client: context.clientInfo?.name });
+        return report;
+    }
+
+    /**
+     * Reports the state of a queued, running or recently finished job, including its result once done.
+     */
+    get_job_status(args: JobArgs): CallToolResult {
+        const job = this.getJob(args.job_id);
+        if (!job) {
+            return textResult(`Job not found: ${args.job_id}`, true);
+        }
+        const { result, ...status } = job as Job<CallToolResult>;
+        // The finished job's own content (URLs, images or links) follows the status.
+        return {
+            content: [
+                { type: 'text', text: JSON.stringify(status, null, 2) },
+                ...(result?.content ?? []),
+            ],
+        };
+    }
+
+    cancel_job(args: JobArgs): CallToolResult {
+        const job = this.getJob(args.job_id);
+        if (!job) {
+            return textResult(`Job not found: ${args.job_id}`, true);
+        }
+        if (!this.jobs.cancel(job.id, 'Cancelled with cancel_job')) {
+            return textResult(`Job ${job.id} already ${job.status}`, true);
+        }
+        return textResult(`Cancelled job ${job.id}`);
+    }
+
+    /**
+     * The job with this id if it was queued in this workspace. The queue is shared by all workspaces, and other
+     * workspaces' jobs are reported as not found.
+     */
+    private getJob(id: string): Job | undefined {
+        const job = this.jobs.get(id);
+        return job?.workspace === this.workspace ? job : undefined;
+    }
+
+    /**
+     * Calls the provider within the budget caps and records the outcome in the metrics and the usage ledger.
+     */
+    private async callProvider(
+        provider: ImageProvider,
+        model: string,
+        sampleCount: number,
+        context: RequestContext,
+        signal: AbortSignal,
+        call: () => Promise<GeneratedImage[]>
+    ): Promise<GeneratedImage[]> {
+        // The mock provider draws placeholders locally, so it costs nothing.
+        const pricePerImage = provider.name === 'mock' ? 0 : this.usage.options.pricePerImageUsd;
+        const labels = { provider: provider.name, model };
+        const usage = { client: context.clientInfo?.name ?? 'unknown', session: context.sessionId ?? 'none', provider: provider.name };
+
+        if (pricePerImage > 0) {
+            // Count what the CLI or other servers sharing the ledger have spent meanwhile.
+            await this.usage.refresh();
+        }
+        let release: () => void;
+        try {
+            release = this.usage.reserve(sampleCount * pricePerImage);
+        } catch (e: any) {
+            this.metrics.failures.inc({ ...labels, kind: 'budget' });
+            throw e;
+        }
+        const stopTimer = this.metrics.providerDuration.startTimer(labels);
+        try {
+            const images = await call();
+            const costUsd = images.length * pricePerImage;
+            this.metrics.providerRequests.inc({ ...labels, outcome: 'success' });
+            this.metrics.images.inc(labels, images.length);
+            this.metrics.estimatedCost.inc({ provider: provider.name }, costUsd);
+            // Failures are logged by the ledger itself.
+            await this.usage.record({ ...usage, images: images.length, costUsd, failed: false }).catch(() => undefined);
+            return images;
+        } catch (e: any) {
+            const kind = signal.aborted ? 'cancelled' : e.kind ?? 'other';
+            this.metrics.providerRequests.inc({ ...labels, outcome: 'failure' });
+            this.metrics.failures.inc({ ...labels, kind });
+            if (kind === 'safety') {
+                this.metrics.safetyBlocks.inc({ provider: provider.name });
+            }
+            await this.usage.record({ ...usage, images: 0, costUsd: 0, failed: true }).catch(() => undefined);
+            throw e;
+        } finally {
+            stopTimer();
+            release();
+        }
+    }
+
+    /**
+     * The provenance embedded in the files of one generate or edit call. Its
+     * generation id is derived from the call and `images`, and it has no time,
+     * so the same output of the same request is saved byte for byte the same
+     * and deduplicated by the content store.
+     */
+    private provenance(provider: string, model: string, prompt: string, parameters: ImageParameters,
+        extra: Pick<Provenance, 'style' | 'editMode' | 'derivedFrom'>, images: GeneratedImage[]): Provenance {
+        const fields = {
+            generator: SERVER_NAME,
+            serverVersion: SERVER_VERSION,
+            provider,
+            model,
+            prompt,
+            negativePrompt: parameters.negativePrompt,
+            seed: parameters.seed,
+            aspectRatio: parameters.aspectRatio,
+            ...extra,
+        };
+        return { ...fields, generationId: deriveGenerationId(fields, images) };
+    }
+
+    /**
+     * Runs tool work on the job queue. Unless `async` is set, waits for the job
+     * and forwards its progress and the client's cancellation; with `async` the
+     * job id is returned at once for polling with get_job_status.
+     */
+    private async runAsJob(
+        tool: string,
+        options: { async?: boolean; priority?: number },
+        context: RequestContext,
+        errorPrefix: string,
+        run: (job: JobContext) => Promise<CallToolResult>
+    ): Promise<CallToolResult> {
+        const job = this.jobs.enqueue(tool, run, {
+            priority: options.priority,
+            workspace: this.workspace,
+            onProgress: options.async ? undefined : (progress, message) => context.reportProgress?.(progress, 100, message),
+        });
+        if (options.async) {
+            return textResult(`Queued job ${job.id}. Call get_job_status with this job_id to follow it and get the image URLs.`);
+        }
+
+        const onAbort = () => this.jobs.cancel(job.id, 'Cancelled by client');
+        context.signal?.addEventListener('abort', onAbort);
+        try {
+            const finished = await this.jobs.wait<CallToolResult>(job.id);
+            if (finished.status === 'succeeded') {
+                return finished.result!;
+            }
+            const prefix = finished.errorKind ? `${errorPrefix} (${finished.errorKind})` : errorPrefix;
+            winston.error(`${prefix}: ${finished.error}`, { job_id: job.id, status: finished.status, error_kind: finished.errorKind });
+            return textResult(`${prefix}: ${finished.error}`, true);
+        } finally {
+            context.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Lists previously generated images with their prompts and parameters, newest first by default.
+     */
+    list_images(args: ListImagesArgs): CallToolResult {
+        const query = parseImageQuery(args.query, args.sort, args.order, args.page, args.page_size);
+        if (typeof query === 'string') {
+            return textResult(query, true);
+        }
+        const page = this.metadata.query(query);
+        return textResult(JSON.stringify({
+            ...page,
+            items: page.items.map(record => this.describeImage(record)),
+        }, null, 2));
+    }
+
+    /**
+     * Returns the stored metadata of a single image.
+     */
+    get_image_info(args: ImageInfoArgs): CallToolResult {
+        const record = this.metadata.get(args.id);
+        if (!record) {
+            return textResult(`Image not found: ${args.id}`, true);
+        }
+        return textResult(JSON.stringify(this.describeImage(record), null, 2));
+    }
+
+    /**
+     * Reads the provenance and other metadata embedded in an image file, whether or not this server made it.
+     */
+    async inspect_image(args: InspectImageArgs): Promise<CallToolResult> {
+        try {
+            const image = await loadImageInput(args.image, this.metadata, this.artifacts, 'image', this.inputRoots, this.inputAllowedHosts);
+            const inspection = inspectImage(image.data);
+            const { record } = image;
+            if (record && inspection.provenance) {
+                // Kept in the record rather than the file, see provenance().
+                inspection.provenance = { ...inspection.provenance, createdAt: inspection.provenance.createdAt ?? record.createdAt };
+            }
+            return textResult(JSON.stringify({ id: record?.id, ...inspection }, null, 2));
+        } catch (e: any) {
+            winston.error(`Error inspecting image: ${e.message}`);
+            return textResult(`Error inspecting image: ${e.message}`, true);
+        }
+    }
+
+    /**
+     * Deletes a stored image and its file.
+     */
+    async delete_image(args: ImageInfoArgs): Promise<CallToolResult> {
+        try {
+            const record = await this.deleteImage(args.id, 'delete_image tool');
+            if (!record) {
+                return textResult(`Image not found: ${args.id}`, true);
+            }
+            return textResult(`Deleted image ${record.id} (${record.filename})`);
+        } catch (e: any) {
+            winston.error(`Error deleting image: ${e.message}`, { id: args.id });
+            return textResult(`Error deleting image: ${e.message}`, true);
+        }
+    }
 
-// Request and response structures for the Gemini API
-interface GeminiRequest {
-    instances: GeminiInstance[];
-    parameters: GeminiParameters;
-}
+    /**
+     * Pins or unpins an image so the retention sweeper keeps it.
+     */
+    async pin_image(args: PinImageArgs): Promise<CallToolResult> {
+        const record = isSafeImageName(args.id) ? this.metadata.get(args.id) : undefined;
+        if (!record) {
+            return textResult(`Image not found: ${args.id}`, true);
+        }
+        const pinned = args.pinned ?? true;
+        await this.metadata.update(record.id, { pinned });
+        winston.info(pinned ? 'Pinned image.' : 'Unpinned image.', { id: record.id });
+        return textResult(`${pinned ? 'Pinned' : 'Unpinned'} image ${record.id}`);
+    }
 
-interface GeminiInstance {
-    prompt: string;
-}
+    /**
+     * Deletes an image by id or filename. Returns the removed record, or undefined if there was none.
+     * Throws for names that could point outside the images directory.
+     */
+    async deleteImage(idOrFilename: string, reason: string): Promise<ImageRecord | undefined> {
+        if (!isSafeImageName(idOrFilename)) {
+            throw new Error(`Invalid image name: ${idOrFilename}`);
+        }
+        const record = this.metadata.get(idOrFilename);
+        if (record) {
+            await this.removeImage(record, reason);
+        }
+        return record;
+    }
 
-interface GeminiParameters {
-    sampleCount: number;
-    aspectRatio?: string;
-}
+    /**
+     * Removes the file, its blob if nothing else shares it, and the record, then tells subscribers.
+     */
+    async removeImage(record: ImageRecord, reason: string): Promise<void> {
+        await this.artifacts.delete(record.filename, record.sha256);
+        await this.metadata.remove(record.id);
+        winston.info('Deleted image.', { id: record.id, filename: record.filename, reason });
+        this.publishEvent('image.deleted', {
+            images: [this.describeEventImage(record)],
+            prompt: record.prompt,
+            parameters: record.parameters,
+            reason,
+        });
+        this.emitResourceEvent({ type: 'updated', uri: `${IMAGE_URI_PREFIX}${record.id}` });
+        this.emitResourceEvent({ type: 'list_changed' });
+    }
 
-interface GeminiResponse {
-    predictions?: GeminiPrediction[];
-    error?: { message: string };
-}
+    /**
+     * Metadata for the listing routes and tools, with the image URL filled in.
+     */
+    describeImage(record: ImageRecord): ImageRecord & { url: string } {
+        return { ...record, url: this.imageUrl(record.filename) };
+    }
 
-interface GeminiPrediction {
-    mimeType: string;
-    bytesBase64Encoded: string;
-}
+    /**
+     * How an image appears in lifecycle events.
+     */
+    private describeEventImage(record: ImageRecord): Record<string, unknown> {
+        const { id, filename, mimeType, width, height, sha256 } = record;
+        return { id, filename, url: this.imageUrl(filename), mimeType, width, height, sha256 };
+    }
 
-// Equivalent of Rust's ServerInfo for RMCP
-interface ServerInfo {
-    server_info: {
-        name: string;
-        version: string;
-    };
-    instructions?: string;
-    capabilities: {
-        tools: boolean;
-    };
-}
+    private publishEvent(type: EventType, data: Record<string, unknown>): void {
+        this.events.publish(type, this.workspace, data);
+    }
 
-//endregion
+    /**
+     * The storage backend's own URL for the image when it has one, otherwise the image's URL on this server.
+     */
+    private imageUrl(filename: string): string {
+        return this.artifacts.url(filename) ?? `http://${this.imageResourceServerAddr}:${this.serverPort}${this.imagePath(filename)}`;
+    }
 
-class ImageGenerationServer {
-    private readonly resourcesPath: string;
-    private readonly imageResourceServerAddr: string;
-    private readonly serverPort: number;
+    /**
+     * The server-relative path of an image or, with `query`, of a rendition of it. Signed when URL signing is on.
+     */
+    imagePath(name: string, query?: Record<string, string | number>): string {
+        const pathname = `${workspacePrefix(this.workspace)}/images/${name}`;
+        if (this.urlSigner) {
+            return this.urlSigner.sign(pathname, query);
+        }
+        if (!query) {
+            return pathname;
+        }
+        return `${pathname}?${new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)]))}`;
+    }
+
+    /**
+     * Runs generate_image for callers outside MCP, such as the CLI and the
+     * gallery, and returns the stored records. Throws with the tool's error text.
+     */
+    async generateImages(args: ImagePrompt, context: RequestContext): Promise<ImageRecord[]> {
+        const result = await this.generate_image({ ...args, async: false, response_mode: 'resource_link' }, context);
+        if (result.isError) {
+            throw new Error(result.content.map(block => (block.type === 'text' ? block.text : '')).join('\n'));
+        }
+        return result.content
+            .flatMap(block => (block.type === 'resource_link' ? [this.metadata.get(block.uri.slice(IMAGE_URI_PREFIX.length))] : []))
+            .filter((record): record is ImageRecord => record !== undefined);
+    }
 
-    constructor(resourcesPath: string, imageResourceServerAddr: string, serverPort: number) {
-        this.resourcesPath = resourcesPath;
-        this.imageResourceServerAddr = imageResourceServerAddr;
-        this.serverPort = serverPort;
+    /**
+     * Generates again with the stored parameters of an image, optionally with a different prompt.
+     */
+    async regenerate(id: string, prompt: string | undefined, context: RequestContext): Promise<ImageRecord[]> {
+        const record = this.metadata.get(id);
+        if (!record) {
+            throw new Error(`Image not found: ${id}`);
+        }
+        return this.generateImages({ ...imagePromptFromRecord(record), prompt: prompt ?? record.prompt, bypass_cache: true }, context);
     }
 
     /**
-     * Generate an image based on a prompt. Returns an image URL that can be used in markdown format like ![description](URL) to display the image
+     * The call's own response_mode, already checked by validation, or the server default.
      */
-    async generate_image(args: ImagePrompt): Promise<string> {
-        winston.info('Received image generation request', { args });
+    private resolveResponseMode(value: string | undefined): ResponseContentType[] {
+        return value === undefined ? this.responseMode : parseResponseMode(value) as ResponseContentType[];
+    }
 
-        const SUPPORTED_ASPECT_RATIOS = ["1:1", "3:4", "4:3", "9:16", "16:9"];
-        if (args.aspect_ratio && !SUPPORTED_ASPECT_RATIOS.includes(args.aspect_ratio)) {
-            const errorMsg = `Invalid aspect ratio: ${args.aspect_ratio}, supported values are: ${SUPPORTED_ASPECT_RATIOS.join(", ")}`;
-            winston.error(errorMsg);
-            return errorMsg;
+    /**
+     * Builds the tool result for saved images in the requested response mode.
+     */
+    private async imagesResult(saved: SavedImage[], mode: ResponseContentType[]): Promise<CallToolResult> {
+        const content: ContentBlock[] = [];
+        if (mode.includes('url')) {
+            content.push(this.urlsResult(saved).content[0]);
+        }
+        for (const image of saved) {
+            if (mode.includes('image')) {
+                const data = await this.artifacts.read(image.filename);
+                content.push({ type: 'image', data: data.toString('base64'), mimeType: image.mimeType });
+            }
+            if (mode.includes('resource_link')) {
+                content.push({ type: 'resource_link', ...this.describeResource({ ...image, prompt: this.metadata.get(image.id)?.prompt ?? '' }) });
+            }
         }
+        return { content };
+    }
 
-        try {
-            const filenames = await generateImageFromGemini(
-                args.prompt,
-                args.aspect_ratio,
-                this.resourcesPath
-            );
+    private urlsResult(saved: SavedImage[]): CallToolResult {
+        const urls = saved.map(image => this.imageUrl(image.filename));
+        if (urls.length === 1) {
+            return textResult(urls[0]);
+        }
+        const candidates = urls.map((url, i) => `${i + 1}. ${url}`).join("\n");
+        return textResult(`Generated ${urls.length} images:\n${candidates}`);
+    }
+
+    //region Resources
+
+    private describeResource(record: SavedImage & Pick<ImageRecord, 'prompt'>): Resource {
+        return {
+            uri: `${IMAGE_URI_PREFIX}${record.id}`,
+            name: record.filename,
+            description: record.prompt || undefined,
+            mimeType: record.mimeType,
+            size: record.fileSize,
+        };
+    }
+
+    /**
+     * Lists stored images as `imagen://images/<id>` resources, newest first. The cursor is the next page number.
+     */
+    listResources(cursor?: string): ListResourcesResult {
+        const page = cursor === undefined ? 1 : Number(cursor);
+        if (!Number.isInteger(page) || page < 1) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+        }
+        const result = this.metadata.query({ page, pageSize: RESOURCE_PAGE_SIZE });
+        return {
+            resources: result.items.map(record => this.describeResource(record)),
+            nextCursor: page * RESOURCE_PAGE_SIZE < result.total ? String(page + 1) : undefined,
+        };
+    }
+
+    listResourceTemplates(): ResourceTemplate[] {
+        return [{
+            uriTemplate: `${IMAGE_URI_PREFIX}{id}`,
+            name: 'Generated image',
+            description: 'An image generated or edited by this server, by id.',
+        }];
+    }
+
+    async readResource(uri: string): Promise<ResourceContents[]> {
+        const id = uri.startsWith(IMAGE_URI_PREFIX) ? uri.slice(IMAGE_URI_PREFIX.length) : undefined;
+        const record = id ? this.metadata.get(id) : undefined;
+        if (!record || record.id !== id) {
+            throw new McpError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri });
+        }
+        const data = await this.artifacts.read(record.filename);
+        return [{ uri, mimeType: record.mimeType, blob: data.toString('base64') }];
+    }
+
+    onResourceEvent(listener: (event: ResourceEvent) => void): () => void {
+        this.resourceListeners.add(listener);
+        return () => this.resourceListeners.delete(listener);
+    }
+
+    private emitResourceEvent(event: ResourceEvent): void {
+        for (const listener of this.resourceListeners) {
+            listener(event);
+        }
+    }
+
+    //endregion
+
+    //region Prompts
+
+    listPrompts(): Prompt[] {
+        return this.prompts.list();
+    }
+
+    getPrompt(name: string, args: Record<string, string>): GetPromptResult {
+        return this.prompts.get(name, args);
+    }
+
+    //endregion
 
-            const urls = filenames.map(filename =>
-                `http://${this.imageResourceServerAddr}:${this.serverPort}/images/${filename}`
-            ).join("\n");
-            
-            winston.info(`Image generation successful. ${filenames.length} image(s) created.`);
-            return urls;
+    /**
+     * Lists the tools this server offers, for `tools/list`.
+     */
+    listTools(): ToolDefinition[] {
+        const tools: ToolDefinition[] = [
+            {
+                name: 'generate_image',
+                description: 'Generate one or more images based on a prompt. By default returns one image URL per candidate that can be used in markdown format like ![description](URL) to display the image; response_mode can return inline images or imagen:// resource links instead',
+                inputSchema: IMAGE_PROMPT_SCHEMA,
+            },
+            {
+                name: 'edit_image',
+                description: 'Edit a previously generated or supplied image: insert or remove content inside a mask, extend the canvas to another aspect ratio, or swap the background. Returns image URLs like generate_image.',
+                inputSchema: EDIT_IMAGE_SCHEMA,
+            },
+            {
+                name: 'generate_batch',
+                description: 'Generate images for every row of a CSV or JSON Lines manifest into a named output folder, a few rows at a time. Interrupted or partly failed batches resume when run again with the same name. Returns a report mapping each row to its files or error.',
+                inputSchema: GENERATE_BATCH_SCHEMA,
+            },
+            {
+                name: 'get_job_status',
+                description: 'Get the status, progress and, once finished, the result of a job started with async: true.',
+                inputSchema: JOB_ARGS_SCHEMA,
+            },
+            {
+                name: 'cancel_job',
+                description: 'Cancel a queued or running job.',
+                inputSchema: JOB_ARGS_SCHEMA,
+            },
+            {
+                name: 'list_images',
+                description: 'List previously generated images with their prompts, parameters, provider, size and URL. Supports prompt text search, sorting and paging.',
+                inputSchema: LIST_IMAGES_SCHEMA,
+            },
+            {
+                name: 'get_image_info',
+                description: 'Get the prompt, parameters, provider, size and URL of a previously generated image.',
+                inputSchema: IMAGE_INFO_SCHEMA,
+            },
+            {
+                name: 'inspect_image',
+                description: 'Read the provenance embedded in an image file (prompt, negative prompt, model, seed, aspect ratio, server version and generation id; for stored images also the creation time), plus its format, size and any XMP or PNG text metadata.',
+                inputSchema: INSPECT_IMAGE_SCHEMA,
+            },
+            {
+                name: 'delete_image',
+                description: 'Delete a previously generated image and its file.',
+                inputSchema: IMAGE_INFO_SCHEMA,
+            },
+            {
+                name: 'pin_image',
+                description: 'Pin an image so the retention policy never deletes it, or unpin it.',
+                inputSchema: PIN_IMAGE_SCHEMA,
+            },
+        ];
+        if (!this.workspaces.enabled) {
+            return tools;
+        }
+        const workspace = {
+            type: 'string',
+            enum: this.workspaces.names(),
+            description: `Run the tool in another workspace than the session's (${this.workspace}). Each workspace has its own images.`,
+        };
+        return tools.map(tool => ({ ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, workspace } } }));
+    }
 
+    /**
+     * Moves the session to the workspace the client names in `clientInfo.workspace` or is mapped to in the config.
+     */
+    handlerForClient(clientInfo: ClientInfo | undefined): McpHandler {
+        try {
+            return this.workspaces.forClient(clientInfo) ?? this;
         } catch (e: any) {
-            winston.error(`Error generating image: ${e.message}`, { error: e });
-            return `Error generating image: ${e.message}`;
+            throw new McpError(ErrorCode.InvalidParams, e.message);
+        }
+    }
+
+    /**
+     * Validates the arguments of a `tools/call` request and runs the tool.
+     */
+    async callTool(name: string, args: Record<string, unknown>, context: RequestContext): Promise<CallToolResult> {
+        if (args.workspace !== undefined) {
+            const { workspace, ...rest } = args;
+            if (typeof workspace !== 'string') {
+                throw new McpError(ErrorCode.InvalidParams, "Invalid arguments: 'workspace' must be a string");
+            }
+            const target = this.workspaces.get(workspace);
+            if (!target) {
+                return textResult(`Unknown workspace: ${workspace}, available workspaces are: ${this.workspaces.names().join(", ")}`, true);
+            }
+            return target.dispatchToolCall(name, rest, context);
+        }
+        return this.dispatchToolCall(name, args, context);
+    }
+
+    /**
+     * {@link callTool} after the workspace has been picked.
+     */
+    private async dispatchToolCall(name: string, args: Record<string, unknown>, context: RequestContext): Promise<CallToolResult> {
+        winston.debug('Calling tool', { name, workspace: this.workspace, client: context.clientInfo });
+        // Unknown names are grouped so clients cannot create unbounded label values.
+        const tool = this.listTools().some(definition => definition.name === name) ? name : 'unknown';
+        const stopTimer = this.metrics.toolDuration.startTimer({ tool });
+        let outcome = 'error';
+        try {
+            const result = await this.dispatchTool(name, args, context);
+            outcome = result.isError ? 'error' : 'success';
+            return result;
+        } finally {
+            this.metrics.toolCalls.inc({ tool, outcome });
+            stopTimer();
+        }
+    }
+
+    private async dispatchTool(name: string, args: Record<string, unknown>, context: RequestContext): Promise<CallToolResult> {
+        switch (name) {
+            case 'generate_image':
+                return this.generate_image(parseToolArguments<ImagePrompt>(IMAGE_PROMPT_SCHEMA, args), context);
+            case 'edit_image':
+                return this.edit_image(parseToolArguments<EditImageArgs>(EDIT_IMAGE_SCHEMA, args), context);
+            case 'generate_batch':
+                return this.generate_batch(parseToolArguments<GenerateBatchArgs>(GENERATE_BATCH_SCHEMA, args), context);
+            case 'get_job_status':
+                return this.get_job_status(parseToolArguments<JobArgs>(JOB_ARGS_SCHEMA, args));
+            case 'cancel_job':
+                return this.cancel_job(parseToolArguments<JobArgs>(JOB_ARGS_SCHEMA, args));
+            case 'list_images':
+                return this.list_images(parseToolArguments<ListImagesArgs>(LIST_IMAGES_SCHEMA, args));
+            case 'get_image_info':
+                return this.get_image_info(parseToolArguments<ImageInfoArgs>(IMAGE_INFO_SCHEMA, args));
+            case 'inspect_image':
+                return this.inspect_image(parseToolArguments<InspectImageArgs>(INSPECT_IMAGE_SCHEMA, args));
+            case 'delete_image':
+                return this.delete_image(parseToolArguments<ImageInfoArgs>(IMAGE_INFO_SCHEMA, args));
+            case 'pin_image':
+                return this.pin_image(parseToolArguments<PinImageArgs>(PIN_IMAGE_SCHEMA, args));
+            default:
+                throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
         }
     }
 
@@ -113,9 +1613,10 @@ class ImageGenerationServer {
      */
     getInfo(): ServerInfo {
         return {
-            server_info: {
-                name: "imagen3-mcp",
-                version: "0.1.0",
+            protocolVersion: LATEST_PROTOCOL_VERSION,
+            serverInfo: {
+                name: SERVER_NAME,
+                version: SERVER_VERSION,
             },
             instructions: `
 Use the generate_image tool to create images from text descriptions. The returned URL can be used in markdown format like ![description](URL) to display the image.
@@ -260,256 +1761,1230 @@ Example Prompt: a photo of the moon, astro photography, wide angle 10mm
 </Imagen_prompt_guide>
 `.trim(),
             capabilities: {
-                tools: true,
+                tools: {},
+                resources: { subscribe: true, listChanged: true },
+                prompts: {},
             },
         };
     }
 }
 
-//region Utility Functions
+//region Utility Functions
+
+/**
+ * Checks the types of `tools/call` arguments against a tool's input schema.
+ * Ranges and enums are left to the tool so it can answer with a readable message.
+ */
+function parseToolArguments<T>(schema: ToolDefinition['inputSchema'], args: Record<string, unknown>): T {
+    for (const field of schema.required ?? []) {
+        const value = args[field];
+        if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: '${field}' is required`);
+        }
+    }
+
+    const unknown = Object.keys(args).filter(key => !(key in schema.properties));
+    if (unknown.length > 0 && schema.additionalProperties === false) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: unknown field(s) ${unknown.join(", ")}`);
+    }
+
+    for (const [field, value] of Object.entries(args)) {
+        const property = schema.properties[field] as { type?: string } | undefined;
+        if (value === undefined || !property?.type) {
+            continue;
+        }
+        const matches = property.type === 'integer'
+            ? Number.isInteger(value)
+            : property.type === 'array'
+                ? Array.isArray(value)
+                : typeof value === property.type && !(property.type === 'number' && !Number.isFinite(value));
+        if (!matches) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: '${field}' must be ${/^[aeiou]/.test(property.type) ? 'an' : 'a'} ${property.type}`);
+        }
+    }
+    return args as T;
+}
+
+/**
+ * Range and consistency checks for {@link ImagePrompt}. Returns an error message, or undefined when the prompt is valid.
+ */
+function validateImagePrompt(args: ImagePrompt): string | undefined {
+    const responseMode = args.response_mode !== undefined ? parseResponseMode(args.response_mode) : undefined;
+    if (typeof responseMode === 'string') {
+        return responseMode;
+    }
+    if (args.aspect_ratio && !SUPPORTED_ASPECT_RATIOS.includes(args.aspect_ratio)) {
+        return `Invalid aspect ratio: ${args.aspect_ratio}, supported values are: ${SUPPORTED_ASPECT_RATIOS.join(", ")}`;
+    }
+    if (args.sample_count !== undefined && (args.sample_count < 1 || args.sample_count > MAX_SAMPLE_COUNT)) {
+        return `Invalid sample count: ${args.sample_count}, must be between 1 and ${MAX_SAMPLE_COUNT}`;
+    }
+    if (args.seed !== undefined && (args.seed < 0 || args.seed > MAX_SEED)) {
+        return `Invalid seed: ${args.seed}, must be between 0 and ${MAX_SEED}`;
+    }
+    if (args.seed !== undefined && args.add_watermark === true) {
+        return "Invalid parameters: a seed cannot be used while add_watermark is true";
+    }
+    if (args.person_generation && !SUPPORTED_PERSON_GENERATION.includes(args.person_generation)) {
+        return `Invalid person generation: ${args.person_generation}, supported values are: ${SUPPORTED_PERSON_GENERATION.join(", ")}`;
+    }
+    if (args.safety_filter_level && !SUPPORTED_SAFETY_FILTER_LEVELS.includes(args.safety_filter_level)) {
+        return `Invalid safety filter level: ${args.safety_filter_level}, supported values are: ${SUPPORTED_SAFETY_FILTER_LEVELS.join(", ")}`;
+    }
+    if (args.output_mime_type && !SUPPORTED_OUTPUT_MIME_TYPES.includes(args.output_mime_type)) {
+        return `Invalid output MIME type: ${args.output_mime_type}, supported values are: ${SUPPORTED_OUTPUT_MIME_TYPES.join(", ")}`;
+    }
+    if (args.output_format !== undefined && !(RENDITION_FORMATS as readonly string[]).includes(args.output_format)) {
+        return `Invalid output format: ${args.output_format}, supported values are: ${RENDITION_FORMATS.join(", ")}`;
+    }
+    if (args.max_dimension !== undefined && (!Number.isInteger(args.max_dimension) || args.max_dimension < 1 || args.max_dimension > MAX_RENDITION_DIMENSION)) {
+        return `Invalid max dimension: ${args.max_dimension}, must be an integer between 1 and ${MAX_RENDITION_DIMENSION}`;
+    }
+    if (args.compression_quality !== undefined) {
+        if (args.compression_quality < 0 || args.compression_quality > 100) {
+            return `Invalid compression quality: ${args.compression_quality}, must be between 0 and 100`;
+        }
+        const lossyConversion = args.output_format !== undefined && args.output_format !== 'png';
+        if (args.output_mime_type !== "image/jpeg" && !lossyConversion) {
+            return "Invalid parameters: compression_quality requires output_mime_type to be image/jpeg or a lossy output_format";
+        }
+    }
+    if (args.references !== undefined) {
+        return validateReferences(args.references);
+    }
+    return undefined;
+}
+
+/**
+ * Checks the shape of reference image arguments; the images themselves are checked when they are loaded.
+ */
+function validateReferences(references: ReferenceImageArgs[]): string | undefined {
+    if (!Array.isArray(references)) {
+        return "Invalid references: must be a list";
+    }
+    if (references.length > MAX_REFERENCE_IMAGES) {
+        return `Invalid references: ${references.length} given, at most ${MAX_REFERENCE_IMAGES} are supported`;
+    }
+    for (const [index, reference] of references.entries()) {
+        const label = `reference ${index + 1}`;
+        if (!reference || typeof reference !== 'object' || typeof reference.image !== 'string' || !reference.image.trim()) {
+            return `Invalid ${label}: image must be a non-empty string`;
+        }
+        if (!(REFERENCE_TYPES as readonly string[]).includes(reference.type)) {
+            return `Invalid ${label} type: ${reference.type}, supported values are: ${REFERENCE_TYPES.join(", ")}`;
+        }
+        if (reference.description !== undefined && typeof reference.description !== 'string') {
+            return `Invalid ${label}: description must be a string`;
+        }
+        if (reference.subject_type !== undefined) {
+            if (reference.type !== 'subject') {
+                return `Invalid ${label}: subject_type only applies to subject references`;
+            }
+            if (!(SUBJECT_TYPES as readonly string[]).includes(reference.subject_type)) {
+                return `Invalid ${label} subject type: ${reference.subject_type}, supported values are: ${SUBJECT_TYPES.join(", ")}`;
+            }
+        }
+        if (reference.type === 'control' && !(CONTROL_TYPES as readonly string[]).includes(reference.control_type ?? '')) {
+            return `Invalid ${label} control type: ${reference.control_type}, control references need one of: ${CONTROL_TYPES.join(", ")}`;
+        }
+        if (reference.type !== 'control' && (reference.control_type !== undefined || reference.compute_control !== undefined)) {
+            return `Invalid ${label}: control_type and compute_control only apply to control references`;
+        }
+        if (reference.compute_control !== undefined && typeof reference.compute_control !== 'boolean') {
+            return `Invalid ${label}: compute_control must be a boolean`;
+        }
+        if (reference.reference_id !== undefined && (!Number.isInteger(reference.reference_id) || reference.reference_id < 1)) {
+            return `Invalid ${label} reference id: ${reference.reference_id}, must be a positive integer`;
+        }
+        const unknown = Object.keys(reference).filter(key => !(key in REFERENCE_ITEM_PROPERTIES));
+        if (unknown.length > 0) {
+            return `Invalid ${label}: unknown properties ${unknown.join(", ")}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Range and consistency checks for {@link EditImageArgs}. Returns an error message, or undefined when the arguments are valid.
+ */
+function validateEditImageArgs(args: EditImageArgs): string | undefined {
+    const responseMode = args.response_mode !== undefined ? parseResponseMode(args.response_mode) : undefined;
+    if (typeof responseMode === 'string') {
+        return responseMode;
+    }
+    if (!(EDIT_MODES as readonly string[]).includes(args.edit_mode)) {
+        return `Invalid edit mode: ${args.edit_mode}, supported values are: ${EDIT_MODES.join(", ")}`;
+    }
+    if (args.edit_mode !== 'inpaint-remove' && !args.prompt?.trim()) {
+        return `Invalid parameters: edit mode ${args.edit_mode} requires a prompt`;
+    }
+    if ((args.edit_mode === 'inpaint-insert' || args.edit_mode === 'inpaint-remove') && !args.mask) {
+        return `Invalid parameters: edit mode ${args.edit_mode} requires a mask`;
+    }
+    if (args.edit_mode === 'outpaint') {
+        if (!args.aspect_ratio) {
+            return "Invalid parameters: edit mode outpaint requires an aspect_ratio";
+        }
+        if (args.mask) {
+            return "Invalid parameters: outpaint builds its own mask, do not pass one";
+        }
+    }
+    return validateImagePrompt({
+        prompt: args.prompt ?? '',
+        aspect_ratio: args.aspect_ratio,
+        sample_count: args.sample_count,
+        seed: args.seed,
+    });
+}
+
+/**
+ * Maps a validated {@link ImagePrompt} to provider parameters.
+ */
+function buildImageParameters(args: ImagePrompt): ImageParameters {
+    const parameters: ImageParameters = {
+        sampleCount: args.sample_count ?? 1,
+        aspectRatio: args.aspect_ratio,
+        negativePrompt: args.negative_prompt,
+        seed: args.seed,
+        // The API rejects seeds on watermarked images, so a seed turns the watermark off unless asked otherwise.
+        addWatermark: args.add_watermark ?? (args.seed !== undefined ? false : undefined),
+        enhancePrompt: args.enhance_prompt,
+        personGeneration: args.person_generation,
+        safetySetting: args.safety_filter_level,
+    };
+    if (args.output_mime_type) {
+        parameters.outputOptions = {
+            mimeType: args.output_mime_type,
+            compressionQuality: args.compression_quality,
+        };
+    }
+    return parameters;
+}
+
+/**
+ * The local conversion requested with output_format and max_dimension, if any.
+ */
+function conversionOptions(args: ImagePrompt): ConversionOptions | undefined {
+    if (args.output_format === undefined && args.max_dimension === undefined) {
+        return undefined;
+    }
+    return {
+        format: args.output_format as RenditionFormat | undefined,
+        width: args.max_dimension,
+        height: args.max_dimension,
+        quality: args.compression_quality,
+    };
+}
+
+function textResult(text: string, isError = false): CallToolResult {
+    return isError ? { content: [{ type: 'text', text }], isError } : { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Adds the preflight warnings and any rewritten prompt to a successful result.
+ */
+function withPreflightNote(result: CallToolResult, report: PreflightReport): CallToolResult {
+    if (report.issues.length === 0 && !report.rewrite) {
+        return result;
+    }
+    const note = { prompt: report.prompt, rewrite: report.rewrite, issues: report.issues };
+    return { ...result, content: [...result.content, { type: 'text', text: `Prompt preflight: ${JSON.stringify(note, null, 2)}` }] };
+}
+
+/**
+ * Checks listing options shared by `/list-images` and the `list_images` tool. Returns an error message for invalid values.
+ */
+function parseImageQuery(
+    search: string | undefined,
+    sort: string | undefined,
+    order: string | undefined,
+    page: number | undefined,
+    pageSize: number | undefined
+): ImageQuery | string {
+    if (sort !== undefined && !(SORT_FIELDS as readonly string[]).includes(sort)) {
+        return `Invalid sort field: ${sort}, supported values are: ${SORT_FIELDS.join(", ")}`;
+    }
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+        return `Invalid sort order: ${order}, supported values are: asc, desc`;
+    }
+    if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+        return `Invalid page: ${page}, must be a positive integer`;
+    }
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)) {
+        return `Invalid page size: ${pageSize}, must be between 1 and ${MAX_PAGE_SIZE}`;
+    }
+    return { search, sort: sort as SortField | undefined, order, page, pageSize };
+}
+
+/**
+ * The generate_image arguments that reproduce a stored image. The stored
+ * prompt already has any style preset applied, so the style is not repeated.
+ */
+function imagePromptFromRecord(record: ImageRecord): ImagePrompt {
+    const { parameters } = record;
+    return {
+        prompt: record.prompt,
+        aspect_ratio: parameters.aspectRatio,
+        sample_count: parameters.sampleCount,
+        negative_prompt: parameters.negativePrompt,
+        seed: parameters.seed,
+        add_watermark: parameters.addWatermark,
+        enhance_prompt: parameters.enhancePrompt,
+        person_generation: parameters.personGeneration,
+        safety_filter_level: parameters.safetySetting,
+        output_mime_type: parameters.outputOptions?.mimeType,
+        compression_quality: parameters.outputOptions?.compressionQuality,
+        provider: PROVIDER_NAMES.includes(record.provider) ? record.provider : undefined,
+        model: record.model !== 'unknown' ? record.model : undefined,
+        references: referencesFromRecord(record),
+    };
+}
+
+/**
+ * The reference arguments of a stored generation. Undefined when a reference
+ * was passed inline, as only stored images and local files can be found again.
+ */
+function referencesFromRecord(record: ImageRecord): ReferenceImageArgs[] | undefined {
+    if (!record.references?.length || record.references.some(reference => !reference.imageId && !reference.file)) {
+        return undefined;
+    }
+    return record.references.map(reference => ({
+        image: (reference.imageId ?? reference.file)!,
+        type: reference.type,
+        description: reference.description,
+        subject_type: reference.subjectType,
+        control_type: reference.controlType,
+        compute_control: reference.computeControl,
+        reference_id: reference.referenceId,
+    }));
+}
+
+/**
+ * Parses a comma-separated response mode such as "url,image". Returns an error message for invalid values.
+ */
+function parseResponseMode(value: string): ResponseContentType[] | string {
+    const types = value.split(',').map(type => type.trim()).filter(type => type);
+    const unknown = types.filter(type => !(RESPONSE_CONTENT_TYPES as readonly string[]).includes(type));
+    if (types.length === 0 || unknown.length > 0) {
+        return `Invalid response mode: ${value}, use a comma-separated list of: ${RESPONSE_CONTENT_TYPES.join(", ")}`;
+    }
+    return [...new Set(types)] as ResponseContentType[];
+}
+
+/**
+ * An image written to the images directory, before prompt and provider details are attached.
+ */
+type SavedImage = Pick<ImageRecord, 'id' | 'filename' | 'createdAt' | 'fileSize' | 'mimeType' | 'sha256' | 'width' | 'height'>;
+
+/**
+ * Provider calls can take a while. Keep progress creeping from `from` towards
+ * `to` so clients that reset their timeout on progress keep waiting.
+ */
+async function withHeartbeat<T>(job: JobContext, from: number, to: number, message: string, work: Promise<T>): Promise<T> {
+    let progress = from;
+    job.reportProgress(progress, message);
+    const timer = setInterval(() => {
+        if (progress < to) {
+            job.reportProgress(++progress, message);
+        }
+    }, 2000);
+    try {
+        return await work;
+    } finally {
+        clearInterval(timer);
+    }
+}
+
+/**
+ * Writes provider output to the artifact storage under fresh `<id>_<timestamp>` names.
+ */
+async function saveImages(images: GeneratedImage[], artifacts: ArtifactStorage): Promise<SavedImage[]> {
+    const saved: SavedImage[] = [];
+
+    for (const image of images) {
+        const createdAt = new Date();
+        const timestamp = formatDate(createdAt, 'yyyyMMddHHmmss');
+        const id = nanoid(10);
+        const filename = `${id}_${timestamp}.${extensionForMimeType(image.mimeType)}`;
+
+        try {
+            const sha256 = await artifacts.write(filename, image.data, image.mimeType);
+            winston.info(`Successfully saved generated image.`, { storage: artifacts.name, filename, sha256 });
+            const dimensions = readImageDimensions(image.data);
+            saved.push({
+                id,
+                filename,
+                createdAt: createdAt.toISOString(),
+                fileSize: image.data.length,
+                mimeType: image.mimeType,
+                sha256,
+                width: dimensions?.width,
+                height: dimensions?.height,
+            });
+        } catch (e: any) {
+            winston.error(`Failed to write image to ${artifacts.name} storage: ${e.message}`, { filename });
+            throw e; // Propagate the error
+        }
+    }
+    return saved;
+}
+
+/**
+ * File extension for an image MIME type returned by the API.
+ */
+function extensionForMimeType(mimeType: string | undefined): string {
+    switch (mimeType) {
+        case "image/jpeg":
+            return "jpg";
+        case "image/webp":
+            return "webp";
+        case "image/avif":
+            return "avif";
+        default:
+            return "png";
+    }
+}
 
 /**
- * Generates an image using the Gemini API.
+ * Ensures a directory exists, creating it if necessary.
+ * Corresponds to Rust's ProjectDirs and fs::create_dir_all
  */
-async function generateImageFromGemini(
-    prompt: string,
-    aspectRatio: string | undefined,
-    resourcesPath: string
-): Promise<string[]> {
-    winston.info('Generating image from Gemini', { prompt, aspectRatio, prompt_length: prompt.length });
+async function ensureDir(dirPath: string, purpose: string): Promise<void> {
+    try {
+        await fs.mkdir(dirPath, { recursive: true });
+    } catch (e: any) {
+        if (e.code !== 'EEXIST') { // Ignore error if directory already exists
+            throw new Error(`Could not create ${purpose} directory at ${dirPath}: ${e.message}`);
+        }
+    }
+}
+
+function queryString(value: unknown): string | undefined {
+    return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function queryNumber(value: unknown): number | undefined {
+    const text = queryString(value);
+    return text === undefined ? undefined : Number(text);
+}
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable not set");
+/**
+ * MCP clients launch the server with stdin connected to a pipe or socket; a
+ * terminal or /dev/null means nobody is going to talk to us over stdio.
+ */
+function isStdinPiped(): boolean {
+    try {
+        const stat = fstatSync(0);
+        return stat.isFIFO() || stat.isSocket();
+    } catch {
+        return false;
     }
+}
+//endregion
 
-    const request: GeminiRequest = {
-        instances: [{ prompt }],
-        parameters: {
-            sampleCount: 1, // Just generate one image
-            aspectRatio: aspectRatio,
-        },
-    };
-    winston.info('Sending request to Gemini', { request });
+//region Command Line
 
-    const baseUrl = process.env.BASE_URL || "https://generativelanguage.googleapis.com";
-    const url = `${baseUrl}/v1beta/models/imagen-3.0-generate-002:predict?key=${apiKey}`;
+const USAGE = `Usage: imagen3-mcp [command] [options]
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request),
-    });
+Commands:
+  serve                  Run the MCP server over stdio and HTTP (the default)
+  generate "<prompt>"    Generate images and print the paths of the saved files
+  batch <manifest>       Generate every row of a CSV or JSONL manifest into an output folder
+  list                   List stored images, newest first
+  doctor                 Check the configuration, credentials, endpoint, write access and port
+  inspect <file>...      Print the provenance and metadata embedded in image files
 
-    const responseText = await response.text();
-    if (!response.ok) {
-        winston.error('Failed to send request to Gemini', { status: response.status, body: responseText });
-        throw new Error(`Gemini API request failed with status ${response.status}: ${responseText}`);
-    }
+Options:
+  --config <file>        Config file (JSON or YAML). Defaults to config.json, config.yaml
+                         or config.yml in the config directory
+  --profile <name>       A profile from the config file
+  --workspace <name>     The workspace generate, batch and list work in (default: default)
+  -h, --help             Show this help
 
-    let geminiResponse: GeminiResponse;
-    try {
-        geminiResponse = JSON.parse(responseText);
-    } catch (e: any) {
-        winston.error('Failed to parse Gemini response', { response_body: responseText, error: e });
-        throw new Error(`Failed to parse Gemini response: ${e.message}. The response was: ${responseText}`);
-    }
-    
-    if (geminiResponse.error) {
-        winston.error('Gemini API returned an error', { error: geminiResponse.error });
-        throw new Error(`Gemini API Error: ${geminiResponse.error.message}`);
+generate options:
+  --style <preset>  --aspect-ratio <ratio>  --sample-count <n>  --negative-prompt <text>
+  --seed <n>  --output-format <format>  --max-dimension <px>
+
+batch options:
+  --name <folder>  --format csv|jsonl  --concurrency <n>  --json
+  The folder defaults to the manifest's name. Running a batch again resumes it.
+
+list options:
+  --search <text>  --limit <n>  --json
+
+inspect options:
+  --json
+
+Every setting can also be given as a flag, e.g. --port 9981, --provider vertex,
+--log-dir <dir> or --gemini-api-key <key>. Flags override environment
+variables, which override the config file.
+`;
+
+const COMMANDS = ['serve', 'generate', 'batch', 'list', 'doctor', 'inspect'];
+
+const COMMAND_FLAGS = {
+    help: { type: 'boolean', short: 'h' },
+    style: { type: 'string' },
+    'aspect-ratio': { type: 'string' },
+    'sample-count': { type: 'string' },
+    'negative-prompt': { type: 'string' },
+    seed: { type: 'string' },
+    'output-format': { type: 'string' },
+    'max-dimension': { type: 'string' },
+    name: { type: 'string' },
+    format: { type: 'string' },
+    concurrency: { type: 'string' },
+    search: { type: 'string' },
+    limit: { type: 'string' },
+    json: { type: 'boolean' },
+    workspace: { type: 'string' },
+} as const;
+
+type CommandFlags = Record<string, string | boolean | undefined>;
+
+/**
+ * The stores of one workspace: its image files, their metadata and its result cache.
+ */
+interface WorkspaceStorage {
+    name: string;
+    settings: WorkspaceSettings;
+    resourcesPath: string;
+    artifacts: ArtifactStorage;
+    metadata: ImageMetadataStore;
+    cache?: ResultCache;
+}
+
+/**
+ * The image stores under the artifacts directory, loaded and ready to use. Renditions and usage are shared by all workspaces.
+ */
+interface ImageStorage {
+    resourcesPath: string;
+    workspaces: Workspaces<WorkspaceStorage>;
+    renditions: RenditionCache;
+    usage: UsageLedger;
+}
+
+/**
+ * Logs to stderr, since stdout carries the MCP stream, and to a daily file once the log directory is known.
+ */
+function configureLogging(level: string, logDir?: string, consoleLevel = level): void {
+    const transports: winston.transport[] = [
+        new winston.transports.Console({
+            level: consoleLevel,
+            stderrLevels: Object.keys(winston.config.npm.levels),
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        }),
+    ];
+    if (logDir) {
+        transports.push(new winston.transports.DailyRotateFile({
+            filename: path.join(logDir, 'imagen3-mcp.log-%DATE%.log'),
+            datePattern: 'YYYY-MM-DD',
+            zippedArchive: true,
+            maxSize: '20m',
+            maxFiles: '14d',
+        }));
     }
+    winston.configure({
+        level,
+        format: winston.format.combine(
+            winston.format.timestamp(),
+            winston.format.json()
+        ),
+        transports,
+    });
+}
 
-    const predictions = geminiResponse.predictions ?? [];
-    if (predictions.length === 0) {
-        winston.error("No images were generated by Gemini. This might be due to safety filters.");
-        throw new Error("No images were generated. This might be due to the image not passing Google's safety review.");
+async function openStorage(config: Config): Promise<ImageStorage> {
+    const resourcesPath = config.paths.artifactsDir;
+    await ensureDir(resourcesPath, 'resources');
+    const storage: ImageStorage = {
+        resourcesPath,
+        workspaces: new Workspaces(config.workspaces),
+        renditions: new RenditionCache(resourcesPath, config.renditionCacheMb * 1024 * 1024),
+        usage: new UsageLedger(resourcesPath, config.usage),
+    };
+    for (const name of new Set([DEFAULT_WORKSPACE, ...Object.keys(config.workspaces)])) {
+        storage.workspaces.add(name, await openWorkspaceStorage(config, name));
     }
+    await storage.renditions.init();
+    await storage.usage.load();
+    return storage;
+}
+
+/**
+ * Opens a workspace's stores. The default workspace uses the artifacts directory and bucket prefix
+ * themselves; the others use `workspaces/<name>` below them.
+ */
+async function openWorkspaceStorage(config: Config, name: string): Promise<WorkspaceStorage> {
+    const { artifactsDir } = config.paths;
+    const { s3 } = config.storage;
+    const isDefault = name === DEFAULT_WORKSPACE;
+    const resourcesPath = isDefault ? artifactsDir : path.join(artifactsDir, 'workspaces', name);
+    await ensureDir(resourcesPath, `${name} workspace`);
+    const prefix = isDefault ? s3.prefix : [s3.prefix?.replace(/\/+$/, ''), 'workspaces', name].filter(Boolean).join('/');
+    const artifacts = createArtifactStorage({
+        backend: config.storage.backend,
+        s3: { ...s3, prefix, presignTtlSeconds: config.security.signedUrlTtlSeconds },
+    }, resourcesPath);
+    await artifacts.init();
 
-    const filenames: string[] = [];
-    const imagesDir = path.join(resourcesPath, "images");
+    const workspace: WorkspaceStorage = {
+        name,
+        settings: config.workspaces[name] ?? {},
+        resourcesPath,
+        artifacts,
+        metadata: new ImageMetadataStore(resourcesPath, artifacts),
+        // The result cache is opt-in: a TTL of 0 disables it.
+        cache: config.resultCacheTtlSeconds > 0 ? new ResultCache(resourcesPath, config.resultCacheTtlSeconds * 1000) : undefined,
+    };
+    await workspace.metadata.load();
+    await workspace.cache?.load();
+    return workspace;
+}
 
-    for (const pred of predictions) {
-        const timestamp = formatDate(new Date(), 'yyyyMMddHHmmss');
-        const id = nanoid(10);
-        const filename = `${id}_${timestamp}.png`;
-        const filePath = path.join(imagesDir, filename);
+/**
+ * `generate "<prompt>"`: runs generate_image in-process and prints the saved files.
+ */
+async function generateCommand(service: ImageGenerationServer, storage: WorkspaceStorage, prompt: string | undefined, flags: CommandFlags): Promise<number> {
+    if (!prompt) {
+        process.stderr.write(`generate needs a prompt, e.g. imagen3-mcp generate "a red fox in the snow"\n`);
+        return 2;
+    }
+    const numberFlag = (name: string): number | undefined => (typeof flags[name] === 'string' ? Number(flags[name]) : undefined);
+    const raw: Record<string, unknown> = {
+        prompt,
+        style: flags.style,
+        aspect_ratio: flags['aspect-ratio'],
+        sample_count: numberFlag('sample-count'),
+        negative_prompt: flags['negative-prompt'],
+        seed: numberFlag('seed'),
+        output_format: flags['output-format'],
+        max_dimension: numberFlag('max-dimension'),
+    };
+    const defined = Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== undefined));
 
-        try {
-            const imageData = Buffer.from(pred.bytesBase64Encoded, 'base64');
-            await fs.writeFile(filePath, imageData);
-            winston.info(`Successfully saved generated image.`, { file_path: filePath });
-            filenames.push(filename);
-        } catch (e: any) {
-            winston.error(`Failed to decode base64 or write image to disk: ${e.message}`, { file_path: filePath });
-            throw e; // Propagate the error
+    try {
+        const args = parseToolArguments<ImagePrompt>(IMAGE_PROMPT_SCHEMA, defined);
+        const records = await service.generateImages(args, { clientInfo: { name: 'imagen3-mcp-cli', version: '0.1.0' } });
+        for (const record of records) {
+            const { directory } = storage.artifacts;
+            process.stdout.write(`${directory ? path.join(directory, record.filename) : service.describeImage(record).url}\n`);
         }
+        return 0;
+    } catch (e: any) {
+        process.stderr.write(`${e.message}\n`);
+        return 1;
     }
-    return filenames;
 }
 
 /**
- * Ensures a directory exists, creating it if necessary.
- * Corresponds to Rust's ProjectDirs and fs::create_dir_all
+ * `batch <manifest>`: runs a manifest in-process with progress on stderr. Ctrl-C stops after the running rows; run the
+ * same command again to resume.
  */
-async function ensureDir(dirPath: string, purpose: string): Promise<void> {
+async function batchCommand(service: ImageGenerationServer, manifestFile: string | undefined, flags: CommandFlags): Promise<number> {
+    if (!manifestFile) {
+        process.stderr.write(`batch needs a manifest file, e.g. imagen3-mcp batch icons.csv --name icons\n`);
+        return 2;
+    }
+    const concurrency = typeof flags.concurrency === 'string' ? Number(flags.concurrency) : undefined;
+    if (concurrency !== undefined && !Number.isInteger(concurrency)) {
+        process.stderr.write(`Invalid --concurrency: ${flags.concurrency}, must be an integer\n`);
+        return 2;
+    }
+    let manifest: string;
     try {
-        await fs.mkdir(dirPath, { recursive: true });
+        manifest = await fs.readFile(manifestFile, 'utf8');
     } catch (e: any) {
-        if (e.code !== 'EEXIST') { // Ignore error if directory already exists
-            throw new Error(`Could not create ${purpose} directory at ${dirPath}: ${e.message}`);
+        process.stderr.write(`Could not read manifest: ${e.message}\n`);
+        return 1;
+    }
+    const name = typeof flags.name === 'string' ? flags.name : path.basename(manifestFile, path.extname(manifestFile));
+    const format = typeof flags.format === 'string' ? flags.format : undefined;
+    const rows = service.prepareBatch({ manifest, name, format, concurrency });
+    if (typeof rows === 'string') {
+        process.stderr.write(`${rows}\n`);
+        return 2;
+    }
+
+    const controller = new AbortController();
+    const onInterrupt = () => {
+        process.stderr.write('Stopping after the running rows; run the same command again to resume.\n');
+        controller.abort(new Error('Interrupted'));
+    };
+    process.once('SIGINT', onInterrupt);
+    try {
+        const job: JobContext = {
+            signal: controller.signal,
+            reportProgress: (_progress, message) => process.stderr.write(`${message}\n`),
+        };
+        const report = await service.runBatch(name, rows, concurrency ?? 2, { clientInfo: { name: 'imagen3-mcp-cli', version: SERVER_VERSION } }, job);
+        if (flags.json) {
+            process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+        } else {
+            for (const row of report.rows) {
+                process.stdout.write(`${row.status.padEnd(9)}  ${row.outputName}  ${row.error ?? row.files.join(', ')}\n`);
+            }
+            process.stdout.write(`${report.succeeded} succeeded, ${report.resumed} resumed, ${report.failed} failed. Report: ${path.join(report.outputDir, 'report.json')}\n`);
+        }
+        return report.failed > 0 ? 1 : 0;
+    } catch (e: any) {
+        process.stderr.write(`${e.message}\n`);
+        return 1;
+    } finally {
+        process.off('SIGINT', onInterrupt);
+    }
+}
+
+/**
+ * `list`: prints stored images as a table, or as JSON with `--json`.
+ */
+function listCommand(storage: WorkspaceStorage, flags: CommandFlags): number {
+    const pageSize = typeof flags.limit === 'string' ? Number(flags.limit) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        process.stderr.write(`Invalid --limit: ${flags.limit}, must be an integer between 1 and ${MAX_PAGE_SIZE}\n`);
+        return 2;
+    }
+    const page = storage.metadata.query({ search: typeof flags.search === 'string' ? flags.search : undefined, pageSize });
+    if (flags.json) {
+        process.stdout.write(`${JSON.stringify(page, null, 2)}\n`);
+        return 0;
+    }
+    for (const record of page.items) {
+        const size = record.width && record.height ? `${record.width}x${record.height}` : '?';
+        const prompt = record.prompt.length > 60 ? `${record.prompt.slice(0, 59)}…` : record.prompt;
+        process.stdout.write(`${record.id}  ${record.createdAt}  ${size.padEnd(9)}  ${record.filename}  ${prompt}\n`);
+    }
+    process.stdout.write(`${page.items.length} of ${page.total} image(s) in ${storage.artifacts.location}\n`);
+    return 0;
+}
+
+/**
+ * `inspect`: prints what {@link inspectImage} finds in each file. Needs no configuration, so it works on any machine.
+ */
+async function inspectCommand(files: string[], flags: CommandFlags): Promise<number> {
+    if (files.length === 0) {
+        process.stderr.write(`The inspect command needs at least one file\n\n${USAGE}`);
+        return 2;
+    }
+    let failed = false;
+    const results: (ImageInspection & { file: string })[] = [];
+    for (const file of files) {
+        try {
+            results.push({ file, ...inspectImage(await fs.readFile(file)) });
+        } catch (e: any) {
+            process.stderr.write(`${file}: ${e.message}\n`);
+            failed = true;
+        }
+    }
+    if (flags.json) {
+        process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+        return failed ? 1 : 0;
+    }
+    for (const inspection of results) {
+        const size = inspection.width && inspection.height ? `${inspection.width}x${inspection.height}` : '?';
+        process.stdout.write(`${inspection.file}: ${inspection.mimeType ?? 'unknown format'}, ${size}, ${inspection.fileSize} bytes\n`);
+        if (!inspection.provenance) {
+            const tool = inspection.xmp?.creatorTool ? ` (created with ${inspection.xmp.creatorTool})` : '';
+            process.stdout.write(`  No provenance found${tool}; AI generated: ${inspection.aiGenerated ? 'yes' : 'unknown'}\n`);
+            continue;
+        }
+        for (const [key, value] of Object.entries(inspection.provenance)) {
+            if (value !== undefined) {
+                process.stdout.write(`  ${key}: ${value}\n`);
+            }
         }
     }
+    return failed ? 1 : 0;
 }
 
 /**
- * Handler to list images in the images directory.
+ * `doctor`: prints one line per check and fails if any check failed.
  */
-async function listImages(resourcesPath: string): Promise<string[]> {
-    const imagesDir = path.join(resourcesPath, "images");
-    const entries = await fs.readdir(imagesDir, { withFileTypes: true });
-    return entries
-        .filter(dirent => dirent.isFile())
-        .map(dirent => dirent.name);
+async function doctorCommand(loaded: LoadedConfig, providers: ProviderRegistry): Promise<number> {
+    const checks = await runDoctor(loaded, providers);
+    for (const check of checks) {
+        process.stdout.write(`[${check.status}]`.padEnd(7) + ` ${check.name}: ${check.detail}\n`);
+    }
+    return checks.some(check => check.status === 'fail') ? 1 : 0;
 }
+
 //endregion
 
 // --- Main Application Entry Point ---
 async function main() {
     // --- App Path Setup ---
     const paths = envPaths("imagen3-mcp", { suffix: "" }); // Using 'imagen3-mcp' as the app name
-    const dataDir = paths.data; // Cross-platform data directory
-    const logDir = path.join(dataDir, 'logs');
-    const resourcesPath = path.join(dataDir, 'artifacts');
-    const imagesDir = path.join(resourcesPath, 'images');
+
+    let flags: CommandFlags;
+    let positionals: string[];
+    try {
+        ({ values: flags, positionals } = parseArgs({
+            args: process.argv.slice(2),
+            options: { ...configFlagOptions(), ...COMMAND_FLAGS },
+            allowPositionals: true,
+        }));
+    } catch (e: any) {
+        process.stderr.write(`${e.message}\n\n${USAGE}`);
+        process.exit(2);
+    }
+    const [command = 'serve', ...commandArgs] = positionals;
+    if (flags.help) {
+        process.stdout.write(USAGE);
+        process.exit(0);
+    }
+    if (!COMMANDS.includes(command)) {
+        process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+        process.exit(2);
+    }
+
+    // --- Configuration ---
+    configureLogging('info');
+    if (command === 'inspect') {
+        process.exit(await inspectCommand(commandArgs, flags));
+    }
+    let loaded: LoadedConfig;
+    try {
+        loaded = await loadConfig({ configDir: paths.config, dataDir: paths.data, flags });
+    } catch (e: any) {
+        winston.error(e.message);
+        process.exit(1);
+    }
+    const { config } = loaded;
+
+    const responseMode = parseResponseMode(config.responseMode);
+    if (typeof responseMode === 'string') {
+        winston.error(`Invalid responseMode: ${responseMode}`);
+        process.exit(1);
+    }
 
     // --- Logging Setup (like Tracing) ---
-    await ensureDir(logDir, 'log');
-    const logFilePrefix = "imagen3-mcp.log";
-    
-    winston.configure({
-        level: process.env.LOG_LEVEL || 'info',
-        format: winston.format.combine(
-            winston.format.timestamp(),
-            winston.format.json()
-        ),
-        transports: [
-            new winston.transports.Console({
-                format: winston.format.combine(
-                    winston.format.colorize(),
-                    winston.format.simple()
-                )
-            }),
-            new winston.transports.DailyRotateFile({
-                filename: path.join(logDir, `${logFilePrefix}-%DATE%.log`),
-                datePattern: 'YYYY-MM-DD',
-                zippedArchive: true,
-                maxSize: '20m',
-                maxFiles: '14d',
-            }),
-        ],
-    });
-    winston.info(`Tracing initialized. Logging to console and ${logDir}`);
+    const logDir = config.paths.logDir;
+    try {
+        await ensureDir(logDir, 'log');
+    } catch (e: any) {
+        winston.error(e.message);
+        process.exit(1);
+    }
+    // The CLI commands print their own output; keep the console to warnings there.
+    configureLogging(config.logLevel, logDir, command === 'serve' ? config.logLevel : 'warn');
+    winston.info(`Tracing initialized. Logging to console and ${logDir}`, { config_file: loaded.file, profile: loaded.profile });
 
-    // --- Directory Setup ---
+    let providers: ProviderRegistry;
     try {
-        await ensureDir(resourcesPath, 'resources');
-        winston.info('Created resources directory.', { path: resourcesPath });
-        await ensureDir(imagesDir, 'images');
-        winston.info('Created images directory.', { path: imagesDir });
+        providers = createProviderRegistry(config);
     } catch (e: any) {
-        winston.error(`Failed to ensure resources directory: ${e.message}`);
+        winston.error(e.message);
         process.exit(1);
     }
-    
-    // --- Configuration ---
-    const imageResourceServerAddr = process.env.IMAGE_RESOURCE_SERVER_ADDR || '127.0.0.1';
-    const serverPort = parseInt(process.env.SERVER_PORT || '9981', 10);
-    const listenAddr = process.env.SERVER_LISTEN_ADDR || '127.0.0.1';
 
-    if (isNaN(serverPort)) {
-        winston.error(`Invalid SERVER_PORT: ${process.env.SERVER_PORT}`);
+    if (command === 'doctor') {
+        process.exit(await doctorCommand(loaded, providers));
+    }
+
+    let storage: ImageStorage;
+    try {
+        storage = await openStorage(config);
+    } catch (e: any) {
+        winston.error(`Failed to load image storage: ${e.message}`);
         process.exit(1);
     }
-    
-    if (!process.env.GEMINI_API_KEY) {
-        winston.error("GEMINI_API_KEY environment variable is not set. Image generation will fail.");
+
+    const workspaceName = typeof flags.workspace === 'string' ? flags.workspace : DEFAULT_WORKSPACE;
+    const workspaceStorage = storage.workspaces.get(workspaceName);
+    if (!workspaceStorage) {
+        winston.error(`Unknown workspace: ${workspaceName}, available workspaces are: ${storage.workspaces.names().join(", ")}`);
+        process.exit(1);
+    }
+
+    if (command === 'list') {
+        process.exit(listCommand(workspaceStorage, flags));
+    }
+
+    const prompts = new PromptLibrary(config.paths.promptsDir);
+    try {
+        await prompts.load();
+    } catch (e: any) {
+        winston.error(e.message);
+        process.exit(1);
+    }
+
+    if (config.traffic.mode !== 'live') {
+        winston.info(`Provider traffic is ${config.traffic.mode === 'record' ? 'recorded to' : 'replayed from'} cassettes.`, { cassette_dir: config.traffic.cassetteDir });
+    }
+    const defaultProvider = providers.resolve();
+    const providerError = defaultProvider.provider.checkConfiguration();
+    if (providerError) {
+        winston.error(`${providerError}. Image generation will fail.`);
         process.exit(1);
     } else {
-        winston.info("GEMINI_API_KEY found.");
+        winston.info("Image provider configured.", { provider: defaultProvider.provider.name, model: defaultProvider.model });
     }
 
-    // --- HTTP Server (like Warp) ---
-    const app = express();
-    app.use(cors());
+    const jobs = new JobQueue({ concurrency: config.jobConcurrency });
+    const metrics = new ServerMetrics();
+    metrics.registry.gauge('imagen_jobs', 'Generation jobs by state.', () => [
+        [{ state: 'queued' }, jobs.stats.queued],
+        [{ state: 'running' }, jobs.stats.running],
+    ]);
+    metrics.registry.gauge('imagen_estimated_spend_usd', 'Estimated spend in the current UTC day and month.', () => [
+        [{ period: 'day' }, storage.usage.spent('day')],
+        [{ period: 'month' }, storage.usage.spent('month')],
+    ]);
+    metrics.registry.gauge('imagen_budget_usd', 'Configured budget caps.', () => [
+        [{ period: 'day' }, config.usage.dailyBudgetUsd],
+        [{ period: 'month' }, config.usage.monthlyBudgetUsd],
+    ].filter((entry): entry is [{ period: string }, number] => entry[1] !== undefined));
+
+    const { security } = config;
+    const urlSigner = security.urlSigningSecret ? new UrlSigner(security.urlSigningSecret, security.signedUrlTtlSeconds * 1000) : undefined;
+    let preflight: PromptPreflight;
+    try {
+        const { mode, maxTokens, rewrite, rewriter, rewriterModel } = config.preflight;
+        preflight = new PromptPreflight({
+            mode,
+            maxTokens,
+            rewrite,
+            rewriter: rewrite.length > 0
+                ? createPromptRewriter({ rewriter, model: rewriterModel, maxTokens, gemini: config.gemini, request: config.request, cassettes: createCassettePlayer(config) })
+                : undefined,
+        });
+    } catch (e: any) {
+        winston.error(e.message);
+        process.exit(1);
+    }
+
+    const events = new EventBus();
+    let webhooks: WebhookDispatcher | undefined;
+    try {
+        webhooks = createWebhookDispatcher(config.webhooks, storage.resourcesPath);
+    } catch (e: any) {
+        winston.error(e.message);
+        process.exit(1);
+    }
+
+    // One server instance per workspace; they share the providers, jobs, prompts, events and usage ledger.
+    const services = new Workspaces<ImageGenerationServer>(config.workspaces);
+    for (const workspace of storage.workspaces.names().map(name => storage.workspaces.require(name))) {
+        const problem = checkWorkspaceSettings(workspace, prompts);
+        if (problem) {
+            winston.error(problem);
+            process.exit(1);
+        }
+        const { providers: allowed } = workspace.settings;
+        services.add(workspace.name, new ImageGenerationServer({
+            providers: allowed ? providers.restrict(allowed) : providers,
+            metadata: workspace.metadata,
+            artifacts: workspace.artifacts,
+            cache: workspace.cache,
+            jobs,
+            prompts,
+            preflight,
+            metrics,
+            usage: storage.usage,
+            events,
+            imageResourceServerAddr: config.server.imageResourceServerAddr,
+            serverPort: config.server.port,
+            batchesDir: workspace.name === DEFAULT_WORKSPACE ? config.paths.batchesDir : path.join(config.paths.batchesDir, WORKSPACE_BATCHES_FOLDER, workspace.name),
+            inputRoots: config.paths.inputRoots,
+            inputAllowedHosts: config.paths.inputAllowedHosts,
+            urlSigner,
+            responseMode,
+            workspace: workspace.name,
+            workspaceSettings: workspace.settings,
+            workspaces: services,
+        }));
+    }
+    if (services.enabled) {
+        winston.info('Workspaces configured.', { workspaces: services.names() });
+    }
+    const service = services.require(workspaceName);
+
+    if (command === 'generate') {
+        process.exit(await generateCommand(service, workspaceStorage, commandArgs.join(' '), flags));
+    }
+    if (command === 'batch') {
+        process.exit(await batchCommand(service, commandArgs[0], flags));
+    }
+    await serve(config, storage, services, events, metrics, urlSigner, webhooks);
+}
+
+/**
+ * Checks a workspace's default style and aspect ratio, which the config loader cannot know about.
+ */
+function checkWorkspaceSettings(workspace: WorkspaceStorage, prompts: PromptLibrary): string | undefined {
+    const { style, aspectRatio } = workspace.settings;
+    if (style && !prompts.preset(style)) {
+        return `Invalid workspaces.${workspace.name}.style: unknown style ${style}, available styles are: ${prompts.presetNames().join(", ")}`;
+    }
+    if (aspectRatio && !SUPPORTED_ASPECT_RATIOS.includes(aspectRatio)) {
+        return `Invalid workspaces.${workspace.name}.aspectRatio: ${aspectRatio}, supported values are: ${SUPPORTED_ASPECT_RATIOS.join(", ")}`;
+    }
+    return undefined;
+}
+
+/**
+ * The routes of one workspace: its images, the listing, the gallery and the MCP endpoints. Mounted at the root for
+ * the default workspace and at `/w/<name>` for the others.
+ */
+function workspaceRouter(
+    workspace: WorkspaceStorage,
+    service: ImageGenerationServer,
+    events: EventBus,
+    httpTransport: McpHttpTransport,
+    renditions: RenditionCache,
+    requireToken: express.RequestHandler,
+    requireSigned: express.RequestHandler
+): express.Router {
+    const { metadata, artifacts } = workspace;
+    const router = express.Router();
 
-    winston.info(`Serving images from directory`, { path: imagesDir });
-    app.use('/images', express.static(imagesDir));
+    router.delete('/images/:filename', requireToken, async (req, res) => {
+        const filename = req.params.filename;
+        if (!isSafeImageName(filename)) {
+            winston.warn('Rejected image deletion with an unsafe name.', { filename });
+            res.status(400).send(`Invalid image name: ${filename}`);
+            return;
+        }
+        try {
+            const record = await service.deleteImage(filename, 'DELETE /images');
+            if (!record) {
+                res.status(404).send(`Image not found: ${filename}`);
+                return;
+            }
+            res.status(204).end();
+        } catch (e: any) {
+            winston.error(`Error deleting image: ${e.message}`, { filename, workspace: workspace.name });
+            res.status(500).send(`Error deleting image: ${e.message}`);
+        }
+    });
 
-    app.get('/list-images', async (req, res) => {
-        winston.info("Received request to list images.");
+    // Renditions (`/images/<id or filename>?w=&h=&format=&q=`) and plain ids. Local files fall through to the static
+    // files; images in remote storage redirect to the backend's URL.
+    router.get('/images/:name', requireSigned, async (req, res, next) => {
+        const name = req.params.name;
+        const options = parseRenditionQuery(req.query);
+        if (typeof options === 'string') {
+            res.status(400).send(options);
+            return;
+        }
+        const record = isSafeImageName(name) ? metadata.get(name) : undefined;
+        if (!record) {
+            next();
+            return;
+        }
+        if (!options) {
+            const url = artifacts.url(record.filename);
+            if (url) {
+                res.redirect(url);
+            } else if (record.filename === name) {
+                next();
+            } else {
+                res.sendFile(path.join(artifacts.directory!, record.filename));
+            }
+            return;
+        }
         try {
-            const imageList = await listImages(resourcesPath);
-            res.json(imageList);
+            const rendition = await renditions.get(
+                { key: record.sha256 ?? record.filename, mimeType: record.mimeType },
+                options,
+                async () => ({ mimeType: record.mimeType, data: await artifacts.read(record.filename) })
+            );
+            res.type(rendition.mimeType).send(rendition.data);
         } catch (e: any) {
-            winston.error(`Failed to list images: ${e.message}`);
-            res.status(500).send("Failed to list images.");
+            winston.error(`Failed to create image rendition: ${e.message}`, { name, options });
+            res.status(500).send(`Failed to create image rendition: ${e.message}`);
+        }
+    });
+
+    if (artifacts.directory) {
+        winston.info(`Serving images from directory`, { path: artifacts.directory, workspace: workspace.name });
+        router.use('/images', requireSigned, express.static(artifacts.directory, {
+            // The bundled MIME table predates AVIF.
+            setHeaders: (res, filePath) => {
+                if (filePath.endsWith('.avif')) {
+                    res.setHeader('Content-Type', 'image/avif');
+                }
+            },
+        }));
+    }
+
+    router.get('/list-images', requireToken, (req, res) => {
+        winston.info("Received request to list images.", { query: req.query, workspace: workspace.name });
+        const query = parseImageQuery(
+            queryString(req.query.q),
+            queryString(req.query.sort),
+            queryString(req.query.order),
+            queryNumber(req.query.page),
+            queryNumber(req.query.page_size)
+        );
+        if (typeof query === 'string') {
+            res.status(400).send(query);
+            return;
+        }
+        const page = metadata.query(query);
+        res.json({ ...page, items: page.items.map(record => service.describeImage(record)) });
+    });
+
+    router.use(galleryRouter({ metadata, service, requireToken }));
+    router.get('/events', requireToken, eventStream(events, workspace.name));
+
+    // --- MCP Server (Streamable HTTP and SSE) ---
+    router.use(['/mcp', '/sse', '/messages'], requireToken);
+    router.use(httpTransport.router());
+    return router;
+}
+
+/**
+ * Runs the HTTP server and, when stdin is a pipe or MCP_TRANSPORT is stdio, the stdio MCP server.
+ */
+async function serve(
+    config: Config,
+    storage: ImageStorage,
+    services: Workspaces<ImageGenerationServer>,
+    events: EventBus,
+    metrics: ServerMetrics,
+    urlSigner?: UrlSigner,
+    webhooks?: WebhookDispatcher
+): Promise<void> {
+    const { renditions, usage } = storage;
+    const { port: serverPort, listenAddr, transport: transportMode } = config.server;
+    const { apiTokens, adminTokens, corsOrigins } = config.security;
+
+    if (listenAddr !== '127.0.0.1' && listenAddr !== 'localhost' && (apiTokens.length === 0 || !urlSigner)) {
+        winston.warn('Listening on a non-loopback address without API_TOKENS and URL_SIGNING_SECRET; images and management routes are open to anyone who can connect.', { listen_addr: listenAddr });
+    }
+    winston.info('HTTP access control configured.', { api_tokens: apiTokens.length, admin_tokens: adminTokens.length, signed_urls: !!urlSigner, cors_origins: corsOrigins });
+
+    const { retention } = config;
+    const retentionPolicy: RetentionPolicy = {
+        maxAgeMs: retention.maxAgeDays !== undefined ? retention.maxAgeDays * 24 * 60 * 60 * 1000 : undefined,
+        maxBytes: retention.maxMb !== undefined ? retention.maxMb * 1024 * 1024 : undefined,
+        maxCount: retention.maxFiles,
+    };
+    const retentionIntervalMs = retention.sweepMinutes * 60 * 1000;
+
+    // --- HTTP Server (like Warp) ---
+    const app = express();
+    app.use(cors({
+        origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+        exposedHeaders: ['Mcp-Session-Id'],
+    }));
+    const requireToken = requireBearerToken(apiTokens);
+    // Pages this server serves, like the gallery, may use the MCP endpoints as well as the configured origins.
+    const mcpOrigins = [...new Set([listenAddr, 'localhost', config.server.imageResourceServerAddr])]
+        .map(host => `http://${host}:${serverPort}`)
+        .concat(corsOrigins);
+
+    // The workspace header is another way to write the `/w/<name>` prefix.
+    app.use((req, res, next) => {
+        const name = req.header(WORKSPACE_HEADER);
+        if (!name || name === DEFAULT_WORKSPACE || req.path.startsWith('/w/')) {
+            next();
+            return;
+        }
+        if (!services.get(name)) {
+            res.status(404).send(`Unknown workspace: ${name}, available workspaces are: ${services.names().join(", ")}`);
+            return;
+        }
+        req.url = `${workspacePrefix(name)}${req.url}`;
+        next();
+    });
+
+    // Each workspace's router serves its own `/events` feed, the default workspace's at the root. Only admin tokens
+    // get the feed of every workspace, or of any one with `?workspace=`.
+    if (adminTokens.length > 0) {
+        app.get('/admin/events', requireBearerToken(adminTokens), eventStream(events));
+    }
+    webhooks?.start(events);
+
+    const httpTransports: McpHttpTransport[] = [];
+    for (const name of services.names()) {
+        const service = services.require(name);
+        const workspace = storage.workspaces.require(name);
+        const httpTransport = new McpHttpTransport(service, { allowedOrigins: mcpOrigins });
+        httpTransports.push(httpTransport);
+        app.use(workspacePrefix(name) || '/', workspaceRouter(workspace, service, events, httpTransport, renditions, requireToken, requireSignedUrl(urlSigner, apiTokens)));
+    }
+
+    // --- Retention ---
+    // One policy for the images of all workspaces together, so adding workspaces does not multiply the disk use.
+    const sweeper = new RetentionSweeper(services.names().map(name => ({
+        metadata: storage.workspaces.require(name).metadata,
+        remove: (record, reason) => services.require(name).removeImage(record, reason),
+    })), {
+        policy: retentionPolicy,
+        intervalMs: retentionIntervalMs,
+    });
+    sweeper.start();
+
+    app.get('/metrics', requireToken, (req, res) => {
+        res.type('text/plain; version=0.0.4').send(metrics.registry.render());
+    });
+
+    // Usage per day, client, session and provider; `period` is a UTC day (YYYY-MM-DD) or month (YYYY-MM).
+    app.get('/usage', requireToken, (req, res) => {
+        const period = queryString(req.query.period);
+        if (period !== undefined && !/^\d{4}-\d{2}(-\d{2})?$/.test(period)) {
+            res.status(400).send(`Invalid period: ${period}, use YYYY-MM or YYYY-MM-DD`);
+            return;
         }
+        res.json({
+            ...usage.query({ period, client: queryString(req.query.client) }),
+            spent: { day: usage.spent('day'), month: usage.spent('month') },
+            budget: { daily: config.usage.dailyBudgetUsd, monthly: config.usage.monthlyBudgetUsd },
+        });
     });
 
     const httpServer = app.listen(serverPort, listenAddr, () => {
         winston.info(`Starting HTTP server for image resources.`, { address: `http://${listenAddr}:${serverPort}`});
+        winston.info(`MCP endpoint available.`, { streamable_http: `http://${listenAddr}:${serverPort}/mcp`, sse: `http://${listenAddr}:${serverPort}/sse` });
+        winston.info(`Gallery available.`, { url: `http://${listenAddr}:${serverPort}/gallery/` });
+        winston.info(`Event stream available.`, { url: `http://${listenAddr}:${serverPort}/events` });
     });
 
+    const shutdown = (reason: string) => {
+        winston.info(`${reason}, shutting down.`);
+        sweeper.stop();
+        webhooks?.stop();
+        httpTransports.forEach(httpTransport => httpTransport.close());
+        httpServer.close(() => {
+            winston.info("HTTP server shut down.");
+            process.exit(0);
+        });
+    };
+    process.on('SIGINT', () => shutdown('Received SIGINT'));
+    process.on('SIGTERM', () => shutdown('Received SIGTERM'));
+
+    const useStdio = transportMode === 'stdio' || (transportMode === 'auto' && isStdinPiped());
+    if (!useStdio) {
+        winston.info("stdin is not a pipe, running in HTTP-only mode.");
+        return;
+    }
+
     // --- MCP Server (stdin/stdout) ---
-    const service = new ImageGenerationServer(
-        resourcesPath, 
-        imageResourceServerAddr, 
-        serverPort
-    );
+    const session = new McpSession(services.require(DEFAULT_WORKSPACE), message => {
+        process.stdout.write(JSON.stringify(message) + '\n');
+    }, 'stdio');
 
     const rl = readline.createInterface({
         input: process.stdin,
-        output: process.stdout,
         terminal: false,
     });
     
     winston.info("Starting MCP server...");
 
-    rl.on('line', async (line) => {
-        try {
-            const request = JSON.parse(line);
-            // Assuming a simple JSON-RPC like structure: { "id": number, "method": string, "params": any }
-            const { id, method, params } = request;
-            let result;
-
-            switch (method) {
-                case 'get_info':
-                    result = service.getInfo();
-                    break;
-                case 'generate_image':
-                    result = await service.generate_image(params);
-                    break;
-                default:
-                    throw new Error(`Unknown method: ${method}`);
-            }
-            // Write the JSON response back to stdout
-            process.stdout.write(JSON.stringify({ id, result }) + '\n');
-
-        } catch (e: any) {
-            winston.error(`Error processing MCP request: ${e.message}`, { request_line: line });
-            // Respond with an error
-            const request = JSON.parse(line);
-            process.stdout.write(JSON.stringify({ id: request.id, error: { message: e.message } }) + '\n');
-        }
+    const inFlight = new Set<Promise<void>>();
+    rl.on('line', line => {
+        const handled = session.handleLine(line).finally(() => inFlight.delete(handled));
+        inFlight.add(handled);
     });
 
     rl.on('close', () => {
-        winston.info("MCP server stdin closed, shutting down.");
-        httpServer.close(() => {
-            winston.info("HTTP server shut down.");
-            process.exit(0);
-        });
+        // Let requests that were already read finish before exiting.
+        void Promise.allSettled(inFlight).then(() => shutdown("MCP server stdin closed"));
     });
 }
 
@@ -0,0 +1,544 @@
+import winston from 'winston';
+
+//region Protocol Definitions
+
+export const JSONRPC_VERSION = '2.0';
+
+/**
+ * MCP protocol revisions this server can speak, newest first.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Standard JSON-RPC 2.0 error codes, plus the ones MCP defines.
+ */
+export const ErrorCode = {
+    ParseError: -32700,
+    InvalidRequest: -32600,
+    MethodNotFound: -32601,
+    InvalidParams: -32602,
+    InternalError: -32603,
+    /**
+     * MCP-specific: `resources/read` for an unknown URI.
+     */
+    ResourceNotFound: -32002,
+} as const;
+
+export type RequestId = string | number;
+
+export interface JsonRpcRequest {
+    jsonrpc: typeof JSONRPC_VERSION;
+    id?: RequestId;
+    method: string;
+    params?: any;
+}
+
+export interface JsonRpcError {
+    code: number;
+    message: string;
+    data?: unknown;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: typeof JSONRPC_VERSION;
+    id: RequestId | null;
+    result?: unknown;
+    error?: JsonRpcError;
+}
+
+export interface JsonRpcNotification {
+    jsonrpc: typeof JSONRPC_VERSION;
+    method: string;
+    params?: any;
+}
+
+export type JsonRpcMessage = JsonRpcResponse | JsonRpcNotification;
+
+/**
+ * The result of `initialize`, advertised to the client during the handshake.
+ */
+export interface ServerInfo {
+    protocolVersion: string;
+    serverInfo: {
+        name: string;
+        version: string;
+    };
+    instructions?: string;
+    capabilities: {
+        tools?: { listChanged?: boolean };
+        resources?: { subscribe?: boolean; listChanged?: boolean };
+        prompts?: { listChanged?: boolean };
+    };
+}
+
+export interface ClientInfo {
+    name: string;
+    version: string;
+    /**
+     * Not part of MCP: clients of this server may name the workspace the session should use.
+     */
+    workspace?: string;
+}
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: {
+        type: 'object';
+        properties: Record<string, unknown>;
+        required?: string[];
+        additionalProperties?: boolean;
+    };
+}
+
+export interface TextContent {
+    type: 'text';
+    text: string;
+}
+
+export interface ImageContent {
+    type: 'image';
+    /**
+     * Base64-encoded image bytes.
+     */
+    data: string;
+    mimeType: string;
+}
+
+/**
+ * A pointer to a resource the client can fetch with `resources/read`.
+ */
+export interface ResourceLink extends Resource {
+    type: 'resource_link';
+}
+
+export type ContentBlock = TextContent | ImageContent | ResourceLink;
+
+export interface CallToolResult {
+    content: ContentBlock[];
+    isError?: boolean;
+}
+
+export interface Resource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    size?: number;
+}
+
+export interface ResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface ListResourcesResult {
+    resources: Resource[];
+    nextCursor?: string;
+}
+
+export type ResourceContents =
+    | { uri: string; mimeType?: string; text: string }
+    | { uri: string; mimeType?: string; blob: string };
+
+export interface PromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+
+export interface Prompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: PromptArgument[];
+}
+
+export interface PromptMessage {
+    role: 'user' | 'assistant';
+    content: ContentBlock;
+}
+
+export interface GetPromptResult {
+    description?: string;
+    messages: PromptMessage[];
+}
+
+/**
+ * Changes a handler announces to sessions: the resource list changed, or one resource did.
+ */
+export type ResourceEvent =
+    | { type: 'list_changed' }
+    | { type: 'updated'; uri: string };
+
+//endregion
+
+/**
+ * An error that is reported to the client as a JSON-RPC error object.
+ */
+export class McpError extends Error {
+    readonly code: number;
+    readonly data?: unknown;
+
+    constructor(code: number, message: string, data?: unknown) {
+        super(message);
+        this.name = 'McpError';
+        this.code = code;
+        this.data = data;
+    }
+}
+
+/**
+ * Per-request information handed to tool implementations.
+ */
+export interface RequestContext {
+    clientInfo?: ClientInfo;
+    /**
+     * The transport's id for the connection, e.g. the `Mcp-Session-Id` of an HTTP session.
+     */
+    sessionId?: string;
+    /**
+     * Aborted when the client sends `notifications/cancelled` for this request.
+     */
+    signal?: AbortSignal;
+    /**
+     * Sends `notifications/progress` if the client asked for it with a progress token; a no-op otherwise.
+     */
+    reportProgress?: (progress: number, total?: number, message?: string) => void;
+}
+
+/**
+ * What a server has to implement to be driven by an {@link McpSession}.
+ */
+export interface McpHandler {
+    getInfo(): ServerInfo;
+    listTools(): ToolDefinition[];
+    callTool(name: string, args: Record<string, unknown>, context: RequestContext): Promise<CallToolResult>;
+    /**
+     * Resource support is optional; a handler that has it also advertises the `resources` capability.
+     */
+    listResources?(cursor?: string): ListResourcesResult;
+    listResourceTemplates?(): ResourceTemplate[];
+    readResource?(uri: string): Promise<ResourceContents[]>;
+    /**
+     * Prompt support is optional, like resources.
+     */
+    listPrompts?(): Prompt[];
+    getPrompt?(name: string, args: Record<string, string>): GetPromptResult;
+    /**
+     * Registers a listener for resource changes and returns a function that removes it.
+     */
+    onResourceEvent?(listener: (event: ResourceEvent) => void): () => void;
+    /**
+     * Picks the handler that serves the rest of the session once the client has
+     * introduced itself; the session keeps using this handler if it returns itself.
+     * May throw an {@link McpError} to refuse the client.
+     */
+    handlerForClient?(clientInfo: ClientInfo | undefined): McpHandler;
+}
+
+/**
+ * A single MCP connection. Parses incoming JSON-RPC messages, runs the
+ * initialize handshake and dispatches requests to the handler. Outgoing
+ * messages are passed to `send`, so the same session works for any transport.
+ */
+export class McpSession {
+    private handler: McpHandler;
+    private readonly send: (message: JsonRpcMessage) => void;
+    private clientInfo?: ClientInfo;
+    private protocolVersion?: string;
+    private initialized = false;
+    private readonly inFlight = new Map<RequestId, AbortController>();
+    private readonly subscriptions = new Set<string>();
+    private unsubscribeEvents?: () => void;
+    private readonly sessionId?: string;
+
+    constructor(handler: McpHandler, send: (message: JsonRpcMessage) => void, sessionId?: string) {
+        this.handler = handler;
+        this.send = send;
+        this.sessionId = sessionId;
+        this.unsubscribeEvents = handler.onResourceEvent?.(event => this.handleResourceEvent(event));
+    }
+
+    /**
+     * Stops listening for resource changes. Call when the connection goes away.
+     */
+    close(): void {
+        this.unsubscribeEvents?.();
+        this.subscriptions.clear();
+    }
+
+    /**
+     * Handles one line of newline-delimited JSON. Never throws: malformed input
+     * is answered with a parse error instead.
+     */
+    async handleLine(line: string): Promise<void> {
+        if (!line.trim()) {
+            return;
+        }
+
+        let message: unknown;
+        try {
+            message = JSON.parse(line);
+        } catch (e: any) {
+            winston.error(`Failed to parse MCP message: ${e.message}`, { request_line: line });
+            this.send(errorResponse(null, ErrorCode.ParseError, `Parse error: ${e.message}`));
+            return;
+        }
+
+        const response = await this.handleMessage(message);
+        if (response) {
+            this.send(response);
+        }
+    }
+
+    /**
+     * Handles an already-parsed message. Returns the response for requests and
+     * `undefined` for notifications, client responses and cancelled requests.
+     * Notifications about the request, such as progress, go to `sendRelated`,
+     * which defaults to the session's own channel.
+     */
+    async handleMessage(
+        message: unknown,
+        sendRelated: (message: JsonRpcMessage) => void = this.send
+    ): Promise<JsonRpcResponse | undefined> {
+        if (!isObject(message) || message.jsonrpc !== JSONRPC_VERSION) {
+            const id = isObject(message) && isRequestId(message.id) ? message.id : null;
+            return errorResponse(id, ErrorCode.InvalidRequest, 'Invalid Request: expected a JSON-RPC 2.0 message');
+        }
+
+        if (typeof message.method !== 'string') {
+            // A response to a request we sent; we do not issue any yet.
+            if ('result' in message || 'error' in message) {
+                return undefined;
+            }
+            const id = isRequestId(message.id) ? message.id : null;
+            return errorResponse(id, ErrorCode.InvalidRequest, 'Invalid Request: missing method');
+        }
+
+        const request = message as unknown as JsonRpcRequest;
+        if (request.id === undefined) {
+            this.handleNotification(request);
+            return undefined;
+        }
+        if (!isRequestId(request.id)) {
+            return errorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request: id must be a string or number');
+        }
+        // Only pings may come before the handshake; everything else depends on the negotiated session.
+        if (this.protocolVersion === undefined && request.method !== 'initialize' && request.method !== 'ping') {
+            winston.warn('MCP request before initialize.', { method: request.method });
+            return errorResponse(request.id, ErrorCode.InvalidRequest, `Invalid Request: ${request.method} sent before initialize`);
+        }
+
+        if (this.inFlight.has(request.id)) {
+            return errorResponse(request.id, ErrorCode.InvalidRequest, `Invalid Request: id ${request.id} is already in use`);
+        }
+        const controller = new AbortController();
+        this.inFlight.set(request.id, controller);
+
+        try {
+            const result = await this.dispatch(request, this.createContext(request, controller.signal, sendRelated));
+            if (controller.signal.aborted) {
+                // The client is no longer waiting for an answer.
+                return undefined;
+            }
+            return { jsonrpc: JSONRPC_VERSION, id: request.id, result };
+        } catch (e: any) {
+            if (controller.signal.aborted) {
+                return undefined;
+            }
+            if (e instanceof McpError) {
+                winston.warn(`MCP request failed: ${e.message}`, { method: request.method, code: e.code });
+                return errorResponse(request.id, e.code, e.message, e.data);
+            }
+            winston.error(`Error processing MCP request: ${e.message}`, { method: request.method, error: e });
+            return errorResponse(request.id, ErrorCode.InternalError, `Internal error: ${e.message}`);
+        } finally {
+            this.inFlight.delete(request.id);
+        }
+    }
+
+    private createContext(
+        request: JsonRpcRequest,
+        signal: AbortSignal,
+        sendRelated: (message: JsonRpcMessage) => void
+    ): RequestContext {
+        const progressToken = request.params?._meta?.progressToken;
+        return {
+            clientInfo: this.clientInfo,
+            sessionId: this.sessionId,
+            signal,
+            reportProgress: (progress, total, message) => {
+                if (!isRequestId(progressToken) || signal.aborted) {
+                    return;
+                }
+                const params: Record<string, unknown> = { progressToken, progress };
+                if (total !== undefined) {
+                    params.total = total;
+                }
+                if (message !== undefined) {
+                    params.message = message;
+                }
+                sendRelated({ jsonrpc: JSONRPC_VERSION, method: 'notifications/progress', params });
+            },
+        };
+    }
+
+    private async dispatch(request: JsonRpcRequest, context: RequestContext): Promise<unknown> {
+        const params = request.params ?? {};
+        if (!isObject(params)) {
+            throw new McpError(ErrorCode.InvalidParams, 'params must be an object');
+        }
+
+        switch (request.method) {
+            case 'initialize':
+                return this.initialize(params);
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: this.handler.listTools() };
+            case 'tools/call': {
+                if (typeof params.name !== 'string') {
+                    throw new McpError(ErrorCode.InvalidParams, 'tools/call requires a tool name');
+                }
+                const args = params.arguments ?? {};
+                if (!isObject(args)) {
+                    throw new McpError(ErrorCode.InvalidParams, 'Tool arguments must be an object');
+                }
+                return this.handler.callTool(params.name, args, context);
+            }
+            case 'prompts/list':
+                if (!this.handler.listPrompts) {
+                    throw new McpError(ErrorCode.MethodNotFound, `Method not found: ${request.method}`);
+                }
+                return { prompts: this.handler.listPrompts() };
+            case 'prompts/get': {
+                if (!this.handler.getPrompt) {
+                    throw new McpError(ErrorCode.MethodNotFound, `Method not found: ${request.method}`);
+                }
+                if (typeof params.name !== 'string') {
+                    throw new McpError(ErrorCode.InvalidParams, 'prompts/get requires a prompt name');
+                }
+                const args = params.arguments ?? {};
+                if (!isObject(args) || Object.values(args).some(value => typeof value !== 'string')) {
+                    throw new McpError(ErrorCode.InvalidParams, 'Prompt arguments must be an object of strings');
+                }
+                return this.handler.getPrompt(params.name, args as Record<string, string>);
+            }
+            case 'resources/list':
+            case 'resources/templates/list':
+            case 'resources/read':
+            case 'resources/subscribe':
+            case 'resources/unsubscribe':
+                return this.dispatchResources(request.method, params);
+            default:
+                throw new McpError(ErrorCode.MethodNotFound, `Method not found: ${request.method}`);
+        }
+    }
+
+    private async dispatchResources(method: string, params: Record<string, any>): Promise<unknown> {
+        const { listResources, readResource } = this.handler;
+        if (!listResources || !readResource) {
+            throw new McpError(ErrorCode.MethodNotFound, `Method not found: ${method}`);
+        }
+        if (method === 'resources/list') {
+            if (params.cursor !== undefined && typeof params.cursor !== 'string') {
+                throw new McpError(ErrorCode.InvalidParams, 'cursor must be a string');
+            }
+            return this.handler.listResources!(params.cursor);
+        }
+        if (method === 'resources/templates/list') {
+            return { resourceTemplates: this.handler.listResourceTemplates?.() ?? [] };
+        }
+
+        if (typeof params.uri !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, `${method} requires a uri`);
+        }
+        switch (method) {
+            case 'resources/read':
+                return { contents: await this.handler.readResource!(params.uri) };
+            case 'resources/subscribe':
+                this.subscriptions.add(params.uri);
+                return {};
+            default:
+                this.subscriptions.delete(params.uri);
+                return {};
+        }
+    }
+
+    private handleResourceEvent(event: ResourceEvent): void {
+        if (!this.initialized) {
+            return;
+        }
+        if (event.type === 'list_changed') {
+            this.send({ jsonrpc: JSONRPC_VERSION, method: 'notifications/resources/list_changed' });
+        } else if (this.subscriptions.has(event.uri)) {
+            this.send({ jsonrpc: JSONRPC_VERSION, method: 'notifications/resources/updated', params: { uri: event.uri } });
+        }
+    }
+
+    private initialize(params: Record<string, any>): ServerInfo {
+        const requested = params.protocolVersion;
+        this.clientInfo = isObject(params.clientInfo) ? params.clientInfo as unknown as ClientInfo : undefined;
+        const handler = this.handler.handlerForClient?.(this.clientInfo) ?? this.handler;
+        if (handler !== this.handler) {
+            this.unsubscribeEvents?.();
+            this.handler = handler;
+            this.unsubscribeEvents = handler.onResourceEvent?.(event => this.handleResourceEvent(event));
+        }
+        // Echo the client's version if we support it, otherwise offer our latest.
+        // Set last, so a failed handshake leaves the session uninitialized.
+        this.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+        winston.info('MCP client connected.', {
+            client: this.clientInfo,
+            requested_protocol_version: requested,
+            protocol_version: this.protocolVersion,
+        });
+
+        return { ...this.handler.getInfo(), protocolVersion: this.protocolVersion! };
+    }
+
+    private handleNotification(notification: JsonRpcRequest): void {
+        switch (notification.method) {
+            case 'notifications/initialized':
+                this.initialized = true;
+                winston.info('MCP session initialized.', { client: this.clientInfo });
+                break;
+            case 'notifications/cancelled': {
+                const requestId = notification.params?.requestId;
+                const controller = isRequestId(requestId) ? this.inFlight.get(requestId) : undefined;
+                if (controller) {
+                    winston.info('MCP request cancelled by client.', { request_id: requestId, reason: notification.params?.reason });
+                    controller.abort(new Error(notification.params?.reason || 'Cancelled by client'));
+                }
+                break;
+            }
+            default:
+                winston.debug(`Ignoring MCP notification: ${notification.method}`);
+        }
+    }
+}
+
+//region Helpers
+
+function errorResponse(id: RequestId | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+    const error: JsonRpcError = { code, message };
+    if (data !== undefined) {
+        error.data = data;
+    }
+    return { jsonrpc: JSONRPC_VERSION, id, error };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRequestId(value: unknown): value is RequestId {
+    return typeof value === 'string' || typeof value === 'number';
+}
+
+//endregion
@@ -0,0 +1,340 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { withFileLock } from './file-lock';
+import { ClientInfo } from './mcp';
+import { ControlType, EDIT_MODES, EditMode, ImageParameters, ReferenceType, SubjectType } from './providers';
+import { inspectImage } from './provenance';
+import { ArtifactStorage, StoredFile } from './storage';
+
+/**
+ * A reference image a generation was conditioned on. The image itself is not kept; its hash identifies it.
+ */
+export interface ReferenceRecord {
+    type: ReferenceType;
+    referenceId: number;
+    description?: string;
+    subjectType?: SubjectType;
+    controlType?: ControlType;
+    computeControl?: boolean;
+    sha256: string;
+    /**
+     * The stored image used as the reference, when it was given by id or filename.
+     */
+    imageId?: string;
+    /**
+     * The local file used as the reference, when it was given by path.
+     */
+    file?: string;
+}
+
+/**
+ * Everything we know about one saved image.
+ */
+export interface ImageRecord {
+    id: string;
+    filename: string;
+    prompt: string;
+    parameters: ImageParameters;
+    provider: string;
+    model: string;
+    createdAt: string;
+    fileSize: number;
+    mimeType: string;
+    /**
+     * SHA-256 of the file's bytes; files with the same hash share one blob on disk.
+     */
+    sha256?: string;
+    width?: number;
+    height?: number;
+    client?: ClientInfo;
+    /**
+     * The id of the stored image this one was edited from.
+     */
+    derivedFrom?: string;
+    editMode?: EditMode;
+    /**
+     * The style preset the prompt was expanded with.
+     */
+    style?: string;
+    /**
+     * The reference images the generation was conditioned on.
+     */
+    references?: ReferenceRecord[];
+    /**
+     * Shared by the images of one generate or edit call, and embedded in their files.
+     */
+    generationId?: string;
+    /**
+     * Pinned images are kept by the retention sweeper.
+     */
+    pinned?: boolean;
+}
+
+export const SORT_FIELDS = ['createdAt', 'fileSize', 'prompt'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+
+export interface ImageQuery {
+    /**
+     * Case-insensitive text that must appear in the prompt.
+     */
+    search?: string;
+    /**
+     * Only images from this provider.
+     */
+    provider?: string;
+    /**
+     * Only images expanded with this style preset.
+     */
+    style?: string;
+    sort?: SortField;
+    order?: 'asc' | 'desc';
+    page?: number;
+    pageSize?: number;
+}
+
+export interface ImagePage {
+    items: ImageRecord[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const INDEX_FILENAME = 'images.jsonl';
+
+/**
+ * Image metadata kept in memory and persisted as a JSON-lines file under the
+ * resources directory. New records are appended; updates and removals rewrite
+ * the file. The server and CLI commands may share the file, so every write
+ * holds a file lock, and rewrites start from the file's current content rather
+ * than this process's copy, keeping records other processes added.
+ */
+export class ImageMetadataStore {
+    private readonly indexPath: string;
+    private readonly artifacts: ArtifactStorage;
+    private readonly records = new Map<string, ImageRecord>();
+    /**
+     * Ids this process removed, so a rewrite that still finds them in the file does not bring them back.
+     */
+    private readonly removed = new Set<string>();
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(resourcesPath: string, artifacts: ArtifactStorage) {
+        this.indexPath = path.join(resourcesPath, INDEX_FILENAME);
+        this.artifacts = artifacts;
+    }
+
+    /**
+     * Loads the index, then brings it in line with the stored images: files
+     * without a record get one with whatever can be read from the file, and
+     * records whose file is gone are dropped.
+     */
+    async load(): Promise<void> {
+        for (const record of (await this.readIndex()).values()) {
+            this.records.set(record.id, record);
+        }
+
+        const files = new Map((await this.artifacts.list()).map(file => [file.filename, file]));
+        const known = new Set([...this.records.values()].map(record => record.filename));
+
+        const missing = [...this.records.values()].filter(record => !files.has(record.filename));
+        const untracked: ImageRecord[] = [];
+        for (const file of files.values()) {
+            if (!known.has(file.filename)) {
+                untracked.push(await this.describeUntrackedFile(file));
+            }
+        }
+        missing.forEach(record => this.records.delete(record.id));
+        untracked.forEach(record => this.records.set(record.id, record));
+        if (missing.length > 0 || untracked.length > 0) {
+            await this.rewrite(records => {
+                missing.forEach(record => records.delete(record.id));
+                untracked.forEach(record => records.set(record.id, record));
+            });
+        }
+        winston.info('Loaded image index.', { path: this.indexPath, images: this.records.size });
+    }
+
+    async add(record: ImageRecord): Promise<void> {
+        this.records.set(record.id, record);
+        await this.enqueue(() => withFileLock(this.indexPath, () => fs.appendFile(this.indexPath, JSON.stringify(record) + '\n')));
+    }
+
+    async update(id: string, changes: Partial<Omit<ImageRecord, 'id' | 'filename'>>): Promise<ImageRecord | undefined> {
+        const record = this.records.get(id);
+        if (!record) {
+            return undefined;
+        }
+        const updated = { ...record, ...changes };
+        this.records.set(id, updated);
+        await this.rewrite(records => {
+            // Another process may have deleted it meanwhile; do not bring it back.
+            const current = records.get(id);
+            if (current) {
+                records.set(id, { ...current, ...changes });
+            }
+        });
+        return updated;
+    }
+
+    async remove(id: string): Promise<ImageRecord | undefined> {
+        const record = this.records.get(id);
+        if (record) {
+            this.records.delete(id);
+            this.removed.add(id);
+            await this.rewrite(records => records.delete(id));
+        }
+        return record;
+    }
+
+    /**
+     * Finds a record by id or by filename.
+     */
+    get(idOrFilename: string): ImageRecord | undefined {
+        const byId = this.records.get(idOrFilename);
+        if (byId) {
+            return byId;
+        }
+        for (const record of this.records.values()) {
+            if (record.filename === idOrFilename) {
+                return record;
+            }
+        }
+        return undefined;
+    }
+
+    all(): ImageRecord[] {
+        return [...this.records.values()];
+    }
+
+    query(query: ImageQuery = {}): ImagePage {
+        const search = query.search?.trim().toLowerCase();
+        const sort = query.sort ?? 'createdAt';
+        const direction = (query.order ?? 'desc') === 'asc' ? 1 : -1;
+        const pageSize = Math.min(Math.max(query.pageSize ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(query.page ?? 1, 1);
+
+        const matches = this.all()
+            .filter(record => !search || record.prompt.toLowerCase().includes(search))
+            .filter(record => !query.provider || record.provider === query.provider)
+            .filter(record => !query.style || record.style === query.style)
+            .sort((a, b) => {
+                const left = a[sort];
+                const right = b[sort];
+                return (left < right ? -1 : left > right ? 1 : 0) * direction;
+            });
+
+        return {
+            items: matches.slice((page - 1) * pageSize, page * pageSize),
+            total: matches.length,
+            page,
+            pageSize,
+        };
+    }
+
+    /**
+     * A record for a stored file the index does not know, e.g. after the index
+     * was lost while the images live on in S3. Files this server saved carry
+     * their prompt, provider and parameters in the embedded provenance; other
+     * files get only what their bytes tell.
+     */
+    private async describeUntrackedFile({ filename, size, modifiedAt }: StoredFile): Promise<ImageRecord> {
+        const data = await this.artifacts.read(filename);
+        const inspection = inspectImage(data);
+        const provenance = inspection.provenance;
+        return {
+            id: imageIdFromFilename(filename),
+            filename,
+            prompt: provenance?.prompt ?? '',
+            parameters: {
+                sampleCount: 1,
+                aspectRatio: provenance?.aspectRatio,
+                negativePrompt: provenance?.negativePrompt,
+                seed: provenance?.seed,
+            },
+            provider: provenance?.provider ?? 'unknown',
+            model: provenance?.model ?? 'unknown',
+            createdAt: provenance?.createdAt ?? modifiedAt.toISOString(),
+            fileSize: size,
+            mimeType: inspection.mimeType ?? 'application/octet-stream',
+            sha256: createHash('sha256').update(data).digest('hex'),
+            width: inspection.width,
+            height: inspection.height,
+            derivedFrom: provenance?.derivedFrom,
+            editMode: (EDIT_MODES as readonly string[]).includes(provenance?.editMode ?? '') ? provenance!.editMode as EditMode : undefined,
+            style: provenance?.style,
+            generationId: provenance?.generationId,
+        };
+    }
+
+    /**
+     * Re-reads the index under the file lock, applies `change` to it and writes
+     * it back. Records another process added since we loaded are kept, and also
+     * become visible in this process; records this process already has stay as they are.
+     */
+    private async rewrite(change: (records: Map<string, ImageRecord>) => void): Promise<void> {
+        const tempPath = `${this.indexPath}.tmp`;
+        await this.enqueue(() => withFileLock(this.indexPath, async () => {
+            const records = await this.readIndex();
+            change(records);
+            await fs.writeFile(tempPath, [...records.values()].map(record => JSON.stringify(record) + '\n').join(''));
+            await fs.rename(tempPath, this.indexPath);
+            for (const record of records.values()) {
+                if (!this.records.has(record.id) && !this.removed.has(record.id)) {
+                    this.records.set(record.id, record);
+                }
+            }
+        }));
+    }
+
+    /**
+     * The records in the index file; a later line for the same id replaces an earlier one.
+     */
+    private async readIndex(): Promise<Map<string, ImageRecord>> {
+        let content = '';
+        try {
+            content = await fs.readFile(this.indexPath, 'utf8');
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') {
+                throw new Error(`Could not read image index at ${this.indexPath}: ${e.message}`);
+            }
+        }
+
+        const records = new Map<string, ImageRecord>();
+        content.split('\n').forEach((line, i) => {
+            if (!line.trim()) {
+                return;
+            }
+            try {
+                const record = JSON.parse(line) as ImageRecord;
+                records.set(record.id, record);
+            } catch (e: any) {
+                winston.warn(`Skipping malformed line in image index: ${e.message}`, { path: this.indexPath, line: i + 1 });
+            }
+        });
+        return records;
+    }
+
+    /**
+     * Serializes writes to the index file so appends and rewrites never interleave.
+     */
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const next = this.writes.then(write);
+        this.writes = next.catch(e => {
+            winston.error(`Failed to write image index: ${e.message}`, { path: this.indexPath });
+        });
+        return next;
+    }
+}
+
+/**
+ * Saved files are named `<id>_<timestamp>.<ext>`; anything else is identified by its full name.
+ */
+export function imageIdFromFilename(filename: string): string {
+    const match = /^(.+)_\d{14}\.[a-z]+$/.exec(filename);
+    return match ? match[1] : filename;
+}
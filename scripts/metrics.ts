@@ -0,0 +1,173 @@
+type Labels = Record<string, string>;
+
+/**
+ * Latency buckets in seconds; image generation usually takes several seconds.
+ */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+interface Metric {
+    readonly name: string;
+    render(): string[];
+}
+
+export class Counter implements Metric {
+    readonly name: string;
+    private readonly help: string;
+    private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key);
+        if (entry) {
+            entry.value += value;
+        } else {
+            this.values.set(key, { labels, value });
+        }
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+export class Histogram implements Metric {
+    readonly name: string;
+    private readonly help: string;
+    private readonly buckets: number[];
+    private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+        this.name = name;
+        this.help = help;
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                entry!.counts[i]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * Returns a function that observes the seconds elapsed since this call.
+     */
+    startTimer(labels: Labels): (extraLabels?: Labels) => void {
+        const started = process.hrtime.bigint();
+        return extraLabels => this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - started) / 1e9);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * A gauge whose values are read from `collect` at scrape time.
+ */
+export class Gauge implements Metric {
+    readonly name: string;
+    private readonly help: string;
+    private readonly collect: () => [Labels, number][];
+
+    constructor(name: string, help: string, collect: () => [Labels, number][]) {
+        this.name = name;
+        this.help = help;
+        this.collect = collect;
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} gauge`,
+            ...this.collect().map(([labels, value]) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+/**
+ * Metrics in the Prometheus text exposition format, served at `/metrics`.
+ */
+export class MetricsRegistry {
+    private readonly metrics: Metric[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    gauge(name: string, help: string, collect: () => [Labels, number][]): Gauge {
+        return this.register(new Gauge(name, help, collect));
+    }
+
+    render(): string {
+        return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        if (this.metrics.some(existing => existing.name === metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+/**
+ * The metrics recorded by the image server.
+ */
+export class ServerMetrics {
+    readonly registry = new MetricsRegistry();
+    readonly toolCalls = this.registry.counter('imagen_tool_calls_total', 'MCP tool calls by tool and outcome.');
+    readonly toolDuration = this.registry.histogram('imagen_tool_call_duration_seconds', 'Duration of MCP tool calls, including queueing.');
+    readonly providerRequests = this.registry.counter('imagen_provider_requests_total', 'Generation and edit requests sent to providers, by outcome.');
+    readonly providerDuration = this.registry.histogram('imagen_provider_request_duration_seconds', 'Duration of provider requests, including retries.');
+    readonly images = this.registry.counter('imagen_images_total', 'Images returned by providers.');
+    readonly failures = this.registry.counter('imagen_failures_total', 'Failed provider requests by error kind.');
+    readonly safetyBlocks = this.registry.counter('imagen_safety_blocks_total', 'Requests whose images were withheld by safety filters.');
+    readonly cacheLookups = this.registry.counter('imagen_result_cache_lookups_total', 'Result cache lookups by result.');
+    readonly estimatedCost = this.registry.counter('imagen_estimated_cost_usd_total', 'Estimated spend on generated images, in US dollars.');
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return '';
+    }
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
@@ -0,0 +1,247 @@
+import winston from 'winston';
+import { PromptRewriter, RewriteStep } from './prompt-rewriter';
+
+export const PREFLIGHT_MODES = ['reject', 'warn', 'off'] as const;
+export type PreflightMode = typeof PREFLIGHT_MODES[number];
+
+/**
+ * The documented prompt limit of Imagen 3.
+ */
+export const DEFAULT_MAX_PROMPT_TOKENS = 480;
+/**
+ * From the prompt guide: text in images works best at 25 characters or less, in at most three phrases.
+ */
+const MAX_TEXT_PHRASE_LENGTH = 25;
+const MAX_TEXT_PHRASES = 3;
+
+export interface PreflightIssue {
+    /**
+     * `prompt-too-long`, `non-english`, `text-too-long`, `too-many-text-phrases` or `rewrite-failed`.
+     */
+    rule: string;
+    /**
+     * Errors reject the prompt in `reject` mode; warnings are only reported.
+     */
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface LanguageGuess {
+    english: boolean;
+    /**
+     * The main script of the letters outside quoted in-image text, e.g. Latin, Han or Cyrillic.
+     */
+    script: string;
+    /**
+     * An ISO 639-1 code when the text looks like a specific language.
+     */
+    language?: string;
+}
+
+export interface PreflightReport {
+    /**
+     * False when the prompt must not be sent to the provider.
+     */
+    ok: boolean;
+    /**
+     * The prompt to generate with, rewritten if a rewrite step ran.
+     */
+    prompt: string;
+    estimatedTokens: number;
+    language: LanguageGuess;
+    issues: PreflightIssue[];
+    rewrite?: { original: string; steps: RewriteStep[]; rewriter: string };
+}
+
+export interface PreflightOptions {
+    mode: PreflightMode;
+    maxTokens: number;
+    /**
+     * `translate` runs for prompts that are not in English; `enhance` runs for every prompt.
+     */
+    rewrite: RewriteStep[];
+    rewriter?: PromptRewriter;
+}
+
+/**
+ * Checks prompts before they reach a provider: estimated length, language and
+ * the prompt guide's advice on text in images. Can route prompts through a
+ * {@link PromptRewriter} to translate or enhance them.
+ */
+export class PromptPreflight {
+    readonly options: PreflightOptions;
+
+    constructor(options: PreflightOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Runs the checks without rewriting. `expanded` is the prompt as it will be
+     * sent, e.g. with a style preset applied; only its length is checked, as
+     * the language and text checks are about what the caller wrote.
+     */
+    check(prompt: string, expanded = prompt): PreflightReport {
+        const estimatedTokens = estimateTokens(expanded);
+        const language = detectLanguage(prompt);
+        const issues: PreflightIssue[] = [];
+        if (this.options.mode === 'off') {
+            return { ok: true, prompt, estimatedTokens, language, issues };
+        }
+
+        if (estimatedTokens > this.options.maxTokens) {
+            issues.push({
+                rule: 'prompt-too-long',
+                severity: 'error',
+                message: `The prompt is about ${estimatedTokens} tokens; the limit is ${this.options.maxTokens} and longer prompts are truncated.`,
+            });
+        }
+        if (!language.english) {
+            issues.push({
+                rule: 'non-english',
+                severity: 'error',
+                message: `The prompt looks like ${language.language ?? `${language.script} script`} text; prompts must be in English. Text in quotes may be in any language.`,
+            });
+        }
+        const phrases = textPhrases(prompt);
+        for (const phrase of phrases.filter(text => [...text].length > MAX_TEXT_PHRASE_LENGTH)) {
+            issues.push({
+                rule: 'text-too-long',
+                severity: 'warning',
+                message: `The in-image text "${phrase}" is ${[...phrase].length} characters; text of ${MAX_TEXT_PHRASE_LENGTH} characters or less renders more reliably.`,
+            });
+        }
+        if (phrases.length > MAX_TEXT_PHRASES) {
+            issues.push({
+                rule: 'too-many-text-phrases',
+                severity: 'warning',
+                message: `The prompt asks for ${phrases.length} text phrases; more than ${MAX_TEXT_PHRASES} makes for cluttered compositions.`,
+            });
+        }
+        return { ok: this.isAcceptable(issues), prompt, estimatedTokens, language, issues };
+    }
+
+    /**
+     * Runs the configured rewrite steps and checks the result. A failed
+     * rewrite is reported as a warning and the prompt is checked as it was.
+     */
+    async run(prompt: string, signal?: AbortSignal, expand: (prompt: string) => string = prompt => prompt): Promise<PreflightReport> {
+        const report = this.check(prompt, expand(prompt));
+        const { rewriter } = this.options;
+        if (this.options.mode === 'off' || !rewriter) {
+            return report;
+        }
+        const steps = this.options.rewrite.filter(step => step === 'enhance' || report.issues.some(issue => issue.rule === 'non-english'));
+        if (steps.length === 0) {
+            return report;
+        }
+
+        let rewritten = prompt;
+        try {
+            for (const step of steps) {
+                rewritten = await rewriter.rewrite(rewritten, step, signal);
+            }
+        } catch (e: any) {
+            if (signal?.aborted) {
+                throw e;
+            }
+            winston.warn(`Prompt rewrite failed: ${e.message}`, { rewriter: rewriter.name, steps });
+            report.issues.push({ rule: 'rewrite-failed', severity: 'warning', message: `The ${rewriter.name} rewriter failed: ${e.message}` });
+            return report;
+        }
+        winston.info('Rewrote prompt', { rewriter: rewriter.name, steps, original: prompt, prompt: rewritten });
+        return { ...this.check(rewritten, expand(rewritten)), rewrite: { original: prompt, steps, rewriter: rewriter.name } };
+    }
+
+    /**
+     * True if a rewrite step configured here would address the issue.
+     */
+    canFix(issue: PreflightIssue): boolean {
+        return issue.rule === 'non-english' && !!this.options.rewriter && this.options.rewrite.includes('translate');
+    }
+
+    private isAcceptable(issues: PreflightIssue[]): boolean {
+        return this.options.mode !== 'reject' || !issues.some(issue => issue.severity === 'error');
+    }
+}
+
+/**
+ * A rough token count: CJK characters and punctuation count one each, other
+ * words one per four characters. Errs on the high side for English.
+ */
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)) {
+        tokens += /^[\p{L}\p{N}]{2,}$/u.test(piece) ? Math.ceil(piece.length / 4) : 1;
+    }
+    return tokens;
+}
+
+/**
+ * Quoted phrases, which the prompt guide uses for text to render in the image.
+ */
+export function textPhrases(prompt: string): string[] {
+    return [...prompt.matchAll(/"([^"]+)"|“([^”]+)”|«([^»]+)»|「([^」]+)」/g)]
+        .map(match => (match[1] ?? match[2] ?? match[3] ?? match[4]).trim())
+        .filter(phrase => phrase);
+}
+
+const SCRIPTS: [string, RegExp, string?][] = [
+    ['Latin', /\p{Script=Latin}/u],
+    ['Hangul', /\p{Script=Hangul}/u, 'ko'],
+    ['Kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u, 'ja'],
+    ['Han', /\p{Script=Han}/u, 'zh'],
+    ['Cyrillic', /\p{Script=Cyrillic}/u],
+    ['Greek', /\p{Script=Greek}/u, 'el'],
+    ['Arabic', /\p{Script=Arabic}/u],
+    ['Hebrew', /\p{Script=Hebrew}/u, 'he'],
+    ['Devanagari', /\p{Script=Devanagari}/u, 'hi'],
+    ['Thai', /\p{Script=Thai}/u, 'th'],
+];
+
+/**
+ * Common short words, for telling English from other Latin-script languages.
+ */
+const STOPWORDS: Record<string, Set<string>> = {
+    en: new Set(['the', 'a', 'an', 'of', 'with', 'and', 'in', 'on', 'at', 'is', 'for', 'from', 'by', 'its', 'under', 'over', 'behind', 'into', 'wearing']),
+    es: new Set(['el', 'la', 'los', 'las', 'un', 'una', 'con', 'y', 'del', 'que', 'por', 'sobre', 'para', 'al', 'en', 'de']),
+    fr: new Set(['le', 'la', 'les', 'un', 'une', 'des', 'du', 'avec', 'et', 'sur', 'dans', 'est', 'pour', 'au', 'aux', 'de']),
+    de: new Set(['der', 'die', 'das', 'ein', 'eine', 'mit', 'und', 'auf', 'im', 'ist', 'von', 'dem', 'den', 'einem', 'einer']),
+    it: new Set(['il', 'lo', 'gli', 'uno', 'una', 'con', 'e', 'sul', 'nella', 'della', 'di', 'per', 'che']),
+    pt: new Set(['o', 'os', 'um', 'uma', 'com', 'e', 'na', 'no', 'do', 'da', 'em', 'para', 'sobre']),
+    nl: new Set(['het', 'een', 'met', 'en', 'op', 'van', 'de', 'is', 'in']),
+};
+
+/**
+ * Guesses whether a prompt is English from its letters' scripts and, for Latin
+ * text, its common words. Quoted in-image text is ignored. Short prompts
+ * without telling words are assumed to be English.
+ */
+export function detectLanguage(prompt: string): LanguageGuess {
+    const text = prompt.replace(/"[^"]*"|“[^”]*”|«[^»]*»|「[^」]*」/g, ' ');
+    const counts = new Map<string, number>();
+    let letters = 0;
+    for (const char of text) {
+        if (!/\p{L}/u.test(char)) {
+            continue;
+        }
+        letters++;
+        const script = SCRIPTS.find(([, pattern]) => pattern.test(char))?.[0] ?? 'Other';
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+    const [script] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['Latin'];
+    const foreign = letters - (counts.get('Latin') ?? 0);
+    if (foreign > 0 && foreign / letters > 0.2) {
+        // Japanese mixes kana with Han, so any kana decides it.
+        const telling = counts.has('Kana') ? 'Kana' : script;
+        return { english: false, script, language: SCRIPTS.find(([name]) => name === telling)?.[2] };
+    }
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+    const scores = Object.entries(STOPWORDS).map(([language, stopwords]) => [language, words.filter(word => stopwords.has(word)).length] as const);
+    const english = scores.find(([language]) => language === 'en')![1];
+    const [best, bestScore] = scores.filter(([language]) => language !== 'en').sort((a, b) => b[1] - a[1])[0];
+    if (bestScore >= 2 && bestScore > english) {
+        return { english: false, script: 'Latin', language: best };
+    }
+    return { english: true, script: 'Latin', language: english > 0 ? 'en' : undefined };
+}
@@ -0,0 +1,273 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { ErrorCode, GetPromptResult, McpError, Prompt, PromptArgument } from './mcp';
+
+/**
+ * A reusable prompt. Templates with a `template` body are served as MCP
+ * prompts; templates with modifiers can also be applied to generate_image
+ * through its `style` argument.
+ */
+export interface PromptTemplate {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: PromptArgument[];
+    /**
+     * Text with `{{argument}}` placeholders, returned by `prompts/get`.
+     */
+    template?: string;
+    /**
+     * Placed before the user's prompt, e.g. "A studio photo of".
+     */
+    subject?: string;
+    /**
+     * Appended after the prompt: the setting, background or lighting.
+     */
+    context?: string;
+    /**
+     * Appended last: the medium, camera or art style.
+     */
+    style?: string;
+    /**
+     * Used when the call does not set aspect_ratio.
+     */
+    aspect_ratio?: string;
+    /**
+     * Merged with the call's negative_prompt.
+     */
+    negative_prompt?: string;
+}
+
+/**
+ * What a style preset turns a generate_image call into.
+ */
+export interface ExpandedPrompt {
+    prompt: string;
+    aspect_ratio?: string;
+    negative_prompt?: string;
+}
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        name: 'product-shot',
+        title: 'Product shot',
+        description: 'A clean studio photo of a product, ready for a store listing.',
+        subject: 'A professional studio product photo of',
+        context: 'centered on a seamless light grey background, soft diffused lighting, subtle reflection',
+        style: 'high detail, sharp focus, 50mm lens, commercial photography',
+        aspect_ratio: '1:1',
+        negative_prompt: 'clutter, text, watermark, hands',
+    },
+    {
+        name: 'isometric-icon',
+        title: 'Isometric icon',
+        description: 'A single object drawn as a colorful isometric 3D icon.',
+        subject: 'An isometric 3D icon of',
+        context: 'isolated on a plain white background',
+        style: 'soft shadows, smooth gradients, clean geometric shapes, vibrant colors',
+        aspect_ratio: '1:1',
+        negative_prompt: 'photorealistic, text, busy background',
+    },
+    {
+        name: 'poster-with-text',
+        title: 'Poster with text',
+        description: 'A bold poster layout that leaves room for, or includes, short headline text.',
+        subject: 'A bold graphic poster of',
+        context: 'with a short, clearly legible headline in large type',
+        style: 'flat illustration, strong composition, limited color palette, print design',
+        aspect_ratio: '3:4',
+        negative_prompt: 'misspelled text, small text, blurry lettering',
+    },
+    {
+        name: 'ui-asset',
+        title: 'UI asset',
+        description: 'An illustration or background for an app or website.',
+        subject: 'A minimal user interface illustration of',
+        context: 'simple composition with generous empty space',
+        style: 'flat vector style, consistent line weight, modern app design',
+        aspect_ratio: '16:9',
+        negative_prompt: 'photorealistic, noise, watermark',
+    },
+    {
+        name: 'imagen-prompt',
+        title: 'Write an Imagen prompt',
+        description: 'Asks the model to turn a rough idea into a detailed Imagen prompt and generate it.',
+        arguments: [
+            { name: 'idea', description: 'What the image should show.', required: true },
+            { name: 'style', description: 'A visual style, e.g. "watercolor" or "35mm film photo".' },
+        ],
+        template: 'Write a detailed English image prompt for this idea: {{idea}}. '
+            + 'Describe the subject, its context and background, and the style{{#style}} ({{style}}){{/style}}, '
+            + 'with photography or art modifiers where they help. Keep it under 480 tokens, '
+            + 'then call generate_image with it.',
+    },
+];
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+const SECTION = /\{\{#([\w-]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/**
+ * Built-in style presets plus the templates found in a directory. Files can be
+ * JSON (one {@link PromptTemplate} or an array of them) or Markdown/text, whose
+ * name is the file name, whose first `# ` heading is the description and whose
+ * `{{placeholders}}` are required arguments. Files override built-ins of the same name.
+ */
+export class PromptLibrary {
+    private readonly directory?: string;
+    private readonly templates = new Map<string, PromptTemplate>();
+
+    constructor(directory?: string) {
+        this.directory = directory;
+        for (const template of BUILT_IN_TEMPLATES) {
+            this.templates.set(template.name, template);
+        }
+    }
+
+    async load(): Promise<void> {
+        if (!this.directory) {
+            return;
+        }
+        let names: string[];
+        try {
+            names = await fs.readdir(this.directory);
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return;
+            }
+            throw new Error(`Could not read prompt templates from ${this.directory}: ${e.message}`);
+        }
+
+        let loaded = 0;
+        for (const name of names.sort()) {
+            const filePath = path.join(this.directory, name);
+            try {
+                for (const template of await readTemplateFile(filePath)) {
+                    this.templates.set(template.name, template);
+                    loaded++;
+                }
+            } catch (e: any) {
+                winston.warn(`Ignoring invalid prompt template: ${e.message}`, { path: filePath });
+            }
+        }
+        winston.info('Loaded prompt templates.', { directory: this.directory, loaded, total: this.templates.size });
+    }
+
+    list(): Prompt[] {
+        return [...this.templates.values()].map(template => ({
+            name: template.name,
+            title: template.title,
+            description: template.description,
+            arguments: template.template !== undefined ? template.arguments ?? [] : [
+                { name: 'prompt', description: 'What the image should show.', required: true },
+            ],
+        }));
+    }
+
+    /**
+     * Renders a template for `prompts/get`. Presets without a template body
+     * render as an instruction to call generate_image with the preset.
+     */
+    get(name: string, args: Record<string, string>): GetPromptResult {
+        const template = this.templates.get(name);
+        if (!template) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+        }
+
+        let text: string;
+        if (template.template !== undefined) {
+            const missing = (template.arguments ?? []).filter(arg => arg.required && !args[arg.name]);
+            if (missing.length > 0) {
+                throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for prompt ${name}: ${missing.map(arg => arg.name).join(", ")}`);
+            }
+            text = render(template.template, args);
+        } else {
+            if (!args.prompt) {
+                throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for prompt ${name}: prompt`);
+            }
+            const expanded = expand(template, { prompt: args.prompt });
+            text = `Call generate_image with style "${name}" and prompt "${args.prompt}". `
+                + `The server expands it to: ${expanded.prompt}`;
+        }
+        return {
+            description: template.description,
+            messages: [{ role: 'user', content: { type: 'text', text } }],
+        };
+    }
+
+    /**
+     * Returns the preset usable as a generate_image style, if `name` has modifiers.
+     */
+    preset(name: string): PromptTemplate | undefined {
+        const template = this.templates.get(name);
+        return template && isPreset(template) ? template : undefined;
+    }
+
+    presetNames(): string[] {
+        return [...this.templates.values()].filter(isPreset).map(template => template.name);
+    }
+}
+
+/**
+ * Wraps the call's prompt in the preset's modifiers. The call's own
+ * aspect ratio wins; negative prompts are combined.
+ */
+export function expand(preset: PromptTemplate, args: ExpandedPrompt): ExpandedPrompt {
+    const prompt = [
+        preset.subject ? `${preset.subject} ${args.prompt}` : args.prompt,
+        preset.context,
+        preset.style,
+    ].filter(Boolean).join(', ');
+    const negativePrompt = [args.negative_prompt, preset.negative_prompt].filter(Boolean).join(', ');
+    return {
+        prompt,
+        aspect_ratio: args.aspect_ratio ?? preset.aspect_ratio,
+        negative_prompt: negativePrompt || undefined,
+    };
+}
+
+function isPreset(template: PromptTemplate): boolean {
+    return Boolean(template.subject || template.context || template.style || template.aspect_ratio || template.negative_prompt);
+}
+
+function render(template: string, args: Record<string, string>): string {
+    return template
+        .replace(SECTION, (_, name: string, body: string) => (args[name] ? body : ''))
+        .replace(PLACEHOLDER, (_, name: string) => args[name] ?? '');
+}
+
+async function readTemplateFile(filePath: string): Promise<PromptTemplate[]> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.json') {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        const templates: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+        for (const template of templates) {
+            if (!template || typeof template !== 'object' || typeof (template as PromptTemplate).name !== 'string') {
+                throw new Error('every template needs a name');
+            }
+        }
+        return templates as PromptTemplate[];
+    }
+    if (extension !== '.md' && extension !== '.txt') {
+        return [];
+    }
+
+    let body = await fs.readFile(filePath, 'utf8');
+    let description: string | undefined;
+    const heading = /^#\s+(.+)\r?\n/.exec(body);
+    if (heading) {
+        description = heading[1].trim();
+        body = body.slice(heading[0].length);
+    }
+    const argumentNames = new Set<string>();
+    for (const match of body.matchAll(PLACEHOLDER)) {
+        argumentNames.add(match[1]);
+    }
+    const optional = new Set([...body.matchAll(SECTION)].map(match => match[1]));
+    return [{
+        name: path.basename(filePath, extension),
+        description,
+        arguments: [...argumentNames].map(name => ({ name, required: !optional.has(name) })),
+        template: body.trim(),
+    }];
+}
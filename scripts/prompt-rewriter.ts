@@ -0,0 +1,164 @@
+import winston from 'winston';
+import { CassettePlayer, ProviderError, RequestPolicy, RequestPolicyOptions } from './providers';
+
+export const REWRITE_STEPS = ['translate', 'enhance'] as const;
+export type RewriteStep = typeof REWRITE_STEPS[number];
+export const REWRITER_NAMES = ['stub', 'gemini'];
+
+/**
+ * Rewrites prompts before generation: translates them into English or makes them more descriptive.
+ */
+export interface PromptRewriter {
+    readonly name: string;
+    rewrite(prompt: string, step: RewriteStep, signal?: AbortSignal): Promise<string>;
+}
+
+export interface RewriterSettings {
+    rewriter: string;
+    model: string;
+    maxTokens: number;
+    gemini: { apiKey?: string; baseUrl?: string };
+    request: RequestPolicyOptions;
+    /**
+     * Records or replays the rewriter's requests, like the image providers'.
+     */
+    cassettes?: CassettePlayer;
+}
+
+export function createPromptRewriter(settings: RewriterSettings): PromptRewriter {
+    switch (settings.rewriter) {
+        case 'stub':
+            return new StubRewriter();
+        case 'gemini': {
+            const apiKey = settings.gemini.apiKey || (settings.cassettes?.mode === 'replay' ? 'replay' : undefined);
+            if (!apiKey) {
+                throw new Error('The gemini prompt rewriter needs GEMINI_API_KEY');
+            }
+            return new GeminiTextRewriter(apiKey, settings.gemini.baseUrl, settings.model, settings.maxTokens, new RequestPolicy(settings.request, settings.cassettes));
+        }
+        default:
+            throw new Error(`Unknown prompt rewriter: ${settings.rewriter}, supported values are: ${REWRITER_NAMES.join(", ")}`);
+    }
+}
+
+//region Stub
+
+/**
+ * Word-for-word glossary of the stub translator, enough for tests and demos.
+ */
+const GLOSSARY: Record<string, string> = {
+    // Spanish
+    un: 'a', una: 'a', el: 'the', la: 'the', los: 'the', las: 'the', con: 'with', en: 'in', sobre: 'on', de: 'of', y: 'and',
+    gato: 'cat', perro: 'dog', casa: 'house', árbol: 'tree', montaña: 'mountain', mar: 'sea', sol: 'sun', luna: 'moon', flor: 'flower',
+    rojo: 'red', roja: 'red', azul: 'blue', verde: 'green', blanco: 'white', negro: 'black', nieve: 'snow', ciudad: 'city', noche: 'night',
+    // French
+    une: 'a', le: 'the', les: 'the', avec: 'with', dans: 'in', sur: 'on', et: 'and', du: 'of the', des: 'some',
+    chat: 'cat', chien: 'dog', maison: 'house', arbre: 'tree', montagne: 'mountain', mer: 'sea', soleil: 'sun', lune: 'moon', fleur: 'flower',
+    rouge: 'red', bleu: 'blue', vert: 'green', blanc: 'white', noir: 'black', neige: 'snow', ville: 'city', nuit: 'night',
+    // German
+    ein: 'a', eine: 'a', der: 'the', die: 'the', das: 'the', mit: 'with', im: 'in the', auf: 'on', und: 'and',
+    katze: 'cat', hund: 'dog', haus: 'house', baum: 'tree', berg: 'mountain', meer: 'sea', sonne: 'sun', mond: 'moon', blume: 'flower',
+    rot: 'red', rote: 'red', roter: 'red', blau: 'blue', grün: 'green', weiß: 'white', schwarz: 'black', schnee: 'snow', stadt: 'city',
+    // Chinese and Japanese, one character at a time
+    '猫': 'cat', '狗': 'dog', '犬': 'dog', '房': 'house', '树': 'tree', '木': 'tree', '山': 'mountain', '海': 'sea', '太': '', '阳': 'sun',
+    '月': 'moon', '花': 'flower', '红': 'red', '赤': 'red', '蓝': 'blue', '绿': 'green', '白': 'white', '黑': 'black', '雪': 'snow',
+    '城': 'city', '夜': 'night', '一': 'a', '在': 'in', '上': 'on', '和': 'and',
+};
+
+const QUALITY_MODIFIERS = 'highly detailed, sharp focus, soft natural lighting';
+
+/**
+ * A deterministic offline rewriter for tests: translates through a small
+ * glossary, dropping words it does not know in other scripts, and enhances by
+ * appending fixed quality modifiers.
+ */
+export class StubRewriter implements PromptRewriter {
+    readonly name = 'stub';
+
+    async rewrite(prompt: string, step: RewriteStep): Promise<string> {
+        if (step === 'enhance') {
+            return /\bdetailed\b/i.test(prompt) ? prompt : `${prompt.replace(/[\s.,;]+$/, '')}, ${QUALITY_MODIFIERS}`;
+        }
+        const words = prompt.match(/"[^"]*"|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}'-]+/gu) ?? [];
+        return words
+            .map(word => {
+                if (word.startsWith('"')) {
+                    return word;
+                }
+                const translated = GLOSSARY[word.toLowerCase()];
+                if (translated !== undefined) {
+                    return translated;
+                }
+                return /^[\p{Script=Latin}\p{N}'-]+$/u.test(word) ? word : '';
+            })
+            .filter(word => word)
+            .join(' ');
+    }
+}
+
+//endregion
+
+//region Gemini
+
+const INSTRUCTIONS: Record<RewriteStep, (maxTokens: number) => string> = {
+    translate: () => 'Translate this image generation prompt into English. Keep any text in quotes, which is meant to appear in the image, '
+        + 'exactly as it is. Reply with the translated prompt only.',
+    enhance: maxTokens => 'Rewrite this image generation prompt to be more descriptive: name the subject, its context and background, '
+        + 'and a style, with photography or art modifiers where they help. Keep any text in quotes exactly as it is and stay under '
+        + `${maxTokens} tokens. Reply with the prompt only.`,
+};
+
+interface GenerateContentResponse {
+    candidates?: { content?: { parts?: { text?: string }[] } }[];
+    error?: { message: string };
+}
+
+/**
+ * Rewrites prompts with a Gemini text model through the same API key as the image provider.
+ */
+export class GeminiTextRewriter implements PromptRewriter {
+    readonly name = 'gemini';
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+    private readonly model: string;
+    private readonly maxTokens: number;
+    private readonly policy: RequestPolicy;
+
+    constructor(apiKey: string, baseUrl: string | undefined, model: string, maxTokens: number, policy: RequestPolicy) {
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl || "https://generativelanguage.googleapis.com";
+        this.model = model;
+        this.maxTokens = maxTokens;
+        this.policy = policy;
+    }
+
+    async rewrite(prompt: string, step: RewriteStep, signal?: AbortSignal): Promise<string> {
+        const url = `${this.baseUrl}/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`;
+        winston.info('Rewriting prompt', { rewriter: this.name, model: this.model, step });
+        const responseText = await this.policy.fetchText('Gemini prompt rewriter', url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                contents: [{ role: 'user', parts: [{ text: `${INSTRUCTIONS[step](this.maxTokens)}\n\n${prompt}` }] }],
+                generationConfig: { temperature: 0.2 },
+            }),
+        }, signal);
+
+        let response: GenerateContentResponse;
+        try {
+            response = JSON.parse(responseText);
+        } catch (e: any) {
+            throw new ProviderError('server', `Failed to parse Gemini prompt rewriter response: ${e.message}`);
+        }
+        if (response.error) {
+            throw new ProviderError('server', `Gemini prompt rewriter error: ${response.error.message}`);
+        }
+        const text = response.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('').trim();
+        if (!text) {
+            throw new ProviderError('server', 'Gemini prompt rewriter returned no text');
+        }
+        return text;
+    }
+}
+
+//endregion
@@ -0,0 +1,387 @@
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import { inflateSync } from 'zlib';
+import winston from 'winston';
+import { readImageDimensions, sniffMimeType } from './image-format';
+import { encodeChunk } from './png';
+import { GeneratedImage } from './providers';
+
+/**
+ * Where an image came from, written into the file when it is saved.
+ */
+export interface Provenance {
+    generator: string;
+    serverVersion: string;
+    /**
+     * Shared by all images of one generate or edit call, and derived from the call and
+     * its output by {@link deriveGenerationId}: identical generations get the same id,
+     * so their files stay byte-identical and share one blob in the content store.
+     */
+    generationId: string;
+    /**
+     * Not written by this server, which keeps the time in the image record for the same
+     * reason; `inspect_image` adds it back for stored images.
+     */
+    createdAt?: string;
+    provider: string;
+    model: string;
+    prompt: string;
+    negativePrompt?: string;
+    seed?: number;
+    aspectRatio?: string;
+    style?: string;
+    editMode?: string;
+    /**
+     * The id of the stored image an edit started from.
+     */
+    derivedFrom?: string;
+}
+
+/**
+ * Everything {@link inspectImage} could find in a file.
+ */
+export interface ImageInspection {
+    mimeType?: string;
+    width?: number;
+    height?: number;
+    fileSize: number;
+    /**
+     * True if the file declares itself as made by a generative model, through
+     * our provenance or the IPTC digital source type.
+     */
+    aiGenerated: boolean;
+    provenance?: Provenance;
+    xmp?: {
+        creatorTool?: string;
+        createDate?: string;
+        description?: string;
+        digitalSourceType?: string;
+    };
+    /**
+     * All PNG text chunks, including those written by other tools.
+     */
+    pngText?: Record<string, string>;
+}
+
+const PROVENANCE_KEYWORD = 'imagen3-mcp:provenance';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_NAMESPACE = 'urn:imagen3-mcp:provenance:1.0';
+const JPEG_XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+/**
+ * The IPTC term for media created by a trained generative model.
+ */
+const TRAINED_ALGORITHMIC_MEDIA = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const PNG_TEXT_KEYWORDS = ['Software', 'Creation Time', 'Description', PROVENANCE_KEYWORD, XMP_KEYWORD];
+
+/**
+ * The generation id of a call's images: a hash of the provenance fields and the
+ * provider's output, before anything is embedded.
+ */
+export function deriveGenerationId(provenance: Omit<Provenance, 'generationId' | 'createdAt'>, images: GeneratedImage[]): string {
+    const hash = createHash('sha256').update(JSON.stringify(provenance));
+    for (const image of images) {
+        hash.update(createHash('sha256').update(image.data).digest());
+    }
+    return hash.digest('base64url').slice(0, 21);
+}
+
+/**
+ * Returns the image with provenance embedded: text chunks and XMP for PNG, an
+ * XMP segment or chunk for JPEG and WebP. The pixel data is left untouched.
+ * Other formats are returned unchanged.
+ */
+export function embedProvenance(image: GeneratedImage, provenance: Provenance): GeneratedImage {
+    const xmp = Buffer.from(buildXmp(provenance), 'utf8');
+    try {
+        switch (sniffMimeType(image.data)) {
+            case 'image/png':
+                return { ...image, data: embedPng(image.data, provenance, xmp) };
+            case 'image/jpeg':
+                return { ...image, data: embedJpeg(image.data, xmp) };
+            case 'image/webp':
+                return { ...image, data: embedWebp(image.data, xmp) };
+        }
+    } catch (e: any) {
+        winston.warn(`Could not embed provenance: ${e.message}`, { mime_type: image.mimeType, generation_id: provenance.generationId });
+        return image;
+    }
+    winston.warn('Saving image without embedded provenance; its format does not support it here.', { mime_type: image.mimeType });
+    return image;
+}
+
+/**
+ * Reads provenance and related metadata from any image file.
+ */
+export function inspectImage(data: Buffer): ImageInspection {
+    const mimeType = sniffMimeType(data);
+    const dimensions = readImageDimensions(data);
+    const result: ImageInspection = {
+        mimeType,
+        width: dimensions?.width,
+        height: dimensions?.height,
+        fileSize: data.length,
+        aiGenerated: false,
+    };
+
+    let xmpText: string | undefined;
+    if (mimeType === 'image/png') {
+        result.pngText = readPngText(data);
+        xmpText = result.pngText[XMP_KEYWORD];
+        const json = result.pngText[PROVENANCE_KEYWORD];
+        if (json) {
+            try {
+                result.provenance = JSON.parse(json);
+            } catch {
+                // Fall back to the XMP copy.
+            }
+        }
+    }
+    xmpText ??= findXmpPacket(data);
+
+    if (xmpText) {
+        const description = /<dc:description>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/.exec(xmpText);
+        result.xmp = {
+            creatorTool: xmpValue(xmpText, 'xmp:CreatorTool'),
+            createDate: xmpValue(xmpText, 'xmp:CreateDate'),
+            description: description ? unescapeXml(description[1]) : undefined,
+            digitalSourceType: xmpValue(xmpText, 'Iptc4xmpExt:DigitalSourceType'),
+        };
+        const embedded = xmpValue(xmpText, 'imagen:Provenance');
+        if (!result.provenance && embedded) {
+            try {
+                result.provenance = JSON.parse(embedded);
+            } catch {
+                // Leave it to the other fields.
+            }
+        }
+    }
+    result.aiGenerated = !!result.provenance || /trainedAlgorithmicMedia/i.test(result.xmp?.digitalSourceType ?? '');
+    return result;
+}
+
+function buildXmp(provenance: Provenance): string {
+    return [
+        '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '  <rdf:Description rdf:about=""',
+        '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+        '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+        '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+        `    xmlns:imagen="${XMP_NAMESPACE}"`,
+        `    xmp:CreatorTool="${escapeXml(`${provenance.generator} ${provenance.serverVersion}`)}"`,
+        ...(provenance.createdAt ? [`    xmp:CreateDate="${escapeXml(provenance.createdAt)}"`] : []),
+        `    Iptc4xmpExt:DigitalSourceType="${TRAINED_ALGORITHMIC_MEDIA}"`,
+        `    imagen:Provenance="${escapeXml(JSON.stringify(provenance))}">`,
+        `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+        '  </rdf:Description>',
+        ' </rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="r"?>',
+    ].join('\n');
+}
+
+//region PNG
+
+function* pngChunks(data: Buffer): Generator<{ type: string; start: number; end: number; body: Buffer }> {
+    let offset = 8;
+    while (offset + 12 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        const type = data.toString('latin1', offset + 4, offset + 8);
+        const end = offset + 12 + length;
+        if (end > data.length) {
+            throw new Error(`Truncated PNG chunk ${type}`);
+        }
+        yield { type, start: offset, end, body: data.subarray(offset + 8, offset + 8 + length) };
+        offset = end;
+        if (type === 'IEND') {
+            return;
+        }
+    }
+}
+
+/**
+ * Inserts the text chunks right after IHDR, replacing any earlier copies.
+ */
+function embedPng(data: Buffer, provenance: Provenance, xmp: Buffer): Buffer {
+    const text = [
+        textChunk('Software', `${provenance.generator} ${provenance.serverVersion}`),
+        ...(provenance.createdAt ? [textChunk('Creation Time', provenance.createdAt)] : []),
+        internationalTextChunk('Description', Buffer.from(provenance.prompt, 'utf8')),
+        internationalTextChunk(PROVENANCE_KEYWORD, Buffer.from(JSON.stringify(provenance), 'utf8')),
+        internationalTextChunk(XMP_KEYWORD, xmp),
+    ];
+    const parts: Buffer[] = [data.subarray(0, 8)];
+    for (const chunk of pngChunks(data)) {
+        if ((chunk.type === 'tEXt' || chunk.type === 'iTXt' || chunk.type === 'zTXt')
+            && PNG_TEXT_KEYWORDS.includes(chunk.body.toString('latin1', 0, chunk.body.indexOf(0)))) {
+            continue;
+        }
+        parts.push(data.subarray(chunk.start, chunk.end));
+        if (chunk.type === 'IHDR') {
+            parts.push(...text);
+        }
+    }
+    return Buffer.concat(parts);
+}
+
+function textChunk(keyword: string, text: string): Buffer {
+    return encodeChunk('tEXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'latin1')]));
+}
+
+/**
+ * An uncompressed iTXt chunk, for UTF-8 text.
+ */
+function internationalTextChunk(keyword: string, text: Buffer): Buffer {
+    // Keyword, null, compression flag and method, empty language tag and translated keyword.
+    return encodeChunk('iTXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0, 0, 0, 0, 0]), text]));
+}
+
+function readPngText(data: Buffer): Record<string, string> {
+    const text: Record<string, string> = {};
+    for (const { type, body } of pngChunks(data)) {
+        const keywordEnd = body.indexOf(0);
+        if (keywordEnd < 0) {
+            continue;
+        }
+        const keyword = body.toString('latin1', 0, keywordEnd);
+        try {
+            if (type === 'tEXt') {
+                text[keyword] = body.toString('latin1', keywordEnd + 1);
+            } else if (type === 'zTXt') {
+                text[keyword] = inflateSync(body.subarray(keywordEnd + 2)).toString('latin1');
+            } else if (type === 'iTXt') {
+                const compressed = body[keywordEnd + 1] === 1;
+                const languageEnd = body.indexOf(0, keywordEnd + 3);
+                const translatedEnd = body.indexOf(0, languageEnd + 1);
+                const value = body.subarray(translatedEnd + 1);
+                text[keyword] = (compressed ? inflateSync(value) : value).toString('utf8');
+            }
+        } catch (e: any) {
+            winston.debug(`Skipping unreadable PNG text chunk: ${e.message}`, { keyword });
+        }
+    }
+    return text;
+}
+
+//endregion
+
+//region JPEG and WebP
+
+/**
+ * Inserts an XMP APP1 segment after SOI and any JFIF or Exif segments, replacing an existing XMP segment.
+ */
+function embedJpeg(data: Buffer, xmp: Buffer): Buffer {
+    const payload = Buffer.concat([JPEG_XMP_HEADER, xmp]);
+    if (payload.length + 2 > 0xffff) {
+        throw new Error('XMP packet too large for a JPEG segment');
+    }
+    const segment = Buffer.alloc(4);
+    segment.writeUInt16BE(0xffe1, 0);
+    segment.writeUInt16BE(payload.length + 2, 2);
+
+    let offset = 2;
+    let insertAt = 2;
+    const kept: Buffer[] = [];
+    while (offset + 4 <= data.length && data[offset] === 0xff) {
+        const marker = data[offset + 1];
+        if (marker < 0xe0 || marker > 0xef) {
+            break;
+        }
+        const end = offset + 2 + data.readUInt16BE(offset + 2);
+        const isXmp = marker === 0xe1 && data.subarray(offset + 4, offset + 4 + JPEG_XMP_HEADER.length).equals(JPEG_XMP_HEADER);
+        if (!isXmp) {
+            kept.push(data.subarray(offset, end));
+        }
+        if (marker === 0xe0 || (marker === 0xe1 && !isXmp)) {
+            insertAt = kept.length;
+        }
+        offset = end;
+    }
+    kept.splice(insertAt === 2 ? 0 : insertAt, 0, segment, payload);
+    return Buffer.concat([data.subarray(0, 2), ...kept, data.subarray(offset)]);
+}
+
+/**
+ * Adds an `XMP ` chunk, converting a simple (VP8/VP8L) file to the extended VP8X layout that can carry it.
+ */
+function embedWebp(data: Buffer, xmp: Buffer): Buffer {
+    const chunks: { type: string; body: Buffer }[] = [];
+    let offset = 12;
+    while (offset + 8 <= data.length) {
+        const type = data.toString('latin1', offset, offset + 4);
+        const size = data.readUInt32LE(offset + 4);
+        chunks.push({ type, body: data.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+
+    let header = chunks.find(chunk => chunk.type === 'VP8X');
+    if (!header) {
+        const dimensions = readImageDimensions(data);
+        if (!dimensions) {
+            throw new Error('Could not read the WebP canvas size');
+        }
+        const body = Buffer.alloc(10);
+        const lossless = chunks.find(chunk => chunk.type === 'VP8L');
+        // VP8L stores "alpha is used" in bit 28 after its signature byte.
+        if (lossless && (lossless.body.readUInt32LE(1) >>> 28) & 1) {
+            body[0] |= 0x10;
+        }
+        body.writeUIntLE(dimensions.width - 1, 4, 3);
+        body.writeUIntLE(dimensions.height - 1, 7, 3);
+        header = { type: 'VP8X', body };
+        chunks.unshift(header);
+    }
+    header.body = Buffer.from(header.body);
+    header.body[0] |= 0x04;
+
+    const output = chunks.filter(chunk => chunk.type !== 'XMP ');
+    output.push({ type: 'XMP ', body: xmp });
+    const parts: Buffer[] = [];
+    for (const chunk of output) {
+        const chunkHeader = Buffer.alloc(8);
+        chunkHeader.write(chunk.type, 0, 'latin1');
+        chunkHeader.writeUInt32LE(chunk.body.length, 4);
+        parts.push(chunkHeader, chunk.body);
+        if (chunk.body.length % 2) {
+            parts.push(Buffer.alloc(1));
+        }
+    }
+    const body = Buffer.concat(parts);
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'latin1');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'latin1');
+    return Buffer.concat([riff, body]);
+}
+
+function findXmpPacket(data: Buffer): string | undefined {
+    const start = data.indexOf('<x:xmpmeta');
+    const end = start >= 0 ? data.indexOf('</x:xmpmeta>', start) : -1;
+    return end >= 0 ? data.toString('utf8', start, end + '</x:xmpmeta>'.length) : undefined;
+}
+
+//endregion
+
+/**
+ * Reads a simple XMP property written either as an attribute or as an element.
+ */
+function xmpValue(xmp: string, name: string): string | undefined {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`${escaped}="([^"]*)"`).exec(xmp) ?? new RegExp(`<${escaped}>([^<]*)</${escaped}>`).exec(xmp);
+    return match ? unescapeXml(match[1]) : undefined;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+        .replace(/&amp;/g, '&');
+}
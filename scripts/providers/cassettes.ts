@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { ProviderError } from './request-policy';
+
+/**
+ * How provider HTTP traffic is handled: sent as usual, sent and saved to
+ * cassettes, or answered from cassettes without a network or credentials.
+ */
+export const TRAFFIC_MODES = ['live', 'record', 'replay'] as const;
+export type TrafficMode = typeof TRAFFIC_MODES[number];
+
+/**
+ * Query parameters and headers that carry credentials. They never reach a cassette.
+ */
+const SECRET_QUERY_PARAMS = ['key', 'api_key', 'api-key', 'access_token', 'token'];
+/**
+ * Fields of JSON and form bodies that carry credentials, such as the OAuth token exchange of service accounts.
+ */
+const SECRET_BODY_FIELDS = ['access_token', 'id_token', 'refresh_token', 'assertion', 'client_secret'];
+const KEPT_REQUEST_HEADERS = ['content-type'];
+const KEPT_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+const REDACTED = 'REDACTED';
+
+/**
+ * One recorded request/response pair. When replaying, `request.url` may use `*`
+ * as a wildcard and `request.body` only has to be contained in the actual body,
+ * so hand-written cassettes can match every request of a kind.
+ */
+export interface Cassette {
+    /**
+     * What the cassette is for; informational.
+     */
+    name?: string;
+    request: {
+        method: string;
+        url: string;
+        headers?: Record<string, string>;
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        headers?: Record<string, string>;
+        body: string;
+    };
+}
+
+/**
+ * Canned cassettes for the failure branches of Imagen `predict` calls (Gemini and Vertex AI), always available when
+ * replaying. A request matches when its prompt is the cassette name prefixed with `cassette:`.
+ */
+export const CANNED_CASSETTES: readonly Cassette[] = [
+    predictCassette('safety-filter-empty', 200, '{}'),
+    predictCassette('http-error', 400, JSON.stringify({
+        error: { code: 400, message: 'Request contains an invalid argument.', status: 'INVALID_ARGUMENT' },
+    })),
+    predictCassette('malformed-json', 200, '{"predictions": [{"mimeType": "image/png", "bytesBase64Encoded": "iVBORw0KGgoAAAANSUhEUgAA'),
+    predictCassette('bad-base64', 200, '{"predictions": [{"mimeType": "image/png", "bytesBase64Encoded": "iVBORw0KGgo*AAAANSUhEUgAA"}]}'),
+];
+
+export interface CassetteOptions {
+    mode: Exclude<TrafficMode, 'live'>;
+    /**
+     * Where cassettes are written when recording and read when replaying.
+     */
+    dir: string;
+    /**
+     * Credential values to scrub from anything recorded, e.g. API keys that a backend echoes in an error.
+     */
+    secrets?: string[];
+}
+
+/**
+ * Stands in for `fetch` in provider calls. Recording sends the request and saves
+ * the exchange under a name derived from the request; replaying answers from the
+ * cassette directory, then from {@link CANNED_CASSETTES}, and fails for requests
+ * that no cassette matches.
+ */
+export class CassettePlayer {
+    readonly mode: CassetteOptions['mode'];
+    readonly dir: string;
+    private readonly secrets: string[];
+    private cassettes?: Promise<Cassette[]>;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(options: CassetteOptions) {
+        this.mode = options.mode;
+        this.dir = options.dir;
+        this.secrets = (options.secrets ?? []).filter(secret => secret.length >= 8);
+    }
+
+    async fetch(label: string, url: string, init: RequestInit): Promise<Response> {
+        const request = this.describeRequest(url, init);
+        if (this.mode === 'replay') {
+            return this.replay(label, request);
+        }
+
+        const response = await fetch(url, init);
+        const body = await response.text();
+        const headers = pickHeaders(response.headers, KEPT_RESPONSE_HEADERS);
+        await this.record(label, { request, response: { status: response.status, headers, body: redactJson(body) } });
+        return new Response(body, { status: response.status, headers });
+    }
+
+    private async replay(label: string, request: Cassette['request']): Promise<Response> {
+        this.cassettes ??= this.load();
+        const cassette = (await this.cassettes).find(candidate => matches(candidate.request, request));
+        if (!cassette) {
+            throw new ProviderError('invalid_argument', `No cassette in ${this.dir} matches the ${label} request ${request.method} ${request.url}; record one with PROVIDER_TRAFFIC=record`);
+        }
+        winston.info('Replaying provider response from cassette.', { label, cassette: cassette.name, status: cassette.response.status });
+        return new Response(cassette.response.body, { status: cassette.response.status, headers: cassette.response.headers });
+    }
+
+    /**
+     * Saves the exchange, replacing an earlier recording of the same request. Writes are serialized.
+     */
+    private record(label: string, cassette: Cassette): Promise<void> {
+        const key = createHash('sha256')
+            .update(`${cassette.request.method} ${cassette.request.url}\n${JSON.stringify(cassette.request.body ?? null)}`)
+            .digest('hex')
+            .slice(0, 16);
+        const name = `${label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${key}`;
+        const file = path.join(this.dir, `${name}.json`);
+        const text = this.scrub(JSON.stringify({ name, ...cassette }, null, 2));
+
+        const write = this.writes.then(async () => {
+            await fs.mkdir(this.dir, { recursive: true });
+            await fs.writeFile(`${file}.tmp`, text);
+            await fs.rename(`${file}.tmp`, file);
+            winston.info('Recorded provider response to cassette.', { label, file, status: cassette.response.status });
+        });
+        this.writes = write.catch(() => undefined);
+        return write;
+    }
+
+    private async load(): Promise<Cassette[]> {
+        let names: string[];
+        try {
+            names = (await fs.readdir(this.dir)).filter(name => name.endsWith('.json')).sort();
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+            names = [];
+        }
+
+        const cassettes: Cassette[] = [];
+        for (const name of names) {
+            const file = path.join(this.dir, name);
+            let cassette: Cassette;
+            try {
+                cassette = JSON.parse(await fs.readFile(file, 'utf8'));
+            } catch (e: any) {
+                throw new Error(`Could not read cassette ${file}: ${e.message}`);
+            }
+            if (typeof cassette?.request?.url !== 'string' || typeof cassette.response?.status !== 'number' || typeof cassette.response.body !== 'string') {
+                throw new Error(`Invalid cassette ${file}: expected request.url, response.status and response.body`);
+            }
+            cassettes.push({ name: path.basename(name, '.json'), ...cassette });
+        }
+        winston.info('Loaded provider cassettes.', { dir: this.dir, cassettes: cassettes.length, canned: CANNED_CASSETTES.length });
+        return [...cassettes, ...CANNED_CASSETTES];
+    }
+
+    private describeRequest(url: string, init: RequestInit): Cassette['request'] {
+        const parsed = new URL(url);
+        for (const param of SECRET_QUERY_PARAMS) {
+            if (parsed.searchParams.has(param)) {
+                parsed.searchParams.set(param, REDACTED);
+            }
+        }
+        const headers = pickHeaders(new Headers(init.headers), KEPT_REQUEST_HEADERS);
+        let body: unknown;
+        if (typeof init.body === 'string') {
+            if (headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+                body = Object.fromEntries(new URLSearchParams(init.body));
+            } else {
+                try {
+                    body = JSON.parse(init.body);
+                } catch {
+                    body = init.body;
+                }
+            }
+        }
+        return {
+            method: (init.method ?? 'GET').toUpperCase(),
+            url: this.scrub(parsed.toString()),
+            headers,
+            body: redactFields(body),
+        };
+    }
+
+    private scrub(text: string): string {
+        return this.secrets.reduce((scrubbed, secret) => scrubbed.split(secret).join(REDACTED), text);
+    }
+}
+
+/**
+ * A copy of `value` with the {@link SECRET_BODY_FIELDS} replaced, at any depth.
+ */
+function redactFields(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redactFields);
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+            [key, SECRET_BODY_FIELDS.includes(key) ? REDACTED : redactFields(field)]));
+    }
+    return value;
+}
+
+/**
+ * Redacts a response body if it is JSON with secret fields; other bodies are kept as they are.
+ */
+function redactJson(text: string): string {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return text;
+    }
+    const redacted = JSON.stringify(redactFields(parsed));
+    return redacted === JSON.stringify(parsed) ? text : redacted;
+}
+
+function predictCassette(name: string, status: number, body: string): Cassette {
+    return {
+        name,
+        request: { method: 'POST', url: '*:predict*', body: { instances: [{ prompt: `cassette:${name}` }] } },
+        response: { status, headers: { 'content-type': 'application/json; charset=UTF-8' }, body },
+    };
+}
+
+function matches(expected: Cassette['request'], actual: Cassette['request']): boolean {
+    if ((expected.method ?? 'GET').toUpperCase() !== actual.method) {
+        return false;
+    }
+    const pattern = new RegExp(`^${expected.url.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return pattern.test(actual.url) && (expected.body === undefined || contains(expected.body, actual.body));
+}
+
+/**
+ * Whether every field of `expected` is in `actual` with the same value. Arrays must have the same length.
+ */
+function contains(expected: unknown, actual: unknown): boolean {
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && actual.length === expected.length && expected.every((item, index) => contains(item, actual[index]));
+    }
+    if (typeof expected === 'object' && expected !== null) {
+        return typeof actual === 'object' && actual !== null
+            && Object.entries(expected).every(([key, value]) => contains(value, (actual as Record<string, unknown>)[key]));
+    }
+    return expected === actual;
+}
+
+function pickHeaders(headers: Headers, names: string[]): Record<string, string> {
+    const picked: Record<string, string> = {};
+    for (const name of names) {
+        const value = headers.get(name);
+        if (value !== null) {
+            picked[name] = value;
+        }
+    }
+    return picked;
+}
@@ -0,0 +1,164 @@
+import { Buffer } from 'buffer';
+import winston from 'winston';
+import { isSafetyMessage, ProviderError, RequestPolicy } from './request-policy';
+import { GeneratedImage, GenerationRequest, ImageParameters, ImageProvider } from './types';
+
+// Request and response structures for the Imagen `predict` API, shared by the Gemini API and Vertex AI
+export interface PredictRequest {
+    instances: PredictInstance[];
+    parameters: PredictParameters;
+}
+
+export interface PredictInstance {
+    prompt: string;
+    referenceImages?: PredictReferenceImage[];
+}
+
+export interface PredictReferenceImage {
+    referenceType: string;
+    referenceId: number;
+    referenceImage?: { bytesBase64Encoded: string };
+    maskImageConfig?: { maskMode: string; dilation?: number };
+    subjectImageConfig?: { subjectDescription?: string; subjectType: string };
+    styleImageConfig?: { styleDescription?: string };
+    controlImageConfig?: { controlType: string; enableControlImageComputation: boolean };
+}
+
+export interface PredictParameters extends ImageParameters {
+    editMode?: string;
+}
+
+export interface PredictResponse {
+    predictions?: PredictPrediction[];
+    error?: { message: string };
+}
+
+export interface PredictPrediction {
+    mimeType: string;
+    bytesBase64Encoded: string;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export interface GeminiProviderOptions {
+    apiKey?: string;
+    baseUrl?: string;
+    policy?: RequestPolicy;
+}
+
+/**
+ * Imagen through the Gemini API (generativelanguage.googleapis.com), authenticated with an API key.
+ */
+export class GeminiProvider implements ImageProvider {
+    readonly name = 'gemini';
+    readonly defaultModel = 'imagen-3.0-generate-002';
+    private readonly apiKey?: string;
+    private readonly baseUrl: string;
+    private readonly policy: RequestPolicy;
+
+    constructor(options: GeminiProviderOptions) {
+        this.apiKey = options.apiKey;
+        this.baseUrl = options.baseUrl || "https://generativelanguage.googleapis.com";
+        this.policy = options.policy ?? new RequestPolicy();
+    }
+
+    checkConfiguration(): string | undefined {
+        return this.apiKey ? undefined : "GEMINI_API_KEY environment variable not set";
+    }
+
+    async probe(signal?: AbortSignal): Promise<void> {
+        if (!this.apiKey) {
+            throw new ProviderError('auth', "GEMINI_API_KEY environment variable not set");
+        }
+        await this.policy.probe('Gemini', `${this.baseUrl}/v1beta/models/${this.defaultModel}?key=${this.apiKey}`, {}, signal);
+    }
+
+    async generate(request: GenerationRequest): Promise<GeneratedImage[]> {
+        if (!this.apiKey) {
+            throw new ProviderError('auth', "GEMINI_API_KEY environment variable not set");
+        }
+        const url = `${this.baseUrl}/v1beta/models/${request.model}:predict?key=${this.apiKey}`;
+        return predict('Gemini', this.policy, url, {}, request.model, {
+            instances: [{ prompt: request.prompt }],
+            parameters: request.parameters,
+        }, request.signal);
+    }
+}
+
+/**
+ * Sends an Imagen `predict` request through the request policy and decodes the returned images.
+ */
+export async function predict(
+    label: string,
+    policy: RequestPolicy,
+    url: string,
+    headers: Record<string, string>,
+    model: string,
+    body: PredictRequest,
+    signal?: AbortSignal
+): Promise<GeneratedImage[]> {
+    winston.info(`Sending request to ${label}`, { model, request: redactReferenceImages(body) });
+
+    let responseText: string;
+    try {
+        responseText = await policy.fetchText(label, url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        }, signal);
+    } catch (e: any) {
+        if (e instanceof ProviderError) {
+            winston.error(`Failed to send request to ${label}`, { error_kind: e.kind, status: e.status, error: e.message });
+        }
+        throw e;
+    }
+
+    let predictResponse: PredictResponse;
+    try {
+        predictResponse = JSON.parse(responseText);
+    } catch (e: any) {
+        winston.error(`Failed to parse ${label} response`, { response_body: responseText, error: e });
+        throw new ProviderError('server', `Failed to parse ${label} response: ${e.message}. The response was: ${responseText}`);
+    }
+
+    if (predictResponse.error) {
+        winston.error(`${label} API returned an error`, { error: predictResponse.error });
+        const kind = isSafetyMessage(predictResponse.error.message) ? 'safety' : 'server';
+        throw new ProviderError(kind, `${label} API Error: ${predictResponse.error.message}`);
+    }
+
+    const predictions = predictResponse.predictions ?? [];
+    if (predictions.length === 0) {
+        winston.error(`No images were generated by ${label}. This might be due to safety filters.`, { error_kind: 'safety' });
+        throw new ProviderError('safety', "No images were generated. This might be due to the image not passing Google's safety review.");
+    }
+
+    return predictions.map((pred, index) => {
+        // Buffer.from skips characters outside the alphabet, which would save a corrupt file without a word.
+        const encoded = pred.bytesBase64Encoded;
+        if (typeof encoded !== 'string' || !encoded || encoded.length % 4 !== 0 || !BASE64_PATTERN.test(encoded)) {
+            winston.error(`${label} returned image data that is not valid base64`, { prediction: index, length: encoded?.length });
+            throw new ProviderError('server', `${label} returned invalid image data: prediction ${index + 1} is not valid base64`);
+        }
+        return {
+            mimeType: pred.mimeType || 'image/png',
+            data: Buffer.from(encoded, 'base64'),
+        };
+    });
+}
+
+/**
+ * Reference images are base64 blobs; keep them out of the logs.
+ */
+function redactReferenceImages(body: PredictRequest): PredictRequest {
+    return {
+        ...body,
+        instances: body.instances.map(instance => ({
+            ...instance,
+            referenceImages: instance.referenceImages?.map(ref => ref.referenceImage ? {
+                ...ref,
+                referenceImage: { bytesBase64Encoded: `<${ref.referenceImage.bytesBase64Encoded.length} base64 chars>` },
+            } : ref),
+        })),
+    };
+}
@@ -0,0 +1,165 @@
+import { CassettePlayer, TrafficMode } from './cassettes';
+import { GeminiProvider, GeminiProviderOptions } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAIProvider, OpenAIProviderOptions } from './openai';
+import { RequestPolicy, RequestPolicyOptions } from './request-policy';
+import { ImageProvider } from './types';
+import { VertexProvider, VertexProviderOptions } from './vertex';
+
+export * from './types';
+export { DEFAULT_REQUEST_POLICY, ProviderError, ProviderErrorKind, RequestPolicy, RequestPolicyOptions } from './request-policy';
+export { CANNED_CASSETTES, Cassette, CassettePlayer, TRAFFIC_MODES, TrafficMode } from './cassettes';
+
+export const PROVIDER_NAMES = ['gemini', 'vertex', 'openai', 'mock'];
+
+/**
+ * Model names end up in request URLs, so only allow plain identifiers.
+ */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export interface ResolvedProvider {
+    provider: ImageProvider;
+    model: string;
+}
+
+/**
+ * The set of available providers plus the server-wide default provider and model.
+ */
+export class ProviderRegistry {
+    private readonly providers = new Map<string, ImageProvider>();
+    readonly defaultProvider: string;
+    private readonly defaultModel?: string;
+
+    constructor(providers: ImageProvider[], defaultProvider: string, defaultModel?: string) {
+        for (const provider of providers) {
+            this.providers.set(provider.name, provider);
+        }
+        if (!this.providers.has(defaultProvider)) {
+            throw new Error(`Unknown image provider: ${defaultProvider}, supported values are: ${this.names().join(", ")}`);
+        }
+        this.defaultProvider = defaultProvider;
+        this.defaultModel = defaultModel;
+    }
+
+    names(): string[] {
+        return [...this.providers.keys()];
+    }
+
+    /**
+     * Picks the provider and model for a call. The configured default model only applies to the default provider.
+     */
+    resolve(name?: string, model?: string): ResolvedProvider {
+        const providerName = name || this.defaultProvider;
+        const provider = this.providers.get(providerName);
+        if (!provider) {
+            throw new Error(`Unknown image provider: ${providerName}, supported values are: ${this.names().join(", ")}`);
+        }
+        const resolvedModel = model
+            || (providerName === this.defaultProvider ? this.defaultModel : undefined)
+            || provider.defaultModel;
+        return { provider, model: checkModelName(resolvedModel) };
+    }
+
+    /**
+     * Like {@link resolve}, for edits: the provider must implement `edit` and the model defaults to its edit model.
+     */
+    resolveEdit(name?: string, model?: string): ResolvedProvider {
+        const { provider } = this.resolve(name);
+        if (!provider.edit || !provider.defaultEditModel) {
+            throw new Error(`Image provider ${provider.name} does not support image editing`);
+        }
+        return { provider, model: checkModelName(model || provider.defaultEditModel) };
+    }
+
+    /**
+     * Like {@link resolve}, for generation with reference images: the model defaults to the provider's reference model.
+     */
+    resolveReferences(name?: string, model?: string): ResolvedProvider {
+        const { provider } = this.resolve(name);
+        if (!provider.defaultReferenceModel) {
+            throw new Error(`Image provider ${provider.name} does not support reference images`);
+        }
+        return { provider, model: checkModelName(model || provider.defaultReferenceModel) };
+    }
+
+    /**
+     * A registry with only the named providers, e.g. for a workspace. The default
+     * provider and model stay if the provider is allowed, else the first allowed provider becomes the default.
+     */
+    restrict(names: string[]): ProviderRegistry {
+        const providers = names.map(name => {
+            const provider = this.providers.get(name);
+            if (!provider) {
+                throw new Error(`Unknown image provider: ${name}, supported values are: ${this.names().join(", ")}`);
+            }
+            return provider;
+        });
+        const keepsDefault = names.includes(this.defaultProvider);
+        return new ProviderRegistry(providers, keepsDefault ? this.defaultProvider : names[0], keepsDefault ? this.defaultModel : undefined);
+    }
+}
+
+function checkModelName(model: string): string {
+    if (!MODEL_NAME_PATTERN.test(model)) {
+        throw new Error(`Invalid model name: ${model}`);
+    }
+    return model;
+}
+
+/**
+ * Provider settings from the server configuration.
+ */
+export interface ProviderSettings {
+    provider: string;
+    model?: string;
+    gemini: Omit<GeminiProviderOptions, 'policy'>;
+    vertex: Omit<VertexProviderOptions, 'policy'>;
+    openai: Omit<OpenAIProviderOptions, 'policy'>;
+    request: RequestPolicyOptions;
+    traffic: { mode: TrafficMode; cassetteDir: string };
+}
+
+/**
+ * Placeholder credentials for replay mode, where requests never leave the process.
+ */
+const REPLAY_CREDENTIAL = 'replay';
+
+/**
+ * Builds the registry from the configuration. `provider` and `model` choose
+ * the defaults; each backend gets its own credentials and its own rate limit
+ * under the shared request policy settings. In replay mode, missing
+ * credentials are filled with placeholders so no key is needed.
+ */
+export function createProviderRegistry(settings: ProviderSettings): ProviderRegistry {
+    let { gemini, vertex, openai } = settings;
+    const cassettes = createCassettePlayer(settings);
+    if (cassettes?.mode === 'replay') {
+        gemini = { ...gemini, apiKey: gemini.apiKey || REPLAY_CREDENTIAL };
+        // A service account would be exchanged for a token over the network.
+        vertex = { ...vertex, project: vertex.project || REPLAY_CREDENTIAL, accessToken: vertex.accessToken || REPLAY_CREDENTIAL };
+        openai = { ...openai, apiKey: openai.apiKey || REPLAY_CREDENTIAL };
+    }
+    return new ProviderRegistry(
+        [
+            new GeminiProvider({ ...gemini, policy: new RequestPolicy(settings.request, cassettes) }),
+            new VertexProvider({ ...vertex, policy: new RequestPolicy(settings.request, cassettes) }),
+            new OpenAIProvider({ ...openai, policy: new RequestPolicy(settings.request, cassettes) }),
+            new MockProvider(),
+        ],
+        settings.provider,
+        settings.model
+    );
+}
+
+/**
+ * The cassette player for the configured traffic mode, or undefined when traffic goes out live.
+ * Every configured credential is scrubbed from recordings.
+ */
+export function createCassettePlayer(settings: Pick<ProviderSettings, 'gemini' | 'vertex' | 'openai' | 'traffic'>): CassettePlayer | undefined {
+    const { mode, cassetteDir } = settings.traffic;
+    if (mode === 'live') {
+        return undefined;
+    }
+    const secrets = [settings.gemini.apiKey, settings.vertex.accessToken, settings.openai.apiKey];
+    return new CassettePlayer({ mode, dir: cassetteDir, secrets: secrets.filter((secret): secret is string => !!secret) });
+}
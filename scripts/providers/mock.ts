@@ -0,0 +1,96 @@
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import winston from 'winston';
+import { readImageDimensions } from '../image-format';
+import { encodePng } from '../png';
+import { EditRequest, GeneratedImage, GenerationRequest, ImageProvider } from './types';
+
+// Keep placeholder edits cheap to draw even for large sources.
+const MAX_EDIT_DIMENSION = 512;
+
+const DIMENSIONS: Record<string, [number, number]> = {
+    "1:1": [256, 256],
+    "3:4": [192, 256],
+    "4:3": [256, 192],
+    "9:16": [144, 256],
+    "16:9": [256, 144],
+};
+
+/**
+ * Offline provider that draws placeholder PNGs. The same prompt, model and
+ * parameters always produce the same bytes, so it needs no key or network and
+ * is safe to use in tests.
+ */
+export class MockProvider implements ImageProvider {
+    readonly name = 'mock';
+    readonly defaultModel = 'mock-placeholder';
+    readonly defaultEditModel = 'mock-placeholder';
+    readonly defaultReferenceModel = 'mock-placeholder';
+
+    checkConfiguration(): string | undefined {
+        return undefined;
+    }
+
+    async generate(request: GenerationRequest): Promise<GeneratedImage[]> {
+        const { parameters } = request;
+        const [width, height] = DIMENSIONS[parameters.aspectRatio ?? "1:1"] ?? DIMENSIONS["1:1"];
+        winston.info('Generating placeholder images', { model: request.model, width, height, count: parameters.sampleCount });
+
+        const images: GeneratedImage[] = [];
+        for (let i = 0; i < parameters.sampleCount; i++) {
+            request.signal?.throwIfAborted();
+            const hash = createHash('sha256').update(JSON.stringify([request.model, request.prompt, parameters, i]));
+            for (const reference of request.references ?? []) {
+                hash.update(JSON.stringify([reference.type, reference.referenceId, reference.description])).update(reference.image.data);
+            }
+            const digest = hash.digest();
+            images.push({ mimeType: 'image/png', data: drawPlaceholder(width, height, digest) });
+        }
+        return images;
+    }
+
+    /**
+     * Draws placeholders with the source's aspect ratio, seeded by the source, mask, mode and prompt.
+     */
+    async edit(request: EditRequest): Promise<GeneratedImage[]> {
+        const source = readImageDimensions(request.image.data) ?? { width: 256, height: 256 };
+        const scale = Math.min(1, MAX_EDIT_DIMENSION / Math.max(source.width, source.height));
+        const width = Math.max(1, Math.round(source.width * scale));
+        const height = Math.max(1, Math.round(source.height * scale));
+        winston.info('Generating placeholder edits', { model: request.model, mode: request.mode, width, height });
+
+        const images: GeneratedImage[] = [];
+        for (let i = 0; i < request.parameters.sampleCount; i++) {
+            request.signal?.throwIfAborted();
+            const digest = createHash('sha256')
+                .update(JSON.stringify([request.model, request.mode, request.prompt, request.parameters, i]))
+                .update(request.image.data)
+                .update(request.mask?.data ?? Buffer.alloc(0))
+                .digest();
+            images.push({ mimeType: 'image/png', data: drawPlaceholder(width, height, digest) });
+        }
+        return images;
+    }
+}
+
+/**
+ * A diagonal gradient between two colours taken from the digest, overlaid with a checkerboard.
+ */
+function drawPlaceholder(width: number, height: number, digest: Buffer): Buffer {
+    const from = [digest[0], digest[1], digest[2]];
+    const to = [digest[3], digest[4], digest[5]];
+    const cell = 8 + (digest[6] % 4) * 8;
+
+    const rgb = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const t = (x + y) / (width + height - 2);
+            const shade = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 === 0 ? 1 : 0.85;
+            const offset = (y * width + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                rgb[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * shade);
+            }
+        }
+    }
+    return encodePng(width, height, rgb);
+}
@@ -0,0 +1,130 @@
+import { Buffer } from 'buffer';
+import winston from 'winston';
+import { isSafetyMessage, ProviderError, RequestPolicy } from './request-policy';
+import { GeneratedImage, GenerationRequest, ImageProvider } from './types';
+
+export interface OpenAIProviderOptions {
+    apiKey?: string;
+    baseUrl?: string;
+    policy?: RequestPolicy;
+}
+
+interface OpenAIImagesResponse {
+    data?: { b64_json?: string }[];
+    error?: { message: string };
+}
+
+/**
+ * Any backend that implements the OpenAI `images/generations` API.
+ */
+export class OpenAIProvider implements ImageProvider {
+    readonly name = 'openai';
+    readonly defaultModel = 'gpt-image-1';
+    private readonly apiKey?: string;
+    private readonly baseUrl: string;
+    private readonly policy: RequestPolicy;
+
+    constructor(options: OpenAIProviderOptions) {
+        this.apiKey = options.apiKey;
+        this.baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, '');
+        this.policy = options.policy ?? new RequestPolicy();
+    }
+
+    checkConfiguration(): string | undefined {
+        return this.apiKey ? undefined : "OPENAI_API_KEY environment variable not set";
+    }
+
+    async probe(signal?: AbortSignal): Promise<void> {
+        if (!this.apiKey) {
+            throw new ProviderError('auth', "OPENAI_API_KEY environment variable not set");
+        }
+        await this.policy.probe('OpenAI', `${this.baseUrl}/models`, { headers: { Authorization: `Bearer ${this.apiKey}` } }, signal);
+    }
+
+    async generate(request: GenerationRequest): Promise<GeneratedImage[]> {
+        if (!this.apiKey) {
+            throw new ProviderError('auth', "OPENAI_API_KEY environment variable not set");
+        }
+
+        const { parameters } = request;
+        const ignored = (['negativePrompt', 'seed', 'addWatermark', 'enhancePrompt', 'personGeneration', 'safetySetting'] as const)
+            .filter(key => parameters[key] !== undefined);
+        if (ignored.length > 0) {
+            winston.warn('OpenAI-compatible provider ignores some parameters.', { ignored });
+        }
+
+        const isDallE = request.model.startsWith('dall-e');
+        const mimeType = parameters.outputOptions?.mimeType ?? 'image/png';
+        const body: Record<string, unknown> = {
+            model: request.model,
+            prompt: request.prompt,
+            n: parameters.sampleCount,
+            size: sizeForAspectRatio(request.model, parameters.aspectRatio),
+        };
+        if (isDallE) {
+            body.response_format = 'b64_json';
+        } else {
+            body.output_format = mimeType === 'image/jpeg' ? 'jpeg' : 'png';
+            if (parameters.outputOptions?.compressionQuality !== undefined) {
+                body.output_compression = parameters.outputOptions.compressionQuality;
+            }
+        }
+        winston.info('Sending request to OpenAI-compatible API', { model: request.model, request: body });
+
+        let responseText: string;
+        try {
+            responseText = await this.policy.fetchText('OpenAI', `${this.baseUrl}/images/generations`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${this.apiKey}`,
+                },
+                body: JSON.stringify(body),
+            }, request.signal);
+        } catch (e: any) {
+            if (e instanceof ProviderError) {
+                winston.error('Failed to send request to OpenAI-compatible API', { error_kind: e.kind, status: e.status, error: e.message });
+            }
+            throw e;
+        }
+
+        let imagesResponse: OpenAIImagesResponse;
+        try {
+            imagesResponse = JSON.parse(responseText);
+        } catch (e: any) {
+            winston.error('Failed to parse OpenAI response', { response_body: responseText, error: e });
+            throw new ProviderError('server', `Failed to parse OpenAI response: ${e.message}. The response was: ${responseText}`);
+        }
+        if (imagesResponse.error) {
+            const kind = isSafetyMessage(imagesResponse.error.message) ? 'safety' : 'server';
+            throw new ProviderError(kind, `OpenAI API Error: ${imagesResponse.error.message}`);
+        }
+
+        const images = (imagesResponse.data ?? []).filter(item => item.b64_json);
+        if (images.length === 0) {
+            throw new ProviderError('server', "No images were generated. The response did not contain any base64 image data.");
+        }
+        return images.map(item => ({
+            // DALL-E always answers with PNG.
+            mimeType: isDallE ? 'image/png' : mimeType,
+            data: Buffer.from(item.b64_json!, 'base64'),
+        }));
+    }
+}
+
+/**
+ * OpenAI models only accept a few fixed sizes, so pick the one closest to the requested aspect ratio.
+ */
+function sizeForAspectRatio(model: string, aspectRatio: string | undefined): string {
+    const orientation = aspectRatio === '4:3' || aspectRatio === '16:9'
+        ? 'landscape'
+        : aspectRatio === '3:4' || aspectRatio === '9:16' ? 'portrait' : 'square';
+
+    if (model === 'dall-e-2' || orientation === 'square') {
+        return '1024x1024';
+    }
+    if (model === 'dall-e-3') {
+        return orientation === 'landscape' ? '1792x1024' : '1024x1792';
+    }
+    return orientation === 'landscape' ? '1536x1024' : '1024x1536';
+}
@@ -0,0 +1,289 @@
+import winston from 'winston';
+import { CassettePlayer } from './cassettes';
+
+/**
+ * What went wrong with a provider call, so callers and logs can tell failures apart.
+ */
+export type ProviderErrorKind =
+    | 'quota'
+    | 'safety'
+    | 'invalid_argument'
+    | 'auth'
+    | 'network'
+    | 'timeout'
+    | 'server';
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['quota', 'network', 'timeout'];
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    readonly status?: number;
+    /**
+     * How long the backend asked us to wait before trying again, from `Retry-After` or a Google `RetryInfo` detail.
+     */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: ProviderErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind)
+            || (this.kind === 'server' && this.status !== undefined && RETRYABLE_SERVER_STATUSES.includes(this.status));
+    }
+}
+
+export interface RequestPolicyOptions {
+    /**
+     * Per-attempt timeout. 0 disables it.
+     */
+    timeoutMs: number;
+    /**
+     * Retries after the first attempt for quota, overload, network and timeout errors.
+     */
+    maxRetries: number;
+    baseDelayMs: number;
+    /**
+     * Upper bound for a single backoff. A `Retry-After` longer than this is not waited out.
+     */
+    maxDelayMs: number;
+    /**
+     * Client-side limit on requests sent to the backend. 0 means unlimited.
+     */
+    requestsPerMinute: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicyOptions = {
+    timeoutMs: 120_000,
+    maxRetries: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+    requestsPerMinute: 0,
+};
+
+/**
+ * Wraps provider HTTP calls with a timeout per attempt, exponential backoff
+ * with jitter, and a token-bucket rate limit shared by every call made through
+ * the same policy. With a cassette player, requests are recorded or replayed
+ * instead of only being sent.
+ */
+export class RequestPolicy {
+    readonly options: RequestPolicyOptions;
+    private readonly bucket?: TokenBucket;
+    private readonly cassettes?: CassettePlayer;
+
+    constructor(options: Partial<RequestPolicyOptions> = {}, cassettes?: CassettePlayer) {
+        this.options = { ...DEFAULT_REQUEST_POLICY, ...options };
+        this.cassettes = cassettes;
+        if (this.options.requestsPerMinute > 0) {
+            this.bucket = new TokenBucket(this.options.requestsPerMinute);
+        }
+    }
+
+    /**
+     * Sends the request and returns the body of the first successful response.
+     * Failures are thrown as {@link ProviderError}; cancellation through
+     * `signal` is rethrown as is and never retried.
+     */
+    async fetchText(label: string, url: string, init: RequestInit, signal?: AbortSignal): Promise<string> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await this.bucket?.take(signal);
+                return await this.attempt(label, url, init, signal);
+            } catch (e: any) {
+                if (signal?.aborted || !(e instanceof ProviderError)) {
+                    throw e;
+                }
+                const delay = this.retryDelay(e, attempt);
+                winston.warn(`${label} request failed: ${e.message}`, {
+                    error_kind: e.kind,
+                    status: e.status,
+                    attempt: attempt + 1,
+                    retry_in_ms: delay,
+                });
+                if (delay === undefined) {
+                    throw e;
+                }
+                await sleep(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * Sends a single request without retries or rate limiting, for health checks.
+     */
+    async probe(label: string, url: string, init: RequestInit, signal?: AbortSignal): Promise<string> {
+        return this.attempt(label, url, init, signal);
+    }
+
+    private async attempt(label: string, url: string, init: RequestInit, signal?: AbortSignal): Promise<string> {
+        const timeout = this.options.timeoutMs > 0 ? AbortSignal.timeout(this.options.timeoutMs) : undefined;
+        const signals = [signal, timeout].filter((s): s is AbortSignal => s !== undefined);
+
+        let response: Response;
+        let responseText: string;
+        try {
+            const attemptInit = { ...init, signal: signals.length > 0 ? AbortSignal.any(signals) : undefined };
+            response = this.cassettes ? await this.cassettes.fetch(label, url, attemptInit) : await fetch(url, attemptInit);
+            responseText = await response.text();
+        } catch (e: any) {
+            if (signal?.aborted || e instanceof ProviderError) {
+                throw e;
+            }
+            if (timeout?.aborted) {
+                throw new ProviderError('timeout', `${label} API request timed out after ${this.options.timeoutMs} ms`);
+            }
+            throw new ProviderError('network', `${label} API request failed: ${e.cause?.message ?? e.message}`);
+        }
+
+        if (!response.ok) {
+            throw classifyHttpError(label, response.status, responseText, parseRetryAfter(response.headers.get('retry-after')));
+        }
+        return responseText;
+    }
+
+    /**
+     * Returns how long to wait before the next attempt, or undefined to give up.
+     */
+    private retryDelay(error: ProviderError, attempt: number): number | undefined {
+        if (!error.retryable || attempt >= this.options.maxRetries) {
+            return undefined;
+        }
+        if (error.retryAfterMs !== undefined) {
+            return error.retryAfterMs <= this.options.maxDelayMs ? error.retryAfterMs : undefined;
+        }
+        // "Equal jitter": half the exponential delay, plus a random share of the other half.
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        return Math.round(backoff / 2 + Math.random() * backoff / 2);
+    }
+}
+
+/**
+ * Refills continuously at `ratePerMinute`, holding at most one minute's worth of tokens.
+ */
+class TokenBucket {
+    private readonly capacity: number;
+    private readonly refillPerMs: number;
+    private tokens: number;
+    private updatedAt = Date.now();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(ratePerMinute: number) {
+        this.capacity = ratePerMinute;
+        this.refillPerMs = ratePerMinute / 60_000;
+        this.tokens = ratePerMinute;
+    }
+
+    /**
+     * Waits until a token is available. Callers are served in arrival order.
+     */
+    take(signal?: AbortSignal): Promise<void> {
+        const next = this.queue.then(() => this.takeNow(signal));
+        this.queue = next.catch(() => undefined);
+        return next;
+    }
+
+    private async takeNow(signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+        this.refill();
+        if (this.tokens < 1) {
+            const wait = Math.ceil((1 - this.tokens) / this.refillPerMs);
+            winston.info('Rate limit reached, delaying request.', { wait_ms: wait });
+            await sleep(wait, signal);
+            this.refill();
+        }
+        this.tokens -= 1;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+        this.updatedAt = now;
+    }
+}
+
+/**
+ * Maps a non-2xx response to a typed error. Google APIs put a canonical status
+ * such as RESOURCE_EXHAUSTED and, for quota errors, a retry delay in the body.
+ */
+export function classifyHttpError(label: string, status: number, body: string, retryAfterMs?: number): ProviderError {
+    let message = body;
+    let googleStatus: string | undefined;
+    try {
+        const error = JSON.parse(body)?.error;
+        if (typeof error?.message === 'string') {
+            message = error.message;
+        }
+        googleStatus = typeof error?.status === 'string' ? error.status : undefined;
+        const retryInfo = (Array.isArray(error?.details) ? error.details : [])
+            .find((detail: any) => typeof detail?.retryDelay === 'string');
+        retryAfterMs ??= retryInfo ? parseDuration(retryInfo.retryDelay) : undefined;
+    } catch {
+        // Not JSON; keep the raw body as the message.
+    }
+
+    const text = `${label} API request failed with status ${status}: ${message}`;
+    const options = { status, retryAfterMs };
+    if (status === 429 || googleStatus === 'RESOURCE_EXHAUSTED') {
+        return new ProviderError('quota', text, options);
+    }
+    if (status === 401 || status === 403 || googleStatus === 'UNAUTHENTICATED' || googleStatus === 'PERMISSION_DENIED') {
+        return new ProviderError('auth', text, options);
+    }
+    if (status === 408) {
+        return new ProviderError('timeout', text, options);
+    }
+    if (status >= 400 && status < 500) {
+        return new ProviderError(isSafetyMessage(message) ? 'safety' : 'invalid_argument', text, options);
+    }
+    return new ProviderError('server', text, options);
+}
+
+/**
+ * Imagen rejects prompts that trip its filters with a 400 that mentions Responsible AI practices.
+ */
+export function isSafetyMessage(message: string): boolean {
+    return /responsible ai|safety|sensitive words|blocked/i.test(message);
+}
+
+/**
+ * `Retry-After` is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+        return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parses protobuf duration strings such as "30s" or "1.5s".
+ */
+function parseDuration(value: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)s$/.exec(value);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
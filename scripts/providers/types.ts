@@ -0,0 +1,122 @@
+import { Buffer } from 'buffer';
+
+/**
+ * Provider-neutral generation parameters. The field names follow the Imagen
+ * `predict` API; other providers map what they support and ignore the rest.
+ */
+export interface ImageParameters {
+    sampleCount: number;
+    aspectRatio?: string;
+    negativePrompt?: string;
+    seed?: number;
+    addWatermark?: boolean;
+    enhancePrompt?: boolean;
+    personGeneration?: string;
+    safetySetting?: string;
+    outputOptions?: OutputOptions;
+}
+
+export interface OutputOptions {
+    mimeType?: string;
+    compressionQuality?: number;
+}
+
+export const REFERENCE_TYPES = ['subject', 'style', 'control'] as const;
+export type ReferenceType = typeof REFERENCE_TYPES[number];
+export const SUBJECT_TYPES = ['person', 'animal', 'product', 'default'] as const;
+export type SubjectType = typeof SUBJECT_TYPES[number];
+export const CONTROL_TYPES = ['canny', 'scribble', 'face-mesh'] as const;
+export type ControlType = typeof CONTROL_TYPES[number];
+
+/**
+ * An image that conditions generation: a subject to keep, a style to follow, or an edge or scribble map to follow.
+ */
+export interface ReferenceImage {
+    type: ReferenceType;
+    /**
+     * The number the prompt refers to the reference by, as in "a photo of [1]". Images of one subject share an id.
+     */
+    referenceId: number;
+    image: GeneratedImage;
+    description?: string;
+    subjectType?: SubjectType;
+    controlType?: ControlType;
+    /**
+     * For control references: true if `image` is a plain picture the model should derive the control map from,
+     * false if it already is one.
+     */
+    computeControl?: boolean;
+}
+
+export interface GenerationRequest {
+    prompt: string;
+    model: string;
+    parameters: ImageParameters;
+    /**
+     * Only sent to providers with a {@link ImageProvider.defaultReferenceModel}.
+     */
+    references?: ReferenceImage[];
+    /**
+     * Aborts the in-flight provider request when the job is cancelled.
+     */
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    mimeType: string;
+    data: Buffer;
+}
+
+export const EDIT_MODES = ['inpaint-insert', 'inpaint-remove', 'outpaint', 'background-swap'] as const;
+export type EditMode = typeof EDIT_MODES[number];
+
+export interface EditRequest {
+    prompt: string;
+    model: string;
+    mode: EditMode;
+    image: GeneratedImage;
+    /**
+     * White marks the area to change, black the area to keep. When absent the
+     * provider detects the background itself (background-swap only).
+     */
+    mask?: GeneratedImage;
+    parameters: ImageParameters;
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend that turns a prompt into image bytes. Providers do not touch the
+ * disk; saving the results is up to the caller.
+ */
+export interface ImageProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+
+    /**
+     * The model used for edits when the caller does not name one. Only set by providers that implement {@link edit}.
+     */
+    readonly defaultEditModel?: string;
+
+    /**
+     * The model used for generation with reference images when the caller does not name one. Only set by providers
+     * that honour {@link GenerationRequest.references}.
+     */
+    readonly defaultReferenceModel?: string;
+
+    /**
+     * Returns a message describing missing configuration, or undefined when the provider is ready to use.
+     */
+    checkConfiguration(): string | undefined;
+
+    /**
+     * Checks the credentials and that the endpoint is reachable, without generating anything. Throws a `ProviderError` on failure.
+     */
+    probe?(signal?: AbortSignal): Promise<void>;
+
+    generate(request: GenerationRequest): Promise<GeneratedImage[]>;
+
+    /**
+     * Edits an existing image. Providers without an edit model leave this out.
+     */
+    edit?(request: EditRequest): Promise<GeneratedImage[]>;
+}
@@ -0,0 +1,250 @@
+import { Buffer } from 'buffer';
+import { createSign } from 'crypto';
+import * as fs from 'fs/promises';
+import winston from 'winston';
+import { predict, PredictReferenceImage, PredictRequest } from './gemini';
+import { ProviderError, RequestPolicy } from './request-policy';
+import { ControlType, EditMode, EditRequest, GeneratedImage, GenerationRequest, ImageProvider, ReferenceImage, SubjectType } from './types';
+
+const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+const EDIT_MODE_NAMES: Record<EditMode, string> = {
+    'inpaint-insert': 'EDIT_MODE_INPAINT_INSERTION',
+    'inpaint-remove': 'EDIT_MODE_INPAINT_REMOVAL',
+    'outpaint': 'EDIT_MODE_OUTPAINT',
+    'background-swap': 'EDIT_MODE_BGSWAP',
+};
+
+const SUBJECT_TYPE_NAMES: Record<SubjectType, string> = {
+    person: 'SUBJECT_TYPE_PERSON',
+    animal: 'SUBJECT_TYPE_ANIMAL',
+    product: 'SUBJECT_TYPE_PRODUCT',
+    default: 'SUBJECT_TYPE_DEFAULT',
+};
+
+const CONTROL_TYPE_NAMES: Record<ControlType, string> = {
+    'canny': 'CONTROL_TYPE_CANNY',
+    'scribble': 'CONTROL_TYPE_SCRIBBLE',
+    'face-mesh': 'CONTROL_TYPE_FACE_MESH',
+};
+
+export interface VertexProviderOptions {
+    project?: string;
+    location?: string;
+    /**
+     * Path to a service-account JSON key, usually from GOOGLE_APPLICATION_CREDENTIALS.
+     */
+    credentialsFile?: string;
+    /**
+     * A ready-made OAuth access token, e.g. from `gcloud auth print-access-token`. Takes precedence over the key file.
+     */
+    accessToken?: string;
+    baseUrl?: string;
+    policy?: RequestPolicy;
+}
+
+interface ServiceAccountKey {
+    client_email: string;
+    private_key: string;
+    token_uri?: string;
+}
+
+/**
+ * Imagen on Vertex AI, authenticated with a service account or an OAuth access token.
+ */
+export class VertexProvider implements ImageProvider {
+    readonly name = 'vertex';
+    readonly defaultModel = 'imagen-3.0-generate-002';
+    readonly defaultEditModel = 'imagen-3.0-capability-001';
+    readonly defaultReferenceModel = 'imagen-3.0-capability-001';
+    private readonly options: VertexProviderOptions;
+    private readonly policy: RequestPolicy;
+    private cachedToken?: { value: string; expiresAt: number };
+
+    constructor(options: VertexProviderOptions) {
+        this.options = options;
+        this.policy = options.policy ?? new RequestPolicy();
+    }
+
+    checkConfiguration(): string | undefined {
+        if (!this.options.project) {
+            return "VERTEX_PROJECT environment variable not set";
+        }
+        if (!this.options.accessToken && !this.options.credentialsFile) {
+            return "Neither VERTEX_ACCESS_TOKEN nor GOOGLE_APPLICATION_CREDENTIALS is set";
+        }
+        return undefined;
+    }
+
+    async generate(request: GenerationRequest): Promise<GeneratedImage[]> {
+        const referenceImages = request.references?.map(toPredictReference);
+        return this.predict(request.model, {
+            instances: [{ prompt: request.prompt, ...(referenceImages?.length ? { referenceImages } : {}) }],
+            parameters: request.parameters,
+        }, request.signal);
+    }
+
+    /**
+     * Edits with an Imagen capability model. The source is the raw reference
+     * image; the mask is either the caller's or one the model derives.
+     */
+    async edit(request: EditRequest): Promise<GeneratedImage[]> {
+        const referenceImages: PredictReferenceImage[] = [
+            {
+                referenceType: 'REFERENCE_TYPE_RAW',
+                referenceId: 1,
+                referenceImage: { bytesBase64Encoded: request.image.data.toString('base64') },
+            },
+        ];
+        if (request.mask) {
+            referenceImages.push({
+                referenceType: 'REFERENCE_TYPE_MASK',
+                referenceId: 2,
+                referenceImage: { bytesBase64Encoded: request.mask.data.toString('base64') },
+                maskImageConfig: { maskMode: 'MASK_MODE_USER_PROVIDED', dilation: request.mode === 'outpaint' ? 0.03 : 0.01 },
+            });
+        } else {
+            // Without a mask the model segments the background on its own.
+            referenceImages.push({
+                referenceType: 'REFERENCE_TYPE_MASK',
+                referenceId: 2,
+                maskImageConfig: { maskMode: 'MASK_MODE_BACKGROUND' },
+            });
+        }
+
+        return this.predict(request.model, {
+            instances: [{ prompt: request.prompt, referenceImages }],
+            parameters: { ...request.parameters, editMode: EDIT_MODE_NAMES[request.mode] },
+        }, request.signal);
+    }
+
+    /**
+     * Fetches the default model's description, which needs a valid token and project.
+     */
+    async probe(signal?: AbortSignal): Promise<void> {
+        const token = await this.authorize(signal);
+        await this.policy.probe('Vertex AI', this.modelUrl(this.defaultModel), { headers: { Authorization: `Bearer ${token}` } }, signal);
+    }
+
+    private async predict(model: string, body: PredictRequest, signal?: AbortSignal): Promise<GeneratedImage[]> {
+        const token = await this.authorize(signal);
+        return predict('Vertex AI', this.policy, `${this.modelUrl(model)}:predict`, { Authorization: `Bearer ${token}` }, model, body, signal);
+    }
+
+    private async authorize(signal?: AbortSignal): Promise<string> {
+        const configError = this.checkConfiguration();
+        if (configError) {
+            throw new ProviderError('auth', configError);
+        }
+        return this.getAccessToken(signal);
+    }
+
+    private modelUrl(model: string): string {
+        const location = this.options.location || 'us-central1';
+        const baseUrl = this.options.baseUrl || `https://${location}-aiplatform.googleapis.com`;
+        return `${baseUrl}/v1/projects/${this.options.project}/locations/${location}/publishers/google/models/${model}`;
+    }
+
+    /**
+     * Returns the configured access token, or exchanges a signed service-account JWT for one and caches it until shortly before it expires.
+     */
+    private async getAccessToken(signal?: AbortSignal): Promise<string> {
+        if (this.options.accessToken) {
+            return this.options.accessToken;
+        }
+        if (this.cachedToken && this.cachedToken.expiresAt > Date.now() + 60_000) {
+            return this.cachedToken.value;
+        }
+
+        let key: ServiceAccountKey;
+        try {
+            key = JSON.parse(await fs.readFile(this.options.credentialsFile!, 'utf8'));
+        } catch (e: any) {
+            throw new ProviderError('auth', `Failed to read service account key ${this.options.credentialsFile}: ${e.message}`);
+        }
+        if (!key.client_email || !key.private_key) {
+            throw new ProviderError('auth', `Service account key ${this.options.credentialsFile} is missing client_email or private_key`);
+        }
+
+        const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+        const assertion = signJwt(key, tokenUri);
+        let responseText: string;
+        try {
+            responseText = await this.policy.fetchText('OAuth token', tokenUri, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({
+                    grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+                    assertion,
+                }).toString(),
+            }, signal);
+        } catch (e: any) {
+            if (!(e instanceof ProviderError)) {
+                throw e;
+            }
+            winston.error(`Failed to obtain Vertex AI access token: ${e.message}`, { error_kind: e.kind, status: e.status });
+            // The token endpoint answers bad credentials with 400 invalid_grant.
+            throw e.kind === 'invalid_argument' ? new ProviderError('auth', e.message, { status: e.status }) : e;
+        }
+
+        const token = JSON.parse(responseText) as { access_token: string; expires_in?: number };
+        this.cachedToken = {
+            value: token.access_token,
+            expiresAt: Date.now() + (token.expires_in ?? 3600) * 1000,
+        };
+        winston.info('Obtained Vertex AI access token.', { client_email: key.client_email });
+        return token.access_token;
+    }
+}
+
+/**
+ * Builds the RS256-signed JWT assertion for the OAuth 2.0 JWT bearer grant.
+ */
+function signJwt(key: ServiceAccountKey, audience: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: 'RS256', typ: 'JWT' };
+    const claims = {
+        iss: key.client_email,
+        scope: CLOUD_PLATFORM_SCOPE,
+        aud: audience,
+        iat: now,
+        exp: now + 3600,
+    };
+    const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(key.private_key, 'base64url');
+    return `${unsigned}.${signature}`;
+}
+
+function base64Url(text: string): string {
+    return Buffer.from(text, 'utf8').toString('base64url');
+}
+
+/**
+ * Encodes a reference in the customization format of the Imagen capability models.
+ */
+function toPredictReference(reference: ReferenceImage): PredictReferenceImage {
+    const encoded: PredictReferenceImage = {
+        referenceType: `REFERENCE_TYPE_${reference.type.toUpperCase()}`,
+        referenceId: reference.referenceId,
+        referenceImage: { bytesBase64Encoded: reference.image.data.toString('base64') },
+    };
+    switch (reference.type) {
+        case 'subject':
+            encoded.subjectImageConfig = {
+                subjectDescription: reference.description,
+                subjectType: SUBJECT_TYPE_NAMES[reference.subjectType ?? 'default'],
+            };
+            break;
+        case 'style':
+            encoded.styleImageConfig = { styleDescription: reference.description };
+            break;
+        case 'control':
+            encoded.controlImageConfig = {
+                controlType: CONTROL_TYPE_NAMES[reference.controlType ?? 'canny'],
+                enableControlImageComputation: reference.computeControl ?? true,
+            };
+            break;
+    }
+    return encoded;
+}
@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import sharp from 'sharp';
+import winston from 'winston';
+import { GeneratedImage } from './providers';
+
+export const RENDITION_FORMATS = ['png', 'jpeg', 'webp', 'avif'] as const;
+export type RenditionFormat = typeof RENDITION_FORMATS[number];
+
+export const MAX_RENDITION_DIMENSION = 4096;
+const DEFAULT_QUALITY = 80;
+
+const MIME_TYPES: Record<RenditionFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+export interface ConversionOptions {
+    /**
+     * Defaults to the source format if sharp can write it, PNG otherwise.
+     */
+    format?: RenditionFormat;
+    /**
+     * Fit inside this width and height, keeping the aspect ratio. Never enlarges.
+     */
+    width?: number;
+    height?: number;
+    /**
+     * Quality from 1 to 100 for JPEG, WebP and AVIF.
+     */
+    quality?: number;
+}
+
+/**
+ * Resizes and re-encodes an image locally with sharp; no network access is involved.
+ */
+export async function convertImage(image: GeneratedImage, options: ConversionOptions): Promise<GeneratedImage> {
+    const format = options.format ?? formatForMimeType(image.mimeType) ?? 'png';
+    const quality = options.quality ?? DEFAULT_QUALITY;
+
+    let pipeline = sharp(image.data);
+    if (options.width || options.height) {
+        pipeline = pipeline.resize({
+            width: options.width,
+            height: options.height,
+            fit: 'inside',
+            withoutEnlargement: true,
+        });
+    }
+    switch (format) {
+        case 'jpeg':
+            pipeline = pipeline.jpeg({ quality, mozjpeg: true });
+            break;
+        case 'webp':
+            pipeline = pipeline.webp({ quality });
+            break;
+        case 'avif':
+            pipeline = pipeline.avif({ quality });
+            break;
+        default:
+            pipeline = pipeline.png();
+    }
+    return { mimeType: MIME_TYPES[format], data: await pipeline.toBuffer() };
+}
+
+export function formatForMimeType(mimeType: string): RenditionFormat | undefined {
+    return (Object.keys(MIME_TYPES) as RenditionFormat[]).find(format => MIME_TYPES[format] === mimeType);
+}
+
+/**
+ * Reads `w`, `h`, `format` and `q` from a rendition request. Returns undefined
+ * if none is present, or an error message for invalid values.
+ */
+export function parseRenditionQuery(query: Record<string, unknown>): ConversionOptions | string | undefined {
+    const { w, h, format, q } = query;
+    if (w === undefined && h === undefined && format === undefined && q === undefined) {
+        return undefined;
+    }
+
+    const dimension = (name: string, value: unknown): number | string | undefined => {
+        if (value === undefined) {
+            return undefined;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_RENDITION_DIMENSION) {
+            return `Invalid ${name}: ${value}, must be an integer between 1 and ${MAX_RENDITION_DIMENSION}`;
+        }
+        return parsed;
+    };
+    const width = dimension('w', w);
+    const height = dimension('h', h);
+    const quality = q === undefined ? undefined : Number(q);
+    for (const value of [width, height]) {
+        if (typeof value === 'string') {
+            return value;
+        }
+    }
+    if (quality !== undefined && (!Number.isInteger(quality) || quality < 1 || quality > 100)) {
+        return `Invalid q: ${q}, must be an integer between 1 and 100`;
+    }
+    if (format !== undefined && !(RENDITION_FORMATS as readonly unknown[]).includes(format)) {
+        return `Invalid format: ${format}, supported values are: ${RENDITION_FORMATS.join(", ")}`;
+    }
+    return {
+        width: width as number | undefined,
+        height: height as number | undefined,
+        format: format as RenditionFormat | undefined,
+        quality,
+    };
+}
+
+/**
+ * Derived files kept on disk, keyed by the source content and the conversion
+ * options. When the cache grows past `maxBytes`, the least recently used
+ * renditions are deleted.
+ */
+export class RenditionCache {
+    private readonly cacheDir: string;
+    private readonly maxBytes: number;
+    private readonly pending = new Map<string, Promise<GeneratedImage>>();
+
+    constructor(resourcesPath: string, maxBytes: number) {
+        this.cacheDir = path.join(resourcesPath, 'renditions');
+        this.maxBytes = maxBytes;
+    }
+
+    async init(): Promise<void> {
+        await fs.mkdir(this.cacheDir, { recursive: true });
+    }
+
+    /**
+     * Returns the rendition of the source identified by `source.key`, such as
+     * its SHA-256, converting it with `load` on a miss. Concurrent requests for the same rendition share
+     * one conversion.
+     */
+    get(
+        source: { key: string; mimeType: string },
+        options: ConversionOptions,
+        load: () => Promise<GeneratedImage>
+    ): Promise<GeneratedImage> {
+        const resolved = { ...options, format: options.format ?? formatForMimeType(source.mimeType) ?? 'png' };
+        const hash = createHash('sha256')
+            .update(JSON.stringify([source.key, resolved.width, resolved.height, resolved.format, resolved.quality]))
+            .digest('hex');
+        const filename = `${hash}.${resolved.format}`;
+        let result = this.pending.get(filename);
+        if (!result) {
+            result = this.lookup(filename, resolved, load).finally(() => this.pending.delete(filename));
+            this.pending.set(filename, result);
+        }
+        return result;
+    }
+
+    private async lookup(
+        filename: string,
+        options: ConversionOptions & { format: RenditionFormat },
+        load: () => Promise<GeneratedImage>
+    ): Promise<GeneratedImage> {
+        const filePath = path.join(this.cacheDir, filename);
+        try {
+            const data = await fs.readFile(filePath);
+            // The modification time doubles as the last-used time for eviction.
+            const now = new Date();
+            await fs.utimes(filePath, now, now);
+            return { mimeType: MIME_TYPES[options.format], data };
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+
+        const rendition = await convertImage(await load(), options);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, rendition.data);
+        await fs.rename(tempPath, filePath);
+        winston.info('Created image rendition.', { filename, size: rendition.data.length });
+        await this.trim();
+        return rendition;
+    }
+
+    /**
+     * Deletes the least recently used renditions until the cache fits in its budget.
+     */
+    private async trim(): Promise<void> {
+        const entries = [];
+        for (const name of await fs.readdir(this.cacheDir)) {
+            if (name.endsWith('.tmp')) {
+                continue;
+            }
+            try {
+                const stat = await fs.stat(path.join(this.cacheDir, name));
+                entries.push({ name, size: stat.size, usedAt: stat.mtimeMs });
+            } catch {
+                // Removed by a concurrent trim.
+            }
+        }
+
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        entries.sort((a, b) => a.usedAt - b.usedAt);
+        for (const entry of entries) {
+            if (total <= this.maxBytes) {
+                break;
+            }
+            await fs.rm(path.join(this.cacheDir, entry.name), { force: true });
+            total -= entry.size;
+            winston.debug('Evicted image rendition.', { key: entry.name });
+        }
+    }
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { ReferenceRecord } from './metadata-store';
+import { ImageParameters } from './providers';
+import { ConversionOptions } from './renditions';
+
+interface CacheEntry {
+    key: string;
+    imageIds: string[];
+    createdAt: string;
+}
+
+const CACHE_FILENAME = 'result-cache.json';
+
+/**
+ * Maps a normalized generation request to the images it produced, so an
+ * identical request within the TTL can reuse them instead of calling the
+ * provider again.
+ */
+export class ResultCache {
+    private readonly cachePath: string;
+    private readonly ttlMs: number;
+    private readonly entries = new Map<string, CacheEntry>();
+    private writes: Promise<void> = Promise.resolve();
+    private hits = 0;
+    private misses = 0;
+
+    constructor(resourcesPath: string, ttlMs: number) {
+        this.cachePath = path.join(resourcesPath, CACHE_FILENAME);
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * A SHA-256 over the provider, model, whitespace-normalized prompt, every
+     * parameter, any local conversion and the references' content, serialized
+     * with sorted keys.
+     */
+    static key(
+        provider: string,
+        model: string,
+        prompt: string,
+        parameters: ImageParameters,
+        conversion?: ConversionOptions,
+        references?: ReferenceRecord[]
+    ): string {
+        const normalized = canonicalJson({
+            provider,
+            model,
+            prompt: prompt.trim().replace(/\s+/g, ' '),
+            parameters,
+            conversion,
+            // Only the content of a reference matters, not whether it came by id, path or base64.
+            references: references?.map(({ imageId, file, ...reference }) => reference),
+        });
+        return createHash('sha256').update(normalized).digest('hex');
+    }
+
+    async load(): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.cachePath, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return;
+            }
+            throw new Error(`Could not read result cache at ${this.cachePath}: ${e.message}`);
+        }
+        try {
+            for (const entry of JSON.parse(content) as CacheEntry[]) {
+                if (!this.isExpired(entry)) {
+                    this.entries.set(entry.key, entry);
+                }
+            }
+        } catch (e: any) {
+            winston.warn(`Ignoring malformed result cache: ${e.message}`, { path: this.cachePath });
+        }
+        winston.info('Loaded result cache.', { path: this.cachePath, entries: this.entries.size });
+    }
+
+    /**
+     * Returns the image ids cached for `key`. `isValid` can reject an entry,
+     * e.g. because its images were deleted; such entries are dropped.
+     */
+    lookup(key: string, isValid: (imageIds: string[]) => boolean): string[] | undefined {
+        const entry = this.entries.get(key);
+        if (entry && (this.isExpired(entry) || !isValid(entry.imageIds))) {
+            this.entries.delete(key);
+            // Failures are logged by persist itself.
+            this.persist().catch(() => undefined);
+        } else if (entry) {
+            this.hits++;
+            winston.info('Result cache hit.', { key, images: entry.imageIds.length, hits: this.hits, misses: this.misses });
+            return entry.imageIds;
+        }
+        this.misses++;
+        winston.info('Result cache miss.', { key, hits: this.hits, misses: this.misses });
+        return undefined;
+    }
+
+    async store(key: string, imageIds: string[]): Promise<void> {
+        this.entries.set(key, { key, imageIds, createdAt: new Date().toISOString() });
+        await this.persist();
+    }
+
+    get stats(): { entries: number; hits: number; misses: number } {
+        return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        return Date.parse(entry.createdAt) + this.ttlMs < Date.now();
+    }
+
+    /**
+     * Rewrites the cache file with the live entries. Writes are serialized.
+     */
+    private persist(): Promise<void> {
+        const next = this.writes.then(async () => {
+            const live = [...this.entries.values()].filter(entry => !this.isExpired(entry));
+            const tempPath = `${this.cachePath}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(live));
+            await fs.rename(tempPath, this.cachePath);
+        });
+        this.writes = next.catch(e => {
+            winston.error(`Failed to write result cache: ${e.message}`, { path: this.cachePath });
+        });
+        return next;
+    }
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const fields = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+        return `{${fields.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
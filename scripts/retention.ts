@@ -0,0 +1,123 @@
+import winston from 'winston';
+import { ImageMetadataStore, ImageRecord } from './metadata-store';
+
+/**
+ * Limits on what the images directories of all workspaces may hold together. Unset limits do not apply.
+ */
+export interface RetentionPolicy {
+    maxAgeMs?: number;
+    /**
+     * Total size of the stored images, by their recorded file size.
+     */
+    maxBytes?: number;
+    maxCount?: number;
+}
+
+/**
+ * One workspace's images under the policy.
+ */
+export interface RetentionStore {
+    metadata: ImageMetadataStore;
+    /**
+     * Deletes one image: its file, its record and anything else that refers to it.
+     */
+    remove: (record: ImageRecord, reason: string) => Promise<void>;
+}
+
+export interface RetentionSweeperOptions {
+    policy: RetentionPolicy;
+    /**
+     * Time between sweeps. 0 sweeps once at start and never again.
+     */
+    intervalMs: number;
+}
+
+/**
+ * Periodically deletes images that break the retention policy, oldest first
+ * across all stores. Pinned images are never evicted, but they count against
+ * the size and count limits, so pinning cannot take the disk past them.
+ */
+export class RetentionSweeper {
+    private readonly stores: RetentionStore[];
+    private readonly options: RetentionSweeperOptions;
+    private timer?: NodeJS.Timeout;
+    private running?: Promise<ImageRecord[]>;
+
+    constructor(stores: RetentionStore[], options: RetentionSweeperOptions) {
+        this.stores = stores;
+        this.options = options;
+    }
+
+    get enabled(): boolean {
+        const { maxAgeMs, maxBytes, maxCount } = this.options.policy;
+        return maxAgeMs !== undefined || maxBytes !== undefined || maxCount !== undefined;
+    }
+
+    start(): void {
+        if (!this.enabled || this.timer) {
+            return;
+        }
+        winston.info('Image retention enabled.', { ...this.options.policy, interval_ms: this.options.intervalMs });
+        void this.sweep();
+        if (this.options.intervalMs > 0) {
+            this.timer = setInterval(() => void this.sweep(), this.options.intervalMs);
+            this.timer.unref();
+        }
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    /**
+     * Runs one sweep and returns the evicted records. Overlapping calls share a single run.
+     */
+    sweep(): Promise<ImageRecord[]> {
+        this.running ??= this.evict().finally(() => {
+            this.running = undefined;
+        });
+        return this.running;
+    }
+
+    private async evict(): Promise<ImageRecord[]> {
+        const { maxAgeMs, maxBytes, maxCount } = this.options.policy;
+        const records = this.stores.flatMap(store => store.metadata.all().map(record => ({ record, store })));
+        const candidates = records
+            .filter(({ record }) => !record.pinned)
+            .sort(({ record: a }, { record: b }) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+
+        let count = records.length;
+        let bytes = records.reduce((sum, { record }) => sum + record.fileSize, 0);
+        const cutoff = maxAgeMs !== undefined ? Date.now() - maxAgeMs : undefined;
+        const evicted: ImageRecord[] = [];
+
+        for (const { record, store } of candidates) {
+            let reason: string | undefined;
+            if (cutoff !== undefined && Date.parse(record.createdAt) < cutoff) {
+                reason = 'max age';
+            } else if (maxCount !== undefined && count > maxCount) {
+                reason = 'max count';
+            } else if (maxBytes !== undefined && bytes > maxBytes) {
+                reason = 'max bytes';
+            } else {
+                // Everything after this is newer and the limits hold.
+                break;
+            }
+
+            try {
+                await store.remove(record, `retention: ${reason}`);
+                evicted.push(record);
+                count--;
+                bytes -= record.fileSize;
+            } catch (e: any) {
+                winston.error(`Failed to evict image: ${e.message}`, { id: record.id, filename: record.filename });
+            }
+        }
+
+        if (evicted.length > 0) {
+            winston.info('Retention sweep evicted images.', { evicted: evicted.length, remaining: count, remaining_bytes: bytes });
+        }
+        return evicted;
+    }
+}
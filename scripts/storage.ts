@@ -0,0 +1,444 @@
+import { createHash, createHmac } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { ContentStore } from './content-store';
+
+export const STORAGE_BACKENDS = ['local', 's3'] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export interface StoredFile {
+    filename: string;
+    size: number;
+    modifiedAt: Date;
+}
+
+/**
+ * Where image files live. Only the images move: the metadata index, usage
+ * ledger, result cache and renditions stay in the local artifacts directory
+ * whatever the backend. With S3 and a fresh artifacts directory, the index is
+ * rebuilt from the images' embedded provenance, while usage totals and caches
+ * start over.
+ */
+export interface ArtifactStorage {
+    readonly name: StorageBackend;
+    /**
+     * Where the images are, for logs and the CLI: a directory or an `s3://` URL.
+     */
+    readonly location: string;
+    /**
+     * Set when the images are plain files in this directory, which the HTTP server serves directly.
+     */
+    readonly directory?: string;
+    init(): Promise<void>;
+    /**
+     * Stores an image under `filename` and returns the SHA-256 of its bytes.
+     */
+    write(filename: string, data: Buffer, mimeType: string): Promise<string>;
+    read(filename: string): Promise<Buffer>;
+    /**
+     * Removes an image. `sha256` lets the backend release content shared with other images. Missing files are not an error.
+     */
+    delete(filename: string, sha256?: string): Promise<void>;
+    list(): Promise<StoredFile[]>;
+    /**
+     * A public or presigned URL that works without this server, or undefined when images are reached through its
+     * `/images` route.
+     */
+    url(filename: string): string | undefined;
+    /**
+     * Writes and deletes a probe file, for the doctor command. Returns a description of what was checked.
+     */
+    probe?(): Promise<string>;
+}
+
+export interface StorageSettings {
+    backend: StorageBackend;
+    s3: S3StorageOptions;
+}
+
+/**
+ * Image names from clients end up in file paths, so only allow a single plain path segment.
+ */
+export function isSafeImageName(name: string): boolean {
+    return /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(name) && !name.includes('..');
+}
+
+export function createArtifactStorage(settings: StorageSettings, resourcesPath: string): ArtifactStorage {
+    switch (settings.backend) {
+        case 'local':
+            return new LocalStorage(resourcesPath);
+        case 's3':
+            return new S3Storage(settings.s3);
+        default:
+            throw new Error(`Unknown storage backend: ${settings.backend}, supported values are: ${STORAGE_BACKENDS.join(", ")}`);
+    }
+}
+
+//region Local
+
+/**
+ * Images in `<artifacts>/images`, each a hard link into the {@link ContentStore}.
+ */
+export class LocalStorage implements ArtifactStorage {
+    readonly name = 'local';
+    readonly location: string;
+    readonly directory: string;
+    private readonly content: ContentStore;
+
+    constructor(resourcesPath: string) {
+        this.directory = path.join(resourcesPath, 'images');
+        this.location = this.directory;
+        this.content = new ContentStore(resourcesPath);
+    }
+
+    async init(): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        await this.content.init();
+        await this.content.prune();
+    }
+
+    async write(filename: string, data: Buffer): Promise<string> {
+        return this.content.write(this.file(filename), data);
+    }
+
+    async read(filename: string): Promise<Buffer> {
+        return fs.readFile(this.file(filename));
+    }
+
+    async delete(filename: string, sha256?: string): Promise<void> {
+        const file = this.file(filename);
+        try {
+            await fs.unlink(file);
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+        if (sha256) {
+            await this.content.release(sha256);
+        }
+    }
+
+    async list(): Promise<StoredFile[]> {
+        const files: StoredFile[] = [];
+        for (const dirent of await fs.readdir(this.directory, { withFileTypes: true })) {
+            if (dirent.isFile()) {
+                const stat = await fs.stat(path.join(this.directory, dirent.name));
+                files.push({ filename: dirent.name, size: stat.size, modifiedAt: stat.mtime });
+            }
+        }
+        return files;
+    }
+
+    url(): undefined {
+        return undefined;
+    }
+
+    /**
+     * The path of an image in the images directory. Names that are not a single path segment are refused here too,
+     * whichever caller they come from; files found by {@link list} may have any other name.
+     */
+    private file(filename: string): string {
+        if (!filename || filename === '.' || filename === '..' || path.basename(filename) !== filename) {
+            throw new Error(`Invalid image name: ${filename}`);
+        }
+        return path.join(this.directory, filename);
+    }
+}
+
+//endregion
+
+//region S3
+
+export interface S3StorageOptions {
+    bucket?: string;
+    /**
+     * Prepended to every object key, e.g. `imagen/` for keys like `imagen/<id>_<timestamp>.png`.
+     */
+    prefix?: string;
+    /**
+     * The S3 API endpoint, e.g. `http://127.0.0.1:9000` for a local MinIO. Defaults to AWS in `region`.
+     */
+    endpoint?: string;
+    region: string;
+    /**
+     * Address buckets as `<endpoint>/<bucket>` instead of `<bucket>.<endpoint host>`, as MinIO and most other
+     * S3-compatible servers need.
+     */
+    forcePathStyle: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+    /**
+     * The base URL of a public bucket or CDN in front of it. Image URLs are presigned when not set.
+     */
+    publicUrl?: string;
+    presignTtlSeconds: number;
+}
+
+/**
+ * The longest lifetime S3 accepts for a presigned URL.
+ */
+const MAX_PRESIGN_TTL_SECONDS = 7 * 24 * 60 * 60;
+const S3_TIMEOUT_MS = 30_000;
+
+/**
+ * Images as objects in an S3-compatible bucket, signed with AWS Signature
+ * Version 4. Image URLs are presigned GET URLs unless the bucket has a public URL.
+ */
+export class S3Storage implements ArtifactStorage {
+    readonly name = 's3';
+    readonly location: string;
+    private readonly options: S3StorageOptions;
+    private readonly bucket: string;
+    private readonly accessKeyId: string;
+    private readonly secretAccessKey: string;
+    private readonly prefix: string;
+    private readonly endpoint: URL;
+
+    constructor(options: S3StorageOptions) {
+        const problems = [
+            !options.bucket ? 'S3_BUCKET' : undefined,
+            !options.accessKeyId ? 'AWS_ACCESS_KEY_ID' : undefined,
+            !options.secretAccessKey ? 'AWS_SECRET_ACCESS_KEY' : undefined,
+        ].filter(Boolean);
+        if (problems.length > 0) {
+            throw new Error(`The s3 storage backend needs ${problems.join(", ")}`);
+        }
+        this.options = options;
+        this.bucket = options.bucket!;
+        this.accessKeyId = options.accessKeyId!;
+        this.secretAccessKey = options.secretAccessKey!;
+        this.prefix = options.prefix ? `${options.prefix.replace(/^\/+|\/+$/g, '')}/` : '';
+        try {
+            this.endpoint = new URL(options.endpoint || `https://s3.${options.region}.amazonaws.com`);
+        } catch {
+            throw new Error(`Invalid S3 endpoint: ${options.endpoint}`);
+        }
+        this.location = `s3://${this.bucket}/${this.prefix}`;
+    }
+
+    async init(): Promise<void> {
+        winston.info('Using S3 image storage.', {
+            location: this.location,
+            endpoint: this.endpoint.origin,
+            path_style: this.options.forcePathStyle,
+            public_url: this.options.publicUrl,
+        });
+    }
+
+    async write(filename: string, data: Buffer, mimeType: string): Promise<string> {
+        const sha256 = createHash('sha256').update(data).digest('hex');
+        await this.request('PUT', this.key(filename), {
+            body: data,
+            payloadHash: sha256,
+            // Saved images never change under the same name.
+            headers: { 'content-type': mimeType, 'cache-control': 'public, max-age=31536000, immutable' },
+        });
+        return sha256;
+    }
+
+    async read(filename: string): Promise<Buffer> {
+        const response = await this.request('GET', this.key(filename));
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async delete(filename: string): Promise<void> {
+        // Deleting a missing object succeeds in S3.
+        await this.request('DELETE', this.key(filename));
+    }
+
+    async list(): Promise<StoredFile[]> {
+        const files: StoredFile[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const query: Record<string, string> = { 'list-type': '2', prefix: this.prefix, delimiter: '/' };
+            if (continuationToken) {
+                query['continuation-token'] = continuationToken;
+            }
+            const xml = await (await this.request('GET', '', { query })).text();
+            for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                const key = xmlValue(contents, 'Key');
+                if (key && key.startsWith(this.prefix)) {
+                    files.push({
+                        filename: key.slice(this.prefix.length),
+                        size: Number(xmlValue(contents, 'Size') ?? 0),
+                        modifiedAt: new Date(xmlValue(contents, 'LastModified') ?? 0),
+                    });
+                }
+            }
+            continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+        } while (continuationToken);
+        return files;
+    }
+
+    url(filename: string): string {
+        const key = this.key(filename);
+        if (this.options.publicUrl) {
+            return `${this.options.publicUrl.replace(/\/+$/, '')}/${encodePath(key)}`;
+        }
+        return this.presign('GET', key, Math.min(this.options.presignTtlSeconds, MAX_PRESIGN_TTL_SECONDS));
+    }
+
+    async probe(): Promise<string> {
+        const filename = `.doctor-${process.pid}.tmp`;
+        await this.write(filename, Buffer.from('ok'), 'text/plain');
+        await this.delete(filename);
+        return `${this.location} at ${this.endpoint.origin} is writable`;
+    }
+
+    private key(filename: string): string {
+        return `${this.prefix}${filename}`;
+    }
+
+    /**
+     * The URL of an object, or of the bucket for an empty key.
+     */
+    private objectUrl(key: string): URL {
+        const url = new URL(this.endpoint.href);
+        const base = url.pathname.replace(/\/+$/, '');
+        if (this.options.forcePathStyle) {
+            url.pathname = `${base}/${this.bucket}/${encodePath(key)}`;
+        } else {
+            url.hostname = `${this.bucket}.${url.hostname}`;
+            url.pathname = `${base}/${encodePath(key)}`;
+        }
+        return url;
+    }
+
+    private async request(
+        method: string,
+        key: string,
+        { query = {}, headers = {}, body, payloadHash }: { query?: Record<string, string>; headers?: Record<string, string>; body?: Buffer; payloadHash?: string } = {}
+    ): Promise<Response> {
+        const url = this.objectUrl(key);
+        const now = new Date();
+        const signed: Record<string, string> = {
+            ...headers,
+            host: url.host,
+            'x-amz-content-sha256': payloadHash ?? createHash('sha256').update(body ?? '').digest('hex'),
+            'x-amz-date': amzDate(now),
+        };
+        if (this.options.sessionToken) {
+            signed['x-amz-security-token'] = this.options.sessionToken;
+        }
+        const signature = this.sign(method, url.pathname, query, signed, signed['x-amz-content-sha256'], now);
+        const { host, ...sent } = signed;
+        const queryString = canonicalQuery(query);
+
+        let response: Response;
+        try {
+            response = await fetch(`${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`, {
+                method,
+                headers: { ...sent, authorization: signature.authorization },
+                body: body ? new Uint8Array(body) : undefined,
+                signal: AbortSignal.timeout(S3_TIMEOUT_MS),
+            });
+        } catch (e: any) {
+            throw new Error(`S3 ${method} ${key || this.bucket} failed: ${e.cause?.message ?? e.message}`);
+        }
+        if (!response.ok) {
+            const text = await response.text();
+            const code = xmlValue(text, 'Code');
+            const message = xmlValue(text, 'Message');
+            throw new Error(`S3 ${method} ${key || this.bucket} failed: HTTP ${response.status}${code ? ` ${code}` : ''}${message ? `: ${message}` : ''}`);
+        }
+        return response;
+    }
+
+    /**
+     * A GET URL carrying its own signature in the query, valid for `expiresIn` seconds.
+     */
+    private presign(method: string, key: string, expiresIn: number): string {
+        const url = this.objectUrl(key);
+        const now = new Date();
+        const query: Record<string, string> = {
+            'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+            'X-Amz-Credential': `${this.accessKeyId}/${this.scope(now)}`,
+            'X-Amz-Date': amzDate(now),
+            'X-Amz-Expires': String(expiresIn),
+            'X-Amz-SignedHeaders': 'host',
+        };
+        if (this.options.sessionToken) {
+            query['X-Amz-Security-Token'] = this.options.sessionToken;
+        }
+        const { signature } = this.sign(method, url.pathname, query, { host: url.host }, 'UNSIGNED-PAYLOAD', now);
+        return `${url.origin}${url.pathname}?${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+    }
+
+    private sign(
+        method: string,
+        pathname: string,
+        query: Record<string, string>,
+        headers: Record<string, string>,
+        payloadHash: string,
+        now: Date
+    ): { signature: string; authorization: string } {
+        const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+        const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+        const signedHeaders = names.join(';');
+        const canonicalRequest = [
+            method,
+            pathname,
+            canonicalQuery(query),
+            names.map(name => `${name}:${lowered[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+            signedHeaders,
+            payloadHash,
+        ].join('\n');
+        const scope = this.scope(now);
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate(now), scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+
+        let key: Buffer = Buffer.from(`AWS4${this.secretAccessKey}`, 'utf8');
+        for (const part of scope.split('/')) {
+            key = createHmac('sha256', key).update(part).digest();
+        }
+        const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+        return {
+            signature,
+            authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        };
+    }
+
+    private scope(now: Date): string {
+        return `${amzDate(now).slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+    }
+}
+
+/**
+ * `YYYYMMDDTHHMMSSZ`, the timestamp format of Signature Version 4.
+ */
+function amzDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * RFC 3986 encoding as Signature Version 4 wants it: everything but unreserved characters.
+ */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodePath(key: string): string {
+    return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+    return Object.entries(query)
+        .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match?.[1]
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+//endregion
@@ -0,0 +1,254 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { withFileLock } from './file-lock';
+
+/**
+ * Usage of one client session with one provider on one UTC day.
+ */
+export interface UsageRow {
+    day: string;
+    client: string;
+    session: string;
+    provider: string;
+    requests: number;
+    images: number;
+    failures: number;
+    costUsd: number;
+}
+
+export interface UsageEvent {
+    client: string;
+    session: string;
+    provider: string;
+    images: number;
+    costUsd: number;
+    failed: boolean;
+}
+
+export interface BudgetOptions {
+    /**
+     * Estimated price of one generated or edited image, in US dollars.
+     */
+    pricePerImageUsd: number;
+    /**
+     * Caps on the estimated spend per UTC day and per UTC calendar month. Unset caps do not apply.
+     */
+    dailyBudgetUsd?: number;
+    monthlyBudgetUsd?: number;
+}
+
+export interface UsageQuery {
+    /**
+     * A UTC day (YYYY-MM-DD) or month (YYYY-MM) prefix.
+     */
+    period?: string;
+    client?: string;
+}
+
+/**
+ * Thrown when a request would push the estimated spend past a budget cap. Its
+ * `kind` matches the provider quota errors, so jobs report it the same way.
+ */
+export class BudgetExceededError extends Error {
+    readonly kind = 'quota';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+const LEDGER_FILENAME = 'usage-ledger.json';
+
+/**
+ * Persistent per-day, per-client usage with estimated costs, and the budget
+ * caps checked before each provider call. The server and CLI commands may share
+ * the ledger file, so this process writes only its own increments: each write
+ * re-reads the file under a file lock and adds them to what is there.
+ */
+export class UsageLedger {
+    readonly options: BudgetOptions;
+    private readonly ledgerPath: string;
+    private readonly rows = new Map<string, UsageRow>();
+    /**
+     * Usage recorded by this process that is not in the file yet, by row key.
+     */
+    private readonly pending = new Map<string, UsageRow>();
+    private writes: Promise<void> = Promise.resolve();
+    /**
+     * Estimated cost of requests that are running, so concurrent requests cannot overshoot a cap together.
+     */
+    private reserved = 0;
+
+    constructor(resourcesPath: string, options: BudgetOptions) {
+        this.ledgerPath = path.join(resourcesPath, LEDGER_FILENAME);
+        this.options = options;
+    }
+
+    async load(): Promise<void> {
+        await this.refresh();
+        winston.info('Loaded usage ledger.', { path: this.ledgerPath, rows: this.rows.size, spent_today_usd: this.spent('day') });
+    }
+
+    /**
+     * Re-reads the ledger file, so the budget caps count what other processes spent.
+     */
+    async refresh(): Promise<void> {
+        // Under the lock, so a write of this process cannot be half done.
+        this.show(await withFileLock(this.ledgerPath, () => this.readRows()));
+    }
+
+    /**
+     * Sets `costUsd` aside for a request about to run. Throws a
+     * {@link BudgetExceededError} if that would exceed a cap; otherwise returns
+     * a function that releases the reservation once the request is recorded.
+     */
+    reserve(costUsd: number): () => void {
+        const { dailyBudgetUsd, monthlyBudgetUsd } = this.options;
+        const caps: [string, string, number | undefined][] = [
+            ['Daily', 'today', dailyBudgetUsd],
+            ['Monthly', 'this month', monthlyBudgetUsd],
+        ];
+        for (const [name, when, cap] of caps) {
+            if (cap === undefined) {
+                continue;
+            }
+            const spent = this.spent(name === 'Daily' ? 'day' : 'month') + this.reserved;
+            if (spent + costUsd > cap) {
+                winston.warn('Refused request over budget.', { budget: name.toLowerCase(), cap_usd: cap, spent_usd: spent, cost_usd: costUsd });
+                throw new BudgetExceededError(
+                    `${name} budget of ${usd(cap)} reached: ${usd(spent)} spent ${when} (UTC) and this request would cost ${usd(costUsd)}`
+                );
+            }
+        }
+        this.reserved += costUsd;
+        let released = false;
+        return () => {
+            if (!released) {
+                released = true;
+                this.reserved -= costUsd;
+            }
+        };
+    }
+
+    async record(event: UsageEvent): Promise<void> {
+        const increment: UsageRow = {
+            day: new Date().toISOString().slice(0, 10),
+            client: event.client,
+            session: event.session,
+            provider: event.provider,
+            requests: 1,
+            images: event.images,
+            failures: event.failed ? 1 : 0,
+            costUsd: event.costUsd,
+        };
+        addUsage(this.pending, increment);
+        addUsage(this.rows, increment);
+        await this.persist();
+    }
+
+    /**
+     * Estimated spend of all clients in the current UTC day or month.
+     */
+    spent(period: 'day' | 'month'): number {
+        const prefix = new Date().toISOString().slice(0, period === 'day' ? 10 : 7);
+        return roundUsd([...this.rows.values()]
+            .filter(row => row.day.startsWith(prefix))
+            .reduce((sum, row) => sum + row.costUsd, 0));
+    }
+
+    query(query: UsageQuery = {}): { rows: UsageRow[]; totals: Omit<UsageRow, 'day' | 'client' | 'session' | 'provider'> } {
+        const rows = [...this.rows.values()]
+            .filter(row => !query.period || row.day.startsWith(query.period))
+            .filter(row => !query.client || row.client === query.client)
+            .sort((a, b) => (a.day < b.day ? 1 : a.day > b.day ? -1 : b.costUsd - a.costUsd));
+        const totals = { requests: 0, images: 0, failures: 0, costUsd: 0 };
+        for (const row of rows) {
+            totals.requests += row.requests;
+            totals.images += row.images;
+            totals.failures += row.failures;
+            totals.costUsd = roundUsd(totals.costUsd + row.costUsd);
+        }
+        return { rows, totals };
+    }
+
+    /**
+     * Adds the pending increments to the ledger file. Writes are serialized and
+     * hold the file lock; increments that fail to be written stay pending.
+     */
+    private persist(): Promise<void> {
+        const next = this.writes.then(() => withFileLock(this.ledgerPath, async () => {
+            const increments = [...this.pending.values()];
+            if (increments.length === 0) {
+                return;
+            }
+            this.pending.clear();
+            try {
+                const rows = await this.readRows();
+                increments.forEach(increment => addUsage(rows, increment));
+                const tempPath = `${this.ledgerPath}.tmp`;
+                await fs.writeFile(tempPath, JSON.stringify([...rows.values()]));
+                await fs.rename(tempPath, this.ledgerPath);
+                this.show(rows);
+            } catch (e) {
+                increments.forEach(increment => addUsage(this.pending, increment));
+                throw e;
+            }
+        }));
+        this.writes = next.catch(e => {
+            winston.error(`Failed to write usage ledger: ${e.message}`, { path: this.ledgerPath });
+        });
+        return next;
+    }
+
+    private async readRows(): Promise<Map<string, UsageRow>> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.ledgerPath, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return new Map();
+            }
+            throw new Error(`Could not read usage ledger at ${this.ledgerPath}: ${e.message}`);
+        }
+        return new Map((JSON.parse(content) as UsageRow[]).map(row => [rowKey(row), row]));
+    }
+
+    /**
+     * Makes the in-memory view the file's rows plus the increments not written yet.
+     */
+    private show(rows: Map<string, UsageRow>): void {
+        this.rows.clear();
+        rows.forEach((row, key) => this.rows.set(key, { ...row }));
+        this.pending.forEach(increment => addUsage(this.rows, increment));
+    }
+}
+
+/**
+ * Adds an increment to the row with the same day, client, session and provider, creating it if needed.
+ */
+function addUsage(rows: Map<string, UsageRow>, increment: UsageRow): void {
+    const key = rowKey(increment);
+    const row = rows.get(key) ?? { ...increment, requests: 0, images: 0, failures: 0, costUsd: 0 };
+    row.requests += increment.requests;
+    row.images += increment.images;
+    row.failures += increment.failures;
+    row.costUsd = roundUsd(row.costUsd + increment.costUsd);
+    rows.set(key, row);
+}
+
+function rowKey(row: Pick<UsageRow, 'day' | 'client' | 'session' | 'provider'>): string {
+    return JSON.stringify([row.day, row.client, row.session, row.provider]);
+}
+
+/**
+ * Avoids float drift in sums of small prices.
+ */
+function roundUsd(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
+
+function usd(value: number): string {
+    return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,144 @@
+import { createHmac } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import winston from 'winston';
+import { EventBus, EventType, LifecycleEvent } from './events';
+
+const DEAD_LETTER_FILENAME = 'webhooks-dead-letter.jsonl';
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export const SIGNATURE_HEADER = 'X-Imagen-Signature';
+export const TIMESTAMP_HEADER = 'X-Imagen-Timestamp';
+
+export interface WebhookSettings {
+    urls: string[];
+    /**
+     * Key of the HMAC-SHA256 signature over `<timestamp>.<body>`.
+     */
+    secret?: string;
+    /**
+     * Event types to deliver; every type when empty.
+     */
+    events: EventType[];
+    maxAttempts: number;
+    timeoutMs: number;
+}
+
+/**
+ * The dispatcher for the configured webhooks, or undefined when there are none.
+ * Throws when webhooks are configured without a signing secret.
+ */
+export function createWebhookDispatcher(settings: WebhookSettings, resourcesPath: string): WebhookDispatcher | undefined {
+    if (settings.urls.length === 0) {
+        return undefined;
+    }
+    if (!settings.secret) {
+        throw new Error('WEBHOOK_URLS needs WEBHOOK_SECRET, which signs every delivery');
+    }
+    for (const url of settings.urls) {
+        if (!/^https?:\/\//.test(url)) {
+            throw new Error(`Invalid webhook URL: ${url}, expected an http or https URL`);
+        }
+    }
+    return new WebhookDispatcher({ ...settings, secret: settings.secret }, path.join(resourcesPath, DEAD_LETTER_FILENAME));
+}
+
+/**
+ * POSTs lifecycle events to every webhook URL with a signature. Network errors,
+ * timeouts, 408, 429 and 5xx are retried with exponential backoff up to
+ * `maxAttempts`; other responses and exhausted retries go to the dead-letter
+ * log, one JSON line per failed delivery. Retries are held in memory, so
+ * deliveries still pending at shutdown are lost.
+ */
+export class WebhookDispatcher {
+    private readonly settings: WebhookSettings & { secret: string };
+    private readonly deadLetterPath: string;
+    private readonly timers = new Set<NodeJS.Timeout>();
+    private writes: Promise<void> = Promise.resolve();
+    private unsubscribe?: () => void;
+
+    constructor(settings: WebhookSettings & { secret: string }, deadLetterPath: string) {
+        this.settings = settings;
+        this.deadLetterPath = deadLetterPath;
+    }
+
+    start(bus: EventBus): void {
+        winston.info('Webhooks enabled.', { urls: this.settings.urls.length, events: this.settings.events, dead_letter: this.deadLetterPath });
+        this.unsubscribe = bus.subscribe(event => {
+            if (this.settings.events.length === 0 || this.settings.events.includes(event.type)) {
+                for (const url of this.settings.urls) {
+                    void this.deliver(url, event, 1);
+                }
+            }
+        });
+    }
+
+    stop(): void {
+        this.unsubscribe?.();
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    private async deliver(url: string, event: LifecycleEvent, attempt: number): Promise<void> {
+        const body = JSON.stringify(event);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const signature = createHmac('sha256', this.settings.secret).update(`${timestamp}.${body}`).digest('hex');
+
+        let error: string;
+        let retryable: boolean;
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'imagen3-mcp-webhooks',
+                    'X-Imagen-Event': event.type,
+                    'X-Imagen-Delivery': event.id,
+                    [TIMESTAMP_HEADER]: timestamp,
+                    [SIGNATURE_HEADER]: `sha256=${signature}`,
+                },
+                body,
+                signal: AbortSignal.timeout(this.settings.timeoutMs),
+            });
+            // Drain the body so the connection can be reused.
+            await response.text().catch(() => undefined);
+            if (response.ok) {
+                winston.info('Delivered webhook.', { url, event_id: event.id, type: event.type, attempt });
+                return;
+            }
+            error = `HTTP ${response.status}`;
+            retryable = RETRYABLE_STATUSES.includes(response.status);
+        } catch (e: any) {
+            error = e.name === 'TimeoutError' ? `timed out after ${this.settings.timeoutMs} ms` : (e.cause?.message ?? e.message);
+            retryable = true;
+        }
+
+        if (retryable && attempt < this.settings.maxAttempts) {
+            const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+            const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+            winston.warn(`Webhook delivery failed: ${error}`, { url, event_id: event.id, attempt, retry_in_ms: delay });
+            const timer = setTimeout(() => {
+                this.timers.delete(timer);
+                void this.deliver(url, event, attempt + 1);
+            }, delay);
+            this.timers.add(timer);
+            return;
+        }
+
+        winston.error(`Webhook delivery failed for good: ${error}`, { url, event_id: event.id, type: event.type, attempts: attempt });
+        await this.deadLetter({ url, attempts: attempt, error, failedAt: new Date().toISOString(), event });
+    }
+
+    /**
+     * Appends a failed delivery to the dead-letter log. Writes are serialized.
+     */
+    private deadLetter(entry: Record<string, unknown>): Promise<void> {
+        const next = this.writes.then(() => fs.appendFile(this.deadLetterPath, JSON.stringify(entry) + '\n'));
+        this.writes = next.catch(e => {
+            winston.error(`Failed to write the webhook dead-letter log: ${e.message}`, { path: this.deadLetterPath });
+        });
+        return this.writes;
+    }
+}
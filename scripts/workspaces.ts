@@ -0,0 +1,178 @@
+import { ClientInfo } from './mcp';
+import { PROVIDER_NAMES } from './providers';
+
+/**
+ * The workspace used when neither the client nor the request names one. It keeps
+ * the artifacts directory layout of servers that predate workspaces.
+ */
+export const DEFAULT_WORKSPACE = 'default';
+
+/**
+ * The HTTP header that selects a workspace as an alternative to the `/w/<name>` path prefix.
+ */
+export const WORKSPACE_HEADER = 'X-Imagen-Workspace';
+
+const WORKSPACE_NAME = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+/**
+ * The path prefix of a workspace's HTTP routes: none for the default workspace, `/w/<name>` otherwise.
+ */
+export function workspacePrefix(name: string): string {
+    return name === DEFAULT_WORKSPACE ? '' : `/w/${name}`;
+}
+
+/**
+ * One entry of the `workspaces` section of the config file.
+ */
+export interface WorkspaceSettings {
+    /**
+     * Used when a generate call does not set `aspect_ratio`, before any style preset default.
+     */
+    aspectRatio?: string;
+    /**
+     * Style preset used when a generate call does not set `style`.
+     */
+    style?: string;
+    /**
+     * Providers the workspace may use; every configured provider when unset.
+     */
+    providers?: string[];
+    /**
+     * MCP client names (`clientInfo.name` at initialize) whose sessions start in this workspace.
+     */
+    clients?: string[];
+}
+
+/**
+ * Validates the `workspaces` section of the config file. Problems are appended
+ * to `problems` in the config loader's wording.
+ */
+export function parseWorkspaces(raw: unknown, where: string, problems: string[]): Record<string, WorkspaceSettings> {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        problems.push(`Invalid workspaces in ${where}: expected a map of workspace names to settings`);
+        return {};
+    }
+
+    const workspaces: Record<string, WorkspaceSettings> = {};
+    const clientOwners = new Map<string, string>();
+    for (const [name, value] of Object.entries(raw)) {
+        if (!WORKSPACE_NAME.test(name)) {
+            problems.push(`Invalid workspace name ${JSON.stringify(name)} in ${where}: use lowercase letters, digits, - and _`);
+            continue;
+        }
+        // `marketing:` with nothing under it is a workspace with no settings of its own.
+        const entry = value ?? {};
+        if (typeof entry !== 'object' || Array.isArray(entry)) {
+            problems.push(`Invalid workspaces.${name} in ${where}: expected an object`);
+            continue;
+        }
+
+        const settings: WorkspaceSettings = {};
+        for (const [key, setting] of Object.entries(entry as Record<string, unknown>)) {
+            switch (key) {
+                case 'aspectRatio':
+                case 'style':
+                    if (typeof setting === 'string' && setting) {
+                        settings[key] = setting;
+                    } else {
+                        problems.push(`Invalid workspaces.${name}.${key} in ${where}: expected a string, got ${JSON.stringify(setting)}`);
+                    }
+                    break;
+                case 'providers':
+                case 'clients': {
+                    const list = stringList(setting);
+                    if (!list) {
+                        problems.push(`Invalid workspaces.${name}.${key} in ${where}: expected a list of strings, got ${JSON.stringify(setting)}`);
+                    } else {
+                        settings[key] = list;
+                    }
+                    break;
+                }
+                default:
+                    problems.push(`Unknown setting workspaces.${name}.${key} in ${where}`);
+            }
+        }
+
+        for (const provider of settings.providers ?? []) {
+            if (!PROVIDER_NAMES.includes(provider)) {
+                problems.push(`Invalid workspaces.${name}.providers in ${where}: unknown provider ${provider}, supported values are: ${PROVIDER_NAMES.join(", ")}`);
+            }
+        }
+        if (settings.providers?.length === 0) {
+            problems.push(`Invalid workspaces.${name}.providers in ${where}: the list must not be empty`);
+        }
+        for (const client of settings.clients ?? []) {
+            const owner = clientOwners.get(client);
+            if (owner) {
+                problems.push(`Client ${client} is listed in both workspaces ${owner} and ${name} in ${where}`);
+            }
+            clientOwners.set(client, name);
+        }
+        workspaces[name] = settings;
+    }
+    return workspaces;
+}
+
+/**
+ * The values of each workspace, looked up by name or by the MCP client that connected.
+ */
+export class Workspaces<T> {
+    private readonly entries = new Map<string, T>();
+    private readonly settings: Record<string, WorkspaceSettings>;
+
+    constructor(settings: Record<string, WorkspaceSettings>) {
+        this.settings = settings;
+    }
+
+    add(name: string, value: T): void {
+        this.entries.set(name, value);
+    }
+
+    get(name: string): T | undefined {
+        return this.entries.get(name);
+    }
+
+    /**
+     * Throws an error listing the available workspaces when `name` is unknown.
+     */
+    require(name: string): T {
+        const value = this.entries.get(name);
+        if (value === undefined) {
+            throw new Error(`Unknown workspace: ${name}, available workspaces are: ${this.names().join(", ")}`);
+        }
+        return value;
+    }
+
+    names(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    /**
+     * Whether any workspace besides the default one exists.
+     */
+    get enabled(): boolean {
+        return this.entries.size > 1;
+    }
+
+    /**
+     * The workspace a client asked for with `clientInfo.workspace`, else the one
+     * that lists the client's name, else undefined.
+     */
+    forClient(clientInfo: ClientInfo | undefined): T | undefined {
+        if (clientInfo?.workspace !== undefined) {
+            return this.require(String(clientInfo.workspace));
+        }
+        const name = Object.keys(this.settings).find(name => this.settings[name].clients?.includes(clientInfo?.name ?? ''));
+        return name === undefined ? undefined : this.entries.get(name);
+    }
+}
+
+function stringList(value: unknown): string[] | undefined {
+    if (typeof value === 'string') {
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        return value.map(item => item.trim()).filter(Boolean);
+    }
+    return undefined;
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { requireBearerToken, requireSignedUrl, UrlSigner } from '../scripts/auth';
+
+const SECRET = 'test-signing-secret';
+const TOKEN = 'test-bearer-token';
+
+describe('UrlSigner', () => {
+    const signer = new UrlSigner(SECRET, 60_000);
+
+    function query(signed: string): Record<string, string> {
+        return Object.fromEntries(new URL(signed, 'http://localhost').searchParams);
+    }
+
+    it('verifies its own signatures', () => {
+        assert.equal(signer.verify('/images/abc.png', query(signer.sign('/images/abc.png'))), 'ok');
+        assert.equal(signer.verify('/images/abc', query(signer.sign('/images/abc', { w: 256, format: 'webp' }))), 'ok');
+    });
+
+    it('covers the rendition parameters', () => {
+        const signed = query(signer.sign('/images/abc', { w: 256, h: 256, format: 'webp' }));
+        assert.equal(signer.verify('/images/abc', { ...signed, w: '4096' }), 'invalid');
+        assert.equal(signer.verify('/images/abc', { ...signed, q: '100' }), 'invalid');
+        const { w, ...withoutWidth } = signed;
+        assert.equal(signer.verify('/images/abc', withoutWidth), 'invalid');
+    });
+
+    it('rejects repeated parameters', () => {
+        const signed = query(signer.sign('/images/abc', { w: 256 }));
+        assert.equal(signer.verify('/images/abc', { ...signed, w: ['256', '4096'] }), 'invalid');
+    });
+});
+
+describe('image route guards', () => {
+    let server: http.Server;
+    let base: string;
+    const signer = new UrlSigner(SECRET, 60_000);
+
+    before(async () => {
+        const app = express();
+        app.get('/images/:name', requireSignedUrl(signer, [TOKEN]), (req, res) => res.send('image'));
+        app.delete('/images/:name', requireBearerToken([TOKEN]), (req, res) => res.status(204).end());
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    async function status(pathAndQuery: string, init: RequestInit = {}): Promise<number> {
+        const response = await fetch(`${base}${pathAndQuery}`, init);
+        await response.text();
+        return response.status;
+    }
+
+    it('serves images with a valid signature', async () => {
+        assert.equal(await status(signer.sign('/images/abc.png')), 200);
+        assert.equal(await status(signer.sign('/images/abc', { w: 64, h: 64, format: 'webp' })), 200);
+    });
+
+    it('answers 403 for a tampered path, signature or rendition', async () => {
+        const signed = signer.sign('/images/abc.png');
+        assert.equal(await status(signed.replace('abc.png', 'other.png')), 403);
+        assert.equal(await status(signed.replace(/sig=(.)/, (_, first) => `sig=${first === '0' ? '1' : '0'}`)), 403);
+        assert.equal(await status(`${signer.sign('/images/abc', { w: 64 })}`.replace('w=64', 'w=4096')), 403);
+    });
+
+    it('answers 403 for an expired signature', async () => {
+        const expired = new UrlSigner(SECRET, -60_000);
+        assert.equal(await status(expired.sign('/images/abc.png')), 403);
+    });
+
+    it('answers 401 without a signature', async () => {
+        assert.equal(await status('/images/abc.png'), 401);
+        assert.equal(await status('/images/abc.png?expires=9999999999'), 401);
+    });
+
+    it('accepts a bearer token instead of a signature', async () => {
+        assert.equal(await status('/images/abc.png', { headers: { Authorization: `Bearer ${TOKEN}` } }), 200);
+        assert.equal(await status('/images/abc.png', { headers: { Authorization: 'Bearer wrong-token' } }), 401);
+    });
+
+    it('requires the bearer token where no signature is accepted', async () => {
+        assert.equal(await status('/images/abc.png', { method: 'DELETE' }), 401);
+        assert.equal(await status('/images/abc.png', { method: 'DELETE', headers: { Authorization: 'Bearer wrong-token' } }), 403);
+        assert.equal(await status('/images/abc.png', { method: 'DELETE', headers: { Authorization: `Bearer ${TOKEN}` } }), 204);
+    });
+});
@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { BatchReport, ManifestError, ManifestRow, parseManifest, runBatch } from '../scripts/batch';
+import { MockProvider } from '../scripts/providers/mock';
+
+const FIELDS = {
+    prompt: { type: 'string' },
+    aspect_ratio: { type: 'string' },
+    seed: { type: 'integer' },
+    bypass_cache: { type: 'boolean' },
+    references: { type: 'array' },
+};
+
+function manifestProblems(text: string, format?: 'csv' | 'jsonl'): string[] {
+    try {
+        parseManifest(text, format, FIELDS);
+    } catch (e) {
+        assert.ok(e instanceof ManifestError);
+        return e.problems;
+    }
+    assert.fail('the manifest was accepted');
+}
+
+describe('parseManifest', () => {
+    it('reads quoted CSV fields with commas, doubled quotes and line breaks', () => {
+        const rows = parseManifest([
+            'Prompt,Aspect Ratio,seed,output-name',
+            '"a fox, in snow",16:9,7,fox',
+            '"the ""big"" one",,,',
+            '"two',
+            'lines",1:1,,',
+        ].join('\r\n'), undefined, FIELDS);
+
+        assert.deepEqual(rows, [
+            { line: 2, outputName: 'fox', args: { prompt: 'a fox, in snow', aspect_ratio: '16:9', seed: 7 } },
+            { line: 3, outputName: 'row-002', args: { prompt: 'the "big" one' } },
+            { line: 4, outputName: 'row-003', args: { prompt: 'two\r\nlines', aspect_ratio: '1:1' } },
+        ]);
+    });
+
+    it('reports header, type and quoting problems with their lines', () => {
+        assert.deepEqual(manifestProblems('prompt,colour\na fox,red\n'), ['line 2: unknown field colour']);
+        assert.deepEqual(manifestProblems('prompt,seed\na fox,seven\n'), ['line 2: seed must be an integer, got "seven"']);
+        assert.deepEqual(manifestProblems('prompt\na fox,extra\n'), ['line 2: 2 fields but the header has 1']);
+        assert.deepEqual(manifestProblems('prompt\n"a fox\n'), ['line 2: unterminated quoted field']);
+        assert.deepEqual(manifestProblems('prompt,output_name\na,x\nb,x\n'), ['line 3: output_name x is already used on line 2']);
+        assert.deepEqual(manifestProblems('prompt,output_name\na,../x\n'), ['line 2: output_name must be a file name without slashes other than workspaces, got "../x"']);
+        assert.deepEqual(manifestProblems('prompt\n'), ['the manifest has no rows']);
+    });
+
+    it('reads JSON Lines and keeps their types', () => {
+        const rows = parseManifest([
+            '{"prompt": "a fox", "seed": 7, "references": [{"type": "style", "image": "ref-1"}]}',
+            '',
+            '{"prompt": "a hare", "output_name": "hare", "bypass_cache": true}',
+        ].join('\n'), undefined, FIELDS);
+
+        assert.deepEqual(rows, [
+            { line: 1, outputName: 'row-001', args: { prompt: 'a fox', seed: 7, references: [{ type: 'style', image: 'ref-1' }] } },
+            { line: 3, outputName: 'hare', args: { prompt: 'a hare', bypass_cache: true } },
+        ]);
+        const problems = manifestProblems('{"prompt": "a fox"}\n[1]\n{"seed": 1}\n{oops\n', 'jsonl');
+        assert.equal(problems.length, 3);
+        assert.equal(problems[0], 'line 2: expected a JSON object');
+        assert.match(problems[1], /^line 4: /);
+        assert.equal(problems[2], 'line 3: prompt is required');
+    });
+});
+
+describe('runBatch', () => {
+    let dir: string;
+    let generated: string[];
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-test-'));
+        generated = [];
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Runs the rows with the mock provider; a row whose prompt contains "fail" throws.
+     */
+    function run(rows: ManifestRow[]): Promise<BatchReport> {
+        const provider = new MockProvider();
+        return runBatch(rows, {
+            name: 'test',
+            outputDir: dir,
+            concurrency: 2,
+            async generate(row) {
+                const prompt = String(row.args.prompt);
+                generated.push(row.outputName);
+                if (prompt.includes('fail')) {
+                    throw new Error(`Provider refused: ${prompt}`);
+                }
+                const sampleCount = Number(row.args.sample_count ?? 1);
+                const images = await provider.generate({ prompt, model: 'mock-placeholder', parameters: { sampleCount } });
+                return images.map((image, i) => ({ id: `${row.outputName}-id-${i}`, filename: `${row.outputName}_${i}.png`, read: async () => image.data }));
+            },
+        });
+    }
+
+    const rows: ManifestRow[] = [
+        { line: 2, outputName: 'fox', args: { prompt: 'a fox' } },
+        { line: 3, outputName: 'pair', args: { prompt: 'two hares', sample_count: 2 } },
+        { line: 4, outputName: 'broken', args: { prompt: 'please fail' } },
+    ];
+
+    it('writes the images, a fingerprint per finished row and the report', async () => {
+        const report = await run(rows);
+
+        assert.deepEqual((await fs.readdir(dir)).sort(), ['.checkpoint.json', 'fox.png', 'pair-1.png', 'pair-2.png', 'report.json']);
+        const checkpoint = JSON.parse(await fs.readFile(path.join(dir, '.checkpoint.json'), 'utf8'));
+        assert.deepEqual(Object.keys(checkpoint).sort(), ['fox', 'pair']);
+        assert.match(checkpoint.fox.fingerprint, /^[0-9a-f]{16}$/);
+        assert.deepEqual(checkpoint.pair, { fingerprint: checkpoint.pair.fingerprint, files: ['pair-1.png', 'pair-2.png'], imageIds: ['pair-id-0', 'pair-id-1'] });
+
+        assert.deepEqual(JSON.parse(await fs.readFile(path.join(dir, 'report.json'), 'utf8')), report);
+        assert.deepEqual({ ...report, startedAt: undefined, finishedAt: undefined }, {
+            name: 'test',
+            outputDir: dir,
+            startedAt: undefined,
+            finishedAt: undefined,
+            total: 3,
+            succeeded: 2,
+            failed: 1,
+            resumed: 0,
+            pending: 0,
+            rows: [
+                { line: 2, outputName: 'fox', prompt: 'a fox', status: 'succeeded', files: ['fox.png'], imageIds: ['fox-id-0'] },
+                { line: 3, outputName: 'pair', prompt: 'two hares', status: 'succeeded', files: ['pair-1.png', 'pair-2.png'], imageIds: ['pair-id-0', 'pair-id-1'] },
+                { line: 4, outputName: 'broken', prompt: 'please fail', status: 'failed', files: [], imageIds: [], error: 'Provider refused: please fail' },
+            ],
+        });
+    });
+
+    it('skips finished rows on resume and runs failed, changed and deleted ones again', async () => {
+        await run(rows);
+        generated = [];
+
+        const resumed = await run(rows);
+        assert.deepEqual(generated, ['broken']);
+        assert.deepEqual(resumed.rows.map(row => row.status), ['resumed', 'resumed', 'failed']);
+        assert.deepEqual(resumed.rows[1].imageIds, ['pair-id-0', 'pair-id-1']);
+
+        generated = [];
+        await fs.unlink(path.join(dir, 'fox.png'));
+        const changed = await run([rows[0], { ...rows[1], args: { ...rows[1].args, seed: 3 } }, { ...rows[2], args: { prompt: 'a badger' } }]);
+        assert.deepEqual(generated.sort(), ['broken', 'fox', 'pair']);
+        assert.deepEqual(changed.rows.map(row => row.status), ['succeeded', 'succeeded', 'succeeded']);
+    });
+
+    it('leaves rows pending when cancelled and still writes the report', async () => {
+        const controller = new AbortController();
+        controller.abort(new Error('Cancelled by client'));
+        const provider = new MockProvider();
+
+        await assert.rejects(runBatch(rows, {
+            name: 'test',
+            outputDir: dir,
+            concurrency: 1,
+            signal: controller.signal,
+            generate: async row => (await provider.generate({ prompt: String(row.args.prompt), model: 'mock-placeholder', parameters: { sampleCount: 1 } }))
+                .map(image => ({ id: 'x', filename: 'x.png', read: async () => image.data })),
+        }), /Cancelled by client/);
+
+        const report: BatchReport = JSON.parse(await fs.readFile(path.join(dir, 'report.json'), 'utf8'));
+        assert.equal(report.pending, 3);
+    });
+});
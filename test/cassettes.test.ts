@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { CassettePlayer } from '../scripts/providers/cassettes';
+import { GeminiProvider } from '../scripts/providers/gemini';
+import { ProviderError, RequestPolicy } from '../scripts/providers/request-policy';
+import { StubServer } from './stub-server';
+
+const FIXTURES = path.join(__dirname, 'cassettes');
+
+function replayingProvider(dir = FIXTURES): GeminiProvider {
+    const policy = new RequestPolicy({ baseDelayMs: 1 }, new CassettePlayer({ mode: 'replay', dir }));
+    return new GeminiProvider({ apiKey: 'replay', policy });
+}
+
+function generate(provider: GeminiProvider, prompt: string) {
+    return provider.generate({ prompt, model: provider.defaultModel, parameters: { sampleCount: 1 } });
+}
+
+function isProviderError(kind: string, status?: number) {
+    return (e: unknown) => e instanceof ProviderError && e.kind === kind && e.status === status;
+}
+
+describe('CassettePlayer', () => {
+    describe('replaying the fixtures', () => {
+        it('decodes the images of a successful response', async () => {
+            const [image] = await generate(replayingProvider(), 'a lighthouse at dusk');
+
+            assert.equal(image.mimeType, 'image/png');
+            assert.equal(image.data.subarray(1, 4).toString('latin1'), 'PNG');
+        });
+
+        it('reports a response without predictions as filtered for safety', async () => {
+            await assert.rejects(generate(replayingProvider(), 'a prompt the safety filter blocks'), isProviderError('safety'));
+        });
+
+        it('reports an HTTP error with its status and message', async () => {
+            await assert.rejects(generate(replayingProvider(), 'a prompt with an invalid argument'), (e: unknown) =>
+                isProviderError('invalid_argument', 400)(e) && /invalid argument/.test((e as Error).message));
+        });
+
+        it('reports a response that is not valid JSON', async () => {
+            await assert.rejects(generate(replayingProvider(), 'a prompt answered with a cut-off body'), (e: unknown) =>
+                isProviderError('server')(e) && /Failed to parse Gemini response/.test((e as Error).message));
+        });
+
+        it('reports image data that is not valid base64', async () => {
+            await assert.rejects(generate(replayingProvider(), 'a prompt answered with corrupt image data'), (e: unknown) =>
+                isProviderError('server')(e) && /prediction 1 is not valid base64/.test((e as Error).message));
+        });
+
+        it('rejects requests that no cassette matches', async () => {
+            await assert.rejects(generate(replayingProvider(), 'a prompt nobody recorded'), (e: unknown) =>
+                isProviderError('invalid_argument')(e) && /No cassette/.test((e as Error).message));
+        });
+    });
+
+    it('serves the canned cassettes for `cassette:` prompts', async () => {
+        const provider = replayingProvider(path.join(os.tmpdir(), 'no-cassettes-here'));
+        await assert.rejects(generate(provider, 'cassette:safety-filter-empty'), isProviderError('safety'));
+        await assert.rejects(generate(provider, 'cassette:bad-base64'), (e: unknown) =>
+            isProviderError('server')(e) && /not valid base64/.test((e as Error).message));
+    });
+
+    it('records exchanges without the API key and replays them', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-test-'));
+        const apiKey = 'secret-key-1234567890';
+        const body = JSON.stringify({ predictions: [{ mimeType: 'image/png', bytesBase64Encoded: 'iVBORw0K' }], echoed: apiKey });
+        const stub = await StubServer.start({ status: 200, body });
+        try {
+            const player = new CassettePlayer({ mode: 'record', dir, secrets: [apiKey] });
+            const recording = new GeminiProvider({ apiKey, baseUrl: stub.url, policy: new RequestPolicy({}, player) });
+            await generate(recording, 'a red cat');
+
+            const [file] = await fs.readdir(dir);
+            const text = await fs.readFile(path.join(dir, file), 'utf8');
+            assert.ok(!text.includes(apiKey), 'the cassette contains the API key');
+            assert.match(JSON.parse(text).request.url, /:predict\?key=REDACTED$/);
+
+            const replaying = new GeminiProvider({
+                apiKey: 'replay',
+                baseUrl: stub.url,
+                policy: new RequestPolicy({}, new CassettePlayer({ mode: 'replay', dir })),
+            });
+            const [image] = await generate(replaying, 'a red cat');
+            assert.equal(image.data.toString('base64'), 'iVBORw0K');
+            assert.equal(stub.requests.length, 1);
+        } finally {
+            await stub.stop();
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ContentStore } from '../scripts/content-store';
+
+describe('ContentStore', () => {
+    let dir: string;
+    let store: ContentStore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-store-test-'));
+        store = new ContentStore(dir);
+        await store.init();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function blobs(): Promise<string[]> {
+        return fs.readdir(path.join(dir, 'blobs'));
+    }
+
+    it('keeps identical bytes once and links every file to the blob', async () => {
+        const data = Buffer.from('same image bytes');
+        const first = await store.write(path.join(dir, 'a.png'), data);
+        const second = await store.write(path.join(dir, 'b.png'), data);
+
+        assert.equal(first, createHash('sha256').update(data).digest('hex'));
+        assert.equal(second, first);
+        assert.deepEqual(await blobs(), [first]);
+        assert.equal((await fs.stat(path.join(dir, 'blobs', first))).nlink, 3);
+        assert.deepEqual(await fs.readFile(path.join(dir, 'b.png')), data);
+    });
+
+    it('releases a blob only once no file links to it', async () => {
+        const sha256 = await store.write(path.join(dir, 'a.png'), Buffer.from('shared'));
+        await store.write(path.join(dir, 'b.png'), Buffer.from('shared'));
+
+        await fs.unlink(path.join(dir, 'a.png'));
+        await store.release(sha256);
+        assert.deepEqual(await blobs(), [sha256]);
+
+        await fs.unlink(path.join(dir, 'b.png'));
+        await store.release(sha256);
+        assert.deepEqual(await blobs(), []);
+    });
+
+    it('prunes blobs whose files were removed behind its back', async () => {
+        await store.write(path.join(dir, 'a.png'), Buffer.from('kept'));
+        await store.write(path.join(dir, 'b.png'), Buffer.from('orphaned'));
+        await fs.unlink(path.join(dir, 'b.png'));
+
+        assert.equal(await store.prune(), 1);
+        assert.equal((await blobs()).length, 1);
+    });
+});
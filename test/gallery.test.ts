@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { requireBearerToken } from '../scripts/auth';
+import { galleryRouter, GalleryService } from '../scripts/gallery';
+import { RequestContext } from '../scripts/mcp';
+import { ImageMetadataStore, ImageRecord } from '../scripts/metadata-store';
+import { LocalStorage } from '../scripts/storage';
+
+const TOKEN = 'test-bearer-token';
+
+function record(id: string, fields: Partial<ImageRecord>): ImageRecord {
+    return {
+        id,
+        filename: `${id}_20260101000000.png`,
+        prompt: id,
+        parameters: { sampleCount: 1 },
+        provider: 'mock',
+        model: 'mock-placeholder',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        fileSize: 100,
+        mimeType: 'image/png',
+        ...fields,
+    };
+}
+
+describe('galleryRouter', () => {
+    let dir: string;
+    let server: http.Server;
+    let base: string;
+    let metadata: ImageMetadataStore;
+    const regenerated: { id: string; prompt?: string; context: RequestContext }[] = [];
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gallery-test-'));
+        const artifacts = new LocalStorage(dir);
+        await artifacts.init();
+        metadata = new ImageMetadataStore(dir, artifacts);
+        await metadata.load();
+        await metadata.add(record('fox', { prompt: 'a red fox', provider: 'gemini', style: 'watercolor', createdAt: '2026-01-02T00:00:00.000Z' }));
+        await metadata.add(record('hare', { prompt: 'a hare', provider: 'mock', createdAt: '2026-01-01T00:00:00.000Z' }));
+
+        const service: GalleryService = {
+            imagePath: (name, query) => `/images/${name}${query ? `?${new URLSearchParams(query as Record<string, string>)}` : ''}`,
+            async regenerate(id, prompt, context) {
+                regenerated.push({ id, prompt, context });
+                if (!metadata.get(id)) {
+                    throw new Error(`Image not found: ${id}`);
+                }
+                if (prompt === 'unsafe') {
+                    throw new Error('The prompt was blocked');
+                }
+                return [record('fox-2', { prompt: prompt ?? 'a red fox' })];
+            },
+        };
+        const app = express();
+        app.use(galleryRouter({ metadata, service, requireToken: requireBearerToken([TOKEN]) }));
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function get(pathAndQuery: string, token = TOKEN): Promise<Response> {
+        return fetch(`${base}${pathAndQuery}`, { headers: token ? { Authorization: `Bearer ${token}` } : {}, redirect: 'manual' });
+    }
+
+    function regenerate(id: string, body: unknown, token = TOKEN): Promise<Response> {
+        return fetch(`${base}/gallery/api/images/${id}/regenerate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+            body: JSON.stringify(body),
+        });
+    }
+
+    it('serves the page without a token, with a strict content security policy', async () => {
+        const page = await get('/gallery/', '');
+        assert.equal(page.status, 200);
+        assert.match(page.headers.get('Content-Type')!, /^text\/html/);
+        assert.equal(page.headers.get('Content-Security-Policy'), "default-src 'self'; img-src 'self' data:; style-src 'unsafe-inline'; script-src 'unsafe-inline'");
+        assert.match(await page.text(), /<title>Imagen gallery<\/title>/);
+
+        const redirect = await get('/gallery?q=fox', '');
+        assert.equal(redirect.status, 301);
+        assert.equal(redirect.headers.get('Location'), '/gallery/');
+    });
+
+    it('requires a token for the API and for regenerating', async () => {
+        assert.equal((await get('/gallery/api/images', '')).status, 401);
+        assert.equal((await get('/gallery/api/images', 'wrong-token')).status, 403);
+        assert.equal((await regenerate('fox', {}, '')).status, 401);
+        assert.equal((await regenerate('fox', {}, 'wrong-token')).status, 403);
+        assert.equal(regenerated.length, 0);
+    });
+
+    it('passes the search, filters, sort and paging on to the metadata query', async () => {
+        const all = await (await get('/gallery/api/images')).json();
+        assert.deepEqual(all.items.map((item: ImageRecord) => item.id), ['fox', 'hare']);
+        assert.equal(all.pageSize, 48);
+        assert.deepEqual(all.providers, ['gemini', 'mock']);
+        assert.deepEqual(all.styles, ['watercolor']);
+        assert.equal(all.items[0].url, '/images/fox_20260101000000.png');
+        assert.equal(all.items[0].thumbnail_url, '/images/fox?w=384&h=384&format=webp');
+
+        const ids = async (query: string) => (await (await get(`/gallery/api/images?${query}`)).json()).items.map((item: ImageRecord) => item.id);
+        assert.deepEqual(await ids('q=FOX'), ['fox']);
+        assert.deepEqual(await ids('provider=mock'), ['hare']);
+        assert.deepEqual(await ids('style=watercolor'), ['fox']);
+        assert.deepEqual(await ids('sort=createdAt&order=asc'), ['hare', 'fox']);
+        assert.deepEqual(await ids('page=2&page_size=1'), ['hare']);
+        assert.deepEqual(await ids('q=&provider='), ['fox', 'hare']);
+
+        for (const query of ['sort=model', 'order=up', 'page=0', 'page_size=501', 'page=two']) {
+            assert.equal((await get(`/gallery/api/images?${query}`)).status, 400, query);
+        }
+    });
+
+    it('regenerates with the trimmed prompt as the gallery client and maps failures to statuses', async () => {
+        const response = await regenerate('fox', { prompt: '  a blue fox ' });
+        assert.equal(response.status, 200);
+        const { items } = await response.json();
+        assert.deepEqual(items.map((item: ImageRecord & { url: string }) => [item.id, item.prompt, item.url]), [['fox-2', 'a blue fox', '/images/fox-2_20260101000000.png']]);
+        assert.deepEqual(regenerated.at(-1), { id: 'fox', prompt: 'a blue fox', context: { clientInfo: { name: 'imagen3-mcp-gallery', version: '0.1.0' }, sessionId: 'gallery' } });
+
+        assert.equal((await regenerate('fox', { prompt: '   ' })).status, 200);
+        assert.equal(regenerated.at(-1)?.prompt, undefined);
+
+        const missing = await regenerate('badger', {});
+        assert.equal(missing.status, 404);
+        assert.equal(await missing.text(), 'Image not found: badger');
+        assert.equal((await regenerate('fox', { prompt: 'unsafe' })).status, 422);
+    });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { fetchImageUrl, MAX_INPUT_IMAGE_BYTES } from '../scripts/image-input';
+import { StubReply, StubServer } from './stub-server';
+
+describe('fetchImageUrl', () => {
+    let stub: StubServer | undefined;
+
+    afterEach(async () => {
+        await stub?.stop();
+        stub = undefined;
+    });
+
+    async function serve(...replies: StubReply[]): Promise<string> {
+        stub = await StubServer.start(...replies);
+        return `${stub.url}/cat.png`;
+    }
+
+    it('refuses loopback, private and link-local addresses without contacting them', async () => {
+        const url = await serve({ status: 200, body: 'image' });
+        for (const target of [url, 'http://169.254.169.254/latest/meta-data/', 'http://10.0.0.1/a.png', 'http://[::1]/a.png', 'http://[::ffff:127.0.0.1]/a.png']) {
+            await assert.rejects(fetchImageUrl(target), /non-public address/, target);
+        }
+        assert.equal(stub!.requests.length, 0);
+    });
+
+    it('fetches from allowed hosts', async () => {
+        const url = await serve({ status: 200, body: 'image bytes' });
+        const data = await fetchImageUrl(url, 'image', [new URL(url).hostname]);
+        assert.equal(data.toString(), 'image bytes');
+    });
+
+    it('checks the targets of redirects', async () => {
+        const url = await serve({ status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } });
+        await assert.rejects(fetchImageUrl(url, 'image', [new URL(url).hostname]), /169\.254\.169\.254/);
+        assert.equal(stub!.requests.length, 1);
+    });
+
+    it('stops reading bodies larger than the limit', async () => {
+        const url = await serve({ status: 200, body: 'x'.repeat(MAX_INPUT_IMAGE_BYTES + 1) });
+        await assert.rejects(fetchImageUrl(url, 'image', [new URL(url).hostname]), /download exceeds the limit/);
+    });
+
+    it('refuses a declared Content-Length over the limit before reading the body', async () => {
+        const size = MAX_INPUT_IMAGE_BYTES + 1;
+        const url = await serve({ status: 200, headers: { 'Content-Length': String(size) }, body: 'x' });
+        await assert.rejects(fetchImageUrl(url, 'image', [new URL(url).hostname]), new RegExp(`${size} bytes exceeds the limit`));
+    });
+
+    it('refuses schemes other than http and https', async () => {
+        await assert.rejects(fetchImageUrl('file:///etc/passwd'), /only http and https/);
+    });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JobQueue } from '../scripts/jobs';
+
+describe('JobQueue', () => {
+    it('forwards increasing progress with its message and keeps later messages on the job', async () => {
+        const queue = new JobQueue({ concurrency: 1 });
+        const reported: [number, string | undefined][] = [];
+        const job = queue.enqueue('generate_image', async context => {
+            context.reportProgress(10, 'Waiting for mock');
+            context.reportProgress(10, 'Still waiting');
+            assert.equal(queue.get(context.id!)?.message, 'Still waiting');
+            context.reportProgress(5, 'Going backwards');
+            return 'ok';
+        }, { onProgress: (progress, message) => reported.push([progress, message]) });
+
+        const finished = await queue.wait(job.id);
+        assert.equal(finished.status, 'succeeded');
+        assert.deepEqual(reported, [[10, 'Waiting for mock'], [100, 'Done']]);
+    });
+
+    it('cancels a job that is still queued', async () => {
+        const queue = new JobQueue({ concurrency: 1 });
+        let release!: () => void;
+        const blocker = queue.enqueue('generate_image', () => new Promise<void>(resolve => (release = resolve)));
+        const waiting = queue.enqueue('generate_image', async () => 'never');
+
+        assert.equal(queue.cancel(waiting.id, 'No longer needed'), true);
+        const cancelled = await queue.wait(waiting.id);
+        assert.equal(cancelled.status, 'cancelled');
+        assert.equal(cancelled.error, 'No longer needed');
+
+        release();
+        assert.equal((await queue.wait(blocker.id)).status, 'succeeded');
+    });
+
+    it('records the workspace a job was queued in', async () => {
+        const queue = new JobQueue({ concurrency: 1 });
+        const job = queue.enqueue('generate_image', async () => 'ok', { workspace: 'marketing' });
+
+        assert.equal((await queue.wait(job.id)).workspace, 'marketing');
+        assert.equal(queue.enqueue('generate_image', async () => 'ok').workspace, undefined);
+    });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ErrorCode, JsonRpcMessage, JsonRpcResponse, McpError, McpHandler, McpSession } from '../scripts/mcp';
+
+const handler: McpHandler = {
+    getInfo: () => ({ protocolVersion: '', serverInfo: { name: 'test', version: '0' }, capabilities: { tools: {} } }),
+    listTools: () => [],
+    async callTool(name, args, context) {
+        context.reportProgress?.(10, 100, 'Waiting for mock');
+        context.reportProgress?.(90);
+        return { content: [{ type: 'text', text: `${name} done` }] };
+    },
+};
+
+async function initializedSession(sent: JsonRpcMessage[]): Promise<McpSession> {
+    const session = new McpSession(handler, message => sent.push(message));
+    await session.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+    await session.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    return session;
+}
+
+describe('McpSession', () => {
+    it('rejects requests other than ping before initialize', async () => {
+        const session = new McpSession(handler, () => undefined);
+        const early = await session.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'generate_image' } });
+        assert.equal(early?.error?.code, ErrorCode.InvalidRequest);
+
+        const ping = await session.handleMessage({ jsonrpc: '2.0', id: 2, method: 'ping' });
+        assert.deepEqual(ping?.result, {});
+    });
+
+    it('sends the status message with progress notifications', async () => {
+        const sent: JsonRpcMessage[] = [];
+        const session = await initializedSession(sent);
+        const response = await session.handleMessage({
+            jsonrpc: '2.0', id: 1, method: 'tools/call',
+            params: { name: 'generate_image', _meta: { progressToken: 'p1' } },
+        });
+
+        assert.equal(response?.error, undefined);
+        assert.deepEqual(sent.map(message => 'params' in message ? message.params : undefined), [
+            { progressToken: 'p1', progress: 10, total: 100, message: 'Waiting for mock' },
+            { progressToken: 'p1', progress: 90 },
+        ]);
+    });
+
+    it('answers unparsable input with a parse error', async () => {
+        const sent: JsonRpcMessage[] = [];
+        const session = await initializedSession(sent);
+        sent.length = 0;
+        await session.handleLine('{"jsonrpc": "2.0", "id": 1, "method": ');
+
+        assert.equal(sent.length, 1);
+        const [response] = sent as JsonRpcResponse[];
+        assert.equal(response.id, null);
+        assert.equal(response.error?.code, ErrorCode.ParseError);
+        assert.match(response.error!.message, /^Parse error: /);
+    });
+
+    it('answers unknown methods with method not found', async () => {
+        const session = await initializedSession([]);
+        const unknown = await session.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/destroy' });
+        assert.deepEqual(unknown?.error, { code: ErrorCode.MethodNotFound, message: 'Method not found: tools/destroy' });
+
+        // The handler has no prompts or resources.
+        for (const method of ['prompts/list', 'prompts/get', 'resources/list', 'resources/read']) {
+            const response = await session.handleMessage({ jsonrpc: '2.0', id: method, method });
+            assert.equal(response?.error?.code, ErrorCode.MethodNotFound, method);
+        }
+    });
+
+    it('answers malformed tools/call params with invalid params', async () => {
+        const session = await initializedSession([]);
+        const call = async (params: unknown) => (await session.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params }))?.error;
+
+        assert.deepEqual(await call({ arguments: {} }), { code: ErrorCode.InvalidParams, message: 'tools/call requires a tool name' });
+        assert.deepEqual(await call({ name: 7 }), { code: ErrorCode.InvalidParams, message: 'tools/call requires a tool name' });
+        assert.deepEqual(await call({ name: 'generate_image', arguments: ['a fox'] }), { code: ErrorCode.InvalidParams, message: 'Tool arguments must be an object' });
+        assert.deepEqual(await call('generate_image'), { code: ErrorCode.InvalidParams, message: 'params must be an object' });
+    });
+
+    it('passes on the errors the handler raises', async () => {
+        const failing: McpHandler = {
+            ...handler,
+            async callTool(name) {
+                if (name === 'generate_image') {
+                    throw new McpError(ErrorCode.InvalidParams, "Invalid arguments: 'prompt' is required");
+                }
+                throw new Error('disk full');
+            },
+        };
+        const session = new McpSession(failing, () => undefined);
+        await session.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+
+        const invalid = await session.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'generate_image' } });
+        assert.deepEqual(invalid?.error, { code: ErrorCode.InvalidParams, message: "Invalid arguments: 'prompt' is required" });
+        const internal = await session.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'list_images' } });
+        assert.deepEqual(internal?.error, { code: ErrorCode.InternalError, message: 'Internal error: disk full' });
+    });
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ImageMetadataStore, ImageQuery, ImageRecord, MAX_PAGE_SIZE } from '../scripts/metadata-store';
+import { embedProvenance } from '../scripts/provenance';
+import { MockProvider } from '../scripts/providers/mock';
+import { LocalStorage } from '../scripts/storage';
+
+function record(id: string, fields: Partial<ImageRecord> = {}): ImageRecord {
+    return {
+        id,
+        filename: `${id}_20260101000000.png`,
+        prompt: id,
+        parameters: { sampleCount: 1 },
+        provider: 'mock',
+        model: 'mock-placeholder',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        fileSize: 100,
+        mimeType: 'image/png',
+        ...fields,
+    };
+}
+
+describe('ImageMetadataStore.query', () => {
+    let dir: string;
+    let store: ImageMetadataStore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-store-test-'));
+        const artifacts = new LocalStorage(dir);
+        await artifacts.init();
+        store = new ImageMetadataStore(dir, artifacts);
+        await store.load();
+        for (const [id, fields] of [
+            ['fox', { prompt: 'A red Fox in snow', provider: 'gemini', style: 'watercolor', createdAt: '2026-01-03T00:00:00.000Z', fileSize: 300 }],
+            ['hare', { prompt: 'a hare at dawn', provider: 'mock', createdAt: '2026-01-01T00:00:00.000Z', fileSize: 500 }],
+            ['foxes', { prompt: 'two foxes playing', provider: 'mock', style: 'watercolor', createdAt: '2026-01-02T00:00:00.000Z', fileSize: 100 }],
+        ] as const) {
+            await store.add(record(id, fields));
+        }
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function ids(query: ImageQuery): string[] {
+        return store.query(query).items.map(item => item.id);
+    }
+
+    it('lists the newest images first by default', () => {
+        assert.deepEqual(store.query(), { items: ['fox', 'foxes', 'hare'].map(id => store.get(id)), total: 3, page: 1, pageSize: 50 });
+    });
+
+    it('searches prompts case-insensitively and filters by provider and style', () => {
+        assert.deepEqual(ids({ search: '  FOX ' }), ['fox', 'foxes']);
+        assert.deepEqual(ids({ provider: 'mock' }), ['foxes', 'hare']);
+        assert.deepEqual(ids({ style: 'watercolor' }), ['fox', 'foxes']);
+        assert.deepEqual(ids({ search: 'fox', provider: 'mock', style: 'watercolor' }), ['foxes']);
+        assert.deepEqual(store.query({ search: 'badger' }), { items: [], total: 0, page: 1, pageSize: 50 });
+    });
+
+    it('sorts by size or prompt in either order', () => {
+        assert.deepEqual(ids({ sort: 'fileSize' }), ['hare', 'fox', 'foxes']);
+        assert.deepEqual(ids({ sort: 'fileSize', order: 'asc' }), ['foxes', 'fox', 'hare']);
+        assert.deepEqual(ids({ sort: 'prompt', order: 'asc' }), ['fox', 'hare', 'foxes']);
+    });
+
+    it('pages the matches and keeps the page size within bounds', () => {
+        assert.deepEqual(store.query({ pageSize: 2 }), { items: [store.get('fox'), store.get('foxes')], total: 3, page: 1, pageSize: 2 });
+        assert.deepEqual(ids({ pageSize: 2, page: 2 }), ['hare']);
+        assert.deepEqual(store.query({ pageSize: 2, page: 3 }), { items: [], total: 3, page: 3, pageSize: 2 });
+
+        assert.deepEqual({ ...store.query({ pageSize: 0, page: -1 }), items: undefined }, { items: undefined, total: 3, page: 1, pageSize: 1 });
+        assert.equal(store.query({ pageSize: 10_000 }).pageSize, MAX_PAGE_SIZE);
+    });
+});
+
+describe('ImageMetadataStore.load', () => {
+    let dir: string;
+    let artifacts: LocalStorage;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-store-test-'));
+        artifacts = new LocalStorage(dir);
+        await artifacts.init();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function open(): Promise<ImageMetadataStore> {
+        const store = new ImageMetadataStore(dir, artifacts);
+        await store.load();
+        return store;
+    }
+
+    it('rebuilds lost records from the provenance embedded in the files and saves them', async () => {
+        const [image] = await new MockProvider().generate({ prompt: 'a kestrel', model: 'mock-placeholder', parameters: { sampleCount: 1, aspectRatio: '4:3' } });
+        const data = embedProvenance(image, {
+            generator: 'imagen3-mcp',
+            serverVersion: '0.1.0',
+            generationId: 'gen-1',
+            provider: 'gemini',
+            model: 'imagen-3.0-generate-002',
+            prompt: 'a kestrel',
+            negativePrompt: 'blur',
+            aspectRatio: '4:3',
+            editMode: 'outpaint',
+            derivedFrom: 'source-1',
+        }).data;
+        await artifacts.write('kestrel_20260101000000.png', data);
+        const { modifiedAt } = (await artifacts.list())[0];
+
+        const rebuilt = (await open()).get('kestrel');
+        assert.deepEqual({ ...rebuilt, sha256: undefined }, {
+            id: 'kestrel',
+            filename: 'kestrel_20260101000000.png',
+            prompt: 'a kestrel',
+            parameters: { sampleCount: 1, aspectRatio: '4:3', negativePrompt: 'blur', seed: undefined },
+            provider: 'gemini',
+            model: 'imagen-3.0-generate-002',
+            // The provenance carries no creation time, so the file's is used.
+            createdAt: modifiedAt.toISOString(),
+            fileSize: data.length,
+            mimeType: 'image/png',
+            sha256: undefined,
+            width: 256,
+            height: 192,
+            derivedFrom: 'source-1',
+            editMode: 'outpaint',
+            style: undefined,
+            generationId: 'gen-1',
+        });
+        assert.match(rebuilt!.sha256!, /^[0-9a-f]{64}$/);
+
+        const index = await fs.readFile(path.join(dir, 'images.jsonl'), 'utf8');
+        assert.equal(index.trim().split('\n').length, 1);
+        assert.equal(JSON.parse(index).id, 'kestrel');
+    });
+
+    it('describes files without provenance by their bytes alone', async () => {
+        const [image] = await new MockProvider().generate({ prompt: 'plain', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+        await artifacts.write('holiday.png', image.data);
+
+        const described = (await open()).get('holiday.png');
+        assert.equal(described?.id, 'holiday.png');
+        assert.equal(described?.prompt, '');
+        assert.equal(described?.provider, 'unknown');
+        assert.equal(described?.model, 'unknown');
+        assert.equal(described?.generationId, undefined);
+        assert.deepEqual([described?.width, described?.height], [256, 256]);
+    });
+
+    it('drops records whose file is gone and skips malformed index lines', async () => {
+        const [image] = await new MockProvider().generate({ prompt: 'kept', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+        await artifacts.write('kept_20260101000000.png', image.data);
+        await fs.writeFile(path.join(dir, 'images.jsonl'), [
+            JSON.stringify(record('kept', { prompt: 'kept from the index' })),
+            '{not json',
+            JSON.stringify(record('gone')),
+            '',
+        ].join('\n'));
+
+        const store = await open();
+        assert.deepEqual(store.all().map(({ id, prompt }) => ({ id, prompt })), [{ id: 'kept', prompt: 'kept from the index' }]);
+        assert.deepEqual((await fs.readFile(path.join(dir, 'images.jsonl'), 'utf8')).trim().split('\n').map(line => JSON.parse(line).id), ['kept']);
+    });
+});
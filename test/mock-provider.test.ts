@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readImageDimensions } from '../scripts/image-format';
+import { MockProvider } from '../scripts/providers/mock';
+import { GenerationRequest } from '../scripts/providers/types';
+
+function request(overrides: Partial<GenerationRequest> = {}): GenerationRequest {
+    return { prompt: 'a red bicycle', model: 'mock-placeholder', parameters: { sampleCount: 1 }, ...overrides };
+}
+
+describe('MockProvider', () => {
+    const provider = new MockProvider();
+
+    it('needs no configuration', () => {
+        assert.equal(provider.checkConfiguration(), undefined);
+    });
+
+    it('returns the same bytes for the same request', async () => {
+        const [first] = await provider.generate(request());
+        const [second] = await provider.generate(request());
+        assert.equal(first.mimeType, 'image/png');
+        assert.ok(first.data.equals(second.data));
+    });
+
+    it('returns different bytes for a different prompt or seed', async () => {
+        const [base] = await provider.generate(request());
+        const [otherPrompt] = await provider.generate(request({ prompt: 'a blue bicycle' }));
+        const [otherSeed] = await provider.generate(request({ parameters: { sampleCount: 1, seed: 7 } }));
+        assert.ok(!base.data.equals(otherPrompt.data));
+        assert.ok(!base.data.equals(otherSeed.data));
+    });
+
+    it('draws one distinct image per sample in the requested aspect ratio', async () => {
+        const images = await provider.generate(request({ parameters: { sampleCount: 3, aspectRatio: '16:9' } }));
+        assert.equal(images.length, 3);
+        assert.equal(new Set(images.map(image => image.data.toString('base64'))).size, 3);
+        assert.deepEqual(readImageDimensions(images[0].data), { width: 256, height: 144 });
+    });
+
+    it('keeps the aspect ratio of the source when editing', async () => {
+        const [source] = await provider.generate(request({ parameters: { sampleCount: 1, aspectRatio: '3:4' } }));
+        const [edited] = await provider.edit({
+            prompt: 'add a basket',
+            model: 'mock-placeholder',
+            mode: 'inpaint-insert',
+            image: source,
+            parameters: { sampleCount: 1 },
+        });
+        assert.deepEqual(readImageDimensions(edited.data), { width: 192, height: 256 });
+        assert.ok(!edited.data.equals(source.data));
+    });
+
+    it('stops when the request is cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort(new Error('Cancelled by client'));
+        await assert.rejects(provider.generate(request({ signal: controller.signal })), /Cancelled by client/);
+    });
+});
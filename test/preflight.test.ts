@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { detectLanguage, estimateTokens, PreflightOptions, PromptPreflight } from '../scripts/preflight';
+import { GeminiTextRewriter, StubRewriter } from '../scripts/prompt-rewriter';
+import { RequestPolicy } from '../scripts/providers/request-policy';
+import { StubReply, StubServer } from './stub-server';
+
+function preflight(options: Partial<PreflightOptions> = {}): PromptPreflight {
+    return new PromptPreflight({ mode: 'reject', maxTokens: 480, rewrite: [], ...options });
+}
+
+describe('estimateTokens', () => {
+    it('counts short words once and long words per four characters', () => {
+        assert.equal(estimateTokens('a red cat'), 3);
+        assert.equal(estimateTokens('photograph'), 3);
+    });
+
+    it('counts punctuation and CJK characters one each', () => {
+        assert.equal(estimateTokens('cat, dog.'), 4);
+        assert.equal(estimateTokens('一只猫'), 3);
+    });
+});
+
+describe('detectLanguage', () => {
+    it('takes prompts with English common words for English', () => {
+        assert.deepEqual(detectLanguage('A photo of a cat on the roof'), { english: true, script: 'Latin', language: 'en' });
+    });
+
+    it('assumes short prompts without telling words are English', () => {
+        assert.deepEqual(detectLanguage('sunset'), { english: true, script: 'Latin', language: undefined });
+    });
+
+    it('tells other Latin-script languages by their common words', () => {
+        assert.deepEqual(detectLanguage('un gato rojo con un sombrero sobre la mesa'), { english: false, script: 'Latin', language: 'es' });
+        assert.deepEqual(detectLanguage('eine Katze mit einem Hut auf dem Tisch'), { english: false, script: 'Latin', language: 'de' });
+    });
+
+    it('tells languages by script, with any kana deciding Japanese', () => {
+        assert.deepEqual(detectLanguage('雪山上的一只猫'), { english: false, script: 'Han', language: 'zh' });
+        assert.deepEqual(detectLanguage('雪の中の猫'), { english: false, script: 'Han', language: 'ja' });
+        assert.equal(detectLanguage('Кошка в снегу').script, 'Cyrillic');
+    });
+
+    it('ignores quoted in-image text', () => {
+        assert.equal(detectLanguage('A poster with the words "Bonjour le monde, la vie est belle"').english, true);
+    });
+});
+
+describe('PromptPreflight', () => {
+    it('rejects on errors in reject mode', () => {
+        const report = preflight().check('un gato rojo con un sombrero sobre la mesa');
+        assert.equal(report.ok, false);
+        assert.deepEqual(report.issues.map(issue => [issue.rule, issue.severity]), [['non-english', 'error']]);
+    });
+
+    it('passes prompts with warnings only', () => {
+        const report = preflight().check('A sign reading "Welcome to the grand opening of our shop"');
+        assert.equal(report.ok, true);
+        assert.deepEqual(report.issues.map(issue => [issue.rule, issue.severity]), [['text-too-long', 'warning']]);
+    });
+
+    it('warns about more than three text phrases', () => {
+        const report = preflight().check('Signs saying "one", "two", "three" and "four"');
+        assert.equal(report.ok, true);
+        assert.deepEqual(report.issues.map(issue => issue.rule), ['too-many-text-phrases']);
+    });
+
+    it('checks the length of the expanded prompt', () => {
+        const report = preflight({ maxTokens: 5 }).check('a red cat', 'a red cat, oil painting in the style of the old masters');
+        assert.equal(report.ok, false);
+        assert.deepEqual(report.issues.map(issue => issue.rule), ['prompt-too-long']);
+    });
+
+    it('reports errors without rejecting in warn mode and skips the checks when off', () => {
+        const prompt = 'un gato rojo con un sombrero sobre la mesa';
+        const warned = preflight({ mode: 'warn' }).check(prompt);
+        assert.equal(warned.ok, true);
+        assert.deepEqual(warned.issues.map(issue => issue.severity), ['error']);
+        assert.deepEqual(preflight({ mode: 'off' }).check(prompt).issues, []);
+    });
+
+    it('translates non-English prompts with the stub rewriter and checks the result', async () => {
+        const report = await preflight({ rewrite: ['translate'], rewriter: new StubRewriter() }).run('un gato rojo con la luna');
+        assert.equal(report.ok, true);
+        assert.equal(report.prompt, 'a cat red with the moon');
+        assert.deepEqual(report.issues, []);
+        assert.deepEqual(report.rewrite, { original: 'un gato rojo con la luna', steps: ['translate'], rewriter: 'stub' });
+    });
+
+    it('does not translate English prompts', async () => {
+        const report = await preflight({ rewrite: ['translate'], rewriter: new StubRewriter() }).run('a red cat');
+        assert.equal(report.prompt, 'a red cat');
+        assert.equal(report.rewrite, undefined);
+    });
+
+    describe('with the Gemini rewriter', () => {
+        let stub: StubServer | undefined;
+
+        afterEach(async () => {
+            await stub?.stop();
+            stub = undefined;
+        });
+
+        async function gemini(...replies: StubReply[]): Promise<GeminiTextRewriter> {
+            stub = await StubServer.start(...replies);
+            return new GeminiTextRewriter('test-key', stub.url, 'gemini-test', 480, new RequestPolicy({ baseDelayMs: 1, maxRetries: 0 }));
+        }
+
+        it('sends the prompt with instructions and uses the reply', async () => {
+            const enhanced = 'A red cat on a snowy mountain at dawn, highly detailed photograph';
+            const rewriter = await gemini({ status: 200, body: JSON.stringify({ candidates: [{ content: { parts: [{ text: ` ${enhanced}\n` }] } }] }) });
+
+            const report = await preflight({ rewrite: ['enhance'], rewriter }).run('a red cat on a mountain');
+
+            assert.equal(report.prompt, enhanced);
+            assert.deepEqual(report.rewrite, { original: 'a red cat on a mountain', steps: ['enhance'], rewriter: 'gemini' });
+            assert.equal(stub!.requests.length, 1);
+            assert.equal(stub!.requests[0].url, '/v1beta/models/gemini-test:generateContent?key=test-key');
+            const text: string = JSON.parse(stub!.requests[0].body).contents[0].parts[0].text;
+            assert.match(text, /more descriptive/);
+            assert.ok(text.endsWith('\n\na red cat on a mountain'));
+        });
+
+        it('reports a failed rewrite as a warning and keeps the prompt', async () => {
+            const rewriter = await gemini({ status: 200, body: JSON.stringify({ candidates: [] }) });
+
+            const report = await preflight({ rewrite: ['enhance'], rewriter }).run('a red cat');
+
+            assert.equal(report.ok, true);
+            assert.equal(report.prompt, 'a red cat');
+            assert.deepEqual(report.issues.map(issue => [issue.rule, issue.severity]), [['rewrite-failed', 'warning']]);
+        });
+    });
+});
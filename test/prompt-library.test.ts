@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ErrorCode, McpError } from '../scripts/mcp';
+import { expand, PromptLibrary } from '../scripts/prompt-library';
+
+function isInvalidParams(message: string): (e: unknown) => boolean {
+    return e => e instanceof McpError && e.code === ErrorCode.InvalidParams && e.message === message;
+}
+
+describe('PromptLibrary', () => {
+    let dir: string;
+    let library: PromptLibrary;
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-library-test-'));
+        await fs.writeFile(path.join(dir, 'logo.md'), '# A logo for a brand\nDesign a logo for {{brand}}{{#motto}} with the motto "{{motto}}"{{/motto}}.\n');
+        await fs.writeFile(path.join(dir, 'presets.json'), JSON.stringify([
+            { name: 'ui-asset', description: 'Replaced', subject: 'A tiny icon of', aspect_ratio: '1:1' },
+            { name: 'noir', style: 'black and white film noir' },
+        ]));
+        await fs.writeFile(path.join(dir, 'broken.json'), '{"description": "no name"}');
+        await fs.writeFile(path.join(dir, 'notes.pdf'), 'ignored');
+        library = new PromptLibrary(dir);
+        await library.load();
+    });
+
+    after(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('lists built-in and loaded templates with their arguments', () => {
+        const prompts = new Map(library.list().map(prompt => [prompt.name, prompt]));
+        assert.deepEqual([...prompts.keys()].sort(), ['imagen-prompt', 'isometric-icon', 'logo', 'noir', 'poster-with-text', 'product-shot', 'ui-asset']);
+
+        assert.deepEqual(prompts.get('logo'), {
+            name: 'logo',
+            title: undefined,
+            description: 'A logo for a brand',
+            arguments: [{ name: 'brand', required: true }, { name: 'motto', required: false }],
+        });
+        assert.deepEqual(prompts.get('product-shot')?.arguments, [{ name: 'prompt', description: 'What the image should show.', required: true }]);
+        assert.equal(prompts.get('ui-asset')?.description, 'Replaced');
+        assert.deepEqual(new PromptLibrary().list().map(prompt => prompt.name), ['product-shot', 'isometric-icon', 'poster-with-text', 'ui-asset', 'imagen-prompt']);
+    });
+
+    it('substitutes arguments and drops optional sections without them', () => {
+        assert.deepEqual(library.get('logo', { brand: 'Acme', motto: 'Fast' }), {
+            description: 'A logo for a brand',
+            messages: [{ role: 'user', content: { type: 'text', text: 'Design a logo for Acme with the motto "Fast".' } }],
+        });
+        assert.equal(library.get('logo', { brand: 'Acme' }).messages[0].content.text, 'Design a logo for Acme.');
+        assert.match(library.get('imagen-prompt', { idea: 'a fox', style: 'watercolor' }).messages[0].content.text,
+            /^Write a detailed English image prompt for this idea: a fox\. Describe .* the style \(watercolor\), /);
+    });
+
+    it('renders presets as a generate_image instruction', () => {
+        assert.equal(library.get('noir', { prompt: 'a detective' }).messages[0].content.text,
+            'Call generate_image with style "noir" and prompt "a detective". The server expands it to: a detective, black and white film noir');
+    });
+
+    it('refuses unknown prompts and missing required arguments', () => {
+        assert.throws(() => library.get('nope', {}), isInvalidParams('Unknown prompt: nope'));
+        assert.throws(() => library.get('logo', { motto: 'Fast' }), isInvalidParams('Missing required argument(s) for prompt logo: brand'));
+        assert.throws(() => library.get('imagen-prompt', { idea: '' }), isInvalidParams('Missing required argument(s) for prompt imagen-prompt: idea'));
+        assert.throws(() => library.get('product-shot', {}), isInvalidParams('Missing required argument(s) for prompt product-shot: prompt'));
+    });
+
+    it('offers only templates with modifiers as styles', () => {
+        assert.deepEqual(library.presetNames().sort(), ['isometric-icon', 'noir', 'poster-with-text', 'product-shot', 'ui-asset']);
+        assert.equal(library.preset('logo'), undefined);
+        assert.equal(library.preset('imagen-prompt'), undefined);
+        assert.equal(library.preset('noir')?.style, 'black and white film noir');
+    });
+});
+
+describe('expand', () => {
+    const preset = new PromptLibrary().preset('product-shot')!;
+
+    it('wraps the prompt in the modifiers and takes the preset aspect ratio and negative prompt', () => {
+        assert.deepEqual(expand(preset, { prompt: 'a ceramic mug' }), {
+            prompt: 'A professional studio product photo of a ceramic mug, centered on a seamless light grey background, soft diffused lighting, '
+                + 'subtle reflection, high detail, sharp focus, 50mm lens, commercial photography',
+            aspect_ratio: '1:1',
+            negative_prompt: 'clutter, text, watermark, hands',
+        });
+    });
+
+    it('keeps the call aspect ratio and combines the negative prompts', () => {
+        const expanded = expand(preset, { prompt: 'a mug', aspect_ratio: '4:3', negative_prompt: 'logos' });
+        assert.equal(expanded.aspect_ratio, '4:3');
+        assert.equal(expanded.negative_prompt, 'logos, clutter, text, watermark, hands');
+    });
+});
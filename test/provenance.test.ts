@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { ImageMetadataStore } from '../scripts/metadata-store';
+import { deriveGenerationId, embedProvenance, inspectImage, Provenance } from '../scripts/provenance';
+import { MockProvider } from '../scripts/providers/mock';
+import { LocalStorage } from '../scripts/storage';
+
+const provenance: Provenance = {
+    generator: 'imagen3-mcp',
+    serverVersion: '0.1.0',
+    generationId: 'gen-1',
+    createdAt: '2026-01-02T03:04:05.000Z',
+    provider: 'mock',
+    model: 'mock-placeholder',
+    prompt: 'a lighthouse at dusk',
+    seed: 42,
+};
+
+describe('embedProvenance', () => {
+    it('round-trips through inspectImage, generation id and creation time included', async () => {
+        const [image] = await new MockProvider().generate({ prompt: 'x', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+        const inspection = inspectImage(embedProvenance(image, provenance).data);
+
+        assert.equal(inspection.aiGenerated, true);
+        assert.deepEqual(inspection.provenance, provenance);
+        assert.equal(inspection.pngText?.['Creation Time'], provenance.createdAt);
+        assert.equal(inspection.xmp?.createDate, provenance.createdAt);
+        assert.equal(inspection.xmp?.description, provenance.prompt);
+        assert.equal(inspection.width, 256);
+    });
+
+    it('keeps the provenance in the XMP data when the PNG text chunk is gone', async () => {
+        const [image] = await new MockProvider().generate({ prompt: 'x', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+        const data = embedProvenance(image, provenance).data;
+        // Renaming the keyword leaves the chunk in place but hides it from the reader.
+        const stripped = Buffer.from(data.toString('latin1').replace('imagen3-mcp:provenance', 'imagen3-mcp:xxxxxxxxxx'), 'latin1');
+
+        assert.equal(inspectImage(stripped).provenance?.generationId, provenance.generationId);
+    });
+});
+
+describe('deriveGenerationId', () => {
+    it('gives the same output of the same request the same id', async () => {
+        const { generationId, createdAt, ...fields } = provenance;
+        const request = { prompt: 'x', model: 'mock-placeholder', parameters: { sampleCount: 1 } };
+        const first = await new MockProvider().generate(request);
+        const second = await new MockProvider().generate(request);
+        const other = await new MockProvider().generate({ ...request, prompt: 'y' });
+
+        assert.equal(deriveGenerationId(fields, first), deriveGenerationId(fields, second));
+        assert.notEqual(deriveGenerationId(fields, other), deriveGenerationId(fields, first));
+        assert.notEqual(deriveGenerationId({ ...fields, seed: 43 }, first), deriveGenerationId(fields, first));
+    });
+});
+
+describe('ImageMetadataStore', () => {
+    it('rebuilds records of files without an index entry from their provenance', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'provenance-test-'));
+        try {
+            const artifacts = new LocalStorage(dir);
+            await artifacts.init();
+            const [image] = await new MockProvider().generate({ prompt: 'x', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+            const data = embedProvenance(image, { ...provenance, aspectRatio: '1:1', style: 'watercolor' }).data;
+            const sha256 = await artifacts.write('abc123_20260101000000.png', data);
+
+            // As with S3 storage and a fresh artifacts directory: the image is there, the index is not.
+            const store = new ImageMetadataStore(dir, artifacts);
+            await store.load();
+
+            assert.deepEqual(store.get('abc123'), {
+                id: 'abc123',
+                filename: 'abc123_20260101000000.png',
+                prompt: provenance.prompt,
+                parameters: { sampleCount: 1, aspectRatio: '1:1', negativePrompt: undefined, seed: 42 },
+                provider: 'mock',
+                model: 'mock-placeholder',
+                createdAt: provenance.createdAt,
+                fileSize: data.length,
+                mimeType: 'image/png',
+                sha256,
+                width: 256,
+                height: 256,
+                derivedFrom: undefined,
+                editMode: undefined,
+                style: 'watercolor',
+                generationId: provenance.generationId,
+            });
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import sharp from 'sharp';
+import { GeneratedImage } from '../scripts/providers';
+import { MockProvider } from '../scripts/providers/mock';
+import { convertImage, parseRenditionQuery, RenditionCache } from '../scripts/renditions';
+
+/**
+ * A 256x144 PNG from the mock provider.
+ */
+async function source(): Promise<GeneratedImage> {
+    const [image] = await new MockProvider().generate({ prompt: 'a harbour', model: 'mock-placeholder', parameters: { sampleCount: 1, aspectRatio: '16:9' } });
+    return image;
+}
+
+describe('convertImage', () => {
+    it('fits the image inside the bounds, keeping its aspect ratio and never enlarging it', async () => {
+        const image = await source();
+
+        const halved = await sharp((await convertImage(image, { width: 128 })).data).metadata();
+        assert.deepEqual([halved.width, halved.height], [128, 72]);
+        const boxed = await sharp((await convertImage(image, { width: 200, height: 36 })).data).metadata();
+        assert.deepEqual([boxed.width, boxed.height], [64, 36]);
+        const unchanged = await sharp((await convertImage(image, { width: 1024, height: 1024 })).data).metadata();
+        assert.deepEqual([unchanged.width, unchanged.height], [256, 144]);
+    });
+
+    it('encodes WebP, JPEG and AVIF with their MIME types and keeps PNG by default', async () => {
+        const image = await source();
+        for (const [format, mimeType, detected] of [['webp', 'image/webp', 'webp'], ['jpeg', 'image/jpeg', 'jpeg'], ['avif', 'image/avif', 'heif']] as const) {
+            const rendition = await convertImage(image, { format, quality: 50 });
+            assert.equal(rendition.mimeType, mimeType);
+            assert.equal((await sharp(rendition.data).metadata()).format, detected, format);
+        }
+        const png = await convertImage(image, { width: 64 });
+        assert.equal(png.mimeType, 'image/png');
+        assert.equal((await sharp(png.data).metadata()).format, 'png');
+    });
+});
+
+describe('parseRenditionQuery', () => {
+    it('reads the options, or nothing without rendition parameters', () => {
+        assert.equal(parseRenditionQuery({}), undefined);
+        assert.deepEqual(parseRenditionQuery({ w: '640', h: '4096', format: 'webp', q: '90' }), { width: 640, height: 4096, format: 'webp', quality: 90 });
+        assert.deepEqual(parseRenditionQuery({ format: 'avif' }), { width: undefined, height: undefined, format: 'avif', quality: undefined });
+    });
+
+    it('rejects bad sizes, qualities and formats', () => {
+        for (const w of ['0', '-5', '4097', '1.5', 'wide', '']) {
+            assert.equal(parseRenditionQuery({ w }), `Invalid w: ${w}, must be an integer between 1 and 4096`, w);
+        }
+        assert.equal(parseRenditionQuery({ h: '10000' }), 'Invalid h: 10000, must be an integer between 1 and 4096');
+        assert.equal(parseRenditionQuery({ q: '101' }), 'Invalid q: 101, must be an integer between 1 and 100');
+        assert.equal(parseRenditionQuery({ format: 'gif' }), 'Invalid format: gif, supported values are: png, jpeg, webp, avif');
+        assert.match(parseRenditionQuery({ format: ['png', 'webp'] }) as string, /^Invalid format: /);
+    });
+});
+
+describe('RenditionCache', () => {
+    let dir: string;
+    let cache: RenditionCache;
+    let loads: number;
+    let image: GeneratedImage;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'renditions-test-'));
+        cache = new RenditionCache(dir, 1024 * 1024);
+        await cache.init();
+        loads = 0;
+        image = await source();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function get(options: Parameters<RenditionCache['get']>[1], key = 'sha-1'): Promise<GeneratedImage> {
+        return cache.get({ key, mimeType: 'image/png' }, options, async () => {
+            loads++;
+            return image;
+        });
+    }
+
+    async function files(): Promise<string[]> {
+        return fs.readdir(path.join(dir, 'renditions'));
+    }
+
+    it('converts a rendition once and serves it from disk afterwards', async () => {
+        const [first, concurrent] = await Promise.all([get({ width: 64, format: 'webp' }), get({ width: 64, format: 'webp' })]);
+        assert.equal(loads, 1);
+        assert.deepEqual(concurrent.data, first.data);
+
+        const cached = await get({ width: 64, format: 'webp' });
+        assert.equal(loads, 1);
+        assert.equal(cached.mimeType, 'image/webp');
+        assert.deepEqual(cached.data, first.data);
+        assert.equal((await files()).length, 1);
+    });
+
+    it('keeps separate renditions per source and options', async () => {
+        await get({ width: 64 });
+        await get({ width: 64, format: 'png' });
+        assert.equal(loads, 1);
+
+        await get({ width: 32 });
+        await get({ width: 64 }, 'sha-2');
+        await get({ width: 64, quality: 50, format: 'jpeg' });
+        assert.equal(loads, 4);
+        assert.equal((await files()).length, 4);
+    });
+
+    it('deletes the renditions that do not fit in its size', async () => {
+        const small = new RenditionCache(dir, 1);
+        await small.init();
+        await small.get({ key: 'sha-1', mimeType: 'image/png' }, { width: 32 }, async () => image);
+        await small.get({ key: 'sha-1', mimeType: 'image/png' }, { width: 16 }, async () => image);
+        assert.deepEqual(await files(), []);
+    });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { classifyHttpError, ProviderError, RequestPolicy } from '../scripts/providers/request-policy';
+import { StubReply, StubServer } from './stub-server';
+
+describe('RequestPolicy', () => {
+    let stub: StubServer | undefined;
+
+    afterEach(async () => {
+        await stub?.stop();
+        stub = undefined;
+    });
+
+    async function serve(...replies: StubReply[]): Promise<string> {
+        stub = await StubServer.start(...replies);
+        return `${stub.url}/v1/models/imagen:predict`;
+    }
+
+    function isProviderError(kind: string, status?: number) {
+        return (e: unknown) => e instanceof ProviderError && e.kind === kind && e.status === status;
+    }
+
+    it('waits out Retry-After on 429 before retrying', async () => {
+        const url = await serve({ status: 429, headers: { 'Retry-After': '1' }, body: 'slow down' }, { status: 200, body: '{"ok":true}' });
+        const policy = new RequestPolicy({ baseDelayMs: 1 });
+
+        const started = Date.now();
+        assert.equal(await policy.fetchText('Test', url, { method: 'POST' }), '{"ok":true}');
+        assert.ok(Date.now() - started >= 950, 'the retry came before Retry-After elapsed');
+        assert.equal(stub!.requests.length, 2);
+    });
+
+    it('gives up when Retry-After is longer than the longest backoff', async () => {
+        const url = await serve({ status: 429, headers: { 'Retry-After': '120' }, body: 'slow down' });
+        const policy = new RequestPolicy({ maxDelayMs: 1_000 });
+
+        await assert.rejects(policy.fetchText('Test', url, { method: 'POST' }), isProviderError('quota', 429));
+        assert.equal(stub!.requests.length, 1);
+    });
+
+    it('retries 5xx responses with backoff until one succeeds', async () => {
+        const url = await serve({ status: 503, body: 'overloaded' }, { status: 502, body: 'bad gateway' }, { status: 200, body: 'done' });
+        const policy = new RequestPolicy({ baseDelayMs: 5, maxRetries: 3 });
+
+        assert.equal(await policy.fetchText('Test', url, { method: 'POST' }), 'done');
+        assert.equal(stub!.requests.length, 3);
+    });
+
+    it('stops after maxRetries', async () => {
+        const url = await serve({ status: 500, body: 'broken' });
+        const policy = new RequestPolicy({ baseDelayMs: 5, maxRetries: 2 });
+
+        await assert.rejects(policy.fetchText('Test', url, { method: 'POST' }), isProviderError('server', 500));
+        assert.equal(stub!.requests.length, 3);
+    });
+
+    it('does not retry other 4xx responses', async () => {
+        const url = await serve({
+            status: 400,
+            body: JSON.stringify({ error: { code: 400, message: 'Request contains an invalid argument.', status: 'INVALID_ARGUMENT' } }),
+        });
+        const policy = new RequestPolicy({ baseDelayMs: 5 });
+
+        await assert.rejects(policy.fetchText('Test', url, { method: 'POST' }), (e: unknown) =>
+            isProviderError('invalid_argument', 400)(e) && /invalid argument/.test((e as Error).message));
+        assert.equal(stub!.requests.length, 1);
+    });
+
+    it('times out each attempt and retries the timeout', async () => {
+        const url = await serve({ hang: true });
+        const policy = new RequestPolicy({ timeoutMs: 100, baseDelayMs: 5, maxRetries: 1 });
+
+        await assert.rejects(policy.fetchText('Test', url, { method: 'POST' }), isProviderError('timeout'));
+        assert.equal(stub!.requests.length, 2);
+    });
+
+    it('throttles requests beyond requestsPerMinute', async () => {
+        const url = await serve({ status: 200, body: 'ok' });
+        // The bucket holds one minute's worth of tokens and refills two per second.
+        const policy = new RequestPolicy({ requestsPerMinute: 120 });
+
+        const started = Date.now();
+        await Promise.all(Array.from({ length: 121 }, () => policy.fetchText('Test', url, { method: 'POST' })));
+        assert.ok(Date.now() - started >= 450, 'the request past the burst was not delayed');
+        assert.equal(stub!.requests.length, 121);
+    });
+
+    it('does not retry once the caller cancels', async () => {
+        const url = await serve({ hang: true });
+        const policy = new RequestPolicy({ timeoutMs: 0 });
+        const controller = new AbortController();
+        // Cancel only once the attempt has reached the stub, so a slow machine cannot cancel before the first try.
+        const poll = setInterval(() => {
+            if (stub!.requests.length > 0) {
+                clearInterval(poll);
+                controller.abort(new Error('Cancelled by client'));
+            }
+        }, 10);
+
+        await assert.rejects(policy.fetchText('Test', url, { method: 'POST' }, controller.signal), /Cancelled by client/);
+        assert.equal(stub!.requests.length, 1);
+    });
+});
+
+describe('classifyHttpError', () => {
+    it('reads the retry delay from a Google RetryInfo detail', () => {
+        const error = classifyHttpError('Gemini', 429, JSON.stringify({
+            error: {
+                code: 429,
+                message: 'Quota exceeded',
+                status: 'RESOURCE_EXHAUSTED',
+                details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '1.5s' }],
+            },
+        }));
+        assert.equal(error.kind, 'quota');
+        assert.equal(error.retryAfterMs, 1_500);
+        assert.equal(error.retryable, true);
+    });
+
+    it('tells safety rejections and auth failures apart from bad arguments', () => {
+        const safety = classifyHttpError('Gemini', 400, JSON.stringify({
+            error: { message: 'Image generation failed with the following error: The prompt could not be submitted. This prompt contains sensitive words that violate Google\'s Responsible AI practices.' },
+        }));
+        assert.equal(safety.kind, 'safety');
+        assert.equal(classifyHttpError('Gemini', 403, 'forbidden').kind, 'auth');
+        assert.equal(classifyHttpError('Gemini', 404, 'no such model').kind, 'invalid_argument');
+        assert.equal(classifyHttpError('Gemini', 501, 'not implemented').retryable, false);
+    });
+});
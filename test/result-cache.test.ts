@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ResultCache } from '../scripts/result-cache';
+
+describe('ResultCache', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('keys on every parameter but not on prompt whitespace or parameter order', () => {
+        const key = ResultCache.key('gemini', 'imagen-3.0', 'a red  fox\n', { aspectRatio: '1:1', seed: 7 });
+        assert.equal(ResultCache.key('gemini', 'imagen-3.0', ' a red fox', { seed: 7, aspectRatio: '1:1' }), key);
+        assert.notEqual(ResultCache.key('gemini', 'imagen-3.0', 'a red fox', { aspectRatio: '1:1', seed: 8 }), key);
+        assert.notEqual(ResultCache.key('vertex', 'imagen-3.0', 'a red fox', { aspectRatio: '1:1', seed: 7 }), key);
+    });
+
+    it('misses, then hits once the images are stored, and counts both', async () => {
+        const cache = new ResultCache(dir, 60_000);
+        assert.equal(cache.lookup('k', () => true), undefined);
+
+        await cache.store('k', ['img-1', 'img-2']);
+        assert.deepEqual(cache.lookup('k', () => true), ['img-1', 'img-2']);
+        assert.deepEqual(cache.stats, { entries: 1, hits: 1, misses: 1 });
+    });
+
+    it('drops entries whose images are gone', async () => {
+        const cache = new ResultCache(dir, 60_000);
+        await cache.store('k', ['img-1']);
+
+        assert.equal(cache.lookup('k', ids => !ids.includes('img-1')), undefined);
+        assert.equal(cache.lookup('k', () => true), undefined);
+        assert.equal(cache.stats.entries, 0);
+    });
+
+    it('expires entries after the TTL', async () => {
+        const cache = new ResultCache(dir, 50);
+        await cache.store('k', ['img-1']);
+        assert.deepEqual(cache.lookup('k', () => true), ['img-1']);
+
+        await new Promise(resolve => setTimeout(resolve, 80));
+        assert.equal(cache.lookup('k', () => true), undefined);
+    });
+
+    it('keeps live entries across restarts and leaves expired ones out', async () => {
+        const first = new ResultCache(dir, 60_000);
+        await first.store('k', ['img-1']);
+        const cachePath = path.join(dir, 'result-cache.json');
+        const entries = JSON.parse(await fs.readFile(cachePath, 'utf8'));
+        entries.push({ key: 'old', imageIds: ['img-0'], createdAt: new Date(Date.now() - 120_000).toISOString() });
+        await fs.writeFile(cachePath, JSON.stringify(entries));
+
+        const second = new ResultCache(dir, 60_000);
+        await second.load();
+        assert.deepEqual(second.lookup('k', () => true), ['img-1']);
+        assert.equal(second.lookup('old', () => true), undefined);
+    });
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ImageMetadataStore, ImageRecord } from '../scripts/metadata-store';
+import { RetentionPolicy, RetentionStore, RetentionSweeper } from '../scripts/retention';
+import { LocalStorage } from '../scripts/storage';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('RetentionSweeper', () => {
+    let dir: string;
+    let removed: string[];
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'retention-test-'));
+        removed = [];
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * A workspace's store holding `images`, given as [id, age in hours, size, pinned?].
+     */
+    async function openStore(name: string, images: [string, number, number, boolean?][]): Promise<RetentionStore> {
+        const resourcesPath = path.join(dir, name);
+        const artifacts = new LocalStorage(resourcesPath);
+        await artifacts.init();
+        const metadata = new ImageMetadataStore(resourcesPath, artifacts);
+        await metadata.load();
+        for (const [id, ageHours, fileSize, pinned] of images) {
+            const record: ImageRecord = {
+                id,
+                filename: `${id}.png`,
+                prompt: id,
+                parameters: { sampleCount: 1 },
+                provider: 'mock',
+                model: 'mock-placeholder',
+                createdAt: new Date(Date.now() - ageHours * HOUR).toISOString(),
+                fileSize,
+                mimeType: 'image/png',
+                pinned,
+            };
+            await metadata.add(record);
+        }
+        return {
+            metadata,
+            remove: async record => {
+                removed.push(record.id);
+                await metadata.remove(record.id);
+            },
+        };
+    }
+
+    function sweep(stores: RetentionStore[], policy: RetentionPolicy): Promise<ImageRecord[]> {
+        return new RetentionSweeper(stores, { policy, intervalMs: 0 }).sweep();
+    }
+
+    it('evicts images older than the maximum age', async () => {
+        const store = await openStore('default', [['new', 1, 10], ['old', 30, 10], ['older', 50, 10]]);
+
+        await sweep([store], { maxAgeMs: 24 * HOUR });
+        assert.deepEqual(removed, ['older', 'old']);
+        assert.deepEqual(store.metadata.all().map(record => record.id), ['new']);
+    });
+
+    it('evicts the oldest images until the count and size limits hold', async () => {
+        const store = await openStore('default', [['a', 4, 100], ['b', 3, 100], ['c', 2, 100], ['d', 1, 100]]);
+
+        await sweep([store], { maxCount: 3 });
+        assert.deepEqual(removed, ['a']);
+
+        await sweep([store], { maxBytes: 150 });
+        assert.deepEqual(removed, ['a', 'b', 'c']);
+    });
+
+    it('keeps pinned images but counts them against the limits', async () => {
+        const store = await openStore('default', [['pinned', 10, 500, true], ['a', 2, 100], ['b', 1, 100]]);
+
+        await sweep([store], { maxBytes: 600, maxAgeMs: 5 * HOUR });
+        assert.deepEqual(removed, ['a']);
+
+        await sweep([store], { maxBytes: 100 });
+        assert.deepEqual(removed, ['a', 'b']);
+        assert.deepEqual(store.metadata.all().map(record => record.id), ['pinned']);
+    });
+
+    it('applies the limits to all workspaces together, oldest first', async () => {
+        const first = await openStore('default', [['d1', 5, 100], ['d2', 1, 100]]);
+        const second = await openStore('marketing', [['m1', 3, 100], ['m2', 2, 100]]);
+
+        await sweep([first, second], { maxBytes: 200 });
+        assert.deepEqual(removed, ['d1', 'm1']);
+        assert.deepEqual(first.metadata.all().map(record => record.id), ['d2']);
+        assert.deepEqual(second.metadata.all().map(record => record.id), ['m2']);
+    });
+
+    it('keeps sweeping when one removal fails', async () => {
+        const store = await openStore('default', [['a', 3, 100], ['b', 2, 100], ['c', 1, 100]]);
+        const failing: RetentionStore = {
+            metadata: store.metadata,
+            remove: async (record, reason) => {
+                if (record.id === 'a') {
+                    throw new Error('disk busy');
+                }
+                await store.remove(record, reason);
+            },
+        };
+
+        const evicted = await sweep([failing], { maxCount: 1 });
+        assert.deepEqual(evicted.map(record => record.id), ['b', 'c']);
+    });
+});
@@ -0,0 +1,623 @@
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import sharp from 'sharp';
+import { MockProvider } from '../scripts/providers/mock';
+import { StubServer } from './stub-server';
+
+const MAIN = path.join(__dirname, '..', 'scripts', 'main.ts');
+
+/**
+ * Runs the server in HTTP-only mode on a free port with the mock provider, its files in a temporary directory.
+ */
+async function startServer(dir: string, env: Record<string, string> = {}): Promise<{ child: ChildProcess; url: string }> {
+    const port = await new Promise<number>(resolve => {
+        const probe = net.createServer().listen(0, '127.0.0.1', () => {
+            const { port } = probe.address() as net.AddressInfo;
+            probe.close(() => resolve(port));
+        });
+    });
+    const child = spawn(process.execPath, ['--import', 'tsx', MAIN, 'serve'], {
+        env: {
+            ...process.env,
+            HOME: dir,
+            XDG_CONFIG_HOME: path.join(dir, 'config'),
+            XDG_DATA_HOME: path.join(dir, 'data'),
+            ARTIFACTS_DIR: path.join(dir, 'artifacts'),
+            IMAGE_PROVIDER: 'mock',
+            MCP_TRANSPORT: 'http',
+            SERVER_PORT: String(port),
+            LOG_LEVEL: 'error',
+            ...env,
+        },
+        stdio: 'ignore',
+    });
+    const url = `http://127.0.0.1:${port}`;
+    const deadline = Date.now() + 30_000;
+    while (!(await fetch(`${url}/list-images`).then(res => res.ok, () => false))) {
+        if (Date.now() > deadline || child.exitCode !== null) {
+            child.kill();
+            throw new Error('The server did not start');
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return { child, url };
+}
+
+async function stopServer(child: ChildProcess): Promise<void> {
+    if (child.exitCode === null) {
+        const exited = new Promise(resolve => child.once('exit', resolve));
+        child.kill('SIGTERM');
+        await exited;
+    }
+}
+
+/**
+ * Opens a Streamable HTTP session and returns a function that sends one request in it.
+ */
+async function mcpSession(url: string, clientInfo: Record<string, string> = { name: 'test', version: '0' }): Promise<(method: string, params: unknown) => Promise<any>> {
+    const post = (body: unknown, sessionId?: string) => fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}) },
+        body: JSON.stringify(body),
+    });
+    const init = await post({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo } });
+    assert.equal(init.status, 200);
+    const sessionId = init.headers.get('Mcp-Session-Id')!;
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    let id = 1;
+    return async (method, params) => (await post({ jsonrpc: '2.0', id: id++, method, params }, sessionId)).json();
+}
+
+describe('HTTP server', () => {
+    let dir: string;
+    let server: { child: ChildProcess; url: string };
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        server = await startServer(dir);
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('streams lifecycle events of the default workspace at /events', async () => {
+        const controller = new AbortController();
+        const feed = await fetch(`${server.url}/events?types=generation.succeeded`, { signal: controller.signal });
+        assert.equal(feed.status, 200);
+        assert.match(feed.headers.get('Content-Type')!, /^text\/event-stream/);
+
+        const call = await mcpSession(server.url);
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a lighthouse at dusk' } });
+        assert.equal(result.error, undefined);
+
+        const reader = feed.body!.getReader();
+        const decoder = new TextDecoder();
+        let text = '';
+        while (!text.includes('\n\n')) {
+            const { value, done } = await reader.read();
+            assert.ok(!done, 'the event stream ended before an event arrived');
+            text += decoder.decode(value, { stream: true });
+        }
+        controller.abort();
+
+        assert.match(text, /^id: \S+\nevent: generation\.succeeded\ndata: /);
+        const event = JSON.parse(text.split('\n').find(line => line.startsWith('data: '))!.slice('data: '.length));
+        assert.equal(event.type, 'generation.succeeded');
+        assert.equal(event.workspace, 'default');
+    });
+
+    it('refuses MCP requests from origins that are not allowed', async () => {
+        const initialize = (origin: string) => fetch(`${server.url}/mcp`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json', Origin: origin },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } }),
+        });
+
+        const foreign = await initialize('http://attacker.example');
+        assert.equal(foreign.status, 403);
+        assert.equal(foreign.headers.get('Mcp-Session-Id'), null);
+        assert.equal((await fetch(`${server.url}/sse`, { headers: { Origin: 'http://attacker.example' } })).status, 403);
+
+        assert.equal((await initialize(server.url)).status, 200);
+    });
+
+    it('serves resized and re-encoded renditions of an image and rejects bad query values', async () => {
+        const call = await mcpSession(server.url);
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a red kite', aspect_ratio: '16:9' } });
+        assert.notEqual(result.result.isError, true);
+        const { items: [image] } = await (await fetch(`${server.url}/list-images?q=red%20kite`)).json();
+
+        for (const [format, mimeType] of [['webp', 'image/webp'], ['jpeg', 'image/jpeg'], ['avif', 'image/avif']]) {
+            const rendition = await fetch(`${server.url}/images/${image.id}?w=128&format=${format}`);
+            assert.equal(rendition.status, 200);
+            assert.equal(rendition.headers.get('Content-Type'), mimeType);
+            const metadata = await sharp(Buffer.from(await rendition.arrayBuffer())).metadata();
+            assert.deepEqual([metadata.width, metadata.height], [128, 72]);
+        }
+
+        for (const query of ['w=0', 'w=5000', 'w=abc', 'h=-1', 'q=0', 'format=gif']) {
+            const rejected = await fetch(`${server.url}/images/${image.id}?${query}`);
+            assert.equal(rejected.status, 400, query);
+            assert.match(await rejected.text(), /^Invalid (w|h|q|format): /, query);
+        }
+    });
+
+    it('returns image content, resource links or URLs per response mode and serves the linked blobs', async () => {
+        const call = await mcpSession(server.url);
+        const generate = async (args: Record<string, unknown>) => {
+            const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a stone bridge', ...args } });
+            assert.equal(result.error, undefined);
+            return result.result;
+        };
+
+        const byUrl = await generate({});
+        assert.deepEqual(byUrl.content.map((block: { type: string }) => block.type), ['text']);
+        assert.match(byUrl.content[0].text, /\/images\/[^/]+\.png$/);
+
+        const inline = await generate({ response_mode: 'image', sample_count: 2 });
+        assert.deepEqual(inline.content.map((block: { type: string }) => block.type), ['image', 'image']);
+        assert.equal(inline.content[0].mimeType, 'image/png');
+        assert.deepEqual(Buffer.from(inline.content[0].data, 'base64').subarray(0, 8), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+
+        const mixed = await generate({ response_mode: 'url, resource_link,image', seed: 3 });
+        assert.deepEqual(mixed.content.map((block: { type: string }) => block.type), ['text', 'image', 'resource_link']);
+        const [, image, link] = mixed.content;
+        assert.match(link.uri, /^imagen:\/\/images\/[^/]+$/);
+        assert.equal(link.description, 'a stone bridge');
+        assert.equal(link.mimeType, 'image/png');
+        assert.equal(link.size, Buffer.from(image.data, 'base64').length);
+
+        const read = await call('resources/read', { uri: link.uri });
+        assert.deepEqual(read.result.contents, [{ uri: link.uri, mimeType: 'image/png', blob: image.data }]);
+        const missing = await call('resources/read', { uri: 'imagen://images/no-such-image' });
+        assert.equal(missing.error.code, -32002);
+
+        const invalid = await generate({ response_mode: 'image,thumbnail' });
+        assert.equal(invalid.isError, true);
+        assert.equal(invalid.content[0].text, 'Invalid response mode: image,thumbnail, use a comma-separated list of: url, image, resource_link');
+    });
+
+    it('lists the tools with input schemas that mark the required arguments', async () => {
+        const call = await mcpSession(server.url);
+        const { tools } = (await call('tools/list', {})).result;
+        const schemas = new Map(tools.map((tool: { name: string; inputSchema: unknown }) => [tool.name, tool.inputSchema]));
+        for (const name of ['generate_image', 'edit_image', 'generate_batch', 'get_job_status', 'cancel_job', 'list_images', 'get_image_info', 'inspect_image', 'delete_image', 'pin_image']) {
+            assert.ok(schemas.has(name), name);
+        }
+        for (const tool of tools) {
+            assert.ok(tool.description, tool.name);
+            assert.equal(tool.inputSchema.type, 'object', tool.name);
+            for (const field of tool.inputSchema.required ?? []) {
+                assert.ok(field in tool.inputSchema.properties, `${tool.name}.${field}`);
+            }
+        }
+
+        const generate = schemas.get('generate_image') as any;
+        assert.deepEqual(generate.required, ['prompt']);
+        assert.equal(generate.properties.prompt.type, 'string');
+        assert.deepEqual([generate.properties.sample_count.type, generate.properties.sample_count.minimum, generate.properties.sample_count.maximum], ['integer', 1, 4]);
+        assert.deepEqual(generate.properties.aspect_ratio.enum, ['1:1', '3:4', '4:3', '9:16', '16:9']);
+        assert.deepEqual(generate.properties.person_generation.enum, ['dont_allow', 'allow_adult', 'allow_all']);
+    });
+
+    it('answers bad JSON, unknown methods and invalid tool arguments with JSON-RPC errors', async () => {
+        const malformed = await fetch(`${server.url}/mcp`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: '{"jsonrpc": "2.0", "id": 1, "method": ',
+        });
+        assert.equal(malformed.status, 400);
+        const parseError = await malformed.json();
+        assert.equal(parseError.id, null);
+        assert.equal(parseError.error.code, -32700);
+
+        const call = await mcpSession(server.url);
+        assert.deepEqual((await call('images/generate', {})).error, { code: -32601, message: 'Method not found: images/generate' });
+
+        const invalid = async (name: string, args: unknown) => (await call('tools/call', { name, arguments: args })).error;
+        assert.deepEqual(await invalid('generate_image', {}), { code: -32602, message: "Invalid arguments: 'prompt' is required" });
+        assert.deepEqual(await invalid('generate_image', { prompt: '  ' }), { code: -32602, message: "Invalid arguments: 'prompt' is required" });
+        assert.deepEqual(await invalid('generate_image', { prompt: 'a fox', sample_count: 1.5 }), { code: -32602, message: "Invalid arguments: 'sample_count' must be an integer" });
+        assert.deepEqual(await invalid('generate_image', { prompt: 'a fox', add_watermark: 'no' }), { code: -32602, message: "Invalid arguments: 'add_watermark' must be a boolean" });
+        assert.deepEqual(await invalid('generate_image', 'a fox'), { code: -32602, message: 'Tool arguments must be an object' });
+        assert.deepEqual(await invalid('paint_image', {}), { code: -32602, message: 'Unknown tool: paint_image' });
+    });
+
+    it('allows no cross-origin browser access by default', async () => {
+        const preflight = await fetch(`${server.url}/list-images`, {
+            method: 'OPTIONS',
+            headers: { Origin: 'http://attacker.example', 'Access-Control-Request-Method': 'DELETE' },
+        });
+        assert.equal(preflight.headers.get('Access-Control-Allow-Origin'), null);
+    });
+});
+
+describe('HTTP server with the result cache', () => {
+    let dir: string;
+    let server: { child: ChildProcess; url: string };
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        server = await startServer(dir, { RESULT_CACHE_TTL_SECONDS: '600' });
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reuses the images of an identical request unless bypass_cache is set', async () => {
+        const call = await mcpSession(server.url);
+        const generate = async (extra: Record<string, unknown> = {}) => {
+            const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a quiet harbour', seed: 42, ...extra } });
+            assert.equal(result.error, undefined);
+            assert.notEqual(result.result.isError, true);
+        };
+        const total = async () => (await (await fetch(`${server.url}/list-images`)).json()).total;
+
+        await generate();
+        await generate();
+        assert.equal(await total(), 1);
+
+        await generate({ bypass_cache: true });
+        assert.equal(await total(), 2);
+    });
+
+    it('stores the same output of separate generations in one blob', async () => {
+        const call = await mcpSession(server.url);
+        for (let i = 0; i < 2; i++) {
+            const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a paper boat', seed: 7, bypass_cache: true } });
+            assert.notEqual(result.result.isError, true);
+        }
+        const { items } = await (await fetch(`${server.url}/list-images?q=paper%20boat`)).json();
+        assert.equal(items.length, 2);
+
+        const [first, second] = await Promise.all(items.map((item: { filename: string }) =>
+            fs.stat(path.join(dir, 'artifacts', 'images', item.filename))));
+        assert.equal(first.ino, second.ino);
+        assert.equal(first.nlink, 3);
+    });
+});
+
+describe('HTTP server with budget caps', () => {
+    let dir: string;
+    let stub: StubServer;
+    let server: { child: ChildProcess; url: string };
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        const success = JSON.parse(await fs.readFile(path.join(__dirname, 'cassettes', 'success.json'), 'utf8')).response;
+        stub = await StubServer.start(
+            { status: 400, body: JSON.stringify({ error: { code: 400, message: 'Request contains an invalid argument.', status: 'INVALID_ARGUMENT' } }) },
+            { status: 200, body: success.body },
+        );
+        server = await startServer(dir, {
+            IMAGE_PROVIDER: 'gemini',
+            GEMINI_API_KEY: 'test-key',
+            BASE_URL: stub.url,
+            MAX_RETRIES: '0',
+            PRICE_PER_IMAGE_USD: '1',
+            DAILY_BUDGET_USD: '1.5',
+        });
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await stub.stop();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('releases the reservation of a failed request and refuses the one past the cap before calling the provider', async () => {
+        const call = await mcpSession(server.url);
+        const generate = async () => (await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a lighthouse at dusk' } })).result;
+
+        assert.equal((await generate()).isError, true);
+        assert.notEqual((await generate()).isError, true);
+        assert.equal(stub.requests.length, 2);
+
+        const refused = await generate();
+        assert.equal(refused.isError, true);
+        assert.match(refused.content[0].text, /Daily budget of \$1\.50 reached: \$1\.00 spent today/);
+        assert.equal(stub.requests.length, 2);
+
+        const metrics = await (await fetch(`${server.url}/metrics`)).text();
+        assert.match(metrics, /^imagen_provider_requests_total\{[^}]*outcome="success"[^}]*\} 1$/m);
+        assert.match(metrics, /^imagen_provider_requests_total\{[^}]*outcome="failure"[^}]*\} 1$/m);
+        assert.match(metrics, /^imagen_failures_total\{[^}]*kind="budget"[^}]*\} 1$/m);
+        assert.match(metrics, /^imagen_images_total\{[^}]*provider="gemini"[^}]*\} 1$/m);
+        assert.match(metrics, /^imagen_estimated_cost_usd_total\{provider="gemini"\} 1$/m);
+
+        const usage = await (await fetch(`${server.url}/usage`)).json();
+        assert.deepEqual(usage.totals, { requests: 2, images: 1, failures: 1, costUsd: 1 });
+        assert.deepEqual(usage.budget, { daily: 1.5 });
+    });
+});
+
+describe('HTTP server with the Gemini provider', () => {
+    let dir: string;
+    let stub: StubServer;
+    let server: { child: ChildProcess; url: string };
+    let call: (method: string, params: unknown) => Promise<any>;
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        const success = JSON.parse(await fs.readFile(path.join(__dirname, 'cassettes', 'success.json'), 'utf8')).response;
+        stub = await StubServer.start({ status: 200, body: success.body });
+        server = await startServer(dir, { IMAGE_PROVIDER: 'gemini', GEMINI_API_KEY: 'test-key', BASE_URL: stub.url, MAX_RETRIES: '0' });
+        call = await mcpSession(server.url);
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await stub.stop();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Generates with `args` and returns the parameters the provider was sent.
+     */
+    async function sentParameters(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+        const sent = stub.requests.length;
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a windmill in a field', ...args } });
+        assert.notEqual(result.result.isError, true, JSON.stringify(result.result));
+        assert.equal(stub.requests.length, sent + 1);
+        return JSON.parse(stub.requests[sent].body).parameters;
+    }
+
+    it('rejects out-of-range and unsupported prompt options before calling the provider', async () => {
+        const cases: [Record<string, unknown>, string][] = [
+            [{ sample_count: 0 }, 'Invalid sample count: 0, must be between 1 and 4'],
+            [{ sample_count: 5 }, 'Invalid sample count: 5, must be between 1 and 4'],
+            [{ seed: -1 }, 'Invalid seed: -1, must be between 0 and 4294967295'],
+            [{ seed: 4294967296 }, 'Invalid seed: 4294967296, must be between 0 and 4294967295'],
+            [{ seed: 1, add_watermark: true }, 'Invalid parameters: a seed cannot be used while add_watermark is true'],
+            [{ person_generation: 'everyone' }, 'Invalid person generation: everyone, supported values are: dont_allow, allow_adult, allow_all'],
+            [{ safety_filter_level: 'block_all' }, 'Invalid safety filter level: block_all, supported values are: block_low_and_above, block_medium_and_above, block_only_high, block_none'],
+        ];
+        for (const [args, message] of cases) {
+            const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a windmill in a field', ...args } });
+            assert.equal(result.result.isError, true, JSON.stringify(args));
+            assert.equal(result.result.content[0].text, message);
+        }
+
+        const mistyped = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a windmill in a field', negative_prompt: 42 } });
+        assert.equal(mistyped.error.code, -32602);
+        assert.match(mistyped.error.message, /'negative_prompt' must be a string/);
+        assert.equal(stub.requests.length, 0);
+    });
+
+    it('passes the accepted options on and turns the watermark off for seeded requests', async () => {
+        assert.deepEqual(await sentParameters({}), { sampleCount: 1 });
+        assert.deepEqual(await sentParameters({
+            sample_count: 4,
+            negative_prompt: 'people, text',
+            seed: 4294967295,
+            person_generation: 'allow_adult',
+            safety_filter_level: 'block_only_high',
+        }), {
+            sampleCount: 4,
+            negativePrompt: 'people, text',
+            seed: 4294967295,
+            addWatermark: false,
+            personGeneration: 'allow_adult',
+            safetySetting: 'block_only_high',
+        });
+        assert.deepEqual(await sentParameters({ seed: 0, add_watermark: false }), { sampleCount: 1, seed: 0, addWatermark: false });
+        assert.deepEqual(await sentParameters({ add_watermark: true }), { sampleCount: 1, addWatermark: true });
+    });
+
+    it('expands a style preset into the prompt sent to the provider', async () => {
+        const sent = stub.requests.length;
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a ceramic mug', style: 'product-shot', negative_prompt: 'logos' } });
+        assert.notEqual(result.result.isError, true, JSON.stringify(result.result));
+        const body = JSON.parse(stub.requests[sent].body);
+        assert.equal(body.instances[0].prompt, 'A professional studio product photo of a ceramic mug, centered on a seamless light grey background, '
+            + 'soft diffused lighting, subtle reflection, high detail, sharp focus, 50mm lens, commercial photography');
+        assert.equal(body.parameters.aspectRatio, '1:1');
+        assert.equal(body.parameters.negativePrompt, 'logos, clutter, text, watermark, hands');
+
+        const unknown = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a mug', style: 'baroque' } });
+        assert.equal(unknown.result.isError, true);
+        assert.match(unknown.result.content[0].text, /^Unknown style: baroque, available styles are: product-shot, /);
+        assert.equal(stub.requests.length, sent + 1);
+
+        const listed = await call('prompts/list', {});
+        assert.ok(listed.result.prompts.some((prompt: { name: string }) => prompt.name === 'product-shot'));
+        const rendered = await call('prompts/get', { name: 'imagen-prompt', arguments: { idea: 'a mug' } });
+        assert.match(rendered.result.messages[0].content.text, /this idea: a mug\. /);
+        const missing = await call('prompts/get', { name: 'imagen-prompt', arguments: {} });
+        assert.equal(missing.error.code, -32602);
+        assert.equal(missing.error.message, 'Missing required argument(s) for prompt imagen-prompt: idea');
+    });
+
+    it('refuses reference images, which the Gemini API does not take', async () => {
+        const sent = stub.requests.length;
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a photo of [1]', references: [{ type: 'subject', image: 'some-image' }] } });
+        assert.equal(result.result.isError, true);
+        assert.match(result.result.content[0].text, /Image provider gemini does not support reference images/);
+        assert.equal(stub.requests.length, sent);
+    });
+});
+
+describe('HTTP server with the Vertex provider', () => {
+    let dir: string;
+    let stub: StubServer;
+    let server: { child: ChildProcess; url: string };
+    let call: (method: string, params: unknown) => Promise<any>;
+    let imageId: string;
+    let storedBytes: string;
+    let dataUri: string;
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        // References must be at least 64 pixels a side, so the stub answers with a mock provider image.
+        const [image] = await new MockProvider().generate({ prompt: 'a corgi', model: 'mock-placeholder', parameters: { sampleCount: 1 } });
+        dataUri = `data:image/png;base64,${image.data.toString('base64')}`;
+        stub = await StubServer.start({ status: 200, body: JSON.stringify({ predictions: [{ mimeType: 'image/png', bytesBase64Encoded: image.data.toString('base64') }] }) });
+        server = await startServer(dir, {
+            IMAGE_PROVIDER: 'vertex',
+            VERTEX_PROJECT: 'demo',
+            VERTEX_ACCESS_TOKEN: 'token-1',
+            VERTEX_BASE_URL: stub.url,
+            MAX_RETRIES: '0',
+        });
+        call = await mcpSession(server.url);
+
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a corgi' } });
+        assert.notEqual(result.result.isError, true, JSON.stringify(result.result));
+        const [stored] = (await (await fetch(`${server.url}/list-images`)).json()).items;
+        imageId = stored.id;
+        storedBytes = Buffer.from(await (await fetch(`${server.url}/images/${stored.filename}`)).arrayBuffer()).toString('base64');
+        stub.requests.length = 0;
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await stub.stop();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function generate(references: unknown[]): Promise<any> {
+        return call('tools/call', { name: 'generate_image', arguments: { prompt: 'a photo of [1] in the style of [2]', references } });
+    }
+
+    it('rejects too many, unknown and inconsistent references before calling the provider', async () => {
+        const subject = { type: 'subject', image: dataUri };
+        const cases: [unknown[], string | RegExp][] = [
+            [[subject, subject, subject, subject, subject], 'Invalid references: 5 given, at most 4 are supported'],
+            [[subject, { type: 'mood', image: dataUri }], 'Invalid reference 2 type: mood, supported values are: subject, style, control'],
+            [[{ type: 'style', image: '' }], 'Invalid reference 1: image must be a non-empty string'],
+            [[{ type: 'style', image: dataUri, subject_type: 'person' }], 'Invalid reference 1: subject_type only applies to subject references'],
+            [[{ type: 'subject', image: dataUri, subject_type: 'plant' }], 'Invalid reference 1 subject type: plant, supported values are: person, animal, product, default'],
+            [[{ type: 'control', image: dataUri }], 'Invalid reference 1 control type: undefined, control references need one of: canny, scribble, face-mesh'],
+            [[{ type: 'style', image: dataUri, control_type: 'canny' }], 'Invalid reference 1: control_type and compute_control only apply to control references'],
+            [[{ type: 'subject', image: dataUri, reference_id: 0 }], 'Invalid reference 1 reference id: 0, must be a positive integer'],
+            [[{ type: 'subject', image: dataUri, weight: 2 }], 'Invalid reference 1: unknown properties weight'],
+            [[subject, { type: 'style', image: 'no-such-image' }], /Invalid reference 2: no stored image with id or filename no-such-image/],
+        ];
+        for (const [references, message] of cases) {
+            const result = await generate(references);
+            assert.equal(result.result.isError, true, JSON.stringify(references));
+            if (typeof message === 'string') {
+                assert.equal(result.result.content[0].text, message);
+            } else {
+                assert.match(result.result.content[0].text, message);
+            }
+        }
+        assert.equal(stub.requests.length, 0);
+    });
+
+    it('sends mixed references by stored id and data URI to the capability model', async () => {
+        const result = await generate([
+            { type: 'subject', image: imageId, subject_type: 'animal', description: 'a corgi' },
+            { type: 'style', image: dataUri, reference_id: 2 },
+            { type: 'control', image: imageId, control_type: 'canny' },
+        ]);
+        assert.notEqual(result.result.isError, true, JSON.stringify(result.result));
+
+        assert.equal(stub.requests.length, 1);
+        assert.match(stub.requests[0].url, /\/models\/imagen-3\.0-capability-001:predict$/);
+        const [instance] = JSON.parse(stub.requests[0].body).instances;
+        const uploaded = dataUri.slice('data:image/png;base64,'.length);
+        assert.deepEqual(instance.referenceImages, [
+            { referenceType: 'REFERENCE_TYPE_SUBJECT', referenceId: 1, referenceImage: { bytesBase64Encoded: storedBytes }, subjectImageConfig: { subjectDescription: 'a corgi', subjectType: 'SUBJECT_TYPE_ANIMAL' } },
+            { referenceType: 'REFERENCE_TYPE_STYLE', referenceId: 2, referenceImage: { bytesBase64Encoded: uploaded }, styleImageConfig: {} },
+            { referenceType: 'REFERENCE_TYPE_CONTROL', referenceId: 3, referenceImage: { bytesBase64Encoded: storedBytes }, controlImageConfig: { controlType: 'CONTROL_TYPE_CANNY', enableControlImageComputation: true } },
+        ]);
+    });
+});
+
+describe('HTTP server with workspaces', () => {
+    let dir: string;
+    let server: { child: ChildProcess; url: string };
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-test-'));
+        const configFile = path.join(dir, 'workspaces.json');
+        await fs.writeFile(configFile, JSON.stringify({ workspaces: { marketing: { clients: ['marketing-bot'], aspectRatio: '16:9' }, ui: {} } }));
+        server = await startServer(dir, { IMAGEN3_MCP_CONFIG: configFile });
+    });
+
+    after(async () => {
+        await stopServer(server.child);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function generate(call: (method: string, params: unknown) => Promise<any>, prompt: string, args: Record<string, unknown> = {}): Promise<string> {
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt, ...args } });
+        assert.equal(result.error, undefined);
+        assert.notEqual(result.result.isError, true, JSON.stringify(result.result));
+        return result.result.content[0].text;
+    }
+
+    async function prompts(pathPrefix: string, headers: Record<string, string> = {}): Promise<string[]> {
+        const response = await fetch(`${server.url}${pathPrefix}/list-images`, { headers });
+        assert.equal(response.status, 200);
+        return (await response.json()).items.map((item: { prompt: string }) => item.prompt).sort();
+    }
+
+    it('keeps the images and history of each workspace apart', async () => {
+        const named = await mcpSession(server.url, { name: 'test', version: '0', workspace: 'marketing' });
+        const mapped = await mcpSession(server.url, { name: 'marketing-bot', version: '0' });
+        const byPath = await mcpSession(`${server.url}/w/ui`);
+        const plain = await mcpSession(server.url);
+
+        const url = await generate(named, 'a marketing banner');
+        assert.match(url, /\/w\/marketing\/images\/[^/]+\.png$/);
+        await generate(mapped, 'a marketing flyer');
+        await generate(byPath, 'a ui button');
+        await generate(plain, 'a default picture');
+        await generate(plain, 'a ui icon', { workspace: 'ui' });
+
+        assert.deepEqual(await prompts('/w/marketing'), ['a marketing banner', 'a marketing flyer']);
+        assert.deepEqual(await prompts('', { 'X-Imagen-Workspace': 'marketing' }), ['a marketing banner', 'a marketing flyer']);
+        assert.deepEqual(await prompts('/w/ui'), ['a ui button', 'a ui icon']);
+        assert.deepEqual(await prompts(''), ['a default picture']);
+
+        const listed = await named('tools/call', { name: 'list_images', arguments: {} });
+        assert.doesNotMatch(JSON.stringify(listed.result), /a default picture|a ui button/);
+        assert.match(JSON.stringify(listed.result), /a marketing banner/);
+
+        // Marketing's image is not reachable through the default workspace or another one.
+        const filename = url.slice(url.lastIndexOf('/') + 1);
+        assert.equal((await fetch(`${server.url}/w/marketing/images/${filename}`)).status, 200);
+        assert.equal((await fetch(`${server.url}/images/${filename}`)).status, 404);
+        assert.equal((await fetch(`${server.url}/w/ui/images/${filename}`)).status, 404);
+    });
+
+    it('applies the workspace defaults', async () => {
+        const call = await mcpSession(`${server.url}/w/marketing`);
+        await generate(call, 'a wide hero image');
+        const { items: [image] } = await (await fetch(`${server.url}/w/marketing/list-images?q=wide%20hero`)).json();
+        assert.equal(image.parameters.aspectRatio, '16:9');
+        assert.deepEqual([image.width, image.height], [256, 144]);
+    });
+
+    it('refuses unknown workspaces', async () => {
+        const init = await fetch(`${server.url}/mcp`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '0', workspace: 'print' } } }),
+        });
+        const response = await init.json();
+        assert.equal(response.error.code, -32602);
+        assert.equal(response.error.message, 'Unknown workspace: print, available workspaces are: default, marketing, ui');
+
+        const byHeader = await fetch(`${server.url}/list-images`, { headers: { 'X-Imagen-Workspace': 'print' } });
+        assert.equal(byHeader.status, 404);
+        assert.equal(await byHeader.text(), 'Unknown workspace: print, available workspaces are: default, marketing, ui');
+        assert.equal((await fetch(`${server.url}/w/print/list-images`)).status, 404);
+
+        const call = await mcpSession(server.url);
+        const result = await call('tools/call', { name: 'generate_image', arguments: { prompt: 'a poster', workspace: 'print' } });
+        assert.equal(result.result.isError, true);
+        assert.equal(result.result.content[0].text, 'Unknown workspace: print, available workspaces are: default, marketing, ui');
+    });
+});
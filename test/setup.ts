@@ -0,0 +1,4 @@
+import winston from 'winston';
+
+// The code under test logs through the default winston logger; keep test output to the test results.
+winston.configure({ transports: [new winston.transports.Console({ silent: true })] });
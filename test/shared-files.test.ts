@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ImageMetadataStore, ImageRecord } from '../scripts/metadata-store';
+import { LocalStorage } from '../scripts/storage';
+import { BudgetExceededError, UsageLedger } from '../scripts/usage-ledger';
+
+// Two instances over one directory stand in for the server and a CLI command running side by side.
+describe('files shared between processes', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'shared-files-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function openStore(): Promise<{ store: ImageMetadataStore; artifacts: LocalStorage }> {
+        const artifacts = new LocalStorage(dir);
+        await artifacts.init();
+        const store = new ImageMetadataStore(dir, artifacts);
+        await store.load();
+        return { store, artifacts };
+    }
+
+    async function save(artifacts: LocalStorage, store: ImageMetadataStore, id: string, prompt: string): Promise<ImageRecord> {
+        const filename = `${id}_20260101000000.png`;
+        const data = Buffer.from(`${id} bytes`);
+        const record: ImageRecord = {
+            id, filename, prompt,
+            parameters: { sampleCount: 1 },
+            provider: 'mock',
+            model: 'mock-placeholder',
+            createdAt: new Date().toISOString(),
+            fileSize: data.length,
+            mimeType: 'image/png',
+            sha256: await artifacts.write(filename, data),
+        };
+        await store.add(record);
+        return record;
+    }
+
+    // Like removing an image in the server: the file goes, then its record.
+    async function remove(artifacts: LocalStorage, store: ImageMetadataStore, record: ImageRecord): Promise<void> {
+        await artifacts.delete(record.filename, record.sha256);
+        await store.remove(record.id);
+    }
+
+    it('keeps records another process added when removing or updating one', async () => {
+        const server = await openStore();
+        const cli = await openStore();
+        const serverImage = await save(server.artifacts, server.store, 'server-image', 'made by the server');
+        await save(cli.artifacts, cli.store, 'cli-image', 'made by the cli');
+
+        await remove(server.artifacts, server.store, serverImage);
+        await server.store.update('missing-elsewhere', { pinned: true });
+
+        const reloaded = await openStore();
+        assert.deepEqual(reloaded.store.all().map(record => [record.id, record.prompt]), [['cli-image', 'made by the cli']]);
+        assert.equal(server.store.get('cli-image')?.prompt, 'made by the cli', 'the rewrite did not pick up the other record');
+    });
+
+    it('does not bring back a record another process removed', async () => {
+        const server = await openStore();
+        const doomed = await save(server.artifacts, server.store, 'doomed', 'to be removed');
+        const cli = await openStore();
+
+        await remove(cli.artifacts, cli.store, doomed);
+        await server.store.update('doomed', { pinned: true });
+
+        const reloaded = await openStore();
+        assert.equal(reloaded.store.get('doomed'), undefined);
+    });
+
+    it('adds up usage that two ledgers record and counts it against the budget', async () => {
+        const options = { pricePerImageUsd: 1, dailyBudgetUsd: 3 };
+        const server = new UsageLedger(dir, options);
+        const cli = new UsageLedger(dir, options);
+        await server.load();
+        await cli.load();
+
+        await server.record({ client: 'server', session: 's1', provider: 'gemini', images: 1, costUsd: 1, failed: false });
+        await cli.record({ client: 'cli', session: 'none', provider: 'gemini', images: 1, costUsd: 1, failed: false });
+        await server.record({ client: 'server', session: 's1', provider: 'gemini', images: 1, costUsd: 1, failed: false });
+
+        const reloaded = new UsageLedger(dir, options);
+        await reloaded.load();
+        assert.deepEqual(reloaded.query().totals, { requests: 3, images: 3, failures: 0, costUsd: 3 });
+
+        await cli.refresh();
+        assert.throws(() => cli.reserve(1), BudgetExceededError);
+    });
+});
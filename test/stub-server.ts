@@ -0,0 +1,58 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * What a stub route answers. `hang` never answers, for timeout tests.
+ */
+export type StubReply =
+    | { status: number; headers?: Record<string, string>; body?: string }
+    | { hang: true };
+
+/**
+ * A local HTTP server that answers from a list of replies, one per request, and
+ * remembers the requests it got. The last reply repeats once the list runs out.
+ */
+export class StubServer {
+    readonly requests: StubRequest[] = [];
+    private readonly replies: StubReply[];
+    private readonly server: http.Server;
+
+    private constructor(replies: StubReply[]) {
+        this.replies = replies;
+        this.server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk));
+            req.on('end', () => {
+                this.requests.push({ method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+                const reply = this.replies[Math.min(this.requests.length, this.replies.length) - 1];
+                if ('hang' in reply) {
+                    return;
+                }
+                res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+                res.end(reply.body ?? '');
+            });
+        });
+    }
+
+    static async start(...replies: StubReply[]): Promise<StubServer> {
+        const stub = new StubServer(replies);
+        await new Promise<void>(resolve => stub.server.listen(0, '127.0.0.1', resolve));
+        return stub;
+    }
+
+    get url(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    stop(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { BudgetExceededError, BudgetOptions, UsageLedger } from '../scripts/usage-ledger';
+
+describe('UsageLedger budget caps', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function openLedger(options: Omit<BudgetOptions, 'pricePerImageUsd'>): Promise<UsageLedger> {
+        const ledger = new UsageLedger(dir, { pricePerImageUsd: 1, ...options });
+        await ledger.load();
+        return ledger;
+    }
+
+    function spend(ledger: UsageLedger, costUsd: number): Promise<void> {
+        return ledger.record({ client: 'test', session: 's1', provider: 'gemini', images: costUsd, costUsd, failed: false });
+    }
+
+    it('refuses a request that would pass the daily cap', async () => {
+        const ledger = await openLedger({ dailyBudgetUsd: 2 });
+        await spend(ledger, 1.5);
+
+        assert.throws(() => ledger.reserve(1), (e: unknown) =>
+            e instanceof BudgetExceededError && e.kind === 'quota' && /^Daily budget of \$2\.00 reached: \$1\.50 spent today/.test(e.message));
+        ledger.reserve(0.5)();
+    });
+
+    it('refuses a request that would pass the monthly cap', async () => {
+        const ledger = await openLedger({ dailyBudgetUsd: 10, monthlyBudgetUsd: 3 });
+        await spend(ledger, 2.5);
+
+        assert.throws(() => ledger.reserve(1), /Monthly budget of \$3\.00 reached/);
+    });
+
+    it('does not let concurrent reservations together pass the cap', async () => {
+        const ledger = await openLedger({ dailyBudgetUsd: 2 });
+        const first = ledger.reserve(1);
+        const second = ledger.reserve(1);
+        assert.throws(() => ledger.reserve(1), BudgetExceededError);
+
+        first();
+        // Releasing twice must not free more than was reserved.
+        first();
+        const third = ledger.reserve(1);
+        assert.throws(() => ledger.reserve(1), BudgetExceededError);
+        second();
+        third();
+    });
+
+    it('frees the reservation of a failed request, which costs nothing', async () => {
+        const ledger = await openLedger({ dailyBudgetUsd: 1 });
+        const release = ledger.reserve(1);
+        await ledger.record({ client: 'test', session: 's1', provider: 'gemini', images: 0, costUsd: 0, failed: true });
+        release();
+
+        ledger.reserve(1)();
+        assert.deepEqual(ledger.query().totals, { requests: 1, images: 0, failures: 1, costUsd: 0 });
+    });
+
+    it('leaves requests unlimited without caps', async () => {
+        const ledger = await openLedger({});
+        await spend(ledger, 1000);
+        ledger.reserve(1000)();
+    });
+});
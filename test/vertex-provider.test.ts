@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ProviderError, RequestPolicy } from '../scripts/providers/request-policy';
+import { VertexProvider } from '../scripts/providers/vertex';
+import { StubServer } from './stub-server';
+
+describe('VertexProvider service account tokens', () => {
+    let dir: string;
+
+    before(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vertex-test-'));
+    });
+
+    after(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function writeKey(tokenUri: string): Promise<string> {
+        const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const file = path.join(dir, `key-${Date.now()}.json`);
+        await fs.writeFile(file, JSON.stringify({
+            client_email: 'imagen@example.iam.gserviceaccount.com',
+            private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+            token_uri: tokenUri,
+        }));
+        return file;
+    }
+
+    it('exchanges the key for a token and sends it with predict', async () => {
+        const stub = await StubServer.start(
+            { status: 200, body: JSON.stringify({ access_token: 'token-1', expires_in: 3600 }) },
+            { status: 200, body: JSON.stringify({ predictions: [{ mimeType: 'image/png', bytesBase64Encoded: 'iVBORw0K' }] }) },
+        );
+        try {
+            const provider = new VertexProvider({
+                project: 'demo',
+                credentialsFile: await writeKey(`${stub.url}/token`),
+                baseUrl: stub.url,
+                policy: new RequestPolicy({ maxRetries: 0 }),
+            });
+            const images = await provider.generate({ prompt: 'a lighthouse', model: provider.defaultModel, parameters: { sampleCount: 1 } });
+
+            assert.equal(images.length, 1);
+            assert.equal(stub.requests[0].url, '/token');
+            assert.match(stub.requests[0].body, /grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Ajwt-bearer/);
+            assert.match(stub.requests[1].url, /\/projects\/demo\/.*:predict$/);
+            assert.equal(stub.requests[1].headers.authorization, 'Bearer token-1');
+        } finally {
+            await stub.stop();
+        }
+    });
+
+    it('times out when the token endpoint hangs', async () => {
+        const stub = await StubServer.start({ hang: true });
+        try {
+            const provider = new VertexProvider({
+                project: 'demo',
+                credentialsFile: await writeKey(`${stub.url}/token`),
+                baseUrl: stub.url,
+                policy: new RequestPolicy({ timeoutMs: 200, maxRetries: 0 }),
+            });
+            await assert.rejects(
+                provider.generate({ prompt: 'a lighthouse', model: provider.defaultModel, parameters: { sampleCount: 1 } }),
+                (e: unknown) => e instanceof ProviderError && e.kind === 'timeout',
+            );
+        } finally {
+            await stub.stop();
+        }
+    });
+
+    it('reports a rejected key as an auth error', async () => {
+        const stub = await StubServer.start({ status: 400, body: JSON.stringify({ error: 'invalid_grant', error_description: 'Invalid JWT Signature.' }) });
+        try {
+            const provider = new VertexProvider({
+                project: 'demo',
+                credentialsFile: await writeKey(`${stub.url}/token`),
+                baseUrl: stub.url,
+                policy: new RequestPolicy({ maxRetries: 0 }),
+            });
+            await assert.rejects(
+                provider.generate({ prompt: 'a lighthouse', model: provider.defaultModel, parameters: { sampleCount: 1 } }),
+                (e: unknown) => e instanceof ProviderError && e.kind === 'auth' && e.status === 400,
+            );
+        } finally {
+            await stub.stop();
+        }
+    });
+});
+
+describe('VertexProvider references', () => {
+    it('sends subject, style and control references with their configs to the capability model', async () => {
+        const stub = await StubServer.start({ status: 200, body: JSON.stringify({ predictions: [{ mimeType: 'image/png', bytesBase64Encoded: 'iVBORw0K' }] }) });
+        try {
+            const provider = new VertexProvider({ project: 'demo', accessToken: 'token-1', baseUrl: stub.url, policy: new RequestPolicy({ maxRetries: 0 }) });
+            const image = (text: string) => ({ mimeType: 'image/png', data: Buffer.from(text) });
+            await provider.generate({
+                prompt: 'a photo of [1] in the style of [2]',
+                model: provider.defaultReferenceModel,
+                parameters: { sampleCount: 1 },
+                references: [
+                    { type: 'subject', referenceId: 1, image: image('dog'), description: 'a corgi', subjectType: 'animal' },
+                    { type: 'subject', referenceId: 1, image: image('dog again') },
+                    { type: 'style', referenceId: 2, image: image('painting'), description: 'watercolour' },
+                    { type: 'control', referenceId: 3, image: image('edges'), controlType: 'scribble', computeControl: false },
+                ],
+            });
+
+            assert.match(stub.requests[0].url, /\/models\/imagen-3\.0-capability-001:predict$/);
+            assert.deepEqual(JSON.parse(stub.requests[0].body).instances, [{
+                prompt: 'a photo of [1] in the style of [2]',
+                referenceImages: [
+                    {
+                        referenceType: 'REFERENCE_TYPE_SUBJECT',
+                        referenceId: 1,
+                        referenceImage: { bytesBase64Encoded: Buffer.from('dog').toString('base64') },
+                        subjectImageConfig: { subjectDescription: 'a corgi', subjectType: 'SUBJECT_TYPE_ANIMAL' },
+                    },
+                    {
+                        referenceType: 'REFERENCE_TYPE_SUBJECT',
+                        referenceId: 1,
+                        referenceImage: { bytesBase64Encoded: Buffer.from('dog again').toString('base64') },
+                        subjectImageConfig: { subjectType: 'SUBJECT_TYPE_DEFAULT' },
+                    },
+                    {
+                        referenceType: 'REFERENCE_TYPE_STYLE',
+                        referenceId: 2,
+                        referenceImage: { bytesBase64Encoded: Buffer.from('painting').toString('base64') },
+                        styleImageConfig: { styleDescription: 'watercolour' },
+                    },
+                    {
+                        referenceType: 'REFERENCE_TYPE_CONTROL',
+                        referenceId: 3,
+                        referenceImage: { bytesBase64Encoded: Buffer.from('edges').toString('base64') },
+                        controlImageConfig: { controlType: 'CONTROL_TYPE_SCRIBBLE', enableControlImageComputation: false },
+                    },
+                ],
+            }]);
+        } finally {
+            await stub.stop();
+        }
+    });
+
+    it('leaves references out of plain generations', async () => {
+        const stub = await StubServer.start({ status: 200, body: JSON.stringify({ predictions: [{ mimeType: 'image/png', bytesBase64Encoded: 'iVBORw0K' }] }) });
+        try {
+            const provider = new VertexProvider({ project: 'demo', accessToken: 'token-1', baseUrl: stub.url, policy: new RequestPolicy({ maxRetries: 0 }) });
+            await provider.generate({ prompt: 'a lighthouse', model: provider.defaultModel, parameters: { sampleCount: 1 }, references: [] });
+            assert.deepEqual(JSON.parse(stub.requests[0].body).instances, [{ prompt: 'a lighthouse' }]);
+        } finally {
+            await stub.stop();
+        }
+    });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { EventBus } from '../scripts/events';
+import { createWebhookDispatcher, SIGNATURE_HEADER, TIMESTAMP_HEADER, WebhookDispatcher } from '../scripts/webhooks';
+import { StubReply, StubServer } from './stub-server';
+
+const SECRET = 'test-webhook-secret';
+
+describe('WebhookDispatcher', () => {
+    let dir: string;
+    let stub: StubServer | undefined;
+    let dispatcher: WebhookDispatcher | undefined;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-test-'));
+    });
+
+    afterEach(async () => {
+        dispatcher?.stop();
+        dispatcher = undefined;
+        await stub?.stop();
+        stub = undefined;
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Starts a dispatcher that posts to a stub answering with `replies`, and returns the bus to publish on.
+     */
+    async function deliverTo(maxAttempts: number, ...replies: StubReply[]): Promise<EventBus> {
+        stub = await StubServer.start(...replies);
+        dispatcher = createWebhookDispatcher({ urls: [`${stub.url}/hook`], secret: SECRET, events: [], maxAttempts, timeoutMs: 2_000 }, dir)!;
+        const bus = new EventBus();
+        dispatcher.start(bus);
+        return bus;
+    }
+
+    async function waitFor(condition: () => Promise<boolean> | boolean, timeoutMs = 5_000): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        while (!(await condition())) {
+            if (Date.now() > deadline) {
+                throw new Error('Timed out waiting for webhook deliveries');
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+
+    async function deadLetters(): Promise<any[]> {
+        const text = await fs.readFile(path.join(dir, 'webhooks-dead-letter.jsonl'), 'utf8').catch(() => '');
+        return text.split('\n').filter(line => line).map(line => JSON.parse(line));
+    }
+
+    it('signs the timestamp and body with HMAC-SHA256', async () => {
+        const bus = await deliverTo(1, { status: 204 });
+        const event = bus.publish('generation.succeeded', 'default', { image_ids: ['abc'] });
+        await waitFor(() => stub!.requests.length === 1);
+
+        const [request] = stub!.requests;
+        const timestamp = String(request.headers[TIMESTAMP_HEADER.toLowerCase()]);
+        const expected = createHmac('sha256', SECRET).update(`${timestamp}.${request.body}`).digest('hex');
+        assert.equal(request.headers[SIGNATURE_HEADER.toLowerCase()], `sha256=${expected}`);
+        assert.deepEqual(JSON.parse(request.body), event);
+        assert.equal(request.headers['x-imagen-event'], 'generation.succeeded');
+        assert.equal(request.headers['x-imagen-delivery'], event.id);
+    });
+
+    it('retries 5xx and 429 responses until one succeeds', async () => {
+        const bus = await deliverTo(3, { status: 503 }, { status: 429 }, { status: 200 });
+        bus.publish('image.deleted', 'default', { image_id: 'abc' });
+        await waitFor(() => stub!.requests.length === 3);
+
+        assert.equal(new Set(stub!.requests.map(request => request.headers['x-imagen-delivery'])).size, 1);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.deepEqual(await deadLetters(), []);
+    });
+
+    it('sends other 4xx responses to the dead-letter log without retrying', async () => {
+        const bus = await deliverTo(5, { status: 400 });
+        const event = bus.publish('generation.failed', 'default', { error: 'quota' });
+        await waitFor(async () => (await deadLetters()).length === 1);
+
+        const [entry] = await deadLetters();
+        assert.equal(stub!.requests.length, 1);
+        assert.equal(entry.url, `${stub!.url}/hook`);
+        assert.equal(entry.attempts, 1);
+        assert.equal(entry.error, 'HTTP 400');
+        assert.deepEqual(entry.event, event);
+    });
+
+    it('writes one dead-letter line per delivery that runs out of attempts', async () => {
+        const bus = await deliverTo(2, { status: 500 });
+        const first = bus.publish('generation.started', 'default', {});
+        const second = bus.publish('generation.cancelled', 'default', {});
+        await waitFor(async () => (await deadLetters()).length === 2);
+        // Every delivery is done; nothing more may arrive.
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const entries = await deadLetters();
+        assert.equal(entries.length, 2);
+        assert.equal(stub!.requests.length, 4);
+        assert.deepEqual(entries.map(entry => entry.event.id).sort(), [first.id, second.id].sort());
+        assert.ok(entries.every(entry => entry.attempts === 2 && entry.error === 'HTTP 500'));
+    });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseWorkspaces, workspacePrefix, Workspaces } from '../scripts/workspaces';
+
+function parse(raw: unknown): { workspaces: ReturnType<typeof parseWorkspaces>; problems: string[] } {
+    const problems: string[] = [];
+    const workspaces = parseWorkspaces(raw, 'config.json', problems);
+    return { workspaces, problems };
+}
+
+describe('parseWorkspaces', () => {
+    it('reads the settings of each workspace', () => {
+        assert.deepEqual(parse({
+            marketing: { aspectRatio: '16:9', style: 'product-shot', providers: 'gemini, mock', clients: ['Claude Desktop'] },
+            'game-ui_2': null,
+        }), {
+            workspaces: {
+                marketing: { aspectRatio: '16:9', style: 'product-shot', providers: ['gemini', 'mock'], clients: ['Claude Desktop'] },
+                'game-ui_2': {},
+            },
+            problems: [],
+        });
+    });
+
+    it('rejects invalid names and settings', () => {
+        const { workspaces, problems } = parse({
+            Marketing: {},
+            '../x': {},
+            '-ui': {},
+            ui: { colour: 'red', aspectRatio: 16, providers: [], clients: [1] },
+            print: { providers: ['dall-e'] },
+            list: [],
+        });
+        assert.deepEqual(problems, [
+            'Invalid workspace name "Marketing" in config.json: use lowercase letters, digits, - and _',
+            'Invalid workspace name "../x" in config.json: use lowercase letters, digits, - and _',
+            'Invalid workspace name "-ui" in config.json: use lowercase letters, digits, - and _',
+            'Unknown setting workspaces.ui.colour in config.json',
+            'Invalid workspaces.ui.aspectRatio in config.json: expected a string, got 16',
+            'Invalid workspaces.ui.clients in config.json: expected a list of strings, got [1]',
+            'Invalid workspaces.ui.providers in config.json: the list must not be empty',
+            'Invalid workspaces.print.providers in config.json: unknown provider dall-e, supported values are: gemini, vertex, openai, mock',
+            'Invalid workspaces.list in config.json: expected an object',
+        ]);
+        assert.deepEqual(Object.keys(workspaces), ['ui', 'print']);
+        assert.deepEqual(parse(['marketing']).problems, ['Invalid workspaces in config.json: expected a map of workspace names to settings']);
+    });
+
+    it('rejects a client listed in two workspaces', () => {
+        assert.deepEqual(parse({ marketing: { clients: ['Claude Desktop', 'cursor'] }, ui: { clients: 'cursor' } }).problems, [
+            'Client cursor is listed in both workspaces marketing and ui in config.json',
+        ]);
+    });
+});
+
+describe('Workspaces', () => {
+    const workspaces = new Workspaces<string>({ marketing: { clients: ['marketing-bot'] }, ui: {} });
+    workspaces.add('default', 'default service');
+    workspaces.add('marketing', 'marketing service');
+    workspaces.add('ui', 'ui service');
+
+    it('picks the workspace a client names, else the one listing the client', () => {
+        assert.equal(workspaces.forClient({ name: 'marketing-bot', version: '1', workspace: 'ui' }), 'ui service');
+        assert.equal(workspaces.forClient({ name: 'marketing-bot', version: '1' }), 'marketing service');
+        assert.equal(workspaces.forClient({ name: 'other', version: '1' }), undefined);
+        assert.equal(workspaces.forClient(undefined), undefined);
+    });
+
+    it('names the available workspaces when a client asks for an unknown one', () => {
+        assert.throws(() => workspaces.forClient({ name: 'other', version: '1', workspace: 'print' }),
+            /^Error: Unknown workspace: print, available workspaces are: default, marketing, ui$/);
+    });
+
+    it('routes the default workspace at the root and the others under /w/<name>', () => {
+        assert.equal(workspacePrefix('default'), '');
+        assert.equal(workspacePrefix('marketing'), '/w/marketing');
+        assert.equal(workspaces.enabled, true);
+    });
+});